@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview Command line interface for @writenex/astro
+ *
+ * Runs Writenex tasks outside the dev server, for CI jobs and cron.
+ *
+ * ## Commands:
+ * - `writenex publish` - Publish drafts whose `publishAt` time has passed
+ * - `writenex versions` - Report version storage per collection
+ * - `writenex versions compact` - Rewrite version histories as diffs
+ *
+ * ## Usage:
+ * ```bash
+ * npx writenex publish            # Publish due entries
+ * npx writenex publish --dry-run  # List due entries without changing them
+ * npx writenex publish --root ./site --now 2025-03-01T09:00:00Z
+ * npx writenex versions compact   # Migrate full-copy histories
+ * ```
+ *
+ * The exit code is 1 if an entry could not be published or compacted, or
+ * the configuration file has errors.
+ *
+ * @module @writenex/astro/cli
+ */
+
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { loadConfig } from "@/config/loader";
+import { discoverCollections, mergeCollections } from "@/discovery/collections";
+import { getCollectionWorkflow } from "@/core/workflow";
+import { publishScheduledContent } from "@/filesystem/schedule";
+import {
+  compactVersions,
+  getVersionStorageReport,
+  listVersionHistories,
+} from "@/filesystem/versions";
+import type { VersionHistoryConfig } from "@/types";
+
+/**
+ * Usage text printed by `--help` and for unknown commands
+ */
+const USAGE = `Usage: writenex <command> [options]
+
+Commands:
+  publish            Publish drafts whose publishAt time has passed
+  versions           Report version storage per collection
+  versions compact   Rewrite version histories as keyframes and diffs
+
+Options:
+  --root <dir>    Project root (default: current directory)
+  --now <date>    Time to compare schedules against (default: now)
+  --dry-run       List due entries without changing them
+  -h, --help      Show this help`;
+
+/**
+ * Publish the due scheduled entries of a project
+ *
+ * @param projectRoot - Absolute path to the project root
+ * @param now - Time to compare schedules against
+ * @param dryRun - Only list the due entries
+ * @returns Process exit code
+ */
+async function publish(
+  projectRoot: string,
+  now: Date,
+  dryRun: boolean
+): Promise<number> {
+  const { config, errors } = await loadConfig(projectRoot);
+  if (errors.length > 0) {
+    console.error(`Configuration file has errors:\n${errors.join("\n")}`);
+    return 1;
+  }
+
+  const discovered = await discoverCollections(projectRoot, "src/content");
+  const collections = mergeCollections(discovered, config.collections).map(
+    (collection) => {
+      const workflow =
+        collection.type !== "data" &&
+        getCollectionWorkflow(config.workflow, collection.name);
+      return workflow ? { ...collection, workflow } : collection;
+    }
+  );
+
+  const results = await publishScheduledContent({
+    projectRoot,
+    collections,
+    versionHistoryConfig:
+      config.versionHistory as Required<VersionHistoryConfig>,
+    now,
+    dryRun,
+  });
+
+  if (results.length === 0) {
+    console.log("No scheduled entries are due.");
+    return 0;
+  }
+
+  let failed = 0;
+  for (const result of results) {
+    const entry = `${result.collection}/${result.id} (scheduled ${result.publishAt})`;
+    if (dryRun) {
+      console.log(`Due: ${entry}`);
+    } else if (result.published) {
+      console.log(`Published: ${entry}`);
+    } else {
+      console.error(`Failed: ${entry}: ${result.error}`);
+      failed++;
+    }
+  }
+
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Format a byte count for the storage report
+ *
+ * @param bytes - Size in bytes
+ * @returns Human-readable size
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Report (and optionally compact) the version storage of a project
+ *
+ * @param projectRoot - Absolute path to the project root
+ * @param compact - Rewrite histories as keyframes and diffs first
+ * @returns Process exit code
+ */
+async function versions(
+  projectRoot: string,
+  compact: boolean
+): Promise<number> {
+  const { config, errors } = await loadConfig(projectRoot);
+  if (errors.length > 0) {
+    console.error(`Configuration file has errors:\n${errors.join("\n")}`);
+    return 1;
+  }
+
+  const versionConfig = config.versionHistory as Required<VersionHistoryConfig>;
+  let failed = 0;
+
+  if (compact) {
+    for (const { collection, contentId } of await listVersionHistories(
+      projectRoot,
+      versionConfig
+    )) {
+      const result = await compactVersions(
+        projectRoot,
+        collection,
+        contentId,
+        versionConfig
+      );
+      if (!result.success) {
+        console.error(`Failed: ${collection}/${contentId}: ${result.error}`);
+        failed++;
+      }
+    }
+  }
+
+  const report = await getVersionStorageReport(projectRoot, versionConfig);
+  if (report.length === 0) {
+    console.log("No version history found.");
+    return failed > 0 ? 1 : 0;
+  }
+
+  for (const collection of report) {
+    const saved =
+      collection.size > 0
+        ? Math.round((1 - collection.storedSize / collection.size) * 100)
+        : 0;
+    console.log(
+      `${collection.collection}: ${collection.versions} versions of ${collection.entries} entries ` +
+        `(${collection.keyframes} full, ${collection.deltas} diffs), ` +
+        `${formatBytes(collection.storedSize)} stored for ${formatBytes(collection.size)} (${saved}% saved)`
+    );
+  }
+
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Run the command line interface
+ *
+ * @param argv - Arguments after the executable and script
+ * @returns Process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      root: { type: "string" },
+      now: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, subcommand] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (command === "versions" && (!subcommand || subcommand === "compact")) {
+    return versions(resolve(values.root ?? "."), subcommand === "compact");
+  }
+
+  if (command !== "publish") {
+    console.error(`Unknown command '${positionals.join(" ")}'\n\n${USAGE}`);
+    return 1;
+  }
+
+  const now = values.now ? new Date(values.now) : new Date();
+  if (isNaN(now.getTime())) {
+    console.error(`Invalid date '${values.now}'`);
+    return 1;
+  }
+
+  return publish(resolve(values.root ?? "."), now, values["dry-run"]);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -7,7 +7,7 @@
  * @module @writenex/astro/client/App
  */
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Sidebar } from "./components/Sidebar";
 import {
   LazyEditor as Editor,
@@ -21,14 +21,23 @@ import { UnsavedChangesModal } from "./components/UnsavedChangesModal";
 import { Header } from "./components/Header";
 import { FrontmatterForm } from "./components/FrontmatterForm";
 import { Save, FileEdit, CheckCircle, ExternalLink } from "lucide-react";
-import type { CollectionSchema } from "../types";
+import type {
+  BatchAction,
+  CollectionSchema,
+  ContentMergeResult,
+  FrontmatterFieldError,
+  GitFileStatus,
+  MergeSource,
+} from "../types";
 import {
   useCollections,
   useContentList,
   useConfig,
+  useSession,
+  useGitStatus,
   type ContentItem,
 } from "./hooks/useApi";
-import { useSharedApi } from "./context/ApiContext";
+import { useSharedApi, useApiBase } from "./context/ApiContext";
 import {
   useAutosave,
   formatLastSaved,
@@ -38,7 +47,19 @@ import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
 import { ShortcutsHelpModal } from "./components/KeyboardShortcuts";
 import { SearchReplacePanel } from "./components/SearchReplace";
 import { useSearch } from "./hooks/useSearch";
-import { VersionHistoryPanel } from "./components/VersionHistory";
+import { VersionHistoryPanel, DiffViewer } from "./components/VersionHistory";
+import { BacklinksPanel } from "./components/BacklinksPanel";
+import { MediaLibrary } from "./components/MediaLibrary";
+import { GitPanel } from "./components/GitPanel";
+import { TimelinePanel } from "./components/TimelinePanel";
+import { WorkflowBoard, WorkflowStateSelect } from "./components/WorkflowBoard";
+import { ExternalChangeBanner } from "./components/ExternalChangeBanner";
+import { MergeConflictDialog } from "./components/MergeConflictDialog";
+import {
+  useContentEvents,
+  type ContentChangeEvent,
+  type ConfigChangeEvent,
+} from "./hooks/useContentEvents";
 import { SkipLink } from "./components/SkipLink";
 import { LiveRegion } from "./components/LiveRegion";
 import { useAnnounce } from "./hooks/useAnnounce";
@@ -162,7 +183,15 @@ const MAIN_CONTENT_ID = "wn-main-editor";
 
 export function App(): React.ReactElement {
   const api = useSharedApi();
+  const apiBase = useApiBase();
   const { config, refresh: refreshConfig } = useConfig(api);
+  const { refresh: refreshSession, can } = useSession(api);
+  const {
+    status: gitStatus,
+    loading: gitLoading,
+    error: gitError,
+    refresh: refreshGitStatus,
+  } = useGitStatus(api);
 
   // Accessibility: Live region for screen reader announcements
   const { announce, currentMessage, currentPoliteness } = useAnnounce();
@@ -199,6 +228,11 @@ export function App(): React.ReactElement {
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isFrontmatterOpen, setIsFrontmatterOpen] = useState(true);
   const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [isBacklinksOpen, setIsBacklinksOpen] = useState(false);
+  const [isMediaLibraryOpen, setIsMediaLibraryOpen] = useState(false);
+  const [isGitOpen, setIsGitOpen] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [showWorkflowBoard, setShowWorkflowBoard] = useState(false);
 
   // Unsaved changes modal state
   const [showUnsavedModal, setShowUnsavedModal] = useState(false);
@@ -209,9 +243,37 @@ export function App(): React.ReactElement {
   const [showSelectCollectionModal, setShowSelectCollectionModal] =
     useState(false);
 
+  // External change state (file modified or deleted on disk)
+  const [externalChange, setExternalChange] = useState<
+    "change" | "unlink" | null
+  >(null);
+  const [diskContent, setDiskContent] = useState<ContentItem | null>(null);
+  const [isResolvingExternal, setIsResolvingExternal] = useState(false);
+
   const contentRef = useRef<ContentItem | null>(null);
   contentRef.current = currentContent;
 
+  // Last known file mtime, used to tell our own saves apart from external edits
+  const knownMtimeRef = useRef<number | undefined>(undefined);
+
+  // Latest mtime reported on disk by the event stream
+  const diskMtimeRef = useRef<number | undefined>(undefined);
+
+  // Version last loaded from or written to disk (common ancestor for merges)
+  const baseRef = useRef<MergeSource | null>(null);
+
+  // Merge conflict state (save could not be merged automatically)
+  const [mergeConflict, setMergeConflict] = useState<ContentMergeResult | null>(
+    null
+  );
+  const [resolvedSavePending, setResolvedSavePending] = useState(false);
+  const mergeConflictRef = useRef<ContentMergeResult | null>(null);
+  mergeConflictRef.current = mergeConflict;
+  const conflictDiskRef = useRef<ContentItem | null>(null);
+
+  // Frontmatter fields rejected by the last save
+  const [fieldErrors, setFieldErrors] = useState<FrontmatterFieldError[]>([]);
+
   // Search functionality
   const getContent = useCallback(
     () => currentContent?.body ?? "",
@@ -237,10 +299,25 @@ export function App(): React.ReactElement {
   const currentSchema = currentCollection?.schema as
     | CollectionSchema
     | undefined;
+  const workflow = currentCollection?.workflow;
+  // Data entries (JSON/YAML) have no body: the form replaces the editor
+  const isDataEntry = currentCollection?.type === "data";
+
+  // Git status of the selected collection's entries, for sidebar badges
+  const collectionGitStatus = useMemo(() => {
+    const statuses: Record<string, GitFileStatus> = {};
+    for (const entry of gitStatus?.entries ?? []) {
+      if (entry.collection === selectedCollection) {
+        statuses[entry.id] = entry.status;
+      }
+    }
+    return statuses;
+  }, [gitStatus, selectedCollection]);
 
   useEffect(() => {
     refreshConfig();
-  }, [refreshConfig]);
+    refreshSession();
+  }, [refreshConfig, refreshSession]);
 
   // Sync autosave state with config when config is loaded
   useEffect(() => {
@@ -258,6 +335,11 @@ export function App(): React.ReactElement {
         .then((content) => {
           setCurrentContent(content);
           setHasUnsavedChanges(false);
+          knownMtimeRef.current = content.mtime;
+          baseRef.current = {
+            frontmatter: content.frontmatter,
+            body: content.body,
+          };
           announce("Content loaded", "polite");
         })
         .catch((err) => {
@@ -271,6 +353,10 @@ export function App(): React.ReactElement {
     } else {
       setCurrentContent(null);
     }
+    setExternalChange(null);
+    setDiskContent(null);
+    setMergeConflict(null);
+    setFieldErrors([]);
   }, [api, selectedCollection, selectedContentId, announce]);
 
   const handleSelectCollection = useCallback((name: string) => {
@@ -357,6 +443,9 @@ export function App(): React.ReactElement {
     const content = contentRef.current;
     if (!selectedCollection || !selectedContentId || !content) return false;
 
+    // Wait for the user to resolve open conflicts first
+    if (mergeConflictRef.current) return false;
+
     setSaving(true);
     try {
       const result = await api.updateContent(
@@ -365,23 +454,74 @@ export function App(): React.ReactElement {
         {
           frontmatter: content.frontmatter,
           body: content.body,
+          expectedMtime: knownMtimeRef.current,
+          base: baseRef.current ?? undefined,
         }
       );
 
       if (result.success) {
         setHasUnsavedChanges(false);
+        setFieldErrors([]);
+
+        const merged = result.merged;
+        if (!merged) {
+          knownMtimeRef.current = result.mtime ?? knownMtimeRef.current;
+          baseRef.current = {
+            frontmatter: content.frontmatter,
+            body: content.body,
+          };
+        } else if (contentRef.current === content) {
+          // Show the merged result in the editor
+          knownMtimeRef.current = result.mtime ?? knownMtimeRef.current;
+          baseRef.current = merged;
+          setCurrentContent((prev) => (prev ? { ...prev, ...merged } : null));
+          announce("Merged with changes on disk", "polite");
+        } else {
+          // Edited while saving - keep the old mtime so the next save
+          // merges these edits with the merged file on disk
+          baseRef.current = {
+            frontmatter: content.frontmatter,
+            body: content.body,
+          };
+          setHasUnsavedChanges(true);
+        }
         return true;
-      } else {
-        console.error("Failed to save:", result.error);
+      }
+
+      if (result.code === "CONTENT_CONFLICT" && result.merge) {
+        // Disk version becomes the base once conflicts are resolved
+        conflictDiskRef.current = await api.getContent(
+          selectedCollection,
+          selectedContentId
+        );
+        setMergeConflict(result.merge);
+        announce("Changes on disk conflict with yours", "assertive");
         return false;
       }
+
+      if (result.code === "CONTENT_VALIDATION_ERROR" && result.fieldErrors) {
+        // Show the errors next to the fields
+        setFieldErrors(result.fieldErrors);
+        setIsFrontmatterOpen(true);
+        announce("Some frontmatter fields are invalid", "assertive");
+        return false;
+      }
+
+      console.error("Failed to save:", result.error);
+      return false;
     } catch (err) {
       console.error("Failed to save:", err);
       return false;
     } finally {
       setSaving(false);
     }
-  }, [api, selectedCollection, selectedContentId]);
+  }, [api, selectedCollection, selectedContentId, announce]);
+
+  // Roles that cannot publish may only save entries that stay drafts
+  const canSave =
+    can("publish", selectedCollection) ||
+    (can("edit", selectedCollection) &&
+      currentContent?.frontmatter.draft === true);
 
   const {
     status: autosaveStatus,
@@ -390,13 +530,18 @@ export function App(): React.ReactElement {
     lastSaved,
   } = useAutosave({
     delay: config?.editor?.autosaveInterval ?? 3000,
-    enabled: autosaveEnabled === true && hasUnsavedChanges,
+    enabled: autosaveEnabled === true && hasUnsavedChanges && canSave,
     onSave: performSave,
     onError: (err) => {
       console.error("Autosave failed:", err);
     },
   });
 
+  // Saved entries show up as uncommitted changes
+  useEffect(() => {
+    refreshGitStatus();
+  }, [refreshGitStatus, lastSaved]);
+
   useEffect(() => {
     if (contentChanged && autosaveEnabled === true) {
       triggerAutosave();
@@ -409,6 +554,29 @@ export function App(): React.ReactElement {
     await saveNowAutosave();
   }, [hasUnsavedChanges, saveNowAutosave]);
 
+  const handleMergeResolve = useCallback((resolved: MergeSource) => {
+    const disk = conflictDiskRef.current;
+    if (disk) {
+      baseRef.current = { frontmatter: disk.frontmatter, body: disk.body };
+      knownMtimeRef.current = disk.mtime;
+    }
+    conflictDiskRef.current = null;
+
+    setCurrentContent((prev) => (prev ? { ...prev, ...resolved } : null));
+    setHasUnsavedChanges(true);
+    setMergeConflict(null);
+    setExternalChange(null);
+    setResolvedSavePending(true);
+  }, []);
+
+  // Save once the resolved content has been rendered (contentRef updated)
+  useEffect(() => {
+    if (resolvedSavePending) {
+      setResolvedSavePending(false);
+      saveNowAutosave();
+    }
+  }, [resolvedSavePending, saveNowAutosave]);
+
   const handleUnsavedSaveAndContinue = useCallback(async () => {
     setIsSavingBeforeSwitch(true);
     try {
@@ -461,10 +629,15 @@ export function App(): React.ReactElement {
             )
           : undefined;
 
-        const frontmatter: Record<string, unknown> = {
-          title,
-          draft: true,
-        };
+        // Data entries are not published; they are named by title or name
+        const frontmatter: Record<string, unknown> =
+          currentCollection?.type === "data"
+            ? currentCollection.schema &&
+              !("title" in currentCollection.schema) &&
+              "name" in currentCollection.schema
+              ? { name: title }
+              : { title }
+            : { title, draft: true };
 
         // Add date field if schema has one
         if (dateFieldName) {
@@ -480,6 +653,11 @@ export function App(): React.ReactElement {
           setShowCreateModal(false);
           await refreshContent();
           setSelectedContentId(result.id);
+        } else if (result.fieldErrors?.length) {
+          const details = result.fieldErrors
+            .map((e) => `${e.field}: ${e.message}`)
+            .join("\n");
+          alert(`Failed to create:\n${details}`);
         } else {
           alert(`Failed to create: ${result.error}`);
         }
@@ -491,7 +669,120 @@ export function App(): React.ReactElement {
         setIsCreatingContent(false);
       }
     },
-    [api, selectedCollection, currentCollection?.schema, refreshContent]
+    [
+      api,
+      selectedCollection,
+      currentCollection?.type,
+      currentCollection?.schema,
+      refreshContent,
+    ]
+  );
+
+  const handleBatchAction = useCallback(
+    async (ids: string[], action: BatchAction): Promise<boolean> => {
+      if (!selectedCollection) return false;
+
+      if (
+        hasUnsavedChanges &&
+        selectedContentId &&
+        ids.includes(selectedContentId)
+      ) {
+        alert(
+          "The open entry has unsaved changes. Save or discard them before applying a batch action to it."
+        );
+        return false;
+      }
+
+      try {
+        let result = await api.batchContent(selectedCollection, ids, action);
+
+        // Deleting entries that others link to needs a second confirmation
+        if (
+          !result.success &&
+          result.code === "CONTENT_HAS_BACKLINKS" &&
+          action.type === "delete"
+        ) {
+          const sources = [
+            ...new Set(
+              (result.backlinks ?? []).map(
+                (link) => `${link.source.collection}/${link.source.id}`
+              )
+            ),
+          ];
+          if (
+            !confirm(
+              `${result.error}:\n${sources.join("\n")}\n\nDelete anyway? These links will break.`
+            )
+          ) {
+            return false;
+          }
+          result = await api.batchContent(selectedCollection, ids, {
+            ...action,
+            force: true,
+          });
+        }
+
+        if (!result.success) {
+          if (result.fieldErrors?.length) {
+            const details = result.fieldErrors
+              .map((e) => `${e.field}: ${e.message}`)
+              .join("\n");
+            alert(
+              `Nothing was changed. ${String(result.context?.contentId ?? "An entry")} would be invalid:\n${details}`
+            );
+          } else {
+            alert(`Batch action failed: ${result.error}`);
+          }
+          announce("Batch action failed", "assertive");
+          return false;
+        }
+
+        const results = result.results ?? [];
+        const changed = results.filter((item) => item.changed).length;
+        announce(
+          `${changed} ${changed === 1 ? "entry" : "entries"} updated`,
+          "polite"
+        );
+
+        await refreshContent();
+        if (results.some((item) => item.deleted || item.newId !== item.id)) {
+          refreshCollections();
+        }
+
+        // Follow the open entry if it was moved or deleted
+        const current = results.find((item) => item.id === selectedContentId);
+        if (current?.deleted) {
+          setSelectedContentId(null);
+        } else if (current?.newId && current.newId !== current.id) {
+          setSelectedContentId(current.newId);
+        } else if (current?.changed) {
+          const content = await api.getContent(selectedCollection, current.id);
+          setCurrentContent(content);
+          knownMtimeRef.current = content.mtime;
+          baseRef.current = {
+            frontmatter: content.frontmatter,
+            body: content.body,
+          };
+          setExternalChange(null);
+        }
+
+        return true;
+      } catch (err) {
+        alert(
+          `Batch action failed: ${err instanceof Error ? err.message : "Unknown error"}`
+        );
+        return false;
+      }
+    },
+    [
+      api,
+      selectedCollection,
+      selectedContentId,
+      hasUnsavedChanges,
+      refreshContent,
+      refreshCollections,
+      announce,
+    ]
   );
 
   const handlePreview = useCallback(() => {
@@ -528,10 +819,302 @@ export function App(): React.ReactElement {
     );
   }, [currentContent]);
 
+  const handleChangeState = useCallback(
+    (state: string) => {
+      if (!workflow) return;
+
+      const published = workflow.states.some(
+        (s) => s.name === state && s.published
+      );
+      setHasUnsavedChanges(true);
+      setContentChanged(true);
+      setCurrentContent((prev) =>
+        prev
+          ? {
+              ...prev,
+              frontmatter: {
+                ...prev.frontmatter,
+                [workflow.field]: state,
+                draft: !published,
+              },
+            }
+          : null
+      );
+    },
+    [workflow]
+  );
+
+  // Move an entry on the workflow board (saved right away)
+  const handleMoveState = useCallback(
+    async (id: string, state: string): Promise<boolean> => {
+      if (!selectedCollection || !workflow) return false;
+
+      if (hasUnsavedChanges && id === selectedContentId) {
+        alert(
+          "The open entry has unsaved changes. Save or discard them before moving it."
+        );
+        return false;
+      }
+
+      const result = await api.updateContent(selectedCollection, id, {
+        frontmatter: { [workflow.field]: state },
+      });
+      if (!result.success) {
+        alert(`Could not move the entry: ${result.error}`);
+        announce("Could not move the entry", "assertive");
+        return false;
+      }
+
+      const label =
+        workflow.states.find((s) => s.name === state)?.label ?? state;
+      announce(`Moved to ${label}`, "polite");
+      await refreshContent();
+
+      if (id === selectedContentId) {
+        const content = await api.getContent(selectedCollection, id);
+        setCurrentContent(content);
+        knownMtimeRef.current = content.mtime;
+        baseRef.current = {
+          frontmatter: content.frontmatter,
+          body: content.body,
+        };
+        setExternalChange(null);
+      }
+
+      return true;
+    },
+    [
+      api,
+      selectedCollection,
+      selectedContentId,
+      workflow,
+      hasUnsavedChanges,
+      refreshContent,
+      announce,
+    ]
+  );
+
+  const handleContentEvent = useCallback(
+    (event: ContentChangeEvent) => {
+      // Collection counts only change when files are added or removed
+      if (event.type !== "change") {
+        refreshCollections();
+      }
+      refreshGitStatus();
+
+      if (event.collection !== selectedCollection) return;
+      refreshContent();
+
+      if (event.contentId !== selectedContentId) return;
+      diskMtimeRef.current = event.mtime;
+
+      // Ignore events caused by our own saves (mtime already known)
+      const knownMtime = knownMtimeRef.current;
+      if (
+        event.type !== "unlink" &&
+        knownMtime !== undefined &&
+        event.mtime !== undefined &&
+        event.mtime - knownMtime <= 1
+      ) {
+        return;
+      }
+
+      setExternalChange(event.type === "unlink" ? "unlink" : "change");
+      announce(
+        event.type === "unlink"
+          ? "This file was deleted on disk"
+          : "This file changed on disk",
+        "assertive"
+      );
+    },
+    [
+      selectedCollection,
+      selectedContentId,
+      refreshCollections,
+      refreshContent,
+      refreshGitStatus,
+      announce,
+    ]
+  );
+
+  const handleConfigEvent = useCallback(
+    (event: ConfigChangeEvent) => {
+      refreshConfig();
+      refreshSession();
+      if (event.status === "invalid") {
+        announce(
+          "The configuration file has errors; the previous configuration is still in use",
+          "assertive"
+        );
+        return;
+      }
+      refreshCollections();
+      announce("Configuration reloaded", "polite");
+    },
+    [refreshConfig, refreshSession, refreshCollections, announce]
+  );
+
+  useContentEvents(apiBase, handleContentEvent, handleConfigEvent);
+
+  const handleExternalReload = useCallback(async () => {
+    if (!selectedCollection || !selectedContentId) return;
+
+    setIsResolvingExternal(true);
+    try {
+      const content = await api.getContent(
+        selectedCollection,
+        selectedContentId
+      );
+      setCurrentContent(content);
+      setHasUnsavedChanges(false);
+      knownMtimeRef.current = content.mtime;
+      baseRef.current = {
+        frontmatter: content.frontmatter,
+        body: content.body,
+      };
+      setExternalChange(null);
+      setDiskContent(null);
+      announce("Content reloaded from disk", "polite");
+    } catch (err) {
+      console.error("Failed to reload content:", err);
+      announce("Failed to reload content", "assertive");
+    } finally {
+      setIsResolvingExternal(false);
+    }
+  }, [api, selectedCollection, selectedContentId, announce]);
+
+  const handleExternalDiff = useCallback(async () => {
+    if (!selectedCollection || !selectedContentId) return;
+
+    setIsResolvingExternal(true);
+    try {
+      const content = await api.getContent(
+        selectedCollection,
+        selectedContentId
+      );
+      setDiskContent(content);
+    } catch (err) {
+      console.error("Failed to load disk version:", err);
+      announce("Failed to load disk version", "assertive");
+    } finally {
+      setIsResolvingExternal(false);
+    }
+  }, [api, selectedCollection, selectedContentId, announce]);
+
+  const handleExternalKeepMine = useCallback(async () => {
+    const content = contentRef.current;
+    if (!selectedCollection || !selectedContentId || !content) return;
+
+    // File was deleted on disk - write our copy back under the same slug
+    if (externalChange === "unlink") {
+      setIsResolvingExternal(true);
+      try {
+        const result = await api.createContent(selectedCollection, {
+          frontmatter: content.frontmatter,
+          body: content.body,
+          slug: selectedContentId,
+        });
+        if (!result.success) {
+          alert(`Failed to restore file: ${result.error}`);
+          return;
+        }
+        const restored = await api.getContent(
+          selectedCollection,
+          selectedContentId
+        );
+        knownMtimeRef.current = restored.mtime;
+        baseRef.current = {
+          frontmatter: restored.frontmatter,
+          body: restored.body,
+        };
+        setHasUnsavedChanges(false);
+        setExternalChange(null);
+        setDiskContent(null);
+        refreshContent();
+      } catch (err) {
+        alert(
+          `Failed to restore file: ${err instanceof Error ? err.message : "Unknown error"}`
+        );
+      } finally {
+        setIsResolvingExternal(false);
+      }
+      return;
+    }
+
+    // Accept the disk mtime and mark our copy as dirty so the next save
+    // overwrites the disk version instead of merging with it
+    knownMtimeRef.current = diskMtimeRef.current ?? knownMtimeRef.current;
+    setExternalChange(null);
+    setDiskContent(null);
+    setHasUnsavedChanges(true);
+    setContentChanged(true);
+  }, [
+    api,
+    selectedCollection,
+    selectedContentId,
+    externalChange,
+    refreshContent,
+  ]);
+
   const handleToggleVersionHistory = useCallback(() => {
     setIsVersionHistoryOpen((prev) => !prev);
+    setIsBacklinksOpen(false);
+    setIsMediaLibraryOpen(false);
+    setIsGitOpen(false);
+    setIsTimelineOpen(false);
   }, []);
 
+  const handleToggleBacklinks = useCallback(() => {
+    setIsBacklinksOpen((prev) => !prev);
+    setIsVersionHistoryOpen(false);
+    setIsMediaLibraryOpen(false);
+    setIsGitOpen(false);
+    setIsTimelineOpen(false);
+  }, []);
+
+  const handleToggleMediaLibrary = useCallback(() => {
+    setIsMediaLibraryOpen((prev) => !prev);
+    setIsVersionHistoryOpen(false);
+    setIsBacklinksOpen(false);
+    setIsGitOpen(false);
+    setIsTimelineOpen(false);
+  }, []);
+
+  const handleToggleGit = useCallback(() => {
+    setIsGitOpen((prev) => !prev);
+    setIsVersionHistoryOpen(false);
+    setIsBacklinksOpen(false);
+    setIsMediaLibraryOpen(false);
+    setIsTimelineOpen(false);
+  }, []);
+
+  const handleToggleTimeline = useCallback(() => {
+    setIsTimelineOpen((prev) => !prev);
+    setIsVersionHistoryOpen(false);
+    setIsBacklinksOpen(false);
+    setIsMediaLibraryOpen(false);
+    setIsGitOpen(false);
+  }, []);
+
+  // Open an entry that links to the current one
+  const handleOpenLinkedEntry = useCallback(
+    (collection: string, id: string) => {
+      if (collection === selectedCollection) {
+        handleSelectContent(id);
+        return;
+      }
+      if (hasUnsavedChanges) {
+        alert(
+          "The open entry has unsaved changes. Save or discard them before opening another collection."
+        );
+        return;
+      }
+      setSelectedCollection(collection);
+      setSelectedContentId(id);
+    },
+    [selectedCollection, hasUnsavedChanges, handleSelectContent]
+  );
+
   const handleVersionRestore = useCallback((content: string) => {
     // Parse the restored content to extract frontmatter and body
     // The content is raw markdown with frontmatter
@@ -600,7 +1183,7 @@ export function App(): React.ReactElement {
         keys: "s",
         ctrl: true,
         handler: handleSave,
-        enabled: hasUnsavedChanges,
+        enabled: hasUnsavedChanges && canSave,
       },
       {
         key: "new",
@@ -708,11 +1291,36 @@ export function App(): React.ReactElement {
         isLoading={collectionsLoading}
       />
 
+      {diskContent && currentContent && (
+        <DiffViewer
+          oldContent={diskContent.body}
+          newContent={currentContent.body}
+          oldLabel="On disk"
+          newLabel="Yours"
+          title="Changes on Disk"
+          onClose={() => setDiskContent(null)}
+        />
+      )}
+
+      {mergeConflict && (
+        <MergeConflictDialog
+          merge={mergeConflict}
+          onResolve={handleMergeResolve}
+          onClose={() => setMergeConflict(null)}
+        />
+      )}
+
       <ConfigPanel
         config={config}
         collections={collections}
         isOpen={showConfigPanel}
         onClose={() => setShowConfigPanel(false)}
+        onConfigSaved={() => {
+          refreshConfig();
+          refreshSession();
+          refreshCollections();
+        }}
+        canEdit={can("editConfig")}
       />
 
       {/* Main Header with Logo and Toolbar */}
@@ -726,6 +1334,17 @@ export function App(): React.ReactElement {
         isVersionHistoryOpen={isVersionHistoryOpen}
         onToggleVersionHistory={handleToggleVersionHistory}
         versionHistoryEnabled={!!currentContent}
+        isBacklinksOpen={isBacklinksOpen}
+        onToggleBacklinks={handleToggleBacklinks}
+        isMediaLibraryOpen={isMediaLibraryOpen}
+        onToggleMediaLibrary={handleToggleMediaLibrary}
+        isGitOpen={isGitOpen}
+        onToggleGit={handleToggleGit}
+        isTimelineOpen={isTimelineOpen}
+        onToggleTimeline={handleToggleTimeline}
+        onOpenWorkflowBoard={
+          workflow ? () => setShowWorkflowBoard(true) : undefined
+        }
         onKeyboardShortcuts={toggleHelp}
         onSettings={() => setShowConfigPanel(true)}
         onNewContent={handleNewContentShortcut}
@@ -757,29 +1376,42 @@ export function App(): React.ReactElement {
               announce={announce}
             />
             <div className="wn-content-bar-separator" aria-hidden="true" />
-            <button
-              className={`wn-btn-secondary ${
-                currentContent.frontmatter.draft
-                  ? "wn-btn-draft"
-                  : "wn-btn-published"
-              }`}
-              onClick={handleToggleDraft}
-              title={
-                currentContent.frontmatter.draft
-                  ? "Publish this content"
-                  : "Set as draft"
-              }
-            >
-              {currentContent.frontmatter.draft ? (
-                <>
-                  <FileEdit size={14} /> Draft
-                </>
-              ) : (
-                <>
-                  <CheckCircle size={14} /> Published
-                </>
-              )}
-            </button>
+            {isDataEntry ? null : workflow ? (
+              <WorkflowStateSelect
+                workflow={workflow}
+                frontmatter={currentContent.frontmatter}
+                canPublish={can("publish", selectedCollection)}
+                disabled={!can("edit", selectedCollection)}
+                onChange={handleChangeState}
+              />
+            ) : (
+              <button
+                className={`wn-btn-secondary ${
+                  currentContent.frontmatter.draft
+                    ? "wn-btn-draft"
+                    : "wn-btn-published"
+                }`}
+                onClick={handleToggleDraft}
+                disabled={!can("publish", selectedCollection)}
+                title={
+                  !can("publish", selectedCollection)
+                    ? "Your role cannot publish or unpublish content"
+                    : currentContent.frontmatter.draft
+                      ? "Publish this content"
+                      : "Set as draft"
+                }
+              >
+                {currentContent.frontmatter.draft ? (
+                  <>
+                    <FileEdit size={14} /> Draft
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle size={14} /> Published
+                  </>
+                )}
+              </button>
+            )}
             {currentCollection?.previewUrl &&
               selectedContentId &&
               !currentContent.frontmatter.draft && (
@@ -803,7 +1435,10 @@ export function App(): React.ReactElement {
             <button
               className="wn-btn-primary"
               onClick={handleSave}
-              disabled={!hasUnsavedChanges || saving}
+              disabled={!hasUnsavedChanges || saving || !canSave}
+              title={
+                canSave ? undefined : "Your role can only edit drafts here"
+              }
             >
               <Save size={14} />
               {saving ? "Saving..." : "Save"}
@@ -826,9 +1461,17 @@ export function App(): React.ReactElement {
           contentLoading={contentLoading}
           selectedContent={selectedContentId}
           onSelectContent={handleSelectContent}
-          onCreateContent={handleOpenCreateModal}
+          onCreateContent={
+            can("create", selectedCollection)
+              ? handleOpenCreateModal
+              : undefined
+          }
           onRefreshCollections={refreshCollections}
           onRefreshContent={refreshContent}
+          onBatchAction={
+            can("batch", selectedCollection) ? handleBatchAction : undefined
+          }
+          gitStatus={collectionGitStatus}
         />
 
         {/* Center: Editor */}
@@ -840,7 +1483,7 @@ export function App(): React.ReactElement {
           aria-busy={contentLoadingState}
         >
           {/* Search Panel - rendered outside editor wrapper for proper positioning */}
-          {currentContent && (
+          {currentContent && !isDataEntry && (
             <SearchReplacePanel
               isOpen={isSearchOpen}
               onClose={closeSearch}
@@ -853,8 +1496,31 @@ export function App(): React.ReactElement {
               totalMatches={totalMatches}
             />
           )}
+          {currentContent && externalChange && !contentLoadingState && (
+            <ExternalChangeBanner
+              changeType={externalChange}
+              hasUnsavedChanges={hasUnsavedChanges}
+              onReload={handleExternalReload}
+              onDiff={handleExternalDiff}
+              onKeepMine={handleExternalKeepMine}
+              isBusy={isResolvingExternal}
+            />
+          )}
           {contentLoadingState ? (
             <EditorLoading />
+          ) : currentContent && isDataEntry ? (
+            <FrontmatterForm
+              isOpen
+              standalone
+              onClose={() => undefined}
+              frontmatter={currentContent.frontmatter}
+              schema={currentSchema}
+              onChange={handleFrontmatterChange}
+              onImageUpload={handleImageUpload}
+              collection={selectedCollection ?? undefined}
+              contentId={selectedContentId ?? undefined}
+              errors={fieldErrors}
+            />
           ) : currentContent ? (
             <div className="wn-editor-wrapper">
               <Editor
@@ -866,6 +1532,8 @@ export function App(): React.ReactElement {
                 contentId={selectedContentId ?? undefined}
                 searchQuery={searchQuery}
                 searchActiveIndex={searchActiveIndex}
+                mdx={currentContent.path.endsWith(".mdx")}
+                components={config?.components}
               />
             </div>
           ) : (
@@ -875,7 +1543,7 @@ export function App(): React.ReactElement {
 
         {/* Right: Frontmatter Panel */}
         <FrontmatterForm
-          isOpen={isFrontmatterOpen}
+          isOpen={isFrontmatterOpen && !isDataEntry}
           onClose={() => setIsFrontmatterOpen(false)}
           frontmatter={currentContent?.frontmatter ?? null}
           schema={currentSchema}
@@ -883,6 +1551,8 @@ export function App(): React.ReactElement {
           onImageUpload={handleImageUpload}
           collection={selectedCollection ?? undefined}
           contentId={selectedContentId ?? undefined}
+          errors={fieldErrors}
+          canSchedule={can("publish", selectedCollection)}
         />
 
         {/* Version History Panel */}
@@ -893,6 +1563,73 @@ export function App(): React.ReactElement {
           contentId={selectedContentId}
           currentContent={currentContent?.body ?? ""}
           onRestore={handleVersionRestore}
+          canRestore={can("restoreVersions", selectedCollection)}
+          canDelete={can("deleteVersions", selectedCollection)}
+          canPin={can("edit", selectedCollection)}
+        />
+
+        {/* Backlinks Panel */}
+        <BacklinksPanel
+          isOpen={isBacklinksOpen}
+          onClose={() => setIsBacklinksOpen(false)}
+          collection={selectedCollection}
+          contentId={selectedContentId}
+          revision={lastSaved?.getTime()}
+          onSelectEntry={handleOpenLinkedEntry}
+        />
+
+        {/* Media Library Panel */}
+        <MediaLibrary
+          isOpen={isMediaLibraryOpen}
+          onClose={() => setIsMediaLibraryOpen(false)}
+          revision={lastSaved?.getTime()}
+          onSelectEntry={handleOpenLinkedEntry}
+        />
+
+        {/* Workflow Board */}
+        {showWorkflowBoard && workflow && selectedCollection && (
+          <WorkflowBoard
+            collection={selectedCollection}
+            workflow={workflow}
+            items={contentItems}
+            canPublish={can("publish", selectedCollection)}
+            canEdit={can("edit", selectedCollection)}
+            onMove={handleMoveState}
+            onOpenEntry={(id) => {
+              setShowWorkflowBoard(false);
+              handleSelectContent(id);
+            }}
+            onClose={() => setShowWorkflowBoard(false)}
+          />
+        )}
+
+        {/* Git Panel */}
+        <GitPanel
+          isOpen={isGitOpen}
+          onClose={() => setIsGitOpen(false)}
+          status={gitStatus}
+          loading={gitLoading}
+          error={gitError}
+          onRefresh={refreshGitStatus}
+          currentEntry={
+            selectedCollection && selectedContentId
+              ? { collection: selectedCollection, id: selectedContentId }
+              : null
+          }
+          canCommit={(collection) => can("commit", collection)}
+          onSelectEntry={handleOpenLinkedEntry}
+          announce={announce}
+        />
+
+        {/* Timeline and Trash Panel */}
+        <TimelinePanel
+          isOpen={isTimelineOpen}
+          onClose={() => setIsTimelineOpen(false)}
+          revision={lastSaved?.getTime()}
+          canRestore={(collection) => can("restoreVersions", collection)}
+          canDelete={(collection) => can("deleteVersions", collection)}
+          onSelectEntry={handleOpenLinkedEntry}
+          announce={announce}
         />
       </div>
     </div>
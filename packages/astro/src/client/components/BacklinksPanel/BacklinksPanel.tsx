@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Backlinks Panel component
+ *
+ * Slide-in panel listing the entries that link to the open content item,
+ * and the broken links found in it. Selecting a backlink opens the entry
+ * that contains it.
+ *
+ * @module @writenex/astro/client/components/BacklinksPanel
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  X,
+  Link2,
+  RefreshCw,
+  Loader2,
+  AlertTriangle,
+  FileText,
+} from "lucide-react";
+import type { ContentLink } from "../../../types";
+import { useSharedApi } from "../../context/ApiContext";
+import "./BacklinksPanel.css";
+
+/**
+ * Props for the BacklinksPanel component
+ */
+interface BacklinksPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Callback to close the panel */
+  onClose: () => void;
+  /** Collection name */
+  collection: string | null;
+  /** Content ID (slug) */
+  contentId: string | null;
+  /** Changes whenever the content is saved, to refetch the links */
+  revision?: number;
+  /** Callback when a linking entry is selected */
+  onSelectEntry: (collection: string, id: string) => void;
+}
+
+/**
+ * Describe where a link was found
+ */
+function describeLink(link: ContentLink): string {
+  if (link.kind === "reference") return `Field "${link.field}"`;
+  if (link.field) return `Image field "${link.field}"`;
+  return link.kind === "image" ? `Image ${link.url}` : `Link ${link.url}`;
+}
+
+/**
+ * Labels for broken link reasons
+ */
+const REASON_LABELS: Record<NonNullable<ContentLink["reason"]>, string> = {
+  "missing-entry": "Entry not found",
+  "missing-image": "Image not found",
+  "missing-file": "File not found",
+};
+
+/**
+ * Backlinks Panel component
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <BacklinksPanel
+ *   isOpen={showBacklinks}
+ *   onClose={() => setShowBacklinks(false)}
+ *   collection="blog"
+ *   contentId="my-post"
+ *   onSelectEntry={handleOpenEntry}
+ * />
+ * ```
+ */
+export function BacklinksPanel({
+  isOpen,
+  onClose,
+  collection,
+  contentId,
+  revision,
+  onSelectEntry,
+}: BacklinksPanelProps): React.ReactElement | null {
+  const api = useSharedApi();
+  const [backlinks, setBacklinks] = useState<ContentLink[]>([]);
+  const [broken, setBroken] = useState<ContentLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!collection || !contentId) {
+      setBacklinks([]);
+      setBroken([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await api.getLinks(collection, contentId);
+      setBacklinks(data.backlinks);
+      setBroken(data.outbound.filter((link) => link.broken));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch links");
+    } finally {
+      setLoading(false);
+    }
+  }, [api, collection, contentId]);
+
+  // Fetch links when panel opens or the content changes
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, revision, refresh]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="wn-backlinks-panel" aria-label="Backlinks">
+      {/* Header */}
+      <div className="wn-backlinks-panel-header">
+        <h2 className="wn-backlinks-panel-title">
+          <Link2 size={16} />
+          Backlinks
+        </h2>
+        <div className="wn-backlinks-panel-actions">
+          <button
+            className="wn-backlinks-panel-btn"
+            onClick={() => refresh()}
+            disabled={loading}
+            title="Refresh"
+            aria-label="Refresh backlinks"
+          >
+            <RefreshCw size={14} className={loading ? "wn-spin" : ""} />
+          </button>
+          <button
+            className="wn-backlinks-panel-btn"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close backlinks panel"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="wn-backlinks-panel-content">
+        {loading && backlinks.length === 0 && broken.length === 0 ? (
+          <div className="wn-backlinks-panel-message">
+            <Loader2 size={24} className="wn-spin" />
+            <span>Loading links...</span>
+          </div>
+        ) : error ? (
+          <div className="wn-backlinks-panel-message wn-backlinks-panel-message--error">
+            <span>{error}</span>
+            <button onClick={() => refresh()}>Retry</button>
+          </div>
+        ) : (
+          <>
+            {backlinks.length === 0 ? (
+              <div className="wn-backlinks-panel-message">
+                <Link2 size={32} />
+                <span>No other entries link here</span>
+              </div>
+            ) : (
+              <ul className="wn-backlinks-list">
+                {backlinks.map((link, index) => (
+                  <li
+                    key={`${link.source.collection}/${link.source.id}/${index}`}
+                  >
+                    <button
+                      className="wn-backlinks-item"
+                      onClick={() =>
+                        onSelectEntry(link.source.collection, link.source.id)
+                      }
+                    >
+                      <span className="wn-backlinks-item-source">
+                        <FileText size={12} />
+                        {link.source.collection}/{link.source.id}
+                      </span>
+                      <span className="wn-backlinks-item-detail">
+                        {describeLink(link)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {broken.length > 0 && (
+              <section className="wn-backlinks-broken">
+                <h3 className="wn-backlinks-broken-title">
+                  <AlertTriangle size={14} />
+                  Broken links in this entry
+                </h3>
+                <ul className="wn-backlinks-list">
+                  {broken.map((link, index) => (
+                    <li
+                      key={`${link.url}/${index}`}
+                      className="wn-backlinks-item wn-backlinks-item--broken"
+                    >
+                      <span className="wn-backlinks-item-source">
+                        {describeLink(link)}
+                      </span>
+                      {link.reason && (
+                        <span className="wn-backlinks-item-detail">
+                          {REASON_LABELS[link.reason]}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview BacklinksPanel component exports
+ *
+ * @module @writenex/astro/client/components/BacklinksPanel
+ */
+
+export { BacklinksPanel } from "./BacklinksPanel";
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Batch actions toolbar
+ *
+ * Toolbar shown in the sidebar while several content items are selected.
+ * Lets the user pick one change (publish, unpublish, set a field, add or
+ * remove tags, move to a category, delete) and apply it to all of them.
+ *
+ * @module @writenex/astro/client/components/BatchActions
+ */
+
+import { useCallback, useState } from "react";
+import { X } from "lucide-react";
+import type { BatchAction } from "../../../types";
+import "./BatchActions.css";
+
+/**
+ * Action types offered in the toolbar
+ */
+type BatchActionType = BatchAction["type"];
+
+/**
+ * Labels for the action select
+ */
+const ACTION_LABELS: Record<BatchActionType, string> = {
+  publish: "Publish",
+  unpublish: "Unpublish",
+  set: "Set field",
+  addTags: "Add tags",
+  removeTags: "Remove tags",
+  move: "Move to category",
+  delete: "Delete",
+};
+
+/**
+ * Props for BatchActions component
+ */
+interface BatchActionsProps {
+  /** Number of selected items */
+  selectedCount: number;
+  /** Number of items that can be selected */
+  totalCount: number;
+  /** Callback to select every visible item */
+  onSelectAll: () => void;
+  /** Callback to clear the selection */
+  onClearSelection: () => void;
+  /** Callback to leave selection mode */
+  onClose: () => void;
+  /** Callback to apply an action to the selected items */
+  onApply: (action: BatchAction) => void;
+  /** Whether an action is being applied */
+  isBusy?: boolean;
+}
+
+/**
+ * Parse a field value typed by the user
+ *
+ * Empty input removes the field; "true", "false" and numbers are stored
+ * as booleans and numbers, anything else as text.
+ */
+function parseFieldValue(input: string): unknown {
+  const value = input.trim();
+  if (value === "") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return input;
+}
+
+/**
+ * Split a comma-separated tag list
+ */
+function parseTags(input: string): string[] {
+  return input
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Toolbar for applying one change to several content items
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <BatchActions
+ *   selectedCount={selectedIds.size}
+ *   totalCount={filteredItems.length}
+ *   onSelectAll={selectAll}
+ *   onClearSelection={clearSelection}
+ *   onClose={exitSelectionMode}
+ *   onApply={(action) => onBatchAction([...selectedIds], action)}
+ * />
+ * ```
+ */
+export function BatchActions({
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onClearSelection,
+  onClose,
+  onApply,
+  isBusy = false,
+}: BatchActionsProps): React.ReactElement {
+  const [type, setType] = useState<BatchActionType>("publish");
+  const [field, setField] = useState("");
+  const [value, setValue] = useState("");
+  const [tags, setTags] = useState("");
+  const [category, setCategory] = useState("");
+
+  const buildAction = useCallback((): BatchAction | null => {
+    switch (type) {
+      case "set":
+        return field.trim()
+          ? { type, field: field.trim(), value: parseFieldValue(value) }
+          : null;
+      case "addTags":
+      case "removeTags": {
+        const list = parseTags(tags);
+        return list.length > 0 ? { type, tags: list } : null;
+      }
+      case "move":
+        return category.trim() ? { type, category: category.trim() } : null;
+      default:
+        return { type };
+    }
+  }, [type, field, value, tags, category]);
+
+  const action = buildAction();
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!action || selectedCount === 0) return;
+
+      if (
+        action.type === "delete" &&
+        !confirm(
+          `Delete ${selectedCount} ${selectedCount === 1 ? "entry" : "entries"}? Version history is kept.`
+        )
+      ) {
+        return;
+      }
+
+      onApply(action);
+    },
+    [action, selectedCount, onApply]
+  );
+
+  const allSelected = selectedCount > 0 && selectedCount === totalCount;
+
+  return (
+    <form
+      className="wn-batch-actions"
+      role="toolbar"
+      aria-label="Batch actions"
+      onSubmit={handleSubmit}
+    >
+      <div className="wn-batch-actions-header">
+        <span className="wn-batch-actions-count" aria-live="polite">
+          {selectedCount} selected
+        </span>
+        <button
+          type="button"
+          className="wn-batch-actions-link"
+          onClick={allSelected ? onClearSelection : onSelectAll}
+        >
+          {allSelected ? "Select none" : "Select all"}
+        </button>
+        <button
+          type="button"
+          className="wn-batch-actions-close"
+          onClick={onClose}
+          title="Exit selection"
+          aria-label="Exit selection"
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="wn-batch-actions-form">
+        <select
+          className="wn-batch-actions-input"
+          value={type}
+          onChange={(e) => setType(e.target.value as BatchActionType)}
+          aria-label="Action"
+        >
+          {(Object.keys(ACTION_LABELS) as BatchActionType[]).map((key) => (
+            <option key={key} value={key}>
+              {ACTION_LABELS[key]}
+            </option>
+          ))}
+        </select>
+
+        {type === "set" && (
+          <>
+            <input
+              type="text"
+              className="wn-batch-actions-input"
+              placeholder="Field name"
+              value={field}
+              onChange={(e) => setField(e.target.value)}
+              aria-label="Field name"
+            />
+            <input
+              type="text"
+              className="wn-batch-actions-input"
+              placeholder="Value (empty removes the field)"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              aria-label="Field value"
+            />
+          </>
+        )}
+
+        {(type === "addTags" || type === "removeTags") && (
+          <input
+            type="text"
+            className="wn-batch-actions-input"
+            placeholder="Tags, separated by commas"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            aria-label="Tags"
+          />
+        )}
+
+        {type === "move" && (
+          <input
+            type="text"
+            className="wn-batch-actions-input"
+            placeholder="Category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            aria-label="Category"
+          />
+        )}
+
+        <button
+          type="submit"
+          className={`wn-batch-actions-apply ${type === "delete" ? "wn-batch-actions-apply--danger" : ""}`}
+          disabled={!action || selectedCount === 0 || isBusy}
+        >
+          {isBusy ? "Applying..." : "Apply"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview BatchActions component exports
+ *
+ * @module @writenex/astro/client/components/BatchActions
+ */
+
+export { BatchActions } from "./BatchActions";
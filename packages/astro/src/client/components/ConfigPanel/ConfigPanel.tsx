@@ -3,7 +3,8 @@
  *
  * Modal component displaying Writenex Astro configuration settings,
  * including image settings, editor settings, and discovered collections.
- * Includes focus trap for accessibility compliance.
+ * Settings and configured collections can be edited and saved back to
+ * the configuration file. Includes focus trap for accessibility compliance.
  *
  * @module @writenex/astro/client/components/ConfigPanel
  */
@@ -19,9 +20,19 @@ import {
   Copy,
   Check,
   ChevronDown,
+  Pencil,
+  Plus,
+  Trash2,
+  Loader2,
+  AlertTriangle,
 } from "lucide-react";
 import { useFocusTrap } from "../../hooks/useFocusTrap";
 import type { Collection, WritenexClientConfig } from "../../hooks/useApi";
+import type {
+  CollectionConfig,
+  ImageConfig,
+  WritenexConfig,
+} from "../../../types";
 import { useSharedApi } from "../../context/ApiContext";
 import {
   openInEditor,
@@ -44,6 +55,19 @@ interface ConfigPanelProps {
   isOpen: boolean;
   /** Callback to close the modal */
   onClose: () => void;
+  /** Callback after the configuration was saved */
+  onConfigSaved?: () => void;
+  /** Whether the user may edit the configuration (default: true) */
+  canEdit?: boolean;
+}
+
+/**
+ * Remove empty optional values so they are not written to the file
+ */
+function withoutEmpty<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== "" && v !== undefined)
+  ) as T;
 }
 
 /**
@@ -57,6 +81,7 @@ interface ConfigPanelProps {
  *   collections={collections}
  *   isOpen={showConfig}
  *   onClose={() => setShowConfig(false)}
+ *   onConfigSaved={refreshConfig}
  * />
  * ```
  */
@@ -65,6 +90,8 @@ export function ConfigPanel({
   collections,
   isOpen,
   onClose,
+  onConfigSaved,
+  canEdit = true,
 }: ConfigPanelProps): React.ReactElement | null {
   const api = useSharedApi();
   const triggerRef = useRef<HTMLElement | null>(null);
@@ -74,21 +101,27 @@ export function ConfigPanel({
   const [selectedEditor, setSelectedEditor] =
     useState<EditorType>(getPreferredEditor());
   const [showEditorDropdown, setShowEditorDropdown] = useState(false);
+  const [draft, setDraft] = useState<WritenexConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
-  // Fetch config path when modal opens
+  // Fetch config path when modal opens, leave edit mode when it closes
   useEffect(() => {
-    if (isOpen) {
-      api
-        .getConfigPath()
-        .then((data) => {
-          setConfigPath(data.configPath);
-          setHasConfigFile(data.hasConfigFile);
-        })
-        .catch(() => {
-          setConfigPath(null);
-          setHasConfigFile(false);
-        });
+    if (!isOpen) {
+      setDraft(null);
+      setSaveError(null);
+      return;
     }
+    api
+      .getConfigPath()
+      .then((data) => {
+        setConfigPath(data.configPath);
+        setHasConfigFile(data.hasConfigFile);
+      })
+      .catch(() => {
+        setConfigPath(null);
+        setHasConfigFile(false);
+      });
   }, [isOpen, api]);
 
   // Store the trigger element when modal opens
@@ -127,6 +160,37 @@ export function ConfigPanel({
     setShowEditorDropdown(false);
   }, []);
 
+  const handleStartEditing = useCallback(() => {
+    setDraft(structuredClone(config?.userConfig ?? {}));
+    setSaveError(null);
+  }, [config]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const result = await api.updateConfig(draft);
+      if (!result.success) {
+        setSaveError(result.error ?? "Failed to save configuration");
+        return;
+      }
+      if (result.configPath) {
+        setConfigPath(result.configPath);
+        setHasConfigFile(true);
+      }
+      setDraft(null);
+      onConfigSaved?.();
+    } catch (err) {
+      setSaveError(
+        err instanceof Error ? err.message : "Failed to save configuration"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }, [api, draft, onConfigSaved]);
+
   if (!isOpen) return null;
 
   const handleOverlayClick = (e: React.MouseEvent) => {
@@ -172,6 +236,20 @@ export function ConfigPanel({
                       {configPath.split("/").pop()}
                     </code>
                   </p>
+                  {config?.configErrors && config.configErrors.length > 0 && (
+                    <div className="wn-config-file-errors" role="alert">
+                      <p className="wn-config-file-errors-title">
+                        <AlertTriangle size={14} />
+                        The file has errors. The last valid configuration is
+                        still in use.
+                      </p>
+                      <ul className="wn-config-file-errors-list">
+                        {config.configErrors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   <div className="wn-config-actions">
                     <div className="wn-config-editor-select">
                       <button
@@ -216,18 +294,51 @@ export function ConfigPanel({
                       {copied ? <Check size={14} /> : <Copy size={14} />}
                       {copied ? "Copied" : "Copy Path"}
                     </button>
+                    {canEdit && !draft && (
+                      <button
+                        className="wn-config-btn wn-config-btn--secondary"
+                        onClick={handleStartEditing}
+                      >
+                        <Pencil size={14} />
+                        Edit
+                      </button>
+                    )}
                   </div>
                 </>
               ) : (
-                <p className="wn-config-help-text">
-                  No configuration file found. Using default settings.
-                </p>
+                <>
+                  <p className="wn-config-help-text">
+                    No configuration file found. Using default settings.
+                  </p>
+                  {canEdit && !draft && (
+                    <div className="wn-config-actions">
+                      <button
+                        className="wn-config-btn wn-config-btn--primary"
+                        onClick={handleStartEditing}
+                      >
+                        <Pencil size={14} />
+                        Create Configuration
+                      </button>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </section>
 
+          {draft && (
+            <ConfigForm
+              draft={draft}
+              onChange={setDraft}
+              error={saveError}
+              saving={saving}
+              onCancel={() => setDraft(null)}
+              onSave={handleSave}
+            />
+          )}
+
           {/* Image Settings */}
-          <section className="wn-config-section">
+          <section className="wn-config-section" hidden={!!draft}>
             <h3 className="wn-config-section-title">
               <Image size={14} />
               Image Settings
@@ -255,7 +366,7 @@ export function ConfigPanel({
           </section>
 
           {/* Editor Settings */}
-          <section className="wn-config-section">
+          <section className="wn-config-section" hidden={!!draft}>
             <h3 className="wn-config-section-title">
               <Info size={14} />
               Editor Settings
@@ -280,7 +391,7 @@ export function ConfigPanel({
           </section>
 
           {/* Collections */}
-          <section className="wn-config-section">
+          <section className="wn-config-section" hidden={!!draft}>
             <h3 className="wn-config-section-title">
               <Folder size={14} />
               Collections ({collections.length})
@@ -394,3 +505,275 @@ function CollectionCard({
     </div>
   );
 }
+
+/**
+ * Props for the ConfigForm component
+ */
+interface ConfigFormProps {
+  /** Configuration being edited (as written in the config file) */
+  draft: WritenexConfig;
+  /** Callback when the draft changes */
+  onChange: (draft: WritenexConfig) => void;
+  /** Error from the last save attempt */
+  error: string | null;
+  /** Whether the configuration is being saved */
+  saving: boolean;
+  /** Callback to discard the changes */
+  onCancel: () => void;
+  /** Callback to save the changes */
+  onSave: () => void;
+}
+
+/**
+ * Form for editing image, editor and collection settings
+ */
+function ConfigForm({
+  draft,
+  onChange,
+  error,
+  saving,
+  onCancel,
+  onSave,
+}: ConfigFormProps): React.ReactElement {
+  const collections = draft.collections ?? [];
+
+  const updateImages = (patch: Partial<ImageConfig>) => {
+    onChange({
+      ...draft,
+      images: withoutEmpty({
+        strategy: draft.images?.strategy ?? "colocated",
+        ...draft.images,
+        ...patch,
+      }),
+    });
+  };
+
+  const updateCollection = (
+    index: number,
+    patch: Partial<CollectionConfig>
+  ) => {
+    onChange({
+      ...draft,
+      collections: collections.map((collection, i) =>
+        i === index ? withoutEmpty({ ...collection, ...patch }) : collection
+      ),
+    });
+  };
+
+  const removeCollection = (index: number) => {
+    onChange({
+      ...draft,
+      collections: collections.filter((_, i) => i !== index),
+    });
+  };
+
+  const addCollection = () => {
+    onChange({
+      ...draft,
+      collections: [...collections, { name: "", path: "src/content/" }],
+    });
+  };
+
+  return (
+    <form
+      className="wn-config-form"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave();
+      }}
+    >
+      {/* Image Settings */}
+      <section className="wn-config-section">
+        <h3 className="wn-config-section-title">
+          <Image size={14} />
+          Image Settings
+        </h3>
+        <div className="wn-config-fields">
+          <label className="wn-config-field">
+            <span className="wn-config-field-label">Strategy</span>
+            <select
+              className="wn-config-input"
+              value={draft.images?.strategy ?? "colocated"}
+              onChange={(e) =>
+                updateImages({
+                  strategy: e.target.value as ImageConfig["strategy"],
+                })
+              }
+            >
+              <option value="colocated">colocated</option>
+              <option value="public">public</option>
+              <option value="custom">custom</option>
+            </select>
+          </label>
+          <label className="wn-config-field">
+            <span className="wn-config-field-label">Public Path</span>
+            <input
+              className="wn-config-input"
+              value={draft.images?.publicPath ?? ""}
+              onChange={(e) => updateImages({ publicPath: e.target.value })}
+              placeholder="/images"
+            />
+          </label>
+          <label className="wn-config-field">
+            <span className="wn-config-field-label">Storage Path</span>
+            <input
+              className="wn-config-input"
+              value={draft.images?.storagePath ?? ""}
+              onChange={(e) => updateImages({ storagePath: e.target.value })}
+              placeholder="public/images"
+            />
+          </label>
+        </div>
+      </section>
+
+      {/* Editor Settings */}
+      <section className="wn-config-section">
+        <h3 className="wn-config-section-title">
+          <Info size={14} />
+          Editor Settings
+        </h3>
+        <div className="wn-config-fields">
+          <label className="wn-config-field wn-config-field--inline">
+            <input
+              type="checkbox"
+              checked={draft.editor?.autosave !== false}
+              onChange={(e) =>
+                onChange({
+                  ...draft,
+                  editor: { ...draft.editor, autosave: e.target.checked },
+                })
+              }
+            />
+            <span className="wn-config-field-label">Autosave</span>
+          </label>
+          <label className="wn-config-field">
+            <span className="wn-config-field-label">Interval (seconds)</span>
+            <input
+              type="number"
+              min={1}
+              className="wn-config-input"
+              value={(draft.editor?.autosaveInterval ?? 3000) / 1000}
+              onChange={(e) =>
+                onChange({
+                  ...draft,
+                  editor: {
+                    ...draft.editor,
+                    autosaveInterval: Math.round(Number(e.target.value) * 1000),
+                  },
+                })
+              }
+            />
+          </label>
+        </div>
+      </section>
+
+      {/* Collections */}
+      <section className="wn-config-section">
+        <h3 className="wn-config-section-title">
+          <Folder size={14} />
+          Configured Collections ({collections.length})
+        </h3>
+        <div className="wn-config-collections">
+          {collections.map((collection, index) => (
+            <div key={index} className="wn-config-collection">
+              <div className="wn-config-fields">
+                <label className="wn-config-field">
+                  <span className="wn-config-field-label">Name</span>
+                  <input
+                    className="wn-config-input"
+                    value={collection.name}
+                    onChange={(e) =>
+                      updateCollection(index, { name: e.target.value })
+                    }
+                    placeholder="blog"
+                    required
+                  />
+                </label>
+                <label className="wn-config-field">
+                  <span className="wn-config-field-label">Path</span>
+                  <input
+                    className="wn-config-input"
+                    value={collection.path}
+                    onChange={(e) =>
+                      updateCollection(index, { path: e.target.value })
+                    }
+                    placeholder="src/content/blog"
+                    required
+                  />
+                </label>
+                <label className="wn-config-field">
+                  <span className="wn-config-field-label">File Pattern</span>
+                  <input
+                    className="wn-config-input"
+                    value={collection.filePattern ?? ""}
+                    onChange={(e) =>
+                      updateCollection(index, { filePattern: e.target.value })
+                    }
+                    placeholder="{slug}.md"
+                  />
+                </label>
+                <label className="wn-config-field">
+                  <span className="wn-config-field-label">Preview URL</span>
+                  <input
+                    className="wn-config-input"
+                    value={collection.previewUrl ?? ""}
+                    onChange={(e) =>
+                      updateCollection(index, { previewUrl: e.target.value })
+                    }
+                    placeholder="/blog/{slug}"
+                  />
+                </label>
+              </div>
+              <button
+                type="button"
+                className="wn-config-btn wn-config-btn--secondary wn-config-remove"
+                onClick={() => removeCollection(index)}
+                aria-label={`Remove collection ${collection.name}`}
+              >
+                <Trash2 size={14} />
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          className="wn-config-btn wn-config-btn--secondary wn-config-add"
+          onClick={addCollection}
+        >
+          <Plus size={14} />
+          Add Collection
+        </button>
+      </section>
+
+      {error && (
+        <p className="wn-config-form-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="wn-config-actions wn-config-form-actions">
+        <button
+          type="button"
+          className="wn-config-btn wn-config-btn--secondary"
+          onClick={onCancel}
+          disabled={saving}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="wn-config-btn wn-config-btn--primary"
+          disabled={saving}
+        >
+          {saving ? (
+            <Loader2 size={14} className="wn-spin" />
+          ) : (
+            <Check size={14} />
+          )}
+          Save to Config File
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,434 @@
+/**
+ * @fileoverview MDX component editing for @writenex/astro
+ *
+ * This module turns the component registry from the configuration into
+ * MDXEditor JSX descriptors. Components are edited as blocks with a props
+ * form and their children in a nested editor, and can be inserted from a
+ * toolbar menu.
+ *
+ * ## Features:
+ * - Props form typed from the registry (text, number, checkbox, select)
+ * - Missing required props highlighted
+ * - Attributes not in the registry (and unregistered components) kept as is
+ * - Toolbar menu inserting components with their default props
+ *
+ * @module @writenex/astro/client/components/Editor/ComponentEditor
+ */
+
+import { useCallback } from "react";
+import {
+  ButtonOrDropdownButton,
+  NestedLexicalEditor,
+  insertJsx$,
+  readOnly$,
+  useCellValue,
+  useLexicalNodeRemove,
+  useMdastNodeUpdater,
+  usePublisher,
+  type JsxComponentDescriptor,
+  type JsxEditorProps,
+  type JsxProperties,
+  type MdastJsx,
+} from "@mdxeditor/editor";
+import { Puzzle, X } from "lucide-react";
+import type { MdxComponentConfig, MdxComponentProp } from "../../../types";
+import "./ComponentEditor.css";
+
+/**
+ * Attribute of a JSX element in the markdown tree
+ */
+type JsxAttribute = MdastJsx["attributes"][number];
+
+/**
+ * Find the attribute of a prop
+ *
+ * @param node - JSX element
+ * @param name - Prop name
+ * @returns The attribute, or undefined if the prop is not set
+ */
+function findAttribute(node: MdastJsx, name: string): JsxAttribute | undefined {
+  return node.attributes.find(
+    (attr) => attr.type === "mdxJsxAttribute" && attr.name === name
+  );
+}
+
+/**
+ * Read the value of a prop for the props form
+ *
+ * Expressions are shown as their source; bare attributes are `true`.
+ *
+ * @param node - JSX element
+ * @param name - Prop name
+ * @param prop - Prop configuration
+ * @returns Form value
+ */
+function getPropValue(
+  node: MdastJsx,
+  name: string,
+  prop: MdxComponentProp
+): string | boolean {
+  const attribute = findAttribute(node, name);
+  const value = attribute?.value;
+  const text =
+    attribute === undefined
+      ? undefined
+      : value === null || value === undefined
+        ? "true"
+        : typeof value === "string"
+          ? value
+          : value.value;
+
+  if (prop.type === "boolean") {
+    return text === undefined ? prop.default === true : text.trim() === "true";
+  }
+  return text ?? "";
+}
+
+/**
+ * Build the attribute of a prop value
+ *
+ * @param name - Prop name
+ * @param prop - Prop configuration
+ * @param value - Form value
+ * @returns The attribute, or null to remove the prop
+ */
+function toAttribute(
+  name: string,
+  prop: MdxComponentProp,
+  value: string | boolean
+): JsxAttribute | null {
+  if (prop.type === "boolean") {
+    if (value === true) return { type: "mdxJsxAttribute", name, value: null };
+    // A missing prop falls back to its default
+    if (prop.default !== true) return null;
+    return {
+      type: "mdxJsxAttribute",
+      name,
+      value: { type: "mdxJsxAttributeValueExpression", value: "false" },
+    };
+  }
+
+  if (value === "") return null;
+
+  if (prop.type === "number" || prop.type === "expression") {
+    return {
+      type: "mdxJsxAttribute",
+      name,
+      value: { type: "mdxJsxAttributeValueExpression", value: String(value) },
+    };
+  }
+  return { type: "mdxJsxAttribute", name, value: String(value) };
+}
+
+/**
+ * Get the props of a new component from the prop defaults
+ *
+ * @param component - Component configuration
+ * @returns Props for `insertJsx$`
+ */
+function getDefaultProps(component: MdxComponentConfig): JsxProperties {
+  const props: JsxProperties = {};
+  for (const [name, prop] of Object.entries(component.props ?? {})) {
+    if (prop.default === undefined || prop.default === false) continue;
+
+    props[name] =
+      prop.type === "string" || prop.type === "enum"
+        ? String(prop.default)
+        : { type: "expression", value: String(prop.default) };
+  }
+  return props;
+}
+
+/**
+ * Props for the ComponentPropField component
+ */
+interface ComponentPropFieldProps {
+  name: string;
+  prop: MdxComponentProp;
+  value: string | boolean;
+  disabled: boolean;
+  onChange: (value: string | boolean) => void;
+}
+
+/**
+ * Form field for one component prop
+ *
+ * Text fields apply their value on blur or Enter, so the document is not
+ * rewritten on every keystroke.
+ */
+function ComponentPropField({
+  name,
+  prop,
+  value,
+  disabled,
+  onChange,
+}: ComponentPropFieldProps): React.ReactElement {
+  const missing = prop.required === true && value === "";
+  const label = (
+    <span className="wn-component-prop-name">
+      {name}
+      {prop.required && <span aria-hidden="true">*</span>}
+    </span>
+  );
+
+  if (prop.type === "boolean") {
+    return (
+      <label className="wn-component-prop wn-component-prop-check">
+        <input
+          type="checkbox"
+          checked={value === true}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        {label}
+      </label>
+    );
+  }
+
+  if (prop.type === "enum") {
+    return (
+      <label className="wn-component-prop" title={prop.description}>
+        {label}
+        <select
+          className="wn-component-prop-input"
+          value={String(value)}
+          disabled={disabled}
+          aria-invalid={missing}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="">—</option>
+          {prop.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  return (
+    <label className="wn-component-prop" title={prop.description}>
+      {label}
+      <input
+        // Reset the field when the document changes
+        key={String(value)}
+        className="wn-component-prop-input"
+        type={prop.type === "number" ? "number" : "text"}
+        defaultValue={String(value)}
+        placeholder={
+          prop.default !== undefined ? String(prop.default) : undefined
+        }
+        disabled={disabled}
+        aria-invalid={missing}
+        onBlur={(e) => {
+          if (e.target.value !== value) onChange(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+      />
+    </label>
+  );
+}
+
+/**
+ * Props for the ComponentBlock component
+ */
+interface ComponentBlockProps extends JsxEditorProps {
+  /** Registry entry (undefined for unregistered components) */
+  component?: MdxComponentConfig;
+}
+
+/**
+ * Editor for one component in the document
+ */
+function ComponentBlock({
+  mdastNode,
+  component,
+}: ComponentBlockProps): React.ReactElement {
+  const updateMdastNode = useMdastNodeUpdater<MdastJsx>();
+  const removeNode = useLexicalNodeRemove();
+  const readOnly = useCellValue(readOnly$);
+  const props = Object.entries(component?.props ?? {});
+  const inline = mdastNode.type === "mdxJsxTextElement";
+  const hasChildren =
+    component?.hasChildren === true || mdastNode.children.length > 0;
+
+  const setProp = useCallback(
+    (name: string, prop: MdxComponentProp, value: string | boolean) => {
+      const attribute = toAttribute(name, prop, value);
+      const index = mdastNode.attributes.findIndex(
+        (attr) => attr.type === "mdxJsxAttribute" && attr.name === name
+      );
+      const attributes = [...mdastNode.attributes];
+
+      if (index === -1) {
+        if (attribute) attributes.push(attribute);
+      } else if (attribute) {
+        attributes[index] = attribute;
+      } else {
+        attributes.splice(index, 1);
+      }
+      updateMdastNode({ attributes });
+    },
+    [mdastNode, updateMdastNode]
+  );
+
+  return (
+    <div
+      className={`wn-component ${inline ? "wn-component-inline" : ""}`}
+      data-component={mdastNode.name ?? undefined}
+    >
+      <div className="wn-component-header">
+        <Puzzle size={14} aria-hidden="true" />
+        <span className="wn-component-name">
+          {component?.label ?? mdastNode.name ?? "Fragment"}
+        </span>
+        {!component && mdastNode.name && (
+          <span className="wn-component-unregistered">Not in registry</span>
+        )}
+        {!readOnly && (
+          <button
+            type="button"
+            className="wn-component-remove"
+            onClick={removeNode}
+            aria-label={`Remove ${mdastNode.name ?? "fragment"}`}
+            title="Remove component"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {props.length > 0 && (
+        // Keep typing in the form from reaching the editor's shortcuts
+        <div
+          className="wn-component-props"
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          {props.map(([name, prop]) => (
+            <ComponentPropField
+              key={name}
+              name={name}
+              prop={prop}
+              value={getPropValue(mdastNode, name, prop)}
+              disabled={readOnly}
+              onChange={(value) => setProp(name, prop, value)}
+            />
+          ))}
+        </div>
+      )}
+
+      {hasChildren && (
+        <div className="wn-component-children">
+          <NestedLexicalEditor<MdastJsx>
+            block={!inline}
+            getContent={(node) => node.children}
+            getUpdatedMdastNode={(node, children) =>
+              ({ ...node, children }) as MdastJsx
+            }
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Create the MDXEditor JSX descriptors of a component registry
+ *
+ * A catch-all descriptor keeps unregistered components editable, since
+ * MDXEditor cannot load a document with JSX it has no descriptor for.
+ * Descriptors have no `source`: imports are kept by the editor itself.
+ *
+ * @param components - Component registry
+ * @returns Descriptors for `jsxPlugin`
+ */
+export function createComponentDescriptors(
+  components: MdxComponentConfig[]
+): JsxComponentDescriptor[] {
+  const descriptors: JsxComponentDescriptor[] = components.map((component) => ({
+    name: component.name,
+    kind: component.kind ?? "flow",
+    props: Object.entries(component.props ?? {}).map(([name, prop]) => ({
+      name,
+      type:
+        prop.type === "number"
+          ? "number"
+          : prop.type === "string" || prop.type === "enum"
+            ? "string"
+            : "expression",
+      required: prop.required,
+    })),
+    hasChildren: component.hasChildren ?? false,
+    Editor: function RegisteredComponent(props: JsxEditorProps) {
+      return <ComponentBlock {...props} component={component} />;
+    },
+  }));
+
+  descriptors.push({
+    name: "*",
+    kind: "flow",
+    props: [],
+    hasChildren: true,
+    Editor: ComponentBlock,
+  });
+
+  return descriptors;
+}
+
+/**
+ * Props for the InsertComponent component
+ */
+interface InsertComponentProps {
+  /** Component registry */
+  components: MdxComponentConfig[];
+}
+
+/**
+ * Toolbar menu inserting a registry component at the cursor
+ */
+export function InsertComponent({
+  components,
+}: InsertComponentProps): React.ReactElement | null {
+  const insertJsx = usePublisher(insertJsx$);
+
+  const handleChoose = useCallback(
+    (value: string) => {
+      // With a single item the menu is a button and the value is empty
+      const component =
+        components.find((c) => c.name === value) ?? components[0];
+      if (!component) return;
+
+      insertJsx({
+        kind: component.kind ?? "flow",
+        name: component.name,
+        props: getDefaultProps(component),
+        children: [],
+      });
+    },
+    [components, insertJsx]
+  );
+
+  if (components.length === 0) return null;
+
+  return (
+    <ButtonOrDropdownButton
+      title={
+        components.length === 1
+          ? `Insert ${components[0]!.label ?? components[0]!.name}`
+          : "Insert component"
+      }
+      onChoose={handleChoose}
+      items={components.map((component) => ({
+        value: component.name,
+        label: component.description
+          ? `${component.label ?? component.name} (${component.description})`
+          : (component.label ?? component.name),
+      }))}
+    >
+      <Puzzle size={18} />
+    </ButtonOrDropdownButton>
+  );
+}
@@ -3,12 +3,14 @@
  *
  * This component wraps MDXEditor with the necessary plugins and configuration
  * for the Writenex Astro integration. Includes diffSourcePlugin for viewing
- * source markdown and diff modes.
+ * source markdown and diff modes. In `.mdx` files, components from the
+ * registry are edited with the JSX plugin and the file's import
+ * statements are kept aside while editing.
  *
  * @module @writenex/astro/client/components/Editor
  */
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { FileText, Plus } from "lucide-react";
 import {
   MDXEditor,
@@ -26,6 +28,7 @@ import {
   toolbarPlugin,
   diffSourcePlugin,
   frontmatterPlugin,
+  jsxPlugin,
   searchPlugin,
   editorSearchTerm$,
   editorSearchCursor$,
@@ -46,8 +49,16 @@ import {
 } from "@mdxeditor/editor";
 import "@mdxeditor/editor/style.css";
 import "./Editor.css";
-import { ImageDialog } from "./ImageDialog";
+import {
+  ImageDialog,
+  setImageLibraryContext,
+  fetchLibraryItems,
+  getLibraryImageUrl,
+} from "./ImageDialog";
 import { LinkDialog } from "./LinkDialog";
+import { createComponentDescriptors, InsertComponent } from "./ComponentEditor";
+import { addComponentImports, joinMdx, splitMdx } from "../../utils/mdx";
+import type { MdxComponentConfig } from "../../../types";
 
 /**
  * Props for the Editor component
@@ -73,8 +84,17 @@ interface EditorProps {
   searchQuery?: string;
   /** Current search match index (1-based) */
   searchActiveIndex?: number;
+  /** Whether the content is MDX (enables component editing) */
+  mdx?: boolean;
+  /** MDX component registry */
+  components?: MdxComponentConfig[];
 }
 
+/**
+ * Registry used when none is passed (stable across renders)
+ */
+const NO_COMPONENTS: MdxComponentConfig[] = [];
+
 /**
  * Module-level refs for sharing search state with SearchBridge inside MDXEditor.
  * This is necessary because SearchBridge is mounted via addComposerChild$ which
@@ -159,10 +179,20 @@ const ToolbarSeparator = () => (
   />
 );
 
+/**
+ * Props for the EditorToolbarContents component
+ */
+interface EditorToolbarContentsProps {
+  /** Components for the insert menu (MDX content only) */
+  components?: MdxComponentConfig[];
+}
+
 /**
  * Editor toolbar contents with DiffSourceToggleWrapper
  */
-function EditorToolbarContents(): React.ReactElement {
+function EditorToolbarContents({
+  components,
+}: EditorToolbarContentsProps): React.ReactElement {
   return (
     <DiffSourceToggleWrapper>
       {/* Undo/Redo */}
@@ -194,6 +224,14 @@ function EditorToolbarContents(): React.ReactElement {
 
       {/* Code Block */}
       <InsertCodeBlock />
+
+      {/* MDX Components */}
+      {components && components.length > 0 && (
+        <>
+          <ToolbarSeparator />
+          <InsertComponent components={components} />
+        </>
+      )}
     </DiffSourceToggleWrapper>
   );
 }
@@ -206,6 +244,7 @@ function EditorToolbarContents(): React.ReactElement {
  * - Dark mode styling
  * - diffSourcePlugin for source/diff view modes
  * - Comprehensive toolbar with formatting options
+ * - MDX component blocks and insert menu for `.mdx` content
  *
  * @component
  * @example
@@ -228,16 +267,31 @@ export function Editor({
   contentId,
   searchQuery = "",
   searchActiveIndex = 0,
+  mdx = false,
+  components = NO_COMPONENTS,
 }: EditorProps): React.ReactElement {
   const editorRef = useRef<MDXEditorMethods>(null);
   const [isReady, setIsReady] = useState(false);
 
+  // MDXEditor drops import/export statements, so they are kept here
+  const { esm, body } = useMemo(
+    () => (mdx ? splitMdx(initialContent) : { esm: "", body: initialContent }),
+    [mdx, initialContent]
+  );
+  const esmRef = useRef(esm);
+  esmRef.current = esm;
+
+  const descriptors = useMemo(
+    () => createComponentDescriptors(components),
+    [components]
+  );
+
   // Update editor content when initialContent changes
   useEffect(() => {
     if (editorRef.current && isReady) {
-      editorRef.current.setMarkdown(initialContent);
+      editorRef.current.setMarkdown(body);
     }
-  }, [initialContent, isReady]);
+  }, [body, isReady]);
 
   // Mark editor as ready after initial mount
   useEffect(() => {
@@ -246,11 +300,25 @@ export function Editor({
 
   const handleChange = useCallback(
     (markdown: string) => {
-      onChange(markdown);
+      if (!mdx) {
+        onChange(markdown);
+        return;
+      }
+      onChange(
+        joinMdx(
+          addComponentImports(esmRef.current, markdown, components),
+          markdown
+        )
+      );
     },
-    [onChange]
+    [onChange, mdx, components]
   );
 
+  // Share the open entry with the image dialog's library tab
+  useEffect(() => {
+    setImageLibraryContext(basePath, collection, contentId);
+  }, [basePath, collection, contentId]);
+
   // Update module-level search state when props change
   useEffect(() => {
     setSearchState(searchQuery, searchActiveIndex);
@@ -261,8 +329,10 @@ export function Editor({
       <div className="wn-editor-content">
         <div className="wn-editor-wrapper">
           <MDXEditor
+            // Plugins are only read on mount
+            key={mdx ? "mdx" : "md"}
             ref={editorRef}
-            markdown={initialContent}
+            markdown={body}
             onChange={handleChange}
             readOnly={readOnly}
             placeholder={placeholder}
@@ -333,6 +403,22 @@ export function Editor({
                     return Promise.resolve(apiUrl);
                   }
 
+                  // Images of other entries, picked from the media library
+                  if (src.startsWith("../")) {
+                    return fetchLibraryItems(false, {
+                      basePath,
+                      collection,
+                      contentId,
+                    })
+                      .then((items) => {
+                        const item = items.find((i) => i.reference === src);
+                        return item
+                          ? getLibraryImageUrl(item, undefined, basePath)
+                          : src;
+                      })
+                      .catch(() => src);
+                  }
+
                   // Fallback: return original src
                   return Promise.resolve(src);
                 },
@@ -368,6 +454,11 @@ export function Editor({
                 },
               }),
 
+              // MDX components (only MDX content may contain JSX)
+              ...(mdx
+                ? [jsxPlugin({ jsxComponentDescriptors: descriptors })]
+                : []),
+
               // Diff source plugin for source/diff view modes
               diffSourcePlugin({
                 viewMode: "rich-text",
@@ -375,7 +466,11 @@ export function Editor({
 
               // Toolbar
               toolbarPlugin({
-                toolbarContents: () => <EditorToolbarContents />,
+                toolbarContents: () => (
+                  <EditorToolbarContents
+                    components={mdx ? components : undefined}
+                  />
+                ),
               }),
 
               // Search plugin for highlighting matches (must be after toolbar)
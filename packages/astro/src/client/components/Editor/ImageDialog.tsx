@@ -7,8 +7,9 @@
  * Includes focus trap for accessibility compliance.
  *
  * ## Features:
- * - Tab interface for switching between upload and URL modes
+ * - Tab interface for switching between upload, library and URL modes
  * - Drag-and-drop ready file upload zone
+ * - Reuse of images already in the project (media library)
  * - Alt text and title fields for accessibility
  * - URL validation with error feedback
  * - Works with MDXEditor's image plugin system
@@ -25,10 +26,91 @@ import {
   imageDialogState$,
   saveImage$,
 } from "@mdxeditor/editor";
-import { Image as ImageIcon, Link as LinkIcon, Upload, X } from "lucide-react";
+import {
+  Image as ImageIcon,
+  Images,
+  Link as LinkIcon,
+  Loader2,
+  Upload,
+  X,
+} from "lucide-react";
+import type { MediaItem, MediaResponse } from "../../../types";
 import { useFocusTrap } from "../../hooks/useFocusTrap";
 import "./ImageDialog.css";
 
+/**
+ * Module-level ref for sharing the open entry with ImageDialog.
+ * ImageDialog is rendered inside MDXEditor's internal tree, outside of
+ * React Context providers, so the Editor sets this when its props change.
+ */
+const libraryContextRef: {
+  basePath: string;
+  collection?: string;
+  contentId?: string;
+} = {
+  basePath: "/_writenex",
+};
+
+/**
+ * Media library requests by entry, shared with the editor's image preview
+ */
+const libraryRequests = new Map<string, Promise<MediaItem[]>>();
+
+/**
+ * Set the entry the library tab inserts images into
+ */
+export function setImageLibraryContext(
+  basePath: string,
+  collection?: string,
+  contentId?: string
+): void {
+  libraryContextRef.basePath = basePath;
+  libraryContextRef.collection = collection;
+  libraryContextRef.contentId = contentId;
+}
+
+/**
+ * Fetch the media library with references relative to an entry
+ *
+ * @param refresh - Ignore an earlier request for the same entry
+ * @param context - Entry to reference the images from (default: open entry)
+ * @returns Media items, newest first
+ */
+export function fetchLibraryItems(
+  refresh = false,
+  context: typeof libraryContextRef = libraryContextRef
+): Promise<MediaItem[]> {
+  const { basePath, collection, contentId } = context;
+  if (!collection || !contentId) return Promise.resolve([]);
+
+  const key = `${basePath}:${collection}/${contentId}`;
+  let request = libraryRequests.get(key);
+  if (!request || refresh) {
+    const params = new URLSearchParams({ collection, contentId });
+    request = fetch(`${basePath}/api/media?${params}`)
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to fetch media");
+        return response.json() as Promise<MediaResponse>;
+      })
+      .then((data) => data.items);
+    request.catch(() => libraryRequests.delete(key));
+    libraryRequests.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Get the URL that serves a media library image
+ */
+export function getLibraryImageUrl(
+  item: MediaItem,
+  width?: number,
+  basePath = libraryContextRef.basePath
+): string {
+  const url = `${basePath}/api/media/file/${encodeURI(item.path)}`;
+  return width ? `${url}?w=${width}` : url;
+}
+
 /**
  * Validates if a string is a valid URL
  */
@@ -65,13 +147,18 @@ export function ImageDialog(): React.ReactElement {
   const closeImageDialog = usePublisher(closeImageDialog$);
   const state = useCellValue(imageDialogState$);
 
-  const [mode, setMode] = useState<"upload" | "url">("upload");
+  const [mode, setMode] = useState<"upload" | "library" | "url">("upload");
   const [src, setSrc] = useState("");
   const [file, setFile] = useState<File | null>(null);
   const [altText, setAltText] = useState("");
   const [title, setTitle] = useState("");
   const [prevType, setPrevType] = useState(state.type);
   const [isUrlValid, setIsUrlValid] = useState(true);
+  const [libraryItems, setLibraryItems] = useState<MediaItem[]>([]);
+  const [libraryLoading, setLibraryLoading] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [libraryFilter, setLibraryFilter] = useState("");
+  const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const triggerRef = useRef<HTMLElement | null>(null);
@@ -100,6 +187,7 @@ export function ImageDialog(): React.ReactElement {
       setTitle(state.initialValues.title || "");
       setFile(null);
       setIsUrlValid(true);
+      setSelectedItem(null);
     } else if (state.type === "new") {
       setMode("upload");
       setSrc("");
@@ -107,9 +195,37 @@ export function ImageDialog(): React.ReactElement {
       setTitle("");
       setFile(null);
       setIsUrlValid(true);
+      setSelectedItem(null);
     }
   }
 
+  // Load the media library when its tab is opened
+  useEffect(() => {
+    if (state.type === "inactive" || mode !== "library") return;
+
+    let cancelled = false;
+    setLibraryLoading(true);
+    setLibraryError(null);
+    fetchLibraryItems(true)
+      .then((items) => {
+        if (!cancelled) setLibraryItems(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLibraryError(
+            err instanceof Error ? err.message : "Failed to fetch media"
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLibraryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.type, mode]);
+
   // Focus first input when dialog opens (useFocusTrap handles escape key)
   useEffect(() => {
     if (state.type !== "inactive" && containerRef.current) {
@@ -150,6 +266,8 @@ export function ImageDialog(): React.ReactElement {
         const dt = new DataTransfer();
         dt.items.add(file);
         payload.file = dt.files;
+      } else if (mode === "library" && selectedItem?.reference) {
+        payload.src = selectedItem.reference;
       } else if (mode === "url" && src) {
         payload.src = src;
       }
@@ -158,6 +276,8 @@ export function ImageDialog(): React.ReactElement {
     } else {
       if (mode === "upload" && file) {
         insertImage({ file, altText, title });
+      } else if (mode === "library" && selectedItem?.reference) {
+        insertImage({ src: selectedItem.reference, altText, title });
       } else if (mode === "url" && src) {
         insertImage({ src, altText, title });
       }
@@ -167,6 +287,7 @@ export function ImageDialog(): React.ReactElement {
     mode,
     src,
     file,
+    selectedItem,
     altText,
     title,
     state.type,
@@ -194,7 +315,16 @@ export function ImageDialog(): React.ReactElement {
   );
 
   const isOpen = state.type !== "inactive";
-  const canSave = mode === "upload" ? !!file : !!src && isUrlValid;
+  const canSave =
+    mode === "upload"
+      ? !!file
+      : mode === "library"
+        ? !!selectedItem?.reference
+        : !!src && isUrlValid;
+  const filter = libraryFilter.trim().toLowerCase();
+  const visibleItems = filter
+    ? libraryItems.filter((item) => item.path.toLowerCase().includes(filter))
+    : libraryItems;
 
   if (!isOpen) return <></>;
 
@@ -231,6 +361,14 @@ export function ImageDialog(): React.ReactElement {
             <Upload size={16} />
             Upload
           </button>
+          <button
+            className={`wn-image-dialog-tab ${mode === "library" ? "wn-image-dialog-tab--active" : ""}`}
+            onClick={() => setMode("library")}
+            type="button"
+          >
+            <Images size={16} />
+            Library
+          </button>
           <button
             className={`wn-image-dialog-tab ${mode === "url" ? "wn-image-dialog-tab--active" : ""}`}
             onClick={() => setMode("url")}
@@ -281,6 +419,52 @@ export function ImageDialog(): React.ReactElement {
                 </>
               )}
             </div>
+          ) : mode === "library" ? (
+            <div className="wn-image-dialog-field">
+              <input
+                type="search"
+                className="wn-image-dialog-input"
+                value={libraryFilter}
+                onChange={(e) => setLibraryFilter(e.target.value)}
+                placeholder="Filter images"
+                aria-label="Filter images"
+              />
+              {libraryLoading && libraryItems.length === 0 ? (
+                <p className="wn-image-dialog-library-message">
+                  <Loader2 size={16} className="wn-spin" />
+                  Loading images...
+                </p>
+              ) : libraryError ? (
+                <p className="wn-image-dialog-error" role="alert">
+                  {libraryError}
+                </p>
+              ) : visibleItems.length === 0 ? (
+                <p className="wn-image-dialog-library-message">
+                  No images found
+                </p>
+              ) : (
+                <div className="wn-image-dialog-library" role="listbox">
+                  {visibleItems.map((item) => (
+                    <button
+                      key={item.path}
+                      type="button"
+                      role="option"
+                      aria-selected={selectedItem?.path === item.path}
+                      className={`wn-image-dialog-library-item ${selectedItem?.path === item.path ? "wn-image-dialog-library-item--selected" : ""}`}
+                      onClick={() => setSelectedItem(item)}
+                      title={item.path}
+                    >
+                      <img
+                        src={getLibraryImageUrl(item, 160)}
+                        alt=""
+                        loading="lazy"
+                      />
+                      <span>{item.filename}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
           ) : (
             <div className="wn-image-dialog-field">
               <label
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview External change banner
+ *
+ * Banner shown above the editor when the open document was modified or
+ * deleted on disk by another program. Lets the user reload the disk
+ * version, compare it with their own, or keep editing their copy.
+ *
+ * @module @writenex/astro/client/components/ExternalChangeBanner
+ */
+
+import { AlertTriangle, RefreshCw, GitCompare } from "lucide-react";
+import "./ExternalChangeBanner.css";
+
+/**
+ * Props for ExternalChangeBanner component
+ */
+interface ExternalChangeBannerProps {
+  /** Kind of change detected on disk */
+  changeType: "change" | "unlink";
+  /** Whether the editor holds unsaved changes */
+  hasUnsavedChanges: boolean;
+  /** Callback to load the disk version, discarding local edits */
+  onReload: () => void;
+  /** Callback to compare the disk version with the local copy */
+  onDiff: () => void;
+  /** Callback to dismiss the banner and keep the local copy */
+  onKeepMine: () => void;
+  /** Whether a reload or diff request is in progress */
+  isBusy?: boolean;
+}
+
+/**
+ * Banner for external file changes
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ExternalChangeBanner
+ *   changeType="change"
+ *   hasUnsavedChanges={hasUnsavedChanges}
+ *   onReload={handleReload}
+ *   onDiff={handleDiff}
+ *   onKeepMine={handleKeepMine}
+ * />
+ * ```
+ */
+export function ExternalChangeBanner({
+  changeType,
+  hasUnsavedChanges,
+  onReload,
+  onDiff,
+  onKeepMine,
+  isBusy = false,
+}: ExternalChangeBannerProps): React.ReactElement {
+  const isDeleted = changeType === "unlink";
+
+  let message: string;
+  if (isDeleted) {
+    message = "This file was deleted on disk.";
+  } else if (hasUnsavedChanges) {
+    message =
+      "This file changed on disk. Saving will merge it with your edits.";
+  } else {
+    message = "This file changed on disk.";
+  }
+
+  return (
+    <div className="wn-external-change-banner" role="alert">
+      <AlertTriangle
+        size={14}
+        className="wn-external-change-banner-icon"
+        aria-hidden="true"
+      />
+      <span className="wn-external-change-banner-text">{message}</span>
+      <div className="wn-external-change-banner-actions">
+        {!isDeleted && (
+          <>
+            <button
+              type="button"
+              className="wn-external-change-banner-btn"
+              onClick={onReload}
+              disabled={isBusy}
+              title="Load the version on disk"
+            >
+              <RefreshCw size={12} />
+              Reload
+            </button>
+            <button
+              type="button"
+              className="wn-external-change-banner-btn"
+              onClick={onDiff}
+              disabled={isBusy}
+              title="Compare the version on disk with yours"
+            >
+              <GitCompare size={12} />
+              Diff
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          className="wn-external-change-banner-btn wn-external-change-banner-btn--primary"
+          onClick={onKeepMine}
+          disabled={isBusy}
+          title="Keep your version"
+        >
+          Keep mine
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview ExternalChangeBanner component exports
+ *
+ * @module @writenex/astro/client/components/ExternalChangeBanner
+ */
+
+export { ExternalChangeBanner } from "./ExternalChangeBanner";
@@ -5,14 +5,34 @@
  * frontmatter fields. It supports schema-aware dynamic fields when a collection
  * schema is available, or falls back to basic fields.
  *
+ * Enum fields render as a select, reference fields as a picker listing the
+ * entries of the target collection, and object fields as a nested sub-form.
+ * Validation errors returned by the server are shown below each field.
+ * A schedule picker below the fields sets the `publishAt` time at which
+ * the server publishes the draft.
+ *
+ * Entries of data collections (JSON and YAML files) have no body, so the
+ * form is rendered standalone in place of the editor.
+ *
  * @module @writenex/astro/client/components/FrontmatterForm
  */
 
-import { useCallback, useState } from "react";
-import { X, Info, AlertCircle } from "lucide-react";
-import type { CollectionSchema, SchemaField } from "../../../types";
+import { useCallback, useEffect, useState } from "react";
+import { X, Info, AlertCircle, Clock } from "lucide-react";
+import type {
+  CollectionSchema,
+  FrontmatterFieldError,
+  SchemaField,
+} from "../../../types";
+import type { ContentSummary } from "../../hooks/useApi";
+import { useSharedApi } from "../../context/ApiContext";
 import "./FrontmatterForm.css";
 
+/**
+ * Frontmatter field holding the scheduled publication time
+ */
+const PUBLISH_AT_FIELD = "publishAt";
+
 /**
  * Props for the FrontmatterForm component
  */
@@ -35,6 +55,12 @@ interface FrontmatterFormProps {
   collection?: string;
   /** Current content ID for image preview URLs */
   contentId?: string;
+  /** Field errors from the last save, keyed by field path */
+  errors?: FrontmatterFieldError[];
+  /** Whether the user may schedule publishing (default: true) */
+  canSchedule?: boolean;
+  /** Render as the editor of a data entry instead of a side panel */
+  standalone?: boolean;
 }
 
 /**
@@ -52,6 +78,9 @@ export function FrontmatterForm({
   onImageUpload,
   collection,
   contentId,
+  errors,
+  canSchedule = true,
+  standalone = false,
 }: FrontmatterFormProps): React.ReactElement {
   const handleFieldChange = useCallback(
     (field: string, value: unknown) => {
@@ -63,41 +92,53 @@ export function FrontmatterForm({
 
   const panelClassName = [
     "wn-frontmatter-panel",
-    isOpen ? "wn-frontmatter-panel--open" : "wn-frontmatter-panel--closed",
+    standalone
+      ? "wn-frontmatter-panel--standalone"
+      : isOpen
+        ? "wn-frontmatter-panel--open"
+        : "wn-frontmatter-panel--closed",
   ]
     .filter(Boolean)
     .join(" ");
 
-  const hasSchema = schema && Object.keys(schema).length > 0;
-  const fieldCount = hasSchema ? Object.keys(schema).length : 0;
+  // The schedule picker edits publishAt, so it is not listed as a field
+  const fieldSchema = schema
+    ? Object.fromEntries(
+        Object.entries(schema).filter(([name]) => name !== PUBLISH_AT_FIELD)
+      )
+    : undefined;
+  const hasSchema = fieldSchema && Object.keys(fieldSchema).length > 0;
+  const fieldCount = hasSchema ? Object.keys(fieldSchema).length : 0;
 
   return (
     <aside
       className={panelClassName}
-      role="complementary"
-      aria-label="Frontmatter editor"
-      aria-hidden={!isOpen}
+      role={standalone ? undefined : "complementary"}
+      aria-label={standalone ? "Entry editor" : "Frontmatter editor"}
+      aria-hidden={!standalone && !isOpen}
     >
       <div className="wn-frontmatter-panel-inner">
         {/* Header */}
         <div className="wn-frontmatter-header">
           <h2 className="wn-frontmatter-title">
             <Info size={14} />
-            Frontmatter
+            {standalone ? "Entry" : "Frontmatter"}
             {frontmatter && (
               <span className="wn-frontmatter-badge">
                 {hasSchema ? `${fieldCount} fields` : "Basic"}
               </span>
             )}
           </h2>
-          <button
-            className="wn-frontmatter-close"
-            onClick={onClose}
-            title="Close panel"
-            aria-label="Close frontmatter panel"
-          >
-            <X size={12} />
-          </button>
+          {!standalone && (
+            <button
+              className="wn-frontmatter-close"
+              onClick={onClose}
+              title="Close panel"
+              aria-label="Close frontmatter panel"
+            >
+              <X size={12} />
+            </button>
+          )}
         </div>
 
         {/* Content */}
@@ -107,12 +148,13 @@ export function FrontmatterForm({
           ) : hasSchema ? (
             <SchemaFields
               frontmatter={frontmatter}
-              schema={schema}
+              schema={fieldSchema}
               onChange={handleFieldChange}
               disabled={disabled}
               onImageUpload={onImageUpload}
               collection={collection}
               contentId={contentId}
+              errors={errors}
             />
           ) : (
             <BasicFields
@@ -121,6 +163,14 @@ export function FrontmatterForm({
               disabled={disabled}
             />
           )}
+          {/* Data entries are not published, so there is nothing to schedule */}
+          {frontmatter && !standalone && (
+            <ScheduleField
+              frontmatter={frontmatter}
+              onChange={onChange}
+              disabled={disabled || !canSchedule}
+            />
+          )}
         </div>
       </div>
     </aside>
@@ -184,6 +234,30 @@ function getFieldPriority(fieldName: string): number {
   return FIELD_PRIORITY[fieldName] ?? 100;
 }
 
+/**
+ * Get the errors for a field and its array items (e.g. "tags[1]")
+ */
+function getOwnErrors(
+  errors: FrontmatterFieldError[],
+  name: string
+): FrontmatterFieldError[] {
+  return errors.filter(
+    (e) => e.field === name || e.field.startsWith(`${name}[`)
+  );
+}
+
+/**
+ * Get the errors for fields nested in an object field, relative to it
+ */
+function getNestedErrors(
+  errors: FrontmatterFieldError[],
+  name: string
+): FrontmatterFieldError[] {
+  return errors
+    .filter((e) => e.field.startsWith(`${name}.`))
+    .map((e) => ({ ...e, field: e.field.slice(name.length + 1) }));
+}
+
 /**
  * Schema-aware dynamic fields
  */
@@ -195,6 +269,8 @@ function SchemaFields({
   onImageUpload,
   collection,
   contentId,
+  idPrefix = "fm-",
+  errors = [],
 }: {
   frontmatter: Record<string, unknown>;
   schema: CollectionSchema;
@@ -203,6 +279,10 @@ function SchemaFields({
   onImageUpload?: (file: File, fieldName: string) => Promise<string | null>;
   collection?: string;
   contentId?: string;
+  /** Prefix for input IDs, so nested object fields get unique IDs */
+  idPrefix?: string;
+  /** Field errors, with paths relative to this schema */
+  errors?: FrontmatterFieldError[];
 }): React.ReactElement {
   const sortedFields = Object.entries(schema).sort(
     ([aKey, aField], [bKey, bField]) => {
@@ -223,19 +303,33 @@ function SchemaFields({
 
   return (
     <div className="wn-frontmatter-fields">
-      {sortedFields.map(([fieldName, fieldDef]) => (
-        <DynamicField
-          key={fieldName}
-          name={fieldName}
-          field={fieldDef}
-          value={frontmatter[fieldName]}
-          onChange={(value) => onChange(fieldName, value)}
-          disabled={disabled}
-          onImageUpload={onImageUpload}
-          collection={collection}
-          contentId={contentId}
-        />
-      ))}
+      {sortedFields.map(([fieldName, fieldDef]) => {
+        const ownErrors = getOwnErrors(errors, fieldName);
+
+        return (
+          <div key={fieldName} className="wn-frontmatter-field-group">
+            <DynamicField
+              id={`${idPrefix}${fieldName}`}
+              name={fieldName}
+              field={fieldDef}
+              value={frontmatter[fieldName]}
+              onChange={(value) => onChange(fieldName, value)}
+              disabled={disabled}
+              onImageUpload={onImageUpload}
+              collection={collection}
+              contentId={contentId}
+              errors={getNestedErrors(errors, fieldName)}
+            />
+            {ownErrors.map((e) => (
+              <span key={e.field} className="wn-frontmatter-error" role="alert">
+                {e.field === fieldName
+                  ? e.message
+                  : `${e.field.slice(fieldName.length)} ${e.message}`}
+              </span>
+            ))}
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -389,10 +483,81 @@ function BasicFields({
   );
 }
 
+/**
+ * Schedule picker for publishing a draft at a later time
+ *
+ * Picking a time also marks the entry as a draft until then.
+ */
+function ScheduleField({
+  frontmatter,
+  onChange,
+  disabled,
+}: {
+  frontmatter: Record<string, unknown>;
+  onChange: (frontmatter: Record<string, unknown>) => void;
+  disabled: boolean;
+}): React.ReactElement {
+  const value = formatDateTimeForInput(frontmatter[PUBLISH_AT_FIELD]);
+
+  const handleChange = (input: string) => {
+    const date = new Date(input);
+    if (!input || isNaN(date.getTime())) {
+      onChange({ ...frontmatter, [PUBLISH_AT_FIELD]: null });
+      return;
+    }
+    onChange({
+      ...frontmatter,
+      [PUBLISH_AT_FIELD]: date.toISOString(),
+      draft: true,
+    });
+  };
+
+  const hint = !value
+    ? "Pick a time to publish this draft automatically"
+    : frontmatter.draft === true
+      ? "Published automatically at this time"
+      : "Already published, the schedule is ignored";
+
+  return (
+    <div className="wn-frontmatter-schedule">
+      <div className="wn-frontmatter-divider" />
+      <div className="wn-frontmatter-field">
+        <label className="wn-frontmatter-label" htmlFor="fm-publishAt">
+          <Clock size={12} />
+          Schedule Publishing
+        </label>
+        <div className="wn-frontmatter-schedule-row">
+          <input
+            id="fm-publishAt"
+            type="datetime-local"
+            className="wn-frontmatter-input"
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            disabled={disabled}
+          />
+          {value && !disabled && (
+            <button
+              type="button"
+              className="wn-frontmatter-tag-remove"
+              onClick={() => handleChange("")}
+              title="Clear schedule"
+              aria-label="Clear schedule"
+            >
+              <X size={10} />
+            </button>
+          )}
+        </div>
+        <span className="wn-frontmatter-hint">{hint}</span>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Dynamic field renderer based on schema type
  */
 function DynamicField({
+  id: fieldId,
   name,
   field,
   value,
@@ -401,7 +566,9 @@ function DynamicField({
   onImageUpload,
   collection,
   contentId,
+  errors,
 }: {
+  id: string;
   name: string;
   field: SchemaField;
   value: unknown;
@@ -410,10 +577,10 @@ function DynamicField({
   onImageUpload?: (file: File, fieldName: string) => Promise<string | null>;
   collection?: string;
   contentId?: string;
+  /** Errors for nested fields (object fields only) */
+  errors?: FrontmatterFieldError[];
 }): React.ReactElement {
-  const fieldId = `fm-${name}`;
   const label = formatFieldLabel(name);
-  const enumOptions = parseEnumFromDescription(field.description);
 
   switch (field.type) {
     case "boolean":
@@ -458,12 +625,69 @@ function DynamicField({
           label={label}
           value={value as unknown[] | undefined}
           itemType={field.items}
+          options={field.options}
+          referenceCollection={field.collection}
+          onChange={onChange}
+          disabled={disabled}
+          required={field.required}
+        />
+      );
+
+    case "enum":
+      return (
+        <SelectField
+          id={fieldId}
+          label={label}
+          value={String(value ?? "")}
+          options={field.options ?? []}
+          onChange={(selected) => onChange(selected || undefined)}
+          disabled={disabled}
+          required={field.required}
+        />
+      );
+
+    case "reference":
+      if (field.collection) {
+        return (
+          <ReferenceField
+            id={fieldId}
+            label={label}
+            value={getReferenceId(value)}
+            referenceCollection={field.collection}
+            onChange={(selected) => onChange(selected || undefined)}
+            disabled={disabled}
+            required={field.required}
+          />
+        );
+      }
+      return (
+        <StringField
+          id={fieldId}
+          label={label}
+          value={getReferenceId(value)}
           onChange={onChange}
           disabled={disabled}
           required={field.required}
         />
       );
 
+    case "object":
+      return (
+        <ObjectField
+          id={fieldId}
+          label={label}
+          value={value}
+          fields={field.fields}
+          onChange={onChange}
+          disabled={disabled}
+          required={field.required}
+          onImageUpload={onImageUpload}
+          collection={collection}
+          contentId={contentId}
+          errors={errors}
+        />
+      );
+
     case "image":
       return (
         <ImageField
@@ -482,21 +706,7 @@ function DynamicField({
       );
 
     case "string":
-    default:
-      if (enumOptions.length > 0) {
-        return (
-          <SelectField
-            id={fieldId}
-            label={label}
-            value={String(value ?? "")}
-            options={enumOptions}
-            onChange={onChange}
-            disabled={disabled}
-            required={field.required}
-          />
-        );
-      }
-
+    default: {
       const isMultiline =
         name === "description" || name === "excerpt" || name === "summary";
 
@@ -511,6 +721,7 @@ function DynamicField({
           multiline={isMultiline}
         />
       );
+    }
   }
 }
 
@@ -700,16 +911,28 @@ function ArrayField({
   label,
   value,
   itemType,
+  options,
+  referenceCollection,
   onChange,
   disabled,
   required,
 }: BaseFieldProps & {
   value: unknown[] | undefined;
   itemType?: string;
+  /** Allowed values for arrays of enums */
+  options?: string[];
+  /** Target collection for arrays of references */
+  referenceCollection?: string;
   onChange: (value: unknown[]) => void;
 }): React.ReactElement {
   const [inputValue, setInputValue] = useState("");
   const items = Array.isArray(value) ? value : [];
+  const entries = useReferenceEntries(
+    itemType === "reference" ? referenceCollection : undefined
+  );
+  const suggestions =
+    itemType === "enum" ? (options ?? []) : entries.map((entry) => entry.id);
+  const listId = suggestions.length > 0 ? `${id}-suggestions` : undefined;
 
   const handleAdd = () => {
     if (!inputValue.trim()) return;
@@ -742,7 +965,7 @@ function ArrayField({
         <div className="wn-frontmatter-tags">
           {items.map((item, index) => (
             <span key={index} className="wn-frontmatter-tag">
-              {String(item)}
+              {itemType === "reference" ? getReferenceId(item) : String(item)}
               <button
                 type="button"
                 onClick={() => handleRemove(index)}
@@ -765,11 +988,222 @@ function ArrayField({
         disabled={disabled}
         placeholder="Type and press Enter"
         className="wn-frontmatter-input"
+        list={listId}
       />
+      {listId && (
+        <datalist id={listId}>
+          {suggestions
+            .filter((suggestion) => !items.includes(suggestion))
+            .map((suggestion) => (
+              <option key={suggestion} value={suggestion} />
+            ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Load the entries of a collection for reference pickers
+ *
+ * @param referenceCollection - Collection to list (nothing is loaded if undefined)
+ * @returns Entries of the collection, including drafts
+ */
+function useReferenceEntries(referenceCollection?: string): ContentSummary[] {
+  const api = useSharedApi();
+  const [entries, setEntries] = useState<ContentSummary[]>([]);
+
+  useEffect(() => {
+    if (!referenceCollection) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .getContentList(referenceCollection, { includeDrafts: true })
+      .then((list) => {
+        if (!cancelled) setEntries(list);
+      })
+      .catch((err) => {
+        console.error(`Failed to load ${referenceCollection} entries:`, err);
+        if (!cancelled) setEntries([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, referenceCollection]);
+
+  return entries;
+}
+
+function ReferenceField({
+  id,
+  label,
+  value,
+  referenceCollection,
+  onChange,
+  disabled,
+  required,
+}: BaseFieldProps & {
+  value: string;
+  referenceCollection: string;
+  onChange: (value: string) => void;
+}): React.ReactElement {
+  const entries = useReferenceEntries(referenceCollection);
+  const isMissing = value !== "" && !entries.some((e) => e.id === value);
+
+  return (
+    <div className="wn-frontmatter-field">
+      <label htmlFor={id} className="wn-frontmatter-label">
+        {label}
+        {required && <span className="wn-frontmatter-required">*</span>}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="wn-frontmatter-select"
+      >
+        <option value="">Select from {referenceCollection}</option>
+        {/* Keep the current value selectable until entries load */}
+        {isMissing && <option value={value}>{value}</option>}
+        {entries.map((entry) => (
+          <option key={entry.id} value={entry.id}>
+            {entry.title && entry.title !== entry.id
+              ? `${entry.title} (${entry.id})`
+              : entry.id}
+          </option>
+        ))}
+      </select>
     </div>
   );
 }
 
+function ObjectField({
+  id,
+  label,
+  value,
+  fields,
+  onChange,
+  disabled,
+  required,
+  onImageUpload,
+  collection,
+  contentId,
+  errors,
+}: BaseFieldProps & {
+  value: unknown;
+  fields?: CollectionSchema;
+  onChange: (value: Record<string, unknown> | undefined) => void;
+  onImageUpload?: (file: File, fieldName: string) => Promise<string | null>;
+  collection?: string;
+  contentId?: string;
+  errors?: FrontmatterFieldError[];
+}): React.ReactElement {
+  const data = isPlainObject(value) ? value : {};
+
+  const handleChange = (key: string, fieldValue: unknown) => {
+    const next = { ...data };
+    if (fieldValue === undefined) {
+      delete next[key];
+    } else {
+      next[key] = fieldValue;
+    }
+    onChange(Object.keys(next).length > 0 || required ? next : undefined);
+  };
+
+  return (
+    <fieldset className="wn-frontmatter-object" id={id}>
+      <legend className="wn-frontmatter-label">
+        {label}
+        {required && <span className="wn-frontmatter-required">*</span>}
+      </legend>
+      {fields && Object.keys(fields).length > 0 ? (
+        <SchemaFields
+          frontmatter={data}
+          schema={fields}
+          onChange={handleChange}
+          disabled={disabled}
+          onImageUpload={onImageUpload}
+          collection={collection}
+          contentId={contentId}
+          idPrefix={`${id}-`}
+          errors={errors}
+        />
+      ) : (
+        <JsonObjectEditor
+          id={`${id}-json`}
+          value={data}
+          onChange={(next) =>
+            onChange(
+              Object.keys(next).length > 0 || required ? next : undefined
+            )
+          }
+          disabled={disabled}
+        />
+      )}
+    </fieldset>
+  );
+}
+
+/**
+ * Raw JSON editor for objects without nested field definitions
+ */
+function JsonObjectEditor({
+  id,
+  value,
+  onChange,
+  disabled,
+}: {
+  id: string;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+  disabled: boolean;
+}): React.ReactElement {
+  const serialized = JSON.stringify(value, null, 2);
+  const [text, setText] = useState(serialized);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow external changes (e.g. switching content)
+  useEffect(() => {
+    setText(serialized);
+    setError(null);
+  }, [serialized]);
+
+  const handleBlur = () => {
+    try {
+      const parsed: unknown = JSON.parse(text || "{}");
+      if (!isPlainObject(parsed)) {
+        setError("Value must be a JSON object");
+        return;
+      }
+      setError(null);
+      onChange(parsed);
+    } catch {
+      setError("Invalid JSON");
+    }
+  };
+
+  return (
+    <>
+      <textarea
+        id={id}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={handleBlur}
+        disabled={disabled}
+        rows={4}
+        spellCheck={false}
+        className="wn-frontmatter-textarea wn-frontmatter-json"
+      />
+      {error && <span className="wn-frontmatter-error">{error}</span>}
+    </>
+  );
+}
+
 function ImageField({
   id,
   label,
@@ -903,12 +1337,37 @@ function formatDateForInput(value: unknown): string {
   return "";
 }
 
-function parseEnumFromDescription(description?: string): string[] {
-  if (!description) return [];
-  const match = description.match(/^Options:\s*(.+)$/i);
-  if (!match || !match[1]) return [];
-  return match[1]
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
+/**
+ * Format a date as a local `datetime-local` input value
+ */
+function formatDateTimeForInput(value: unknown): string {
+  if (!(value instanceof Date) && typeof value !== "string") return "";
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Get the entry ID from a reference value
+ *
+ * References are usually stored as the entry ID, but Astro also accepts
+ * `{ collection, id }` (or `slug`) objects.
+ */
+function getReferenceId(value: unknown): string {
+  if (isPlainObject(value)) {
+    return String(value.id ?? value.slug ?? "");
+  }
+  return String(value ?? "");
 }
@@ -0,0 +1,406 @@
+/**
+ * @fileoverview Git Panel component
+ *
+ * Slide-in panel listing the content entries with uncommitted Git
+ * changes. Entries can be compared with the last commit, and the selected
+ * ones committed with a message (and pushed, when a remote is
+ * configured).
+ *
+ * @module @writenex/astro/client/components/GitPanel
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  X,
+  GitBranch,
+  GitCommit,
+  GitCompare,
+  RefreshCw,
+  Loader2,
+  FileText,
+  CheckSquare,
+  Square,
+} from "lucide-react";
+import type {
+  GitDiffResponse,
+  GitEntryStatus,
+  GitFileStatus,
+  GitStatusResponse,
+} from "../../../types";
+import { useSharedApi } from "../../context/ApiContext";
+import { DiffViewer } from "../VersionHistory";
+import "./GitPanel.css";
+
+/**
+ * Props for the GitPanel component
+ */
+interface GitPanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Callback to close the panel */
+  onClose: () => void;
+  /** Git status (null until loaded) */
+  status: GitStatusResponse | null;
+  /** Whether the status is loading */
+  loading: boolean;
+  /** Error from loading the status */
+  error: string | null;
+  /** Callback to reload the status */
+  onRefresh: () => void;
+  /** Entry open in the editor, selected by default */
+  currentEntry?: { collection: string; id: string } | null;
+  /** Whether the user may commit entries of a collection */
+  canCommit: (collection: string) => boolean;
+  /** Callback when an entry is selected */
+  onSelectEntry: (collection: string, id: string) => void;
+  /** Callback for screen reader announcements */
+  announce?: (message: string, politeness?: "polite" | "assertive") => void;
+}
+
+/**
+ * Labels for Git statuses
+ */
+const STATUS_LABELS: Record<GitFileStatus, string> = {
+  new: "Added",
+  modified: "Modified",
+  deleted: "Deleted",
+  untracked: "Untracked",
+};
+
+/**
+ * Key of an entry in the selection
+ */
+function entryKey(entry: { collection: string; id: string }): string {
+  return `${entry.collection}/${entry.id}`;
+}
+
+/**
+ * Git Panel component
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <GitPanel
+ *   isOpen={showGit}
+ *   onClose={() => setShowGit(false)}
+ *   status={gitStatus}
+ *   loading={gitLoading}
+ *   error={gitError}
+ *   onRefresh={refreshGitStatus}
+ *   canCommit={(collection) => can("commit", collection)}
+ *   onSelectEntry={handleOpenEntry}
+ * />
+ * ```
+ */
+export function GitPanel({
+  isOpen,
+  onClose,
+  status,
+  loading,
+  error,
+  onRefresh,
+  currentEntry,
+  canCommit,
+  onSelectEntry,
+  announce,
+}: GitPanelProps): React.ReactElement | null {
+  const api = useSharedApi();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState("");
+  const [push, setPush] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [result, setResult] = useState<{
+    type: "success" | "warning" | "error";
+    text: string;
+  } | null>(null);
+  const [diff, setDiff] = useState<GitDiffResponse | null>(null);
+  const [diffLoading, setDiffLoading] = useState<string | null>(null);
+
+  const entries = status?.entries ?? [];
+
+  const currentKeyRef = useRef<string | null>(null);
+  currentKeyRef.current = currentEntry ? entryKey(currentEntry) : null;
+
+  // Reload the status and select the open entry when the panel opens
+  useEffect(() => {
+    if (!isOpen) {
+      setResult(null);
+      return;
+    }
+    onRefresh();
+    setSelected(
+      currentKeyRef.current ? new Set([currentKeyRef.current]) : new Set()
+    );
+  }, [isOpen, onRefresh]);
+
+  const toggleSelected = useCallback((key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleShowDiff = useCallback(
+    async (entry: GitEntryStatus) => {
+      const key = entryKey(entry);
+      setDiffLoading(key);
+      try {
+        setDiff(await api.getGitDiff(entry.collection, entry.id));
+      } catch (err) {
+        setResult({
+          type: "error",
+          text: err instanceof Error ? err.message : "Failed to load diff",
+        });
+      } finally {
+        setDiffLoading(null);
+      }
+    },
+    [api]
+  );
+
+  const selectedEntries = entries.filter(
+    (entry) => selected.has(entryKey(entry)) && canCommit(entry.collection)
+  );
+
+  const handleCommit = useCallback(async () => {
+    if (selectedEntries.length === 0 || !message.trim()) return;
+
+    setCommitting(true);
+    setResult(null);
+    try {
+      const response = await api.commitGit({
+        entries: selectedEntries.map(({ collection, id }) => ({
+          collection,
+          id,
+        })),
+        message,
+        push,
+      });
+
+      if (!response.success || !response.commit) {
+        const text = response.error ?? "Commit failed";
+        setResult({ type: "error", text });
+        announce?.(text, "assertive");
+        return;
+      }
+
+      const short = response.commit.slice(0, 7);
+      if (response.pushError) {
+        setResult({
+          type: "warning",
+          text: `Committed ${short}, but pushing failed: ${response.pushError}`,
+        });
+        announce?.("Committed, but pushing failed", "assertive");
+      } else {
+        const text = response.pushed
+          ? `Committed and pushed ${short}`
+          : `Committed ${short}`;
+        setResult({ type: "success", text });
+        announce?.(text, "polite");
+      }
+
+      setMessage("");
+      setSelected(new Set());
+      onRefresh();
+    } catch (err) {
+      setResult({
+        type: "error",
+        text: err instanceof Error ? err.message : "Commit failed",
+      });
+    } finally {
+      setCommitting(false);
+    }
+  }, [api, selectedEntries, message, push, onRefresh, announce]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="wn-git-panel" aria-label="Git">
+        {/* Header */}
+        <div className="wn-git-panel-header">
+          <h2 className="wn-git-panel-title">
+            <GitBranch size={16} />
+            Git
+            {status?.branch && (
+              <span className="wn-git-panel-branch">{status.branch}</span>
+            )}
+          </h2>
+          <div className="wn-git-panel-actions">
+            <button
+              className="wn-git-panel-btn"
+              onClick={onRefresh}
+              disabled={loading}
+              title="Refresh"
+              aria-label="Refresh Git status"
+            >
+              <RefreshCw size={14} className={loading ? "wn-spin" : ""} />
+            </button>
+            <button
+              className="wn-git-panel-btn"
+              onClick={onClose}
+              title="Close"
+              aria-label="Close Git panel"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="wn-git-panel-content">
+          {loading && !status ? (
+            <div className="wn-git-panel-message">
+              <Loader2 size={24} className="wn-spin" />
+              <span>Loading Git status...</span>
+            </div>
+          ) : error ? (
+            <div className="wn-git-panel-message wn-git-panel-message--error">
+              <span>{error}</span>
+              <button onClick={onRefresh}>Retry</button>
+            </div>
+          ) : !status?.repository ? (
+            <div className="wn-git-panel-message">
+              <GitBranch size={32} />
+              <span>
+                This project is not in a Git repository, or Git integration is
+                disabled.
+              </span>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="wn-git-panel-message">
+              <GitCommit size={32} />
+              <span>No uncommitted changes in content</span>
+            </div>
+          ) : (
+            <ul className="wn-git-list">
+              {entries.map((entry) => {
+                const key = entryKey(entry);
+                const allowed = canCommit(entry.collection);
+                const isChecked = allowed && selected.has(key);
+                return (
+                  <li key={key} className="wn-git-item">
+                    <button
+                      className="wn-git-item-check"
+                      onClick={() => toggleSelected(key)}
+                      disabled={!allowed}
+                      role="checkbox"
+                      aria-checked={isChecked}
+                      aria-label={`Include ${key} in the commit`}
+                      title={
+                        allowed
+                          ? undefined
+                          : "Your role cannot commit in this collection"
+                      }
+                    >
+                      {isChecked ? (
+                        <CheckSquare size={14} />
+                      ) : (
+                        <Square size={14} />
+                      )}
+                    </button>
+                    <button
+                      className="wn-git-item-name"
+                      onClick={() => onSelectEntry(entry.collection, entry.id)}
+                      disabled={entry.status === "deleted"}
+                      title={entry.files.join("\n")}
+                    >
+                      <FileText size={12} />
+                      {key}
+                    </button>
+                    <span
+                      className={`wn-git-item-status wn-git-item-status--${entry.status}`}
+                    >
+                      {STATUS_LABELS[entry.status]}
+                    </span>
+                    <button
+                      className="wn-git-panel-btn"
+                      onClick={() => handleShowDiff(entry)}
+                      disabled={diffLoading !== null}
+                      title="Compare with the last commit"
+                      aria-label={`Compare ${key} with the last commit`}
+                    >
+                      {diffLoading === key ? (
+                        <Loader2 size={14} className="wn-spin" />
+                      ) : (
+                        <GitCompare size={14} />
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Commit form */}
+        {status?.repository && entries.length > 0 && (
+          <div className="wn-git-commit">
+            <textarea
+              className="wn-git-commit-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Commit message"
+              aria-label="Commit message"
+              rows={3}
+            />
+            {status.remote && (
+              <label className="wn-git-commit-push">
+                <input
+                  type="checkbox"
+                  checked={push}
+                  onChange={(e) => setPush(e.target.checked)}
+                />
+                Push to {status.remote}
+              </label>
+            )}
+            <button
+              className="wn-btn-primary"
+              onClick={handleCommit}
+              disabled={
+                committing || selectedEntries.length === 0 || !message.trim()
+              }
+            >
+              {committing ? (
+                <Loader2 size={14} className="wn-spin" />
+              ) : (
+                <GitCommit size={14} />
+              )}
+              {committing
+                ? "Committing..."
+                : `Commit ${selectedEntries.length} ${
+                    selectedEntries.length === 1 ? "entry" : "entries"
+                  }`}
+            </button>
+          </div>
+        )}
+
+        {result && (
+          <div
+            className={`wn-git-result wn-git-result--${result.type}`}
+            role={result.type === "error" ? "alert" : "status"}
+          >
+            {result.text}
+          </div>
+        )}
+      </div>
+
+      {/* Diff Viewer Modal */}
+      {diff && (
+        <DiffViewer
+          oldContent={diff.original}
+          newContent={diff.current}
+          oldLabel="Last commit"
+          newLabel="Working tree"
+          title={`Changes in ${diff.path}`}
+          onClose={() => setDiff(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview GitPanel component exports
+ *
+ * @module @writenex/astro/client/components/GitPanel
+ */
+
+export { GitPanel } from "./GitPanel";
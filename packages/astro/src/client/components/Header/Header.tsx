@@ -18,6 +18,11 @@ import {
   Moon,
   Monitor,
   History,
+  Link2,
+  Images,
+  GitBranch,
+  Clock,
+  Kanban,
   Plus,
 } from "lucide-react";
 import { useTheme, type Theme } from "../../context/ThemeContext";
@@ -63,6 +68,24 @@ interface HeaderProps {
   onToggleVersionHistory?: () => void;
   /** Whether version history is available (content selected) */
   versionHistoryEnabled?: boolean;
+  /** Whether the backlinks panel is open */
+  isBacklinksOpen?: boolean;
+  /** Callback to toggle backlinks panel */
+  onToggleBacklinks?: () => void;
+  /** Whether the media library panel is open */
+  isMediaLibraryOpen?: boolean;
+  /** Callback to toggle media library panel */
+  onToggleMediaLibrary?: () => void;
+  /** Whether the Git panel is open */
+  isGitOpen?: boolean;
+  /** Callback to toggle Git panel */
+  onToggleGit?: () => void;
+  /** Whether the timeline and trash panel is open */
+  isTimelineOpen?: boolean;
+  /** Callback to toggle timeline and trash panel */
+  onToggleTimeline?: () => void;
+  /** Callback to open the workflow board (omit to disable the button) */
+  onOpenWorkflowBoard?: () => void;
   /** Callback when keyboard shortcuts button is clicked */
   onKeyboardShortcuts?: () => void;
   /** Callback when settings button is clicked */
@@ -220,6 +243,15 @@ export function Header({
   isVersionHistoryOpen = false,
   onToggleVersionHistory,
   versionHistoryEnabled = false,
+  isBacklinksOpen = false,
+  onToggleBacklinks,
+  isMediaLibraryOpen = false,
+  onToggleMediaLibrary,
+  isGitOpen = false,
+  onToggleGit,
+  isTimelineOpen = false,
+  onToggleTimeline,
+  onOpenWorkflowBoard,
   onKeyboardShortcuts,
   onSettings,
   onNewContent,
@@ -279,6 +311,37 @@ export function Header({
           active={isVersionHistoryOpen}
           disabled={!versionHistoryEnabled}
         />
+        <ToolbarButton
+          icon={<Link2 size={16} />}
+          label="Backlinks"
+          onClick={onToggleBacklinks}
+          active={isBacklinksOpen}
+          disabled={!versionHistoryEnabled}
+        />
+        <ToolbarButton
+          icon={<Images size={16} />}
+          label="Media Library"
+          onClick={onToggleMediaLibrary}
+          active={isMediaLibraryOpen}
+        />
+        <ToolbarButton
+          icon={<GitBranch size={16} />}
+          label="Git"
+          onClick={onToggleGit}
+          active={isGitOpen}
+        />
+        <ToolbarButton
+          icon={<Clock size={16} />}
+          label="Timeline & Trash"
+          onClick={onToggleTimeline}
+          active={isTimelineOpen}
+        />
+        <ToolbarButton
+          icon={<Kanban size={16} />}
+          label="Workflow Board"
+          onClick={onOpenWorkflowBoard}
+          disabled={!onOpenWorkflowBoard}
+        />
 
         <ToolbarSeparator />
 
@@ -10,6 +10,7 @@
 
 import { lazy, Suspense, memo } from "react";
 import { EditorLoading } from "./Editor/Editor";
+import type { MdxComponentConfig } from "../../types";
 
 /**
  * Props for LazyEditor - same as Editor
@@ -35,6 +36,10 @@ interface LazyEditorProps {
   searchQuery?: string;
   /** Current search match index (1-based) */
   searchActiveIndex?: number;
+  /** Whether the content is MDX (enables component editing) */
+  mdx?: boolean;
+  /** MDX component registry */
+  components?: MdxComponentConfig[];
 }
 
 /**
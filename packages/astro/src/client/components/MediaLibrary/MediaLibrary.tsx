@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Media Library component
+ *
+ * Slide-in panel listing every image in the project (collection folders
+ * and `public/`) with its size, dimensions and the entries that use it.
+ * Images that no entry references are flagged as orphaned.
+ *
+ * @module @writenex/astro/client/components/MediaLibrary
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  X,
+  Images,
+  RefreshCw,
+  Loader2,
+  FileText,
+  AlertTriangle,
+} from "lucide-react";
+import type { MediaItem } from "../../../types";
+import { useSharedApi } from "../../context/ApiContext";
+import "./MediaLibrary.css";
+
+/**
+ * Props for the MediaLibrary component
+ */
+interface MediaLibraryProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Callback to close the panel */
+  onClose: () => void;
+  /** Changes whenever content is saved, to refetch the library */
+  revision?: number;
+  /** Callback when an entry using an image is selected */
+  onSelectEntry: (collection: string, id: string) => void;
+}
+
+/**
+ * Format file size for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Media Library component
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <MediaLibrary
+ *   isOpen={showMedia}
+ *   onClose={() => setShowMedia(false)}
+ *   onSelectEntry={handleOpenEntry}
+ * />
+ * ```
+ */
+export function MediaLibrary({
+  isOpen,
+  onClose,
+  revision,
+  onSelectEntry,
+}: MediaLibraryProps): React.ReactElement | null {
+  const api = useSharedApi();
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [orphanedOnly, setOrphanedOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await api.getMedia();
+      setItems(data.items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch media");
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Fetch media when panel opens or content changes
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, revision, refresh]);
+
+  if (!isOpen) return null;
+
+  const orphanedCount = items.filter((item) => item.orphaned).length;
+  const visible = orphanedOnly ? items.filter((item) => item.orphaned) : items;
+
+  return (
+    <div className="wn-media-panel" aria-label="Media library">
+      {/* Header */}
+      <div className="wn-media-panel-header">
+        <h2 className="wn-media-panel-title">
+          <Images size={16} />
+          Media Library
+        </h2>
+        <div className="wn-media-panel-actions">
+          <button
+            className="wn-media-panel-btn"
+            onClick={() => refresh()}
+            disabled={loading}
+            title="Refresh"
+            aria-label="Refresh media library"
+          >
+            <RefreshCw size={14} className={loading ? "wn-spin" : ""} />
+          </button>
+          <button
+            className="wn-media-panel-btn"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close media library"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="wn-media-filter" role="tablist">
+        <button
+          role="tab"
+          aria-selected={!orphanedOnly}
+          className={`wn-media-filter-btn ${!orphanedOnly ? "wn-media-filter-btn--active" : ""}`}
+          onClick={() => setOrphanedOnly(false)}
+        >
+          All ({items.length})
+        </button>
+        <button
+          role="tab"
+          aria-selected={orphanedOnly}
+          className={`wn-media-filter-btn ${orphanedOnly ? "wn-media-filter-btn--active" : ""}`}
+          onClick={() => setOrphanedOnly(true)}
+        >
+          Orphaned ({orphanedCount})
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="wn-media-panel-content">
+        {loading && items.length === 0 ? (
+          <div className="wn-media-panel-message">
+            <Loader2 size={24} className="wn-spin" />
+            <span>Loading images...</span>
+          </div>
+        ) : error ? (
+          <div className="wn-media-panel-message wn-media-panel-message--error">
+            <span>{error}</span>
+            <button onClick={() => refresh()}>Retry</button>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="wn-media-panel-message">
+            <Images size={32} />
+            <span>
+              {orphanedOnly ? "Every image is in use" : "No images found"}
+            </span>
+          </div>
+        ) : (
+          <ul className="wn-media-list">
+            {visible.map((item) => (
+              <li key={item.path} className="wn-media-item">
+                <img
+                  className="wn-media-item-thumb"
+                  src={`${api.basePath}/api/media/file/${encodeURI(item.path)}?w=160`}
+                  alt={item.filename}
+                  loading="lazy"
+                />
+                <div className="wn-media-item-info">
+                  <span className="wn-media-item-name" title={item.path}>
+                    {item.filename}
+                  </span>
+                  <span className="wn-media-item-meta">
+                    {formatSize(item.size)}
+                    {item.width && item.height
+                      ? ` · ${item.width}×${item.height}`
+                      : ""}
+                    {" · "}
+                    {item.url ?? item.collection}
+                  </span>
+                  {item.orphaned ? (
+                    <span className="wn-media-item-orphaned">
+                      <AlertTriangle size={12} />
+                      Not used by any entry
+                    </span>
+                  ) : (
+                    <ul className="wn-media-item-usage">
+                      {item.usedBy.map((entry) => (
+                        <li key={`${entry.collection}/${entry.id}`}>
+                          <button
+                            className="wn-media-item-entry"
+                            onClick={() =>
+                              onSelectEntry(entry.collection, entry.id)
+                            }
+                          >
+                            <FileText size={12} />
+                            {entry.collection}/{entry.id}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview MediaLibrary component exports
+ *
+ * @module @writenex/astro/client/components/MediaLibrary
+ */
+
+export { MediaLibrary } from "./MediaLibrary";
@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Merge conflict dialog
+ *
+ * Modal shown when a save could not be merged automatically with changes
+ * made on disk. Lists each conflicting frontmatter key and body hunk and
+ * lets the user pick their side, the disk side, or (for body hunks) both.
+ * Body hunks are rendered with the DiffViewer split view.
+ *
+ * @module @writenex/astro/client/components/MergeConflictDialog
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { X, GitMerge } from "lucide-react";
+import { useFocusTrap } from "../../hooks/useFocusTrap";
+import { computeDiff, SplitView } from "../VersionHistory/DiffViewer";
+import type {
+  ContentMergeResult,
+  ConflictMergeSegment,
+  MergeSource,
+} from "../../../types";
+import "./MergeConflictDialog.css";
+
+/**
+ * Side chosen for a conflict
+ */
+type Resolution = "ours" | "theirs" | "both";
+
+/**
+ * Props for MergeConflictDialog component
+ */
+interface MergeConflictDialogProps {
+  /** Merge attempt returned by the server */
+  merge: ContentMergeResult;
+  /** Callback with the resolved frontmatter and body */
+  onResolve: (resolved: MergeSource) => void;
+  /** Callback to close without resolving */
+  onClose: () => void;
+}
+
+/**
+ * Format a frontmatter value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(removed)";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Build the resolved content from the user's choices
+ *
+ * @param merge - Merge attempt
+ * @param keyChoices - Resolution per conflicting frontmatter key
+ * @param hunkChoices - Resolution per conflicting body segment index
+ * @returns Resolved frontmatter and body
+ */
+function resolveMerge(
+  merge: ContentMergeResult,
+  keyChoices: Record<string, Resolution>,
+  hunkChoices: Record<number, Resolution>
+): MergeSource {
+  const frontmatter = { ...merge.frontmatter };
+  for (const conflict of merge.frontmatterConflicts) {
+    if (keyChoices[conflict.key] !== "theirs") continue;
+    if (conflict.theirs === undefined) {
+      delete frontmatter[conflict.key];
+    } else {
+      frontmatter[conflict.key] = conflict.theirs;
+    }
+  }
+
+  const lines: string[] = [];
+  merge.segments.forEach((segment, index) => {
+    if (segment.type === "resolved") {
+      lines.push(...segment.lines);
+      return;
+    }
+    const choice = hunkChoices[index] ?? "ours";
+    if (choice === "ours" || choice === "both") lines.push(...segment.ours);
+    if (choice === "theirs" || choice === "both") {
+      lines.push(...segment.theirs);
+    }
+  });
+
+  return { frontmatter, body: lines.join("\n") };
+}
+
+/**
+ * Modal dialog for resolving merge conflicts
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <MergeConflictDialog
+ *   merge={conflict.merge}
+ *   onResolve={handleResolve}
+ *   onClose={() => setConflict(null)}
+ * />
+ * ```
+ */
+export function MergeConflictDialog({
+  merge,
+  onResolve,
+  onClose,
+}: MergeConflictDialogProps): React.ReactElement {
+  const [keyChoices, setKeyChoices] = useState<Record<string, Resolution>>({});
+  const [hunkChoices, setHunkChoices] = useState<Record<number, Resolution>>(
+    {}
+  );
+  const triggerRef = useRef<HTMLElement | null>(null);
+
+  // Store the trigger element when modal mounts
+  useEffect(() => {
+    triggerRef.current = document.activeElement as HTMLElement;
+  }, []);
+
+  // Focus trap for accessibility
+  const { containerRef } = useFocusTrap({
+    enabled: true,
+    onEscape: onClose,
+    returnFocusTo: triggerRef.current,
+  });
+
+  const bodyConflicts = useMemo(
+    () =>
+      merge.segments
+        .map((segment, index) => ({ segment, index }))
+        .filter(
+          (entry): entry is { segment: ConflictMergeSegment; index: number } =>
+            entry.segment.type === "conflict"
+        ),
+    [merge.segments]
+  );
+
+  const conflictCount =
+    merge.frontmatterConflicts.length + bodyConflicts.length;
+
+  const setAll = (choice: "ours" | "theirs") => {
+    setKeyChoices(
+      Object.fromEntries(merge.frontmatterConflicts.map((c) => [c.key, choice]))
+    );
+    setHunkChoices(
+      Object.fromEntries(bodyConflicts.map(({ index }) => [index, choice]))
+    );
+  };
+
+  const handleOverlayClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) onClose();
+  };
+
+  return (
+    <div className="wn-diff-overlay" onClick={handleOverlayClick}>
+      <div
+        ref={containerRef}
+        className="wn-diff-modal wn-merge-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="merge-dialog-title"
+      >
+        {/* Header */}
+        <div className="wn-diff-header">
+          <div className="wn-diff-header-left">
+            <GitMerge size={16} className="wn-merge-icon" />
+            <h2 id="merge-dialog-title" className="wn-diff-title">
+              Resolve Conflicts
+            </h2>
+            <span className="wn-merge-count">
+              {conflictCount} {conflictCount === 1 ? "conflict" : "conflicts"}
+            </span>
+          </div>
+          <div className="wn-diff-header-right">
+            <button
+              className="wn-diff-close"
+              onClick={onClose}
+              title="Close"
+              aria-label="Close merge dialog"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="wn-merge-content">
+          <p className="wn-merge-intro">
+            This file was changed on disk while you were editing. Changes that
+            don't overlap were merged automatically. Choose which version to
+            keep for each conflict below.
+          </p>
+
+          {merge.frontmatterConflicts.length > 0 && (
+            <section className="wn-merge-section">
+              <h3 className="wn-merge-section-title">Frontmatter</h3>
+              {merge.frontmatterConflicts.map((conflict) => {
+                const choice = keyChoices[conflict.key] ?? "ours";
+                return (
+                  <div key={conflict.key} className="wn-merge-field">
+                    <span className="wn-merge-field-key">{conflict.key}</span>
+                    <div
+                      className="wn-merge-choices"
+                      role="radiogroup"
+                      aria-label={`Value for ${conflict.key}`}
+                    >
+                      <button
+                        type="button"
+                        role="radio"
+                        aria-checked={choice === "ours"}
+                        className={`wn-merge-choice ${choice === "ours" ? "wn-merge-choice--active" : ""}`}
+                        onClick={() =>
+                          setKeyChoices((prev) => ({
+                            ...prev,
+                            [conflict.key]: "ours",
+                          }))
+                        }
+                      >
+                        <span className="wn-merge-choice-label">Yours</span>
+                        {formatValue(conflict.ours)}
+                      </button>
+                      <button
+                        type="button"
+                        role="radio"
+                        aria-checked={choice === "theirs"}
+                        className={`wn-merge-choice ${choice === "theirs" ? "wn-merge-choice--active" : ""}`}
+                        onClick={() =>
+                          setKeyChoices((prev) => ({
+                            ...prev,
+                            [conflict.key]: "theirs",
+                          }))
+                        }
+                      >
+                        <span className="wn-merge-choice-label">On disk</span>
+                        {formatValue(conflict.theirs)}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+          )}
+
+          {bodyConflicts.length > 0 && (
+            <section className="wn-merge-section">
+              <h3 className="wn-merge-section-title">Content</h3>
+              {bodyConflicts.map(({ segment, index }, position) => {
+                const choice = hunkChoices[index] ?? "ours";
+                return (
+                  <div key={index} className="wn-merge-hunk">
+                    <div className="wn-merge-hunk-header">
+                      <span>
+                        Conflict {position + 1} of {bodyConflicts.length}
+                      </span>
+                      <div
+                        className="wn-merge-hunk-actions"
+                        role="radiogroup"
+                        aria-label={`Resolution for conflict ${position + 1}`}
+                      >
+                        {(["ours", "theirs", "both"] as const).map((option) => (
+                          <button
+                            key={option}
+                            type="button"
+                            role="radio"
+                            aria-checked={choice === option}
+                            className={`wn-merge-hunk-btn ${choice === option ? "wn-merge-hunk-btn--active" : ""}`}
+                            onClick={() =>
+                              setHunkChoices((prev) => ({
+                                ...prev,
+                                [index]: option,
+                              }))
+                            }
+                          >
+                            {option === "ours"
+                              ? "Yours"
+                              : option === "theirs"
+                                ? "On disk"
+                                : "Both"}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="wn-merge-hunk-diff">
+                      <SplitView
+                        diffLines={computeDiff(
+                          segment.theirs.join("\n"),
+                          segment.ours.join("\n")
+                        )}
+                        oldLabel="On disk"
+                        newLabel="Yours"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="wn-merge-footer">
+          <div className="wn-merge-footer-left">
+            <button
+              type="button"
+              className="wn-merge-btn"
+              onClick={() => setAll("ours")}
+            >
+              All yours
+            </button>
+            <button
+              type="button"
+              className="wn-merge-btn"
+              onClick={() => setAll("theirs")}
+            >
+              All on disk
+            </button>
+          </div>
+          <div className="wn-merge-footer-right">
+            <button type="button" className="wn-merge-btn" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="wn-merge-btn wn-merge-btn--primary"
+              onClick={() =>
+                onResolve(resolveMerge(merge, keyChoices, hunkChoices))
+              }
+            >
+              Apply &amp; Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview MergeConflictDialog component exports
+ *
+ * @module @writenex/astro/client/components/MergeConflictDialog
+ */
+
+export { MergeConflictDialog } from "./MergeConflictDialog";
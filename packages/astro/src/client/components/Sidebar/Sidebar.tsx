@@ -9,6 +9,9 @@
  * - ARIA tab pattern for filter tabs
  * - Screen reader announcements for search results
  * - Proper aria-current for selected items
+ * - Multi-select (selection mode or Ctrl/Cmd+click) with batch actions
+ * - Filter tabs per workflow state in collections with a workflow
+ * - Badge for drafts scheduled to be published
  *
  * @module @writenex/astro/client/components/Sidebar
  */
@@ -22,8 +25,13 @@ import {
   CheckCircle,
   RefreshCw,
   Search,
+  CheckSquare,
+  Square,
+  ListChecks,
 } from "lucide-react";
 import type { Collection, ContentSummary } from "../../hooks/useApi";
+import type { BatchAction, GitFileStatus } from "../../../types";
+import { BatchActions } from "../BatchActions";
 import { useArrowNavigation } from "../../hooks/useArrowNavigation";
 import { useAnnounce } from "../../hooks/useAnnounce";
 import "./Sidebar.css";
@@ -85,9 +93,32 @@ interface ContentItemProps {
   isSelected: boolean;
   isFocused: boolean;
   onSelect: (id: string) => void;
+  /** Whether the list is in multi-select mode */
+  selectionMode: boolean;
+  /** Whether the item is part of the multi-selection */
+  isChecked: boolean;
+  /** Callback to add or remove the item from the multi-selection */
+  onToggleChecked: (id: string) => void;
+  /** Uncommitted Git changes of the item, if any */
+  gitStatus?: GitFileStatus;
+  /** Label of the item's workflow state, if it is not published */
+  stateLabel?: string;
   id: string;
 }
 
+/**
+ * Badge letters and descriptions for Git statuses
+ */
+const GIT_STATUS_BADGES: Record<
+  GitFileStatus,
+  { label: string; title: string }
+> = {
+  new: { label: "A", title: "Added, not committed" },
+  modified: { label: "M", title: "Modified since the last commit" },
+  deleted: { label: "D", title: "Deleted, not committed" },
+  untracked: { label: "U", title: "Untracked by Git" },
+};
+
 /**
  * Individual content item in the sidebar
  */
@@ -96,21 +127,38 @@ const ContentListItem = memo(function ContentListItem({
   isSelected,
   isFocused,
   onSelect,
+  selectionMode,
+  isChecked,
+  onToggleChecked,
+  gitStatus,
+  stateLabel,
   id,
 }: ContentItemProps) {
-  const handleClick = useCallback(() => {
-    onSelect(item.id);
-  }, [item.id, onSelect]);
+  const handleClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (selectionMode || e.ctrlKey || e.metaKey) {
+        onToggleChecked(item.id);
+        return;
+      }
+      onSelect(item.id);
+    },
+    [item.id, onSelect, selectionMode, onToggleChecked]
+  );
 
   const className = [
     "wn-content-item",
     isSelected ? "wn-content-item--selected" : "",
+    isChecked ? "wn-content-item--checked" : "",
   ]
     .filter(Boolean)
     .join(" ");
 
   return (
-    <li role="option" aria-selected={isFocused} id={id}>
+    <li
+      role="option"
+      aria-selected={selectionMode ? isChecked : isFocused}
+      id={id}
+    >
       <button
         className={className}
         onClick={handleClick}
@@ -119,8 +167,41 @@ const ContentListItem = memo(function ContentListItem({
         title={item.title}
       >
         <div className="wn-content-item-header">
+          {selectionMode &&
+            (isChecked ? (
+              <CheckSquare
+                size={14}
+                className="wn-content-item-check wn-content-item-check--on"
+                aria-hidden="true"
+              />
+            ) : (
+              <Square
+                size={14}
+                className="wn-content-item-check"
+                aria-hidden="true"
+              />
+            ))}
           <span className="wn-content-item-title">{item.title}</span>
-          {item.draft && <span className="wn-badge-draft">Draft</span>}
+          {item.draft && item.publishAt ? (
+            <span
+              className="wn-badge-scheduled"
+              title={`Publishes ${formatDateTime(item.publishAt)}`}
+            >
+              Scheduled
+            </span>
+          ) : stateLabel ? (
+            <span className="wn-badge-draft">{stateLabel}</span>
+          ) : (
+            item.draft && <span className="wn-badge-draft">Draft</span>
+          )}
+          {gitStatus && (
+            <span
+              className={`wn-badge-git wn-badge-git--${gitStatus}`}
+              title={GIT_STATUS_BADGES[gitStatus].title}
+            >
+              {GIT_STATUS_BADGES[gitStatus].label}
+            </span>
+          )}
         </div>
         {item.pubDate && (
           <span className="wn-content-item-date">
@@ -148,6 +229,36 @@ function formatDate(dateStr: string): string {
   }
 }
 
+/**
+ * Format date-time string to readable format
+ */
+function formatDateTime(dateStr: string): string {
+  const date = new Date(dateStr);
+  return isNaN(date.getTime())
+    ? dateStr
+    : date.toLocaleString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      });
+}
+
+/**
+ * Content filter tab
+ */
+interface FilterTab {
+  /** Filter key ("all", "published", "draft" or a workflow state) */
+  key: string;
+  /** Tab content */
+  label: React.ReactNode;
+  /** Tooltip */
+  title?: string;
+  /** Whether an item passes the filter */
+  matches: (item: ContentSummary) => boolean;
+}
+
 /**
  * Props for Sidebar component
  */
@@ -172,12 +283,19 @@ interface SidebarProps {
   selectedContent: string | null;
   /** Callback when content is selected */
   onSelectContent: (id: string) => void;
-  /** Callback to create new content */
-  onCreateContent: () => void;
+  /** Callback to create new content (omit to hide the create actions) */
+  onCreateContent?: () => void;
   /** Callback to refresh collections */
   onRefreshCollections: () => void;
   /** Callback to refresh content */
   onRefreshContent: () => void;
+  /**
+   * Callback to apply a batch action to several content items.
+   * Resolves to true when the action was applied.
+   */
+  onBatchAction?: (ids: string[], action: BatchAction) => Promise<boolean>;
+  /** Git status per content ID in the selected collection */
+  gitStatus?: Record<string, GitFileStatus>;
 }
 
 /**
@@ -199,11 +317,16 @@ export function Sidebar({
   onCreateContent,
   onRefreshCollections,
   onRefreshContent,
+  onBatchAction,
+  gitStatus,
 }: SidebarProps): React.ReactElement {
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterDraft, setFilterDraft] = useState<"all" | "published" | "draft">(
-    "all"
-  );
+
+  // Multi-selection for batch actions
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(() => new Set());
+  const [isApplyingBatch, setIsApplyingBatch] = useState(false);
+  const [filter, setFilter] = useState("all");
 
   // Focus indices for arrow navigation
   const [collectionFocusIndex, setCollectionFocusIndex] = useState(0);
@@ -233,26 +356,98 @@ export function Sidebar({
 
   useEffect(() => {
     setSearchQuery("");
+    setFilter("all");
+    setSelectionMode(false);
+    setCheckedIds(new Set());
   }, [selectedCollection]);
 
-  const draftCount = useMemo(
-    () => contentItems.filter((item) => item.draft).length,
-    [contentItems]
-  );
+  const workflow = collections.find(
+    (col) => col.name === selectedCollection
+  )?.workflow;
 
-  const publishedCount = useMemo(
-    () => contentItems.filter((item) => !item.draft).length,
-    [contentItems]
-  );
+  // Drop checked items that no longer exist (deleted or renamed)
+  useEffect(() => {
+    setCheckedIds((prev) => {
+      const ids = new Set(contentItems.map((item) => item.id));
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [contentItems]);
+
+  // One tab per workflow state, or published/draft without a workflow
+  const filterTabs = useMemo((): FilterTab[] => {
+    const all: FilterTab = {
+      key: "all",
+      label: `All (${contentItems.length})`,
+      matches: () => true,
+    };
+    const count = (matches: (item: ContentSummary) => boolean) =>
+      contentItems.filter(matches).length;
+
+    if (workflow) {
+      return [
+        all,
+        ...workflow.states.map((state): FilterTab => {
+          const matches = (item: ContentSummary) => item.state === state.name;
+          const label = state.label ?? state.name;
+          return {
+            key: state.name,
+            label: `${label} (${count(matches)})`,
+            title: label,
+            matches,
+          };
+        }),
+      ];
+    }
 
-  const filteredItems = useMemo(() => {
-    let items = contentItems;
+    const isPublished = (item: ContentSummary) => !item.draft;
+    const isDraft = (item: ContentSummary) => !!item.draft;
+    return [
+      all,
+      {
+        key: "published",
+        label: (
+          <>
+            <CheckCircle size={10} aria-hidden="true" />
+            {count(isPublished)}
+          </>
+        ),
+        title: "Published",
+        matches: isPublished,
+      },
+      {
+        key: "draft",
+        label: (
+          <>
+            <FileEdit size={10} aria-hidden="true" />
+            {count(isDraft)}
+          </>
+        ),
+        title: "Drafts",
+        matches: isDraft,
+      },
+    ];
+  }, [contentItems, workflow]);
+
+  const activeTabIndex = Math.max(
+    0,
+    filterTabs.findIndex((tab) => tab.key === filter)
+  );
 
-    if (filterDraft === "published") {
-      items = items.filter((item) => !item.draft);
-    } else if (filterDraft === "draft") {
-      items = items.filter((item) => item.draft);
+  // Labels of unpublished states, shown as badges
+  const stateLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    for (const state of workflow?.states ?? []) {
+      if (!state.published) labels[state.name] = state.label ?? state.name;
     }
+    return labels;
+  }, [workflow]);
+
+  const filteredItems = useMemo(() => {
+    const activeTab = filterTabs[activeTabIndex];
+    let items = activeTab
+      ? contentItems.filter(activeTab.matches)
+      : contentItems;
 
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
@@ -264,7 +459,42 @@ export function Sidebar({
     }
 
     return items;
-  }, [contentItems, searchQuery, filterDraft]);
+  }, [contentItems, searchQuery, filterTabs, activeTabIndex]);
+
+  const handleToggleChecked = useCallback((id: string) => {
+    setSelectionMode(true);
+    setCheckedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleExitSelection = useCallback(() => {
+    setSelectionMode(false);
+    setCheckedIds(new Set());
+  }, []);
+
+  const handleApplyBatch = useCallback(
+    async (action: BatchAction) => {
+      if (!onBatchAction || checkedIds.size === 0) return;
+
+      setIsApplyingBatch(true);
+      try {
+        const applied = await onBatchAction([...checkedIds], action);
+        if (applied) {
+          setCheckedIds(new Set());
+        }
+      } finally {
+        setIsApplyingBatch(false);
+      }
+    },
+    [onBatchAction, checkedIds]
+  );
 
   // Generate IDs for collection items
   const collectionIds = useMemo(
@@ -280,8 +510,8 @@ export function Sidebar({
 
   // Tab IDs for filter tabs
   const tabIds = useMemo(
-    () => ["wn-tab-all", "wn-tab-published", "wn-tab-draft"],
-    []
+    () => filterTabs.map((tab) => `wn-tab-${tab.key}`),
+    [filterTabs]
   );
 
   // Arrow navigation for collections
@@ -305,8 +535,12 @@ export function Sidebar({
     currentIndex: contentFocusIndex,
     onIndexChange: setContentFocusIndex,
     onSelect: (index) => {
-      if (filteredItems[index]) {
-        onSelectContent(filteredItems[index].id);
+      const item = filteredItems[index];
+      if (!item) return;
+      if (selectionMode) {
+        handleToggleChecked(item.id);
+      } else {
+        onSelectContent(item.id);
       }
     },
     orientation: "vertical",
@@ -320,14 +554,9 @@ export function Sidebar({
     currentIndex: tabFocusIndex,
     onIndexChange: setTabFocusIndex,
     onSelect: (index) => {
-      const filters: Array<"all" | "published" | "draft"> = [
-        "all",
-        "published",
-        "draft",
-      ];
-      const filter = filters[index];
-      if (filter) {
-        setFilterDraft(filter);
+      const tab = filterTabs[index];
+      if (tab) {
+        setFilter(tab.key);
       }
     },
     orientation: "horizontal",
@@ -337,9 +566,8 @@ export function Sidebar({
 
   // Update tab focus index when filter changes
   useEffect(() => {
-    const filterToIndex = { all: 0, published: 1, draft: 2 };
-    setTabFocusIndex(filterToIndex[filterDraft]);
-  }, [filterDraft]);
+    setTabFocusIndex(activeTabIndex);
+  }, [activeTabIndex]);
 
   // Reset content focus index when filtered items change
   useEffect(() => {
@@ -462,6 +690,20 @@ export function Sidebar({
                 {selectedCollection}
               </span>
               <div className="wn-sidebar-section-actions">
+                {onBatchAction && contentItems.length > 0 && (
+                  <button
+                    className={`wn-sidebar-icon-btn ${selectionMode ? "wn-sidebar-icon-btn--active" : ""}`}
+                    onClick={
+                      selectionMode
+                        ? handleExitSelection
+                        : () => setSelectionMode(true)
+                    }
+                    title="Select multiple"
+                    aria-pressed={selectionMode}
+                  >
+                    <ListChecks size={14} />
+                  </button>
+                )}
                 <button
                   className="wn-sidebar-icon-btn"
                   onClick={onRefreshContent}
@@ -469,13 +711,15 @@ export function Sidebar({
                 >
                   <RefreshCw size={14} />
                 </button>
-                <button
-                  className="wn-sidebar-icon-btn wn-sidebar-icon-btn--primary"
-                  onClick={onCreateContent}
-                  title="New content"
-                >
-                  <Plus size={14} />
-                </button>
+                {onCreateContent && (
+                  <button
+                    className="wn-sidebar-icon-btn wn-sidebar-icon-btn--primary"
+                    onClick={onCreateContent}
+                    title="New content"
+                  >
+                    <Plus size={14} />
+                  </button>
+                )}
               </div>
             </div>
 
@@ -504,48 +748,45 @@ export function Sidebar({
                   )}
                 </div>
                 <div
-                  className="wn-filter-tabs"
+                  className={`wn-filter-tabs ${workflow ? "wn-filter-tabs--wrap" : ""}`}
                   role="tablist"
                   aria-label="Filter content"
                   ref={tabListRef}
                   onKeyDown={handleTabKeyDown}
                 >
-                  <button
-                    id={tabIds[0]}
-                    className={`wn-filter-tab ${filterDraft === "all" ? "wn-filter-tab--active" : ""}`}
-                    onClick={() => setFilterDraft("all")}
-                    role="tab"
-                    aria-selected={filterDraft === "all"}
-                    tabIndex={tabFocusIndex === 0 ? 0 : -1}
-                  >
-                    All ({contentItems.length})
-                  </button>
-                  <button
-                    id={tabIds[1]}
-                    className={`wn-filter-tab ${filterDraft === "published" ? "wn-filter-tab--active" : ""}`}
-                    onClick={() => setFilterDraft("published")}
-                    role="tab"
-                    aria-selected={filterDraft === "published"}
-                    tabIndex={tabFocusIndex === 1 ? 0 : -1}
-                  >
-                    <CheckCircle size={10} aria-hidden="true" />
-                    {publishedCount}
-                  </button>
-                  <button
-                    id={tabIds[2]}
-                    className={`wn-filter-tab ${filterDraft === "draft" ? "wn-filter-tab--active" : ""}`}
-                    onClick={() => setFilterDraft("draft")}
-                    role="tab"
-                    aria-selected={filterDraft === "draft"}
-                    tabIndex={tabFocusIndex === 2 ? 0 : -1}
-                  >
-                    <FileEdit size={10} aria-hidden="true" />
-                    {draftCount}
-                  </button>
+                  {filterTabs.map((tab, index) => (
+                    <button
+                      key={tab.key}
+                      id={tabIds[index]}
+                      className={`wn-filter-tab ${index === activeTabIndex ? "wn-filter-tab--active" : ""}`}
+                      onClick={() => setFilter(tab.key)}
+                      role="tab"
+                      aria-selected={index === activeTabIndex}
+                      tabIndex={tabFocusIndex === index ? 0 : -1}
+                      title={tab.title}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
                 </div>
               </div>
             )}
 
+            {/* Batch Actions */}
+            {selectionMode && onBatchAction && (
+              <BatchActions
+                selectedCount={checkedIds.size}
+                totalCount={filteredItems.length}
+                onSelectAll={() =>
+                  setCheckedIds(new Set(filteredItems.map((item) => item.id)))
+                }
+                onClearSelection={() => setCheckedIds(new Set())}
+                onClose={handleExitSelection}
+                onApply={handleApplyBatch}
+                isBusy={isApplyingBatch}
+              />
+            )}
+
             {/* Content List */}
             {contentLoading ? (
               <div
@@ -563,12 +804,14 @@ export function Sidebar({
             ) : contentItems.length === 0 ? (
               <div className="wn-sidebar-empty">
                 <span className="wn-sidebar-empty-text">No content yet.</span>
-                <button
-                  className="wn-sidebar-empty-link"
-                  onClick={onCreateContent}
-                >
-                  Create your first post
-                </button>
+                {onCreateContent && (
+                  <button
+                    className="wn-sidebar-empty-link"
+                    onClick={onCreateContent}
+                  >
+                    Create your first post
+                  </button>
+                )}
               </div>
             ) : filteredItems.length === 0 ? (
               <div className="wn-sidebar-empty">
@@ -579,7 +822,7 @@ export function Sidebar({
                   className="wn-sidebar-empty-link"
                   onClick={() => {
                     setSearchQuery("");
-                    setFilterDraft("all");
+                    setFilter("all");
                   }}
                 >
                   Clear filters
@@ -590,6 +833,7 @@ export function Sidebar({
                 className="wn-content-list"
                 role="listbox"
                 aria-label="Content items"
+                aria-multiselectable={selectionMode || undefined}
                 ref={contentListRef}
                 onKeyDown={handleContentKeyDown}
               >
@@ -603,6 +847,11 @@ export function Sidebar({
                       isSelected={selectedContent === item.id}
                       isFocused={index === contentFocusIndex}
                       onSelect={onSelectContent}
+                      selectionMode={selectionMode}
+                      isChecked={checkedIds.has(item.id)}
+                      onToggleChecked={handleToggleChecked}
+                      gitStatus={gitStatus?.[item.id]}
+                      stateLabel={item.state && stateLabels[item.state]}
                       id={itemId}
                     />
                   );
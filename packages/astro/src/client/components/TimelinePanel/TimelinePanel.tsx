@@ -0,0 +1,374 @@
+/**
+ * @fileoverview Timeline Panel component
+ *
+ * Slide-in panel with the project-wide version timeline (recent versions
+ * of every entry) and the trash: entries whose file was deleted but whose
+ * version history remains. Trashed entries can be restored with their
+ * images and history, or deleted for good.
+ *
+ * @module @writenex/astro/client/components/TimelinePanel
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  X,
+  Clock,
+  Trash2,
+  RefreshCw,
+  RotateCcw,
+  Loader2,
+  FileText,
+  Images,
+} from "lucide-react";
+import type { TimelineEntry, TrashEntry } from "../../../types";
+import { useSharedApi } from "../../context/ApiContext";
+import "./TimelinePanel.css";
+
+/**
+ * Props for the TimelinePanel component
+ */
+interface TimelinePanelProps {
+  /** Whether the panel is open */
+  isOpen: boolean;
+  /** Callback to close the panel */
+  onClose: () => void;
+  /** Changes whenever content is saved, to refetch the timeline */
+  revision?: number;
+  /** Whether the user may restore entries of a collection */
+  canRestore: (collection: string) => boolean;
+  /** Whether the user may permanently delete entries of a collection */
+  canDelete: (collection: string) => boolean;
+  /** Callback when an entry is selected (also called after a restore) */
+  onSelectEntry: (collection: string, id: string) => void;
+  /** Callback for screen reader announcements */
+  announce?: (message: string, politeness?: "polite" | "assertive") => void;
+}
+
+/**
+ * Format timestamp for display
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  const diffMs = Date.now() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return "Just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Key of an entry in lists
+ */
+function entryKey(entry: { collection: string; contentId: string }): string {
+  return `${entry.collection}/${entry.contentId}`;
+}
+
+/**
+ * Timeline Panel component
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <TimelinePanel
+ *   isOpen={showTimeline}
+ *   onClose={() => setShowTimeline(false)}
+ *   canRestore={(collection) => can("restoreVersions", collection)}
+ *   canDelete={(collection) => can("deleteVersions", collection)}
+ *   onSelectEntry={handleOpenEntry}
+ * />
+ * ```
+ */
+export function TimelinePanel({
+  isOpen,
+  onClose,
+  revision,
+  canRestore,
+  canDelete,
+  onSelectEntry,
+  announce,
+}: TimelinePanelProps): React.ReactElement | null {
+  const api = useSharedApi();
+  const [tab, setTab] = useState<"timeline" | "trash">("timeline");
+  const [versions, setVersions] = useState<TimelineEntry[]>([]);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [timelineData, trashData] = await Promise.all([
+        api.getVersionTimeline(),
+        api.getTrash(),
+      ]);
+      setVersions(timelineData.versions);
+      setTrash(trashData.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch history");
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  // Fetch when the panel opens or content changes
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, revision, refresh]);
+
+  const handleRestore = useCallback(
+    async (entry: TrashEntry) => {
+      const key = entryKey(entry);
+      setBusy(key);
+      setError(null);
+      try {
+        const result = await api.restoreFromTrash(
+          entry.collection,
+          entry.contentId
+        );
+        if (!result.success) {
+          const text = result.error ?? "Failed to restore entry";
+          setError(text);
+          announce?.(text, "assertive");
+          return;
+        }
+        announce?.(`Restored ${key}`, "polite");
+        await refresh();
+        onSelectEntry(entry.collection, entry.contentId);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to restore");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [api, refresh, onSelectEntry, announce]
+  );
+
+  const handleDelete = useCallback(
+    async (entry: TrashEntry) => {
+      const key = entryKey(entry);
+      if (
+        !confirm(
+          `Permanently delete ${key}? Its version history and images cannot be recovered.`
+        )
+      ) {
+        return;
+      }
+
+      setBusy(key);
+      setError(null);
+      try {
+        const result = await api.deleteFromTrash(
+          entry.collection,
+          entry.contentId
+        );
+        if (!result.success) {
+          setError(result.error ?? "Failed to delete entry");
+          return;
+        }
+        announce?.(`Permanently deleted ${key}`, "polite");
+        await refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [api, refresh, announce]
+  );
+
+  if (!isOpen) return null;
+
+  const hasData = versions.length > 0 || trash.length > 0;
+
+  return (
+    <div className="wn-timeline-panel" aria-label="Timeline and trash">
+      {/* Header */}
+      <div className="wn-timeline-panel-header">
+        <h2 className="wn-timeline-panel-title">
+          <Clock size={16} />
+          Timeline
+        </h2>
+        <div className="wn-timeline-panel-actions">
+          <button
+            className="wn-timeline-panel-btn"
+            onClick={() => refresh()}
+            disabled={loading}
+            title="Refresh"
+            aria-label="Refresh timeline"
+          >
+            <RefreshCw size={14} className={loading ? "wn-spin" : ""} />
+          </button>
+          <button
+            className="wn-timeline-panel-btn"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close timeline"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="wn-timeline-tabs" role="tablist">
+        <button
+          role="tab"
+          aria-selected={tab === "timeline"}
+          className={`wn-timeline-tab ${tab === "timeline" ? "wn-timeline-tab--active" : ""}`}
+          onClick={() => setTab("timeline")}
+        >
+          Recent versions
+        </button>
+        <button
+          role="tab"
+          aria-selected={tab === "trash"}
+          className={`wn-timeline-tab ${tab === "trash" ? "wn-timeline-tab--active" : ""}`}
+          onClick={() => setTab("trash")}
+        >
+          Trash ({trash.length})
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="wn-timeline-panel-content">
+        {error && (
+          <div className="wn-timeline-panel-error" role="alert">
+            {error}
+          </div>
+        )}
+
+        {loading && !hasData ? (
+          <div className="wn-timeline-panel-message">
+            <Loader2 size={24} className="wn-spin" />
+            <span>Loading history...</span>
+          </div>
+        ) : tab === "timeline" ? (
+          versions.length === 0 ? (
+            <div className="wn-timeline-panel-message">
+              <Clock size={32} />
+              <span>No versions saved yet</span>
+            </div>
+          ) : (
+            <ul className="wn-timeline-list">
+              {versions.map((version) => (
+                <li
+                  key={`${entryKey(version)}/${version.id}`}
+                  className="wn-timeline-item"
+                >
+                  <button
+                    className="wn-timeline-item-entry"
+                    onClick={() =>
+                      onSelectEntry(version.collection, version.contentId)
+                    }
+                    disabled={version.deleted}
+                    title={version.deleted ? "Deleted (see Trash)" : undefined}
+                  >
+                    <FileText size={12} />
+                    {entryKey(version)}
+                  </button>
+                  <span className="wn-timeline-item-meta">
+                    {formatTimestamp(version.timestamp)}
+                    {version.label && (
+                      <span className="wn-timeline-item-label">
+                        {version.label}
+                      </span>
+                    )}
+                    {version.deleted && (
+                      <span className="wn-timeline-item-deleted">Deleted</span>
+                    )}
+                  </span>
+                  {version.preview && (
+                    <span className="wn-timeline-item-preview">
+                      {version.preview}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )
+        ) : trash.length === 0 ? (
+          <div className="wn-timeline-panel-message">
+            <Trash2 size={32} />
+            <span>The trash is empty</span>
+          </div>
+        ) : (
+          <ul className="wn-timeline-list">
+            {trash.map((entry) => {
+              const key = entryKey(entry);
+              return (
+                <li key={key} className="wn-timeline-item">
+                  <span className="wn-timeline-item-title" title={entry.path}>
+                    {entry.title ?? entry.contentId}
+                  </span>
+                  <span className="wn-timeline-item-meta">
+                    {key}
+                    {" · "}
+                    {entry.deletedAt
+                      ? `Deleted ${formatTimestamp(entry.deletedAt)}`
+                      : `Last saved ${formatTimestamp(entry.latest.timestamp)}`}
+                  </span>
+                  <span className="wn-timeline-item-meta">
+                    {entry.versions}{" "}
+                    {entry.versions === 1 ? "version" : "versions"}
+                    {entry.hasImages && (
+                      <>
+                        {" · "}
+                        <Images size={12} aria-hidden="true" />
+                        images kept
+                      </>
+                    )}
+                  </span>
+                  <div className="wn-timeline-item-actions">
+                    <button
+                      className="wn-timeline-item-btn"
+                      onClick={() => handleRestore(entry)}
+                      disabled={busy !== null || !canRestore(entry.collection)}
+                      title={
+                        canRestore(entry.collection)
+                          ? "Restore the entry with its images and history"
+                          : "Your role cannot restore entries in this collection"
+                      }
+                    >
+                      {busy === key ? (
+                        <Loader2 size={12} className="wn-spin" />
+                      ) : (
+                        <RotateCcw size={12} />
+                      )}
+                      Restore
+                    </button>
+                    {canDelete(entry.collection) && (
+                      <button
+                        className="wn-timeline-item-btn wn-timeline-item-btn--danger"
+                        onClick={() => handleDelete(entry)}
+                        disabled={busy !== null}
+                        title="Delete the history and images for good"
+                        aria-label={`Permanently delete ${key}`}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview TimelinePanel component exports
+ *
+ * @module @writenex/astro/client/components/TimelinePanel
+ */
+
+export { TimelinePanel } from "./TimelinePanel";
@@ -25,6 +25,8 @@ interface DiffViewerProps {
   oldLabel: string;
   /** Label for new content */
   newLabel: string;
+  /** Dialog title (default: "Compare Versions") */
+  title?: string;
   /** Callback to close the viewer */
   onClose: () => void;
 }
@@ -37,7 +39,7 @@ type DiffLineType = "unchanged" | "added" | "removed";
 /**
  * Diff line data
  */
-interface DiffLine {
+export interface DiffLine {
   type: DiffLineType;
   content: string;
   oldLineNum?: number;
@@ -48,7 +50,7 @@ interface DiffLine {
  * Simple line-by-line diff algorithm
  * Uses longest common subsequence approach
  */
-function computeDiff(oldText: string, newText: string): DiffLine[] {
+export function computeDiff(oldText: string, newText: string): DiffLine[] {
   const oldLines = oldText.split("\n");
   const newLines = newText.split("\n");
   const result: DiffLine[] = [];
@@ -130,6 +132,7 @@ export function DiffViewer({
   newContent,
   oldLabel,
   newLabel,
+  title = "Compare Versions",
   onClose,
 }: DiffViewerProps): React.ReactElement {
   const [viewMode, setViewMode] = useState<"split" | "unified">("split");
@@ -179,7 +182,7 @@ export function DiffViewer({
         <div className="wn-diff-header">
           <div className="wn-diff-header-left">
             <h2 id="diff-viewer-title" className="wn-diff-title">
-              Compare Versions
+              {title}
             </h2>
             <div className="wn-diff-stats">
               <span className="wn-diff-stat wn-diff-stat--added">
@@ -249,8 +252,10 @@ export function DiffViewer({
 
 /**
  * Split view component
+ *
+ * Exported for reuse by the merge conflict dialog.
  */
-function SplitView({
+export function SplitView({
   diffLines,
   oldLabel,
   newLabel,
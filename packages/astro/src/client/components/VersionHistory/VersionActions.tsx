@@ -1,7 +1,8 @@
 /**
  * @fileoverview Version Actions component
  *
- * Action buttons for version operations: restore, compare, download, delete.
+ * Action buttons for version operations: restore, compare, download, pin,
+ * delete. Pinned versions are kept forever by pruning.
  * Includes confirmation dialogs for destructive actions.
  * Includes focus trap for accessibility compliance.
  *
@@ -13,6 +14,8 @@ import {
   RotateCcw,
   GitCompare,
   Download,
+  Pin,
+  PinOff,
   Trash2,
   Loader2,
   AlertTriangle,
@@ -28,14 +31,16 @@ import "./VersionActions.css";
 interface VersionActionsProps {
   /** The selected version */
   version: VersionEntry;
-  /** Callback to restore the version */
-  onRestore: () => void;
+  /** Callback to restore the version (omit to hide the action) */
+  onRestore?: () => void;
   /** Callback to compare the version */
   onCompare: () => void;
   /** Callback to download the version */
   onDownload: () => void;
-  /** Callback to delete the version */
-  onDelete: () => void;
+  /** Callback to pin or unpin the version (omit to hide the action) */
+  onTogglePin?: () => void;
+  /** Callback to delete the version (omit to hide the action) */
+  onDelete?: () => void;
   /** Current loading action */
   loading: string | null;
 }
@@ -158,6 +163,7 @@ function ConfirmModal({
  *   onRestore={handleRestore}
  *   onCompare={handleCompare}
  *   onDownload={handleDownload}
+ *   onTogglePin={handleTogglePin}
  *   onDelete={handleDelete}
  *   loading={actionLoading}
  * />
@@ -168,6 +174,7 @@ export function VersionActions({
   onRestore,
   onCompare,
   onDownload,
+  onTogglePin,
   onDelete,
   loading,
 }: VersionActionsProps): React.ReactElement {
@@ -179,7 +186,7 @@ export function VersionActions({
   };
 
   const handleRestoreConfirm = () => {
-    onRestore();
+    onRestore?.();
     setShowRestoreConfirm(false);
   };
 
@@ -188,7 +195,7 @@ export function VersionActions({
   };
 
   const handleDeleteConfirm = () => {
-    onDelete();
+    onDelete?.();
     setShowDeleteConfirm(false);
   };
 
@@ -197,19 +204,21 @@ export function VersionActions({
   return (
     <>
       <div className="wn-version-actions">
-        <button
-          className="wn-version-action wn-version-action--primary"
-          onClick={handleRestoreClick}
-          disabled={isLoading}
-          title="Restore this version"
-        >
-          {loading === "restore" ? (
-            <Loader2 size={14} className="wn-spin" />
-          ) : (
-            <RotateCcw size={14} />
-          )}
-          Restore
-        </button>
+        {onRestore && (
+          <button
+            className="wn-version-action wn-version-action--primary"
+            onClick={handleRestoreClick}
+            disabled={isLoading}
+            title="Restore this version"
+          >
+            {loading === "restore" ? (
+              <Loader2 size={14} className="wn-spin" />
+            ) : (
+              <RotateCcw size={14} />
+            )}
+            Restore
+          </button>
+        )}
         <button
           className="wn-version-action"
           onClick={onCompare}
@@ -232,19 +241,43 @@ export function VersionActions({
           <Download size={14} />
           Download
         </button>
-        <button
-          className="wn-version-action wn-version-action--danger"
-          onClick={handleDeleteClick}
-          disabled={isLoading}
-          title="Delete this version"
-        >
-          {loading === "delete" ? (
-            <Loader2 size={14} className="wn-spin" />
-          ) : (
-            <Trash2 size={14} />
-          )}
-          Delete
-        </button>
+        {onTogglePin && (
+          <button
+            className="wn-version-action"
+            onClick={onTogglePin}
+            disabled={isLoading}
+            aria-pressed={version.pinned === true}
+            title={
+              version.pinned
+                ? "Let this version be pruned again"
+                : "Keep this version forever"
+            }
+          >
+            {loading === "pin" ? (
+              <Loader2 size={14} className="wn-spin" />
+            ) : version.pinned ? (
+              <PinOff size={14} />
+            ) : (
+              <Pin size={14} />
+            )}
+            {version.pinned ? "Unpin" : "Pin"}
+          </button>
+        )}
+        {onDelete && (
+          <button
+            className="wn-version-action wn-version-action--danger"
+            onClick={handleDeleteClick}
+            disabled={isLoading}
+            title="Delete this version"
+          >
+            {loading === "delete" ? (
+              <Loader2 size={14} className="wn-spin" />
+            ) : (
+              <Trash2 size={14} />
+            )}
+            Delete
+          </button>
+        )}
       </div>
 
       {/* Restore Confirmation Modal */}
@@ -264,7 +297,7 @@ export function VersionActions({
       {showDeleteConfirm && (
         <ConfirmModal
           title="Delete Version"
-          message={`Are you sure you want to delete this version${version.label ? ` "${version.label}"` : ""}? This action cannot be undone.`}
+          message={`Are you sure you want to delete this ${version.pinned ? "pinned " : ""}version${version.label ? ` "${version.label}"` : ""}? This action cannot be undone.`}
           confirmLabel="Delete"
           confirmVariant="danger"
           onConfirm={handleDeleteConfirm}
@@ -13,6 +13,7 @@ import {
   History,
   Clock,
   Tag,
+  Pin,
   RefreshCw,
   Loader2,
   Trash2,
@@ -45,6 +46,12 @@ interface VersionHistoryPanelProps {
   currentContent: string;
   /** Callback when content is restored */
   onRestore: (content: string) => void;
+  /** Whether the user may restore versions (default: true) */
+  canRestore?: boolean;
+  /** Whether the user may delete versions (default: true) */
+  canDelete?: boolean;
+  /** Whether the user may pin versions (default: true) */
+  canPin?: boolean;
 }
 
 /**
@@ -104,6 +111,9 @@ export function VersionHistoryPanel({
   contentId,
   currentContent: _currentContent,
   onRestore,
+  canRestore = true,
+  canDelete = true,
+  canPin = true,
 }: VersionHistoryPanelProps): React.ReactElement | null {
   const versionApi = useSharedVersionApi();
   const {
@@ -112,6 +122,7 @@ export function VersionHistoryPanel({
     error,
     refresh,
     restoreVersion,
+    pinVersion,
     deleteVersion,
     clearVersions,
     getDiff,
@@ -174,6 +185,15 @@ export function VersionHistoryPanel({
     }
   };
 
+  const handleTogglePin = async (version: VersionEntry) => {
+    setActionLoading("pin");
+    try {
+      await pinVersion(version.id, !version.pinned);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleDelete = async (versionId: string) => {
     setActionLoading("delete");
     try {
@@ -227,15 +247,17 @@ export function VersionHistoryPanel({
             Version History
           </h2>
           <div className="wn-version-panel-actions">
-            <button
-              className="wn-version-panel-btn wn-version-panel-btn--danger"
-              onClick={() => setShowClearAllConfirm(true)}
-              disabled={loading || versions.length === 0}
-              title="Clear all history"
-              aria-label="Clear all version history"
-            >
-              <Trash2 size={14} />
-            </button>
+            {canDelete && (
+              <button
+                className="wn-version-panel-btn wn-version-panel-btn--danger"
+                onClick={() => setShowClearAllConfirm(true)}
+                disabled={loading || versions.length === 0}
+                title="Clear all history"
+                aria-label="Clear all version history"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
             <button
               className="wn-version-panel-btn"
               onClick={() => refresh()}
@@ -292,10 +314,17 @@ export function VersionHistoryPanel({
         {selectedVersion && (
           <VersionActions
             version={selectedVersion}
-            onRestore={() => handleRestore(selectedVersion.id)}
+            onRestore={
+              canRestore ? () => handleRestore(selectedVersion.id) : undefined
+            }
             onCompare={() => handleCompare(selectedVersion.id)}
             onDownload={() => handleDownload(selectedVersion)}
-            onDelete={() => handleDelete(selectedVersion.id)}
+            onTogglePin={
+              canPin ? () => handleTogglePin(selectedVersion) : undefined
+            }
+            onDelete={
+              canDelete ? () => handleDelete(selectedVersion.id) : undefined
+            }
             loading={actionLoading}
           />
         )}
@@ -348,7 +377,16 @@ function VersionItem({
           <Clock size={12} />
           {formatTimestamp(version.timestamp)}
         </span>
-        <span className="wn-version-item-size">{formatSize(version.size)}</span>
+        <span className="wn-version-item-size">
+          {version.pinned && (
+            <Pin
+              size={10}
+              aria-label="Pinned"
+              className="wn-version-item-pin"
+            />
+          )}
+          {formatSize(version.size)}
+        </span>
       </div>
       {version.label && (
         <span className="wn-version-item-label">
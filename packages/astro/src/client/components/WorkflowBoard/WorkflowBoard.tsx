@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Workflow board component
+ *
+ * Modal Kanban board showing a collection's entries in one column per
+ * workflow state. Cards can be dragged to another column or moved with
+ * their "Move to" menu; only the transitions the workflow allows (and the
+ * user's role permits) are offered.
+ *
+ * @module @writenex/astro/client/components/WorkflowBoard
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { X, Kanban, Loader2 } from "lucide-react";
+import type { CollectionWorkflow } from "../../../types";
+import type { ContentSummary } from "../../hooks/useApi";
+import { useFocusTrap } from "../../hooks/useFocusTrap";
+import { getNextStates, getStateLabel } from "../../utils/workflow";
+import "./WorkflowBoard.css";
+
+/**
+ * Props for the WorkflowBoard component
+ */
+interface WorkflowBoardProps {
+  /** Collection name */
+  collection: string;
+  /** Workflow of the collection */
+  workflow: CollectionWorkflow;
+  /** Entries of the collection */
+  items: ContentSummary[];
+  /** Whether the user may move entries into published states */
+  canPublish: boolean;
+  /** Whether the user may change entries at all */
+  canEdit: boolean;
+  /** Callback to move an entry; resolves to true when it was moved */
+  onMove: (id: string, state: string) => Promise<boolean>;
+  /** Callback to open an entry in the editor */
+  onOpenEntry: (id: string) => void;
+  /** Callback to close the board */
+  onClose: () => void;
+}
+
+/**
+ * Format date string to readable format
+ */
+function formatDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  return isNaN(date.getTime())
+    ? dateStr
+    : date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      });
+}
+
+/**
+ * Workflow board component
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <WorkflowBoard
+ *   collection="blog"
+ *   workflow={collection.workflow}
+ *   items={contentItems}
+ *   canPublish={can("publish", "blog")}
+ *   canEdit={can("edit", "blog")}
+ *   onMove={handleMoveState}
+ *   onOpenEntry={handleSelectContent}
+ *   onClose={() => setShowBoard(false)}
+ * />
+ * ```
+ */
+export function WorkflowBoard({
+  collection,
+  workflow,
+  items,
+  canPublish,
+  canEdit,
+  onMove,
+  onOpenEntry,
+  onClose,
+}: WorkflowBoardProps): React.ReactElement {
+  const [dragged, setDragged] = useState<ContentSummary | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [moving, setMoving] = useState<string | null>(null);
+  const triggerRef = useRef<HTMLElement | null>(null);
+
+  // Store the trigger element when modal mounts
+  useEffect(() => {
+    triggerRef.current = document.activeElement as HTMLElement;
+  }, []);
+
+  // Focus trap for accessibility
+  const { containerRef } = useFocusTrap({
+    enabled: true,
+    onEscape: onClose,
+    returnFocusTo: triggerRef.current,
+  });
+
+  const columns = useMemo(
+    () =>
+      workflow.states.map((state) => ({
+        state,
+        items: items.filter((item) => item.state === state.name),
+      })),
+    [workflow.states, items]
+  );
+
+  const publishedStates = useMemo(
+    () =>
+      new Set(workflow.states.filter((s) => s.published).map((s) => s.name)),
+    [workflow.states]
+  );
+
+  /**
+   * States an entry may be moved to by this user
+   */
+  const getTargets = (item: ContentSummary): string[] => {
+    if (!canEdit || !item.state) return [];
+    return getNextStates(workflow, item.state).filter(
+      (state) => canPublish || !publishedStates.has(state)
+    );
+  };
+
+  const handleMove = async (item: ContentSummary, state: string) => {
+    setMoving(item.id);
+    try {
+      await onMove(item.id, state);
+    } finally {
+      setMoving(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, state: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const item = dragged;
+    setDragged(null);
+    if (item && getTargets(item).includes(state)) {
+      void handleMove(item, state);
+    }
+  };
+
+  const handleOverlayClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) onClose();
+  };
+
+  const labels = Object.fromEntries(
+    workflow.states.map((state) => [state.name, getStateLabel(state)])
+  );
+
+  return (
+    <div className="wn-board-overlay" onClick={handleOverlayClick}>
+      <div
+        ref={containerRef}
+        className="wn-board-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="workflow-board-title"
+      >
+        {/* Header */}
+        <div className="wn-board-header">
+          <h2 id="workflow-board-title" className="wn-board-title">
+            <Kanban size={16} />
+            {collection}
+          </h2>
+          <button
+            className="wn-board-close"
+            onClick={onClose}
+            title="Close"
+            aria-label="Close workflow board"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        {/* Columns */}
+        <div className="wn-board-columns">
+          {columns.map(({ state, items: columnItems }) => {
+            const canDrop =
+              dragged !== null && getTargets(dragged).includes(state.name);
+            return (
+              <section
+                key={state.name}
+                className={[
+                  "wn-board-column",
+                  canDrop ? "wn-board-column--droppable" : "",
+                  dropTarget === state.name && canDrop
+                    ? "wn-board-column--over"
+                    : "",
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+                aria-label={labels[state.name]}
+                onDragOver={(e) => {
+                  if (!canDrop) return;
+                  e.preventDefault();
+                  setDropTarget(state.name);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, state.name)}
+              >
+                <h3 className="wn-board-column-title">
+                  {labels[state.name]}
+                  <span className="wn-board-column-count">
+                    {columnItems.length}
+                  </span>
+                </h3>
+                <ul className="wn-board-cards">
+                  {columnItems.map((item) => {
+                    const targets = getTargets(item);
+                    return (
+                      <li
+                        key={item.id}
+                        className={`wn-board-card ${moving === item.id ? "wn-board-card--moving" : ""}`}
+                        draggable={targets.length > 0 && moving === null}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", item.id);
+                          setDragged(item);
+                        }}
+                        onDragEnd={() => {
+                          setDragged(null);
+                          setDropTarget(null);
+                        }}
+                      >
+                        <button
+                          className="wn-board-card-title"
+                          onClick={() => onOpenEntry(item.id)}
+                          title={`Open ${item.title}`}
+                        >
+                          {item.title}
+                        </button>
+                        <div className="wn-board-card-footer">
+                          <span className="wn-board-card-date">
+                            {item.pubDate ? formatDate(item.pubDate) : item.id}
+                          </span>
+                          {moving === item.id ? (
+                            <Loader2 size={12} className="wn-spin" />
+                          ) : (
+                            targets.length > 0 && (
+                              <select
+                                className="wn-board-card-move"
+                                value=""
+                                onChange={(e) =>
+                                  void handleMove(item, e.target.value)
+                                }
+                                disabled={moving !== null}
+                                aria-label={`Move ${item.title} to`}
+                              >
+                                <option value="" disabled>
+                                  Move to...
+                                </option>
+                                {targets.map((target) => (
+                                  <option key={target} value={target}>
+                                    {labels[target] ?? target}
+                                  </option>
+                                ))}
+                              </select>
+                            )
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Workflow state picker for the open entry
+ *
+ * Replaces the draft/published toggle in collections with a workflow.
+ * States the current state cannot move to, and published states for
+ * roles that cannot publish, are listed but disabled.
+ *
+ * @module @writenex/astro/client/components/WorkflowBoard/WorkflowStateSelect
+ */
+
+import type { CollectionWorkflow } from "../../../types";
+import {
+  getEntryState,
+  getNextStates,
+  getStateLabel,
+} from "../../utils/workflow";
+
+/**
+ * Props for the WorkflowStateSelect component
+ */
+interface WorkflowStateSelectProps {
+  /** Workflow of the collection */
+  workflow: CollectionWorkflow;
+  /** Frontmatter of the open entry */
+  frontmatter: Record<string, unknown>;
+  /** Whether the user may move entries into published states */
+  canPublish: boolean;
+  /** Whether the user may change the entry */
+  disabled?: boolean;
+  /** Callback with the new state */
+  onChange: (state: string) => void;
+}
+
+/**
+ * Workflow state picker component
+ *
+ * @component
+ */
+export function WorkflowStateSelect({
+  workflow,
+  frontmatter,
+  canPublish,
+  disabled = false,
+  onChange,
+}: WorkflowStateSelectProps): React.ReactElement {
+  const current = getEntryState(workflow, frontmatter);
+  const next = new Set(getNextStates(workflow, current));
+  const published = workflow.states.some(
+    (s) => s.name === current && s.published
+  );
+
+  return (
+    <select
+      className={`wn-btn-secondary ${published ? "wn-btn-published" : "wn-btn-draft"}`}
+      value={current}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label="Workflow state"
+      title="Workflow state"
+    >
+      {workflow.states.map((state) => (
+        <option
+          key={state.name}
+          value={state.name}
+          disabled={
+            state.name !== current &&
+            (!next.has(state.name) || (!!state.published && !canPublish))
+          }
+        >
+          {getStateLabel(state)}
+        </option>
+      ))}
+    </select>
+  );
+}
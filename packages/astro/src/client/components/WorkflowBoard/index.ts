@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Workflow components exports
+ *
+ * @module @writenex/astro/client/components/WorkflowBoard
+ */
+
+export { WorkflowBoard } from "./WorkflowBoard";
+export { WorkflowStateSelect } from "./WorkflowStateSelect";
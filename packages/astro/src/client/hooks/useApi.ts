@@ -9,6 +9,29 @@
  */
 
 import { useState, useCallback, useMemo } from "react";
+import type {
+  BatchAction,
+  BatchResponse,
+  BrokenLinksResponse,
+  CollectionWorkflow,
+  ContentLink,
+  ContentLinksResponse,
+  ContentMergeResult,
+  FrontmatterFieldError,
+  GitCommitRequest,
+  GitCommitResponse,
+  GitDiffResponse,
+  GitStatusResponse,
+  MediaResponse,
+  MdxComponentConfig,
+  MergeSource,
+  Permission,
+  SessionResponse,
+  TimelineResponse,
+  TrashResponse,
+  WritenexConfig,
+} from "../../types";
+import { getCsrfHeaders } from "../utils/csrf";
 
 /**
  * Collection data from API
@@ -17,9 +40,13 @@ export interface Collection {
   name: string;
   path: string;
   filePattern: string;
+  /** `data` for JSON/YAML collections, edited without a body */
+  type?: "content" | "data";
   count: number;
   schema?: Record<string, unknown>;
   previewUrl?: string;
+  /** Editorial workflow, when enabled for the collection */
+  workflow?: CollectionWorkflow;
 }
 
 /**
@@ -31,6 +58,10 @@ export interface ContentSummary {
   title: string;
   pubDate?: string;
   draft?: boolean;
+  /** Workflow state (collections with a workflow) */
+  state?: string;
+  /** Scheduled publication time (scheduled drafts) */
+  publishAt?: string;
   excerpt?: string;
 }
 
@@ -43,6 +74,30 @@ export interface ContentItem {
   frontmatter: Record<string, unknown>;
   body: string;
   raw: string;
+  /** File modification time in milliseconds */
+  mtime?: number;
+}
+
+/**
+ * Result of an update request
+ *
+ * On a 409 conflict the server responds with the conflict details instead
+ * of a success flag.
+ */
+export interface UpdateContentResult {
+  success: boolean;
+  mtime?: number;
+  error?: string;
+  /** Error code (e.g. "CONTENT_CONFLICT") */
+  code?: string;
+  /** Content as written, if the update was merged with changes on disk */
+  merged?: MergeSource;
+  /** Modification time of the file on disk (conflicts only) */
+  serverMtime?: number;
+  /** Merge attempt with unresolved conflicts (conflicts only) */
+  merge?: ContentMergeResult;
+  /** Invalid frontmatter fields (validation errors only) */
+  fieldErrors?: FrontmatterFieldError[];
 }
 
 /**
@@ -75,8 +130,14 @@ export interface EditorConfig {
 export interface WritenexClientConfig {
   images?: ImageConfig;
   editor?: EditorConfig;
+  /** MDX components available in the editor */
+  components?: MdxComponentConfig[];
   /** Astro's trailingSlash setting for preview URLs */
   trailingSlash?: "always" | "never" | "ignore";
+  /** Configuration as written in the config file (without defaults) */
+  userConfig?: WritenexConfig;
+  /** Errors in the config file on disk (the last valid config is in use) */
+  configErrors?: string[];
 }
 
 /**
@@ -111,6 +172,35 @@ export function createApiClient(config: ApiConfig) {
       return response.json();
     },
 
+    /**
+     * Write configuration to the config file and apply it
+     */
+    async updateConfig(config: WritenexConfig): Promise<{
+      success?: boolean;
+      configPath?: string;
+      created?: boolean;
+      error?: string;
+      code?: string;
+    }> {
+      const response = await fetch(`${apiBase}/config`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+        body: JSON.stringify(config),
+      });
+      return response.json();
+    },
+
+    /**
+     * Fetch the current user's role and permissions
+     */
+    async getSession(): Promise<SessionResponse> {
+      const response = await fetch(`${apiBase}/session`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch session");
+      }
+      return response.json();
+    },
+
     /**
      * Fetch config file path for opening in editor
      */
@@ -143,10 +233,12 @@ export function createApiClient(config: ApiConfig) {
         includeDrafts?: boolean;
         sort?: string;
         order?: "asc" | "desc";
+        state?: string;
       }
     ): Promise<ContentSummary[]> {
       const params = new URLSearchParams();
       if (options?.includeDrafts) params.set("draft", "true");
+      if (options?.state) params.set("state", options.state);
       if (options?.sort) params.set("sort", options.sort);
       if (options?.order) params.set("order", options.order);
 
@@ -185,10 +277,12 @@ export function createApiClient(config: ApiConfig) {
       id?: string;
       path?: string;
       error?: string;
+      code?: string;
+      fieldErrors?: FrontmatterFieldError[];
     }> {
       const response = await fetch(`${apiBase}/content/${collection}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
         body: JSON.stringify(data),
       });
       return response.json();
@@ -196,31 +290,261 @@ export function createApiClient(config: ApiConfig) {
 
     /**
      * Update content
+     *
+     * Pass `expectedMtime` and `base` (the last loaded version) to have the
+     * server merge with changes made on disk since then.
      */
     async updateContent(
       collection: string,
       id: string,
-      data: { frontmatter?: Record<string, unknown>; body?: string }
-    ): Promise<{ success: boolean; error?: string }> {
+      data: {
+        frontmatter?: Record<string, unknown>;
+        body?: string;
+        expectedMtime?: number;
+        base?: MergeSource;
+      }
+    ): Promise<UpdateContentResult> {
       const response = await fetch(`${apiBase}/content/${collection}/${id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
         body: JSON.stringify(data),
       });
-      return response.json();
+      const result = await response.json();
+      return { ...result, success: result.success === true };
     },
 
     /**
      * Delete content
+     *
+     * Fails with code "CONTENT_HAS_BACKLINKS" if other entries link to the
+     * content, unless `force` is set.
      */
     async deleteContent(
+      collection: string,
+      id: string,
+      options?: { force?: boolean }
+    ): Promise<{
+      success: boolean;
+      error?: string;
+      code?: string;
+      backlinks?: ContentLink[];
+    }> {
+      const query = options?.force ? "?force=true" : "";
+      const response = await fetch(
+        `${apiBase}/content/${collection}/${id}${query}`,
+        {
+          method: "DELETE",
+          headers: getCsrfHeaders(),
+        }
+      );
+      const result = await response.json();
+      return { ...result, success: result.success === true };
+    },
+
+    /**
+     * Apply one change to several content items
+     *
+     * The server applies the change to all items or to none.
+     */
+    async batchContent(
+      collection: string,
+      ids: string[],
+      action: BatchAction
+    ): Promise<BatchResponse> {
+      const response = await fetch(`${apiBase}/content/${collection}/batch`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+        body: JSON.stringify({ ids, action }),
+      });
+      const result = await response.json();
+      return { ...result, success: result.success === true };
+    },
+
+    /**
+     * Rename or move content
+     *
+     * Changes the slug and/or other file pattern tokens. Set `updateLinks`
+     * to also rewrite links in other entries that point at this one.
+     */
+    async moveContent(
+      collection: string,
+      id: string,
+      data: {
+        slug?: string;
+        tokens?: Record<string, string>;
+        updateLinks?: boolean;
+      }
+    ): Promise<{
+      success: boolean;
+      id?: string;
+      path?: string;
+      previousId?: string;
+      updatedEntries?: { collection: string; id: string }[];
+      error?: string;
+      code?: string;
+    }> {
+      const response = await fetch(
+        `${apiBase}/content/${collection}/${id}/move`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+          body: JSON.stringify(data),
+        }
+      );
+      return response.json();
+    },
+
+    /**
+     * Fetch links to and from a content item
+     */
+    async getLinks(
+      collection: string,
+      id: string
+    ): Promise<ContentLinksResponse> {
+      const response = await fetch(`${apiBase}/links/${collection}/${id}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch links");
+      }
+      return response.json();
+    },
+
+    /**
+     * Fetch broken links across all collections
+     */
+    async getBrokenLinks(): Promise<BrokenLinksResponse> {
+      const response = await fetch(`${apiBase}/links/broken`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch broken links");
+      }
+      return response.json();
+    },
+
+    /**
+     * Fetch all images in the project
+     *
+     * With a collection and content ID, each item includes the path to
+     * reference it from that entry.
+     */
+    async getMedia(options?: {
+      collection?: string;
+      contentId?: string;
+      orphaned?: boolean;
+    }): Promise<MediaResponse> {
+      const params = new URLSearchParams();
+      if (options?.collection && options.contentId) {
+        params.set("collection", options.collection);
+        params.set("contentId", options.contentId);
+      }
+      if (options?.orphaned) params.set("orphaned", "true");
+
+      const url = `${apiBase}/media${params.toString() ? `?${params}` : ""}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error("Failed to fetch media");
+      }
+      return response.json();
+    },
+
+    /**
+     * Fetch the content entries with uncommitted Git changes
+     */
+    async getGitStatus(): Promise<GitStatusResponse> {
+      const response = await fetch(`${apiBase}/git/status`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch Git status");
+      }
+      return response.json();
+    },
+
+    /**
+     * Fetch the working-tree diff of an entry
+     */
+    async getGitDiff(collection: string, id: string): Promise<GitDiffResponse> {
+      const response = await fetch(`${apiBase}/git/diff/${collection}/${id}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch Git diff");
+      }
+      return response.json();
+    },
+
+    /**
+     * Commit entries (and optionally push)
+     */
+    async commitGit(
+      request: GitCommitRequest
+    ): Promise<Partial<GitCommitResponse> & { error?: string; code?: string }> {
+      const response = await fetch(`${apiBase}/git/commit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+        body: JSON.stringify(request),
+      });
+      return response.json();
+    },
+
+    /**
+     * Fetch recent versions across all entries
+     */
+    async getVersionTimeline(options?: {
+      collection?: string;
+      limit?: number;
+    }): Promise<TimelineResponse> {
+      const params = new URLSearchParams();
+      if (options?.collection) params.set("collection", options.collection);
+      if (options?.limit) params.set("limit", String(options.limit));
+
+      const url = `${apiBase}/versions/timeline${params.toString() ? `?${params}` : ""}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error("Failed to fetch version timeline");
+      }
+      return response.json();
+    },
+
+    /**
+     * Fetch the deleted entries that can be restored
+     */
+    async getTrash(): Promise<TrashResponse> {
+      const response = await fetch(`${apiBase}/trash`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch trash");
+      }
+      return response.json();
+    },
+
+    /**
+     * Restore a deleted entry with its images and history
+     */
+    async restoreFromTrash(
+      collection: string,
+      id: string
+    ): Promise<{
+      success: boolean;
+      id?: string;
+      path?: string;
+      error?: string;
+      code?: string;
+    }> {
+      const response = await fetch(
+        `${apiBase}/trash/${collection}/${id}/restore`,
+        { method: "POST", headers: getCsrfHeaders() }
+      );
+      const result = await response.json();
+      return { ...result, success: result.success === true };
+    },
+
+    /**
+     * Permanently delete an entry from the trash (history and images)
+     */
+    async deleteFromTrash(
       collection: string,
       id: string
     ): Promise<{ success: boolean; error?: string }> {
-      const response = await fetch(`${apiBase}/content/${collection}/${id}`, {
+      const response = await fetch(`${apiBase}/trash/${collection}/${id}`, {
         method: "DELETE",
+        headers: getCsrfHeaders(),
       });
-      return response.json();
+      const result = await response.json();
+      return { ...result, success: result.success === true };
     },
 
     /**
@@ -229,20 +553,27 @@ export function createApiClient(config: ApiConfig) {
     async uploadImage(
       file: File,
       collection: string,
-      contentId: string
+      contentId: string,
+      options?: { force?: boolean }
     ): Promise<{
       success: boolean;
       path?: string;
       url?: string;
+      width?: number;
+      height?: number;
+      originalPath?: string;
+      deduplicated?: boolean;
       error?: string;
     }> {
       const formData = new FormData();
       formData.append("file", file);
       formData.append("collection", collection);
       formData.append("contentId", contentId);
+      if (options?.force) formData.append("force", "true");
 
       const response = await fetch(`${apiBase}/images`, {
         method: "POST",
+        headers: getCsrfHeaders(),
         body: formData,
       });
       return response.json();
@@ -372,3 +703,74 @@ export function useConfig(apiBaseOrClient: string | ApiClient) {
 
   return { config, loading, error, refresh };
 }
+
+/**
+ * Hook for the current user's role and permissions
+ *
+ * `can` allows every action until the session has loaded (the server
+ * enforces permissions either way), and uses the global role for
+ * collections it does not know yet.
+ *
+ * @param apiBaseOrClient - Either an API base URL string or a pre-created API client
+ */
+export function useSession(apiBaseOrClient: string | ApiClient) {
+  const client = useMemo(() => {
+    if (typeof apiBaseOrClient === "string") {
+      return createApiClient({ apiBase: apiBaseOrClient });
+    }
+    return apiBaseOrClient;
+  }, [apiBaseOrClient]);
+  const [session, setSession] = useState<SessionResponse | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSession(await client.getSession());
+    } catch {
+      // Keep the last known session
+    }
+  }, [client]);
+
+  const can = useCallback(
+    (permission: Permission, collection?: string | null): boolean => {
+      if (!session) return true;
+      const scoped = collection ? session.collections[collection] : undefined;
+      return (scoped ?? session).permissions.includes(permission);
+    },
+    [session]
+  );
+
+  return { session, refresh, can };
+}
+
+/**
+ * Hook for the Git status of content entries
+ *
+ * @param apiBaseOrClient - Either an API base URL string or a pre-created API client
+ */
+export function useGitStatus(apiBaseOrClient: string | ApiClient) {
+  const client = useMemo(() => {
+    if (typeof apiBaseOrClient === "string") {
+      return createApiClient({ apiBase: apiBaseOrClient });
+    }
+    return apiBaseOrClient;
+  }, [apiBaseOrClient]);
+  const [status, setStatus] = useState<GitStatusResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setStatus(await client.getGitStatus());
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch Git status"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  return { status, loading, error, refresh };
+}
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Content events hook for live file change updates
+ *
+ * Subscribes to the server-sent event stream at `/api/events` and invokes
+ * a callback whenever a content file is added, changed, or removed on disk,
+ * and optionally whenever the configuration file is reloaded.
+ *
+ * ## Features:
+ * - Single EventSource connection per apiBase
+ * - Automatic reconnection (handled by EventSource)
+ * - Connection status for UI indicators
+ *
+ * @module @writenex/astro/client/hooks/useContentEvents
+ */
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Content change event pushed by the server
+ */
+export interface ContentChangeEvent {
+  type: "add" | "change" | "unlink";
+  collection: string;
+  contentId: string;
+  path: string;
+  mtime?: number;
+  timestamp: string;
+}
+
+/**
+ * Configuration change event pushed by the server
+ */
+export interface ConfigChangeEvent {
+  status: "applied" | "invalid";
+  configPath: string | null;
+  errors: string[];
+  timestamp: string;
+}
+
+/**
+ * Return value from useContentEvents hook
+ */
+export interface UseContentEventsReturn {
+  /** Whether the event stream is currently connected */
+  connected: boolean;
+}
+
+/**
+ * Hook for receiving live content change events
+ *
+ * The callback is stored in a ref, so passing a new function on every
+ * render does not reopen the connection.
+ *
+ * @param apiBase - Base URL for API requests
+ * @param onChange - Callback invoked for each content change event
+ * @param onConfigChange - Callback invoked when the config file is reloaded
+ * @returns Connection status
+ *
+ * @example
+ * ```tsx
+ * const { connected } = useContentEvents(apiBase, (event) => {
+ *   if (event.collection === selectedCollection) {
+ *     refreshContent();
+ *   }
+ * });
+ * ```
+ */
+export function useContentEvents(
+  apiBase: string,
+  onChange: (event: ContentChangeEvent) => void,
+  onConfigChange?: (event: ConfigChangeEvent) => void
+): UseContentEventsReturn {
+  const [connected, setConnected] = useState(false);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onConfigChangeRef = useRef(onConfigChange);
+  onConfigChangeRef.current = onConfigChange;
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    const source = new EventSource(`${apiBase}/events`);
+
+    const handleOpen = () => setConnected(true);
+    const handleError = () => setConnected(false);
+    const handleChange = (e: MessageEvent<string>) => {
+      try {
+        const event = JSON.parse(e.data) as ContentChangeEvent;
+        onChangeRef.current(event);
+      } catch (err) {
+        console.error("Invalid content event:", err);
+      }
+    };
+    const handleConfigChange = (e: MessageEvent<string>) => {
+      try {
+        const event = JSON.parse(e.data) as ConfigChangeEvent;
+        onConfigChangeRef.current?.(event);
+      } catch (err) {
+        console.error("Invalid config event:", err);
+      }
+    };
+
+    source.addEventListener("open", handleOpen);
+    source.addEventListener("error", handleError);
+    source.addEventListener("content-change", handleChange);
+    source.addEventListener("config-change", handleConfigChange);
+
+    return () => {
+      source.removeEventListener("open", handleOpen);
+      source.removeEventListener("error", handleError);
+      source.removeEventListener("content-change", handleChange);
+      source.removeEventListener("config-change", handleConfigChange);
+      source.close();
+      setConnected(false);
+    };
+  }, [apiBase]);
+
+  return { connected };
+}
@@ -2,13 +2,15 @@
  * @fileoverview Version history hook for Writenex client
  *
  * Custom React hook for managing version history operations.
- * Provides methods for listing, creating, restoring, and deleting versions.
+ * Provides methods for listing, creating, restoring, pinning, and deleting
+ * versions.
  *
  * @module @writenex/astro/client/hooks/useVersionHistory
  */
 
 import { useState, useCallback, useMemo } from "react";
 import type { VersionEntry, Version } from "../../types";
+import { getCsrfHeaders } from "../utils/csrf";
 
 /**
  * Version history API client configuration
@@ -89,7 +91,7 @@ export function createVersionApiClient(config: VersionApiConfig) {
         `${apiBase}/versions/${collection}/${contentId}`,
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
           body: JSON.stringify({ label }),
         }
       );
@@ -111,7 +113,7 @@ export function createVersionApiClient(config: VersionApiConfig) {
     }> {
       const response = await fetch(
         `${apiBase}/versions/${collection}/${contentId}/${versionId}/restore`,
-        { method: "POST" }
+        { method: "POST", headers: getCsrfHeaders() }
       );
       return response.json();
     },
@@ -137,6 +139,26 @@ export function createVersionApiClient(config: VersionApiConfig) {
       return { version: data.version, current: data.current };
     },
 
+    /**
+     * Pin or unpin a version (pinned versions are never pruned)
+     */
+    async pinVersion(
+      collection: string,
+      contentId: string,
+      versionId: string,
+      pinned: boolean
+    ): Promise<{ success: boolean; version?: VersionEntry; error?: string }> {
+      const response = await fetch(
+        `${apiBase}/versions/${collection}/${contentId}/${versionId}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+          body: JSON.stringify({ pinned }),
+        }
+      );
+      return response.json();
+    },
+
     /**
      * Delete a specific version
      */
@@ -147,7 +169,7 @@ export function createVersionApiClient(config: VersionApiConfig) {
     ): Promise<{ success: boolean; error?: string }> {
       const response = await fetch(
         `${apiBase}/versions/${collection}/${contentId}/${versionId}`,
-        { method: "DELETE" }
+        { method: "DELETE", headers: getCsrfHeaders() }
       );
       return response.json();
     },
@@ -161,7 +183,7 @@ export function createVersionApiClient(config: VersionApiConfig) {
     ): Promise<{ success: boolean; error?: string }> {
       const response = await fetch(
         `${apiBase}/versions/${collection}/${contentId}`,
-        { method: "DELETE" }
+        { method: "DELETE", headers: getCsrfHeaders() }
       );
       return response.json();
     },
@@ -196,6 +218,8 @@ export interface UseVersionHistoryActions {
   createVersion: (label?: string) => Promise<boolean>;
   /** Restore a version to current content */
   restoreVersion: (versionId: string) => Promise<string | null>;
+  /** Pin or unpin a version */
+  pinVersion: (versionId: string, pinned: boolean) => Promise<boolean>;
   /** Delete a specific version */
   deleteVersion: (versionId: string) => Promise<boolean>;
   /** Clear all versions */
@@ -354,6 +378,36 @@ export function useVersionHistory(
     [client, collection, contentId, refresh]
   );
 
+  /**
+   * Pin or unpin a version
+   */
+  const pinVersion = useCallback(
+    async (versionId: string, pinned: boolean): Promise<boolean> => {
+      if (!collection || !contentId) return false;
+
+      setError(null);
+
+      try {
+        const result = await client.pinVersion(
+          collection,
+          contentId,
+          versionId,
+          pinned
+        );
+        if (result.success) {
+          await refresh();
+          return true;
+        }
+        setError(result.error ?? "Failed to pin version");
+        return false;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to pin version");
+        return false;
+      }
+    },
+    [client, collection, contentId, refresh]
+  );
+
   /**
    * Delete a specific version
    */
@@ -443,6 +497,7 @@ export function useVersionHistory(
     getVersion,
     createVersion,
     restoreVersion,
+    pinVersion,
     deleteVersion,
     clearVersions,
     getDiff,
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview CSRF token for mutating API requests
+ *
+ * The server sets the `writenex_csrf` cookie; requests that change
+ * content repeat its value in the `X-Writenex-CSRF` header so they cannot
+ * be forged by another site.
+ *
+ * @module @writenex/astro/client/utils/csrf
+ */
+
+/**
+ * Cookie set by the server
+ */
+const CSRF_COOKIE = "writenex_csrf";
+
+/**
+ * Header the token is sent in
+ */
+const CSRF_HEADER = "X-Writenex-CSRF";
+
+/**
+ * Get the headers that carry the CSRF token
+ *
+ * @returns Headers to add to POST, PUT and DELETE requests
+ *
+ * @example
+ * ```typescript
+ * await fetch(url, {
+ *   method: 'DELETE',
+ *   headers: getCsrfHeaders(),
+ * });
+ * ```
+ */
+export function getCsrfHeaders(): Record<string, string> {
+  if (typeof document === "undefined") return {};
+
+  for (const pair of document.cookie.split(";")) {
+    const [name, value] = pair.trim().split("=");
+    if (name === CSRF_COOKIE && value) {
+      return { [CSRF_HEADER]: decodeURIComponent(value) };
+    }
+  }
+
+  return {};
+}
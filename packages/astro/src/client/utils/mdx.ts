@@ -0,0 +1,158 @@
+/**
+ * @fileoverview MDX import and export statement helpers for the editor
+ *
+ * MDXEditor drops top-level `import` and `export` statements when it parses
+ * a document. The editor splits them off before loading an entry, keeps
+ * them aside and joins them back onto the body on every change, adding
+ * the imports of registry components that the body starts to use.
+ *
+ * @module @writenex/astro/client/utils/mdx
+ */
+
+import type { MdxComponentConfig } from "../../types";
+
+/**
+ * MDX body split into its ESM statements and its content
+ */
+export interface MdxParts {
+  /** Top-level import and export statements (with leading blank lines) */
+  esm: string;
+  /** Content without the statements */
+  body: string;
+}
+
+/**
+ * Opening or closing line of a fenced code block
+ */
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Split the top-level import and export statements off an MDX body
+ *
+ * A statement block starts with `import` or `export` at the start of a
+ * paragraph and runs to the next blank line, as in MDX itself. Statements
+ * inside fenced code blocks are content.
+ *
+ * @param markdown - MDX body
+ * @returns Statements and content
+ *
+ * @example
+ * ```typescript
+ * splitMdx('import Callout from "../Callout.astro";\n\n# Title');
+ * // { esm: 'import Callout from "../Callout.astro";', body: '# Title' }
+ * ```
+ */
+export function splitMdx(markdown: string): MdxParts {
+  const leading = /^\n*/.exec(markdown)![0];
+  const lines = markdown.slice(leading.length).split("\n");
+  const blocks: string[] = [];
+  const body: string[] = [];
+  let fence: string | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const fenceMatch = FENCE_PATTERN.exec(line);
+
+    if (fence) {
+      if (fenceMatch?.[1]!.startsWith(fence)) fence = null;
+      body.push(line);
+      i++;
+      continue;
+    }
+
+    if (fenceMatch) {
+      fence = fenceMatch[1]!;
+      body.push(line);
+      i++;
+      continue;
+    }
+
+    const blockStart = i === 0 || lines[i - 1]!.trim() === "";
+    if (blockStart && /^(import|export)\b/.test(line)) {
+      const block: string[] = [];
+      while (i < lines.length && lines[i]!.trim() !== "") {
+        block.push(lines[i]!);
+        i++;
+      }
+      blocks.push(block.join("\n"));
+
+      // Blank lines after a statement block belong to it
+      while (i < lines.length && lines[i]!.trim() === "") i++;
+      continue;
+    }
+
+    body.push(line);
+    i++;
+  }
+
+  if (blocks.length === 0) {
+    return { esm: "", body: markdown };
+  }
+
+  return { esm: leading + blocks.join("\n\n"), body: body.join("\n") };
+}
+
+/**
+ * Join ESM statements and content back into an MDX body
+ *
+ * @param esm - Import and export statements
+ * @param body - Content
+ * @returns MDX body
+ */
+export function joinMdx(esm: string, body: string): string {
+  return esm.trim() ? `${esm}\n\n${body}` : body;
+}
+
+/**
+ * Build the import statement of a registry component
+ *
+ * @param component - Component configuration
+ * @returns Import statement
+ */
+export function getComponentImport(component: MdxComponentConfig): string {
+  const binding =
+    component.defaultExport === false
+      ? `{ ${component.name} }`
+      : component.name;
+  return `import ${binding} from ${JSON.stringify(component.source)};`;
+}
+
+/**
+ * Add the imports of registry components used in the content
+ *
+ * Components that are already imported (under their name, from any
+ * module) are left alone, as are components that only appear in code.
+ *
+ * @param esm - Existing import and export statements
+ * @param body - Content
+ * @param components - Component registry
+ * @returns Statements with the missing imports added
+ */
+export function addComponentImports(
+  esm: string,
+  body: string,
+  components: MdxComponentConfig[]
+): string {
+  const content = body
+    .replace(/^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?^ {0,3}\1[^\n]*$/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+
+  const missing = components.filter(
+    (component) =>
+      new RegExp(`<${component.name}[\\s/>]`).test(content) &&
+      !new RegExp(`\\bimport\\b[^;]*\\b${component.name}\\b`).test(esm)
+  );
+  if (missing.length === 0) return esm;
+
+  const imports = missing.map(getComponentImport).join("\n");
+  if (!esm.trim()) return imports;
+
+  // Join the last block if it holds imports; otherwise imports go first
+  const leading = /^\n*/.exec(esm)![0];
+  const blocks = esm.slice(leading.length).split("\n\n");
+  if (/^import\b/.test(blocks[blocks.length - 1]!)) {
+    return `${esm}\n${imports}`;
+  }
+  return `${leading}${imports}\n\n${esm.slice(leading.length)}`;
+}
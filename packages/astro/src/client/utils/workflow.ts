@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Workflow state helpers for the editor
+ *
+ * Client-side counterparts of the server's workflow rules, used to show
+ * the state of the open entry and the states it may move to. The server
+ * checks every change again when it is saved.
+ *
+ * @module @writenex/astro/client/utils/workflow
+ */
+
+import type { CollectionWorkflow, WorkflowState } from "../../types";
+
+/**
+ * Get the workflow state of an entry from its frontmatter
+ *
+ * @param workflow - Collection workflow
+ * @param frontmatter - Entry frontmatter
+ * @returns State name
+ */
+export function getEntryState(
+  workflow: CollectionWorkflow,
+  frontmatter: Record<string, unknown>
+): string {
+  const value = frontmatter[workflow.field];
+  if (
+    typeof value === "string" &&
+    workflow.states.some((s) => s.name === value)
+  ) {
+    return value;
+  }
+
+  if (frontmatter.draft === true) return workflow.initialState;
+  return (
+    workflow.states.find((s) => s.published)?.name ?? workflow.initialState
+  );
+}
+
+/**
+ * Get the states an entry may move to
+ *
+ * @param workflow - Collection workflow
+ * @param from - Current state
+ * @returns Allowed next states
+ */
+export function getNextStates(
+  workflow: CollectionWorkflow,
+  from: string
+): string[] {
+  return (
+    workflow.transitions[from] ??
+    workflow.states.map((s) => s.name).filter((name) => name !== from)
+  );
+}
+
+/**
+ * Get a state's display label
+ *
+ * @param state - Workflow state
+ * @returns Label, or the state name
+ */
+export function getStateLabel(state: WorkflowState): string {
+  return state.label ?? state.name;
+}
@@ -15,12 +15,20 @@ import type {
   DiscoveryConfig,
   CollectionConfig,
   VersionHistoryConfig,
+  VersionRetentionConfig,
+  PermissionsConfig,
+  WritenexRole,
+  GitConfig,
+  WorkflowConfig,
+  ScheduleConfig,
 } from "@/types";
 
 /**
  * Default image configuration
+ *
+ * Uploads are not processed unless `optimize` is configured.
  */
-export const DEFAULT_IMAGE_CONFIG: Required<ImageConfig> = {
+export const DEFAULT_IMAGE_CONFIG: Required<Omit<ImageConfig, "optimize">> = {
   strategy: "colocated",
   publicPath: "/images",
   storagePath: "public/images",
@@ -42,6 +50,17 @@ export const DEFAULT_DISCOVERY_CONFIG: Required<DiscoveryConfig> = {
   ignore: ["**/node_modules/**", "**/.git/**", "**/dist/**"],
 };
 
+/**
+ * Default version retention: off, so `maxVersions` limits the history
+ */
+export const DEFAULT_VERSION_RETENTION_CONFIG: Required<VersionRetentionConfig> =
+  {
+    enabled: false,
+    keepAllHours: 24,
+    hourlyDays: 7,
+    dailyDays: 30,
+  };
+
 /**
  * Default version history configuration
  */
@@ -49,6 +68,51 @@ export const DEFAULT_VERSION_HISTORY_CONFIG: Required<VersionHistoryConfig> = {
   enabled: true,
   maxVersions: 20,
   storagePath: ".writenex/versions",
+  keyframeInterval: 10,
+  retention: DEFAULT_VERSION_RETENTION_CONFIG,
+};
+
+/**
+ * Default permissions when none are configured: every user is an admin
+ */
+export const DEFAULT_PERMISSIONS_CONFIG: PermissionsConfig = {
+  defaultRole: "admin",
+};
+
+/**
+ * Default role of unlisted users once permissions are configured
+ */
+export const DEFAULT_ROLE: WritenexRole = "viewer";
+
+/**
+ * Default Git configuration (pushing is off until a remote is configured)
+ */
+export const DEFAULT_GIT_CONFIG: GitConfig = {
+  enabled: true,
+};
+
+/**
+ * Default workflow configuration (off until a `workflow` section is added)
+ */
+export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
+  enabled: false,
+  field: "status",
+  states: [
+    { name: "idea", label: "Idea" },
+    { name: "draft", label: "Draft" },
+    { name: "review", label: "In review" },
+    { name: "scheduled", label: "Scheduled" },
+    { name: "published", label: "Published", published: true },
+  ],
+  transitions: {},
+};
+
+/**
+ * Default scheduled publishing configuration (checked every minute)
+ */
+export const DEFAULT_SCHEDULE_CONFIG: Required<ScheduleConfig> = {
+  enabled: true,
+  interval: 60000,
 };
 
 /**
@@ -64,11 +128,16 @@ export const DEFAULT_CONTENT_PATH = "src/content";
 /**
  * Apply defaults to a collection configuration
  *
+ * Image settings not set on the collection are inherited from the
+ * global image configuration.
+ *
  * @param collection - Partial collection configuration
+ * @param images - Global image configuration
  * @returns Collection configuration with defaults applied
  */
 export function applyCollectionDefaults(
-  collection: CollectionConfig
+  collection: CollectionConfig,
+  images: ImageConfig = DEFAULT_IMAGE_CONFIG
 ): Required<CollectionConfig> {
   return {
     name: collection.name,
@@ -76,12 +145,26 @@ export function applyCollectionDefaults(
     filePattern: collection.filePattern ?? DEFAULT_FILE_PATTERN,
     previewUrl: collection.previewUrl ?? `/${collection.name}/{slug}`,
     schema: collection.schema ?? {},
-    images: collection.images
-      ? { ...DEFAULT_IMAGE_CONFIG, ...collection.images }
-      : DEFAULT_IMAGE_CONFIG,
+    images: collection.images ? { ...images, ...collection.images } : images,
   };
 }
 
+/**
+ * Apply defaults to version retention rules
+ *
+ * Configuring `retention` enables it unless `enabled` is set to false.
+ *
+ * @param retention - Partial retention configuration
+ * @returns Retention configuration with defaults applied
+ */
+export function applyRetentionDefaults(
+  retention?: VersionRetentionConfig
+): Required<VersionRetentionConfig> {
+  return retention
+    ? { ...DEFAULT_VERSION_RETENTION_CONFIG, enabled: true, ...retention }
+    : DEFAULT_VERSION_RETENTION_CONFIG;
+}
+
 /**
  * Apply defaults to the main Writenex configuration
  *
@@ -91,11 +174,15 @@ export function applyCollectionDefaults(
 export function applyConfigDefaults(
   config: WritenexConfig = {}
 ): Required<WritenexConfig> {
+  const images = config.images
+    ? { ...DEFAULT_IMAGE_CONFIG, ...config.images }
+    : DEFAULT_IMAGE_CONFIG;
+
   return {
-    collections: (config.collections ?? []).map(applyCollectionDefaults),
-    images: config.images
-      ? { ...DEFAULT_IMAGE_CONFIG, ...config.images }
-      : DEFAULT_IMAGE_CONFIG,
+    collections: (config.collections ?? []).map((collection) =>
+      applyCollectionDefaults(collection, images)
+    ),
+    images,
     editor: config.editor
       ? { ...DEFAULT_EDITOR_CONFIG, ...config.editor }
       : DEFAULT_EDITOR_CONFIG,
@@ -103,7 +190,24 @@ export function applyConfigDefaults(
       ? { ...DEFAULT_DISCOVERY_CONFIG, ...config.discovery }
       : DEFAULT_DISCOVERY_CONFIG,
     versionHistory: config.versionHistory
-      ? { ...DEFAULT_VERSION_HISTORY_CONFIG, ...config.versionHistory }
+      ? {
+          ...DEFAULT_VERSION_HISTORY_CONFIG,
+          ...config.versionHistory,
+          retention: applyRetentionDefaults(config.versionHistory.retention),
+        }
       : DEFAULT_VERSION_HISTORY_CONFIG,
+    permissions: config.permissions
+      ? { defaultRole: DEFAULT_ROLE, ...config.permissions }
+      : DEFAULT_PERMISSIONS_CONFIG,
+    git: config.git
+      ? { ...DEFAULT_GIT_CONFIG, ...config.git }
+      : DEFAULT_GIT_CONFIG,
+    workflow: config.workflow
+      ? { ...DEFAULT_WORKFLOW_CONFIG, enabled: true, ...config.workflow }
+      : DEFAULT_WORKFLOW_CONFIG,
+    schedule: config.schedule
+      ? { ...DEFAULT_SCHEDULE_CONFIG, ...config.schedule }
+      : DEFAULT_SCHEDULE_CONFIG,
+    components: config.components ?? [],
   };
 }
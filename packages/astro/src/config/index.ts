@@ -17,16 +17,30 @@ export {
 
 // Config loader
 export { loadConfig, findConfigFile, contentDirectoryExists } from "./loader";
-export type { LoadConfigResult } from "./loader";
+export type { ConfigModuleLoader, LoadConfigResult } from "./loader";
+
+// Config watcher
+export { ConfigWatcher } from "./watcher";
+export type { ConfigWatcherOptions } from "./watcher";
+
+// Config writer
+export { writeConfigFile } from "./writer";
+export type { WriteConfigResult } from "./writer";
 
 // Defaults and constants
 export {
   applyConfigDefaults,
   applyCollectionDefaults,
+  applyRetentionDefaults,
   DEFAULT_IMAGE_CONFIG,
   DEFAULT_EDITOR_CONFIG,
   DEFAULT_DISCOVERY_CONFIG,
   DEFAULT_VERSION_HISTORY_CONFIG,
+  DEFAULT_VERSION_RETENTION_CONFIG,
+  DEFAULT_PERMISSIONS_CONFIG,
+  DEFAULT_GIT_CONFIG,
+  DEFAULT_WORKFLOW_CONFIG,
+  DEFAULT_SCHEDULE_CONFIG,
   DEFAULT_FILE_PATTERN,
   DEFAULT_CONTENT_PATH,
 } from "./defaults";
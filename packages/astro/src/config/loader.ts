@@ -12,7 +12,7 @@
  * @module @writenex/astro/config/loader
  */
 
-import { existsSync } from "node:fs";
+import { existsSync, statSync } from "node:fs";
 import { pathToFileURL } from "node:url";
 import { join, resolve } from "node:path";
 import type { WritenexConfig } from "@/types";
@@ -22,23 +22,37 @@ import { applyConfigDefaults } from "./defaults";
 /**
  * Supported configuration file names in order of priority
  */
-const CONFIG_FILE_NAMES = [
+export const CONFIG_FILE_NAMES = [
   "writenex.config.ts",
   "writenex.config.mts",
   "writenex.config.js",
   "writenex.config.mjs",
 ];
 
+/**
+ * Function used to load the configuration module
+ *
+ * In the dev server this is Vite's `ssrLoadModule`, so reloads re-evaluate
+ * the file in Vite's module graph.
+ */
+export type ConfigModuleLoader = (
+  path: string
+) => Promise<Record<string, unknown>>;
+
 /**
  * Result of loading configuration
  */
 export interface LoadConfigResult {
   /** The loaded and validated configuration with defaults applied */
   config: Required<WritenexConfig>;
+  /** The configuration as loaded from the file, before defaults */
+  userConfig: WritenexConfig;
   /** Path to the configuration file (if found) */
   configPath: string | null;
   /** Whether a configuration file was found */
   hasConfigFile: boolean;
+  /** Load or validation errors in the configuration file (empty if valid) */
+  errors: string[];
   /** Any warnings generated during loading */
   warnings: string[];
 }
@@ -59,20 +73,42 @@ export function findConfigFile(projectRoot: string): string | null {
   return null;
 }
 
+/**
+ * Default module loader using a native dynamic import
+ *
+ * The file's modification time is added to the import URL, so a file
+ * edited since the last import is imported again. Every edit adds an
+ * entry to Node's module cache, so the dev server reloads through Vite
+ * instead.
+ *
+ * @param path - Path to the configuration file
+ * @returns The module namespace
+ */
+async function importConfigModule(
+  path: string
+): Promise<Record<string, unknown>> {
+  // Convert to file URL for dynamic import (required for Windows compatibility)
+  const fileUrl = pathToFileURL(resolve(path)).href;
+  const { mtimeMs } = statSync(path);
+
+  return (await import(`${fileUrl}?t=${mtimeMs}`)) as Record<string, unknown>;
+}
+
 /**
  * Load configuration from a file
  *
  * @param configPath - Path to the configuration file
+ * @param loadModule - Module loader
  * @returns The loaded configuration object
  * @throws Error if the file cannot be loaded or parsed
  */
-async function loadConfigFile(configPath: string): Promise<WritenexConfig> {
+async function loadConfigFile(
+  configPath: string,
+  loadModule: ConfigModuleLoader
+): Promise<WritenexConfig> {
   try {
-    // Convert to file URL for dynamic import (required for Windows compatibility)
-    const fileUrl = pathToFileURL(resolve(configPath)).href;
-
     // Dynamic import the configuration file
-    const module = await import(fileUrl);
+    const module = await loadModule(resolve(configPath));
 
     // Support both default export and named export
     const config = module.default ?? module.config ?? module;
@@ -99,6 +135,7 @@ async function loadConfigFile(configPath: string): Promise<WritenexConfig> {
  * with auto-discovery enabled.
  *
  * @param projectRoot - The root directory of the Astro project
+ * @param loadModule - Module loader (default: native dynamic import)
  * @returns LoadConfigResult with the resolved configuration
  *
  * @example
@@ -115,12 +152,14 @@ async function loadConfigFile(configPath: string): Promise<WritenexConfig> {
  * ```
  */
 export async function loadConfig(
-  projectRoot: string
+  projectRoot: string,
+  loadModule: ConfigModuleLoader = importConfigModule
 ): Promise<LoadConfigResult> {
   const warnings: string[] = [];
   let userConfig: WritenexConfig = {};
   let configPath: string | null = null;
   let hasConfigFile = false;
+  const errors: string[] = [];
 
   // Try to find and load configuration file
   configPath = findConfigFile(projectRoot);
@@ -129,21 +168,26 @@ export async function loadConfig(
     hasConfigFile = true;
 
     try {
-      userConfig = await loadConfigFile(configPath);
+      userConfig = await loadConfigFile(configPath, loadModule);
 
       // Validate the loaded configuration
       const validationResult = validateConfig(userConfig);
 
       if (!validationResult.success) {
-        const errors = validationResult.error.errors
-          .map((e) => `${e.path.join(".")}: ${e.message}`)
-          .join(", ");
-        warnings.push(`Configuration validation warnings: ${errors}`);
+        errors.push(
+          ...validationResult.error.errors.map(
+            (e) => `${e.path.join(".")}: ${e.message}`
+          )
+        );
+        warnings.push(
+          `Configuration validation warnings: ${errors.join(", ")}`
+        );
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       warnings.push(`Failed to load config file: ${message}. Using defaults.`);
       userConfig = {};
+      errors.push(message);
     }
   }
 
@@ -152,8 +196,10 @@ export async function loadConfig(
 
   return {
     config,
+    userConfig,
     configPath,
     hasConfigFile,
+    errors,
     warnings,
   };
 }
@@ -8,7 +8,7 @@
  */
 
 import { z } from "zod";
-import type { WritenexConfig } from "@/types";
+import type { WritenexConfig, SchemaField } from "@/types";
 
 /**
  * Schema for field type definitions
@@ -21,29 +21,77 @@ const fieldTypeSchema = z.enum([
   "array",
   "image",
   "object",
+  "enum",
+  "reference",
 ]);
 
 /**
  * Schema for individual schema field definition
+ *
+ * Recursive because object fields nest their own field definitions.
+ * Enum fields must list their options and reference fields must name
+ * the collection they point to.
  */
-const schemaFieldSchema = z.object({
-  type: fieldTypeSchema,
-  required: z.boolean().optional(),
-  default: z.unknown().optional(),
-  items: z.string().optional(),
-  description: z.string().optional(),
-});
+const schemaFieldSchema: z.ZodType<SchemaField> = z.lazy(() =>
+  z
+    .object({
+      type: fieldTypeSchema,
+      required: z.boolean().optional(),
+      default: z.unknown().optional(),
+      items: z.string().optional(),
+      description: z.string().optional(),
+      options: z.array(z.string()).optional(),
+      collection: z.string().min(1).optional(),
+      fields: collectionSchemaSchema.optional(),
+    })
+    .superRefine((field, ctx) => {
+      const kind = field.type === "array" ? field.items : field.type;
+
+      if (kind === "enum" && (!field.options || field.options.length === 0)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message: "Enum fields require at least one option",
+        });
+      }
+
+      if (kind === "reference" && !field.collection) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["collection"],
+          message: "Reference fields require a target collection",
+        });
+      }
+    })
+);
 
 /**
  * Schema for collection schema (record of field definitions)
  */
-const collectionSchemaSchema = z.record(z.string(), schemaFieldSchema);
+const collectionSchemaSchema: z.ZodType<Record<string, SchemaField>> = z.record(
+  z.string(),
+  schemaFieldSchema
+);
 
 /**
  * Schema for image strategy
  */
 const imageStrategySchema = z.enum(["colocated", "public", "custom"]);
 
+/**
+ * Schema for image processing on upload
+ */
+const imageOptimizeConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  maxWidth: z.number().int().positive().optional(),
+  maxHeight: z.number().int().positive().optional(),
+  format: z.enum(["original", "webp", "avif"]).optional(),
+  quality: z.number().int().min(1).max(100).optional(),
+  stripMetadata: z.boolean().optional(),
+  autoOrient: z.boolean().optional(),
+  keepOriginal: z.boolean().optional(),
+});
+
 /**
  * Schema for image configuration
  */
@@ -51,6 +99,7 @@ const imageConfigSchema = z.object({
   strategy: imageStrategySchema,
   publicPath: z.string().optional(),
   storagePath: z.string().optional(),
+  optimize: imageOptimizeConfigSchema.optional(),
 });
 
 /**
@@ -81,6 +130,16 @@ const editorConfigSchema = z.object({
   autosaveInterval: z.number().positive().optional(),
 });
 
+/**
+ * Schema for version retention rules
+ */
+const versionRetentionConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  keepAllHours: z.number().nonnegative().optional(),
+  hourlyDays: z.number().nonnegative().optional(),
+  dailyDays: z.number().nonnegative().optional(),
+});
+
 /**
  * Schema for version history configuration
  */
@@ -88,8 +147,195 @@ const versionHistoryConfigSchema = z.object({
   enabled: z.boolean().optional(),
   maxVersions: z.number().int().positive().optional(),
   storagePath: z.string().optional(),
+  keyframeInterval: z.number().int().positive().optional(),
+  retention: versionRetentionConfigSchema.optional(),
+});
+
+/**
+ * Schema for editor roles
+ */
+const roleSchema = z.enum(["viewer", "author", "editor", "admin"]);
+
+/**
+ * Schema for role assignments
+ */
+const permissionsConfigSchema = z.object({
+  users: z.record(roleSchema).optional(),
+  defaultRole: roleSchema.optional(),
+  collections: z
+    .record(
+      z.object({
+        users: z.record(roleSchema).optional(),
+        defaultRole: roleSchema.optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Schema for Git integration configuration
+ */
+const gitConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  remote: z.string().min(1).optional(),
+  branch: z.string().min(1).optional(),
 });
 
+/**
+ * Schema for editorial workflow configuration
+ *
+ * State names must be unique, and the initial state and transitions may
+ * only name declared states.
+ */
+const workflowConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    field: z.string().min(1).optional(),
+    states: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          label: z.string().optional(),
+          published: z.boolean().optional(),
+        })
+      )
+      .min(1)
+      .optional(),
+    initialState: z.string().min(1).optional(),
+    transitions: z.record(z.array(z.string())).optional(),
+    collections: z.array(z.string().min(1)).optional(),
+  })
+  .superRefine((workflow, ctx) => {
+    // Without custom states, names refer to the default states
+    if (!workflow.states) return;
+
+    const names = new Set<string>();
+    workflow.states.forEach((state, index) => {
+      if (names.has(state.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["states", index, "name"],
+          message: `Duplicate state '${state.name}'`,
+        });
+      }
+      names.add(state.name);
+    });
+
+    const checkName = (name: string, path: (string | number)[]) => {
+      if (!names.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `Unknown state '${name}'`,
+        });
+      }
+    };
+
+    if (workflow.initialState) {
+      checkName(workflow.initialState, ["initialState"]);
+    }
+    for (const [from, targets] of Object.entries(workflow.transitions ?? {})) {
+      checkName(from, ["transitions", from]);
+      targets.forEach((to, index) =>
+        checkName(to, ["transitions", from, index])
+      );
+    }
+  });
+
+/**
+ * Schema for scheduled publishing configuration
+ */
+const scheduleConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  interval: z.number().int().min(1000).optional(),
+});
+
+/**
+ * Schema for an MDX component prop
+ *
+ * Enum props need options, and a default must match the prop type.
+ */
+const mdxComponentPropSchema = z
+  .object({
+    type: z.enum(["string", "number", "boolean", "enum", "expression"]),
+    required: z.boolean().optional(),
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    options: z.array(z.string()).min(1).optional(),
+    description: z.string().optional(),
+  })
+  .superRefine((prop, ctx) => {
+    if (prop.type === "enum" && !prop.options) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options"],
+        message: "Enum props need options",
+      });
+    }
+
+    if (prop.default === undefined) return;
+
+    const expected =
+      prop.type === "number"
+        ? "number"
+        : prop.type === "boolean"
+          ? "boolean"
+          : "string";
+    if (typeof prop.default !== expected) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["default"],
+        message: `Default of a ${prop.type} prop must be a ${expected}`,
+      });
+    } else if (
+      prop.type === "enum" &&
+      !prop.options?.includes(prop.default as string)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["default"],
+        message: `Default '${prop.default}' is not one of the options`,
+      });
+    }
+  });
+
+/**
+ * Schema for the MDX component registry
+ *
+ * Names must be capitalized JSX identifiers (lowercase names are HTML
+ * elements in MDX) and unique.
+ */
+const componentsConfigSchema = z
+  .array(
+    z.object({
+      name: z
+        .string()
+        .regex(
+          /^[A-Z][A-Za-z0-9_]*$/,
+          "Component name must start with an uppercase letter"
+        ),
+      source: z.string().min(1),
+      defaultExport: z.boolean().optional(),
+      kind: z.enum(["flow", "text"]).optional(),
+      hasChildren: z.boolean().optional(),
+      label: z.string().optional(),
+      description: z.string().optional(),
+      props: z.record(mdxComponentPropSchema).optional(),
+    })
+  )
+  .superRefine((components, ctx) => {
+    const names = new Set<string>();
+    components.forEach((component, index) => {
+      if (names.has(component.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "name"],
+          message: `Duplicate component '${component.name}'`,
+        });
+      }
+      names.add(component.name);
+    });
+  });
+
 /**
  * Main Writenex configuration schema
  */
@@ -99,13 +345,38 @@ export const writenexConfigSchema = z.object({
   editor: editorConfigSchema.optional(),
   discovery: discoveryConfigSchema.optional(),
   versionHistory: versionHistoryConfigSchema.optional(),
+  permissions: permissionsConfigSchema.optional(),
+  git: gitConfigSchema.optional(),
+  workflow: workflowConfigSchema.optional(),
+  schedule: scheduleConfigSchema.optional(),
+  components: componentsConfigSchema.optional(),
 });
 
+/**
+ * Schema for authentication options
+ */
+const authOptionsSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("token"),
+    tokens: z.record(z.string().min(1)),
+  }),
+  z.object({
+    type: z.literal("basic"),
+    users: z.record(z.string().min(1)),
+    realm: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("custom"),
+    verify: z.function(),
+  }),
+]);
+
 /**
  * Schema for integration options
  */
 export const writenexOptionsSchema = z.object({
   allowProduction: z.boolean().optional(),
+  auth: authOptionsSchema.optional(),
 });
 
 /**
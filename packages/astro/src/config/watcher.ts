@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Configuration file watcher for @writenex/astro
+ *
+ * This module watches the project root for the Writenex configuration
+ * file so changes (made in the editor or by hand) can be applied to the
+ * running dev server without a restart. The project root is watched
+ * (descending only into the directories of the watched files) for all
+ * supported file names, so creating or deleting the file is detected as
+ * well. The same watcher can follow other configuration files, such as
+ * the Astro content config.
+ *
+ * @module @writenex/astro/config/watcher
+ */
+
+import { watch, type FSWatcher } from "chokidar";
+import { relative, resolve, sep } from "node:path";
+import { CONFIG_FILE_NAMES } from "./loader";
+
+/**
+ * Config watcher options
+ */
+export interface ConfigWatcherOptions {
+  /** Callback when a configuration file is added, changed, or removed */
+  onChange: (path: string) => void;
+  /** Debounce delay in milliseconds */
+  debounceMs?: number;
+  /**
+   * Project-relative paths of the files to watch, with forward slashes
+   * (default: the Writenex configuration file names)
+   */
+  fileNames?: string[];
+}
+
+/**
+ * Configuration file watcher
+ *
+ * Bursts of events (editors often write a file in several steps) are
+ * collapsed into a single callback.
+ */
+export class ConfigWatcher {
+  private watcher: FSWatcher | null = null;
+  private projectRoot: string;
+  private options: Required<ConfigWatcherOptions>;
+  private debounceTimer: NodeJS.Timeout | null = null;
+
+  constructor(projectRoot: string, options: ConfigWatcherOptions) {
+    this.projectRoot = resolve(projectRoot);
+    this.options = {
+      debounceMs: 100,
+      fileNames: CONFIG_FILE_NAMES,
+      ...options,
+    };
+  }
+
+  /**
+   * Start watching the configuration file
+   */
+  start(): void {
+    if (this.watcher) {
+      return; // Already watching
+    }
+
+    const fileNames = this.options.fileNames;
+
+    this.watcher = watch(this.projectRoot, {
+      depth: Math.max(...fileNames.map((name) => name.split("/").length - 1)),
+      // Keep the watched files and the directories leading to them
+      ignored: (path) => {
+        if (path === this.projectRoot) return false;
+        const name = relative(this.projectRoot, path).split(sep).join("/");
+        return !fileNames.some(
+          (fileName) => fileName === name || fileName.startsWith(`${name}/`)
+        );
+      },
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: 100,
+        pollInterval: 50,
+      },
+    });
+
+    this.watcher
+      .on("add", (path) => this.handleChange(path))
+      .on("change", (path) => this.handleChange(path))
+      .on("unlink", (path) => this.handleChange(path))
+      .on("error", (error) => {
+        console.error("[writenex] Config watcher error:", error);
+      });
+  }
+
+  /**
+   * Stop watching the configuration file
+   */
+  async stop(): Promise<void> {
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = null;
+    }
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  /**
+   * Handle a configuration file event
+   */
+  private handleChange(path: string): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.options.onChange(path);
+    }, this.options.debounceMs);
+  }
+
+  /**
+   * Check if the watcher is running
+   */
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+}
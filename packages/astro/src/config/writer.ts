@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Configuration writer for @writenex/astro
+ *
+ * This module writes configuration changes made in the editor back to
+ * `writenex.config.ts`. The file is edited through its syntax tree with
+ * magicast (which Astro ships for `astro add`), so only the changed
+ * properties are rewritten: comments, imports and computed values
+ * elsewhere in the file are kept.
+ *
+ * @module @writenex/astro/config/writer
+ */
+
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { isDeepStrictEqual } from "node:util";
+import type { WritenexConfig } from "@/types";
+import { findConfigFile } from "./loader";
+import { isPlainObject } from "@/core/utils";
+
+/**
+ * File created when the project has no configuration file yet
+ */
+const DEFAULT_CONFIG_FILE = "writenex.config.ts";
+
+/**
+ * Source of a newly created configuration file
+ */
+const CONFIG_TEMPLATE = `import { defineConfig } from "@writenex/astro";
+
+export default defineConfig({});
+`;
+
+/**
+ * A proxied object literal in the syntax tree
+ */
+interface ProxifiedObject {
+  $type: "object";
+  [key: string]: unknown;
+}
+
+/**
+ * A proxied array literal in the syntax tree
+ */
+type ProxifiedArray = unknown[] & { $type: "array" };
+
+/**
+ * The subset of magicast used for editing
+ */
+interface Magicast {
+  parseModule(code: string): unknown;
+  generateCode(module: unknown): { code: string };
+  getDefaultExportOptions(module: unknown): { $type?: string };
+  getConfigFromVariableDeclaration(module: unknown): {
+    config?: { $type?: string };
+  };
+}
+
+/**
+ * Loaded magicast per project root (null if not available)
+ */
+const magicastCache = new Map<string, Promise<Magicast | null>>();
+
+/**
+ * Result of writing the configuration
+ */
+export interface WriteConfigResult {
+  success: boolean;
+  /** Path to the configuration file */
+  configPath?: string;
+  /** Whether the file was created */
+  created?: boolean;
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Load magicast from the project's Astro installation
+ *
+ * @param projectRoot - Project root path
+ * @returns magicast's functions, or null if they cannot be resolved
+ */
+function loadMagicast(projectRoot: string): Promise<Magicast | null> {
+  let loaded = magicastCache.get(projectRoot);
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const projectRequire = createRequire(join(projectRoot, "package.json"));
+        const astroRequire = createRequire(
+          projectRequire.resolve("astro/package.json")
+        );
+        const [core, helpers] = await Promise.all([
+          import(pathToFileURL(astroRequire.resolve("magicast")).href),
+          import(pathToFileURL(astroRequire.resolve("magicast/helpers")).href),
+        ]);
+        return {
+          parseModule: core.parseModule,
+          generateCode: core.generateCode,
+          getDefaultExportOptions: helpers.getDefaultExportOptions,
+          getConfigFromVariableDeclaration:
+            helpers.getConfigFromVariableDeclaration,
+        } as Magicast;
+      } catch {
+        return null;
+      }
+    })();
+    magicastCache.set(projectRoot, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Check whether a syntax tree value is an object literal
+ */
+function isProxifiedObject(value: unknown): value is ProxifiedObject {
+  return (value as { $type?: string } | undefined)?.$type === "object";
+}
+
+/**
+ * Check whether a syntax tree value is an array literal
+ */
+function isProxifiedArray(value: unknown): value is ProxifiedArray {
+  return (value as { $type?: string } | undefined)?.$type === "array";
+}
+
+/**
+ * Get the `name` of an array item, if it has one
+ */
+function getItemName(item: unknown): string | undefined {
+  return isPlainObject(item) && typeof item.name === "string"
+    ? item.name
+    : undefined;
+}
+
+/**
+ * Apply the changes between two arrays to an array literal
+ *
+ * Arrays of named objects (collections) are matched by name, so editing
+ * or removing one item leaves the others' source untouched. Other arrays
+ * are matched by position.
+ */
+function applyArrayChanges(
+  target: ProxifiedArray,
+  before: unknown[],
+  after: unknown[]
+): void {
+  const named =
+    [...before, ...after].every((item) => getItemName(item) !== undefined) &&
+    target.length === before.length;
+
+  if (!named) {
+    const common = Math.min(before.length, after.length, target.length);
+    for (let i = 0; i < common; i++) {
+      applyValueChange(target, i, before[i], after[i]);
+    }
+    if (target.length > after.length) {
+      target.splice(after.length);
+    }
+    for (let i = target.length; i < after.length; i++) {
+      target.push(after[i]);
+    }
+    return;
+  }
+
+  const afterNames = new Set(after.map(getItemName));
+  const kept = before.filter((item) => afterNames.has(getItemName(item)));
+
+  // Remove items from the end so earlier indexes stay valid
+  for (let i = before.length - 1; i >= 0; i--) {
+    if (!afterNames.has(getItemName(before[i]))) {
+      target.splice(i, 1);
+    }
+  }
+
+  for (const item of after) {
+    const index = kept.findIndex(
+      (existing) => getItemName(existing) === getItemName(item)
+    );
+    if (index === -1) {
+      target.push(item);
+    } else {
+      applyValueChange(target, index, kept[index], item);
+    }
+  }
+}
+
+/**
+ * Apply a change of one property (or array item) to the syntax tree
+ */
+function applyValueChange(
+  target: ProxifiedObject | ProxifiedArray,
+  key: string | number,
+  before: unknown,
+  after: unknown
+): void {
+  if (isDeepStrictEqual(before, after)) return;
+
+  const container = target as Record<string | number, unknown>;
+  const node = container[key];
+  if (
+    isPlainObject(before) &&
+    isPlainObject(after) &&
+    isProxifiedObject(node)
+  ) {
+    applyObjectChanges(node, before, after);
+  } else if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    isProxifiedArray(node)
+  ) {
+    applyArrayChanges(node, before, after);
+  } else {
+    container[key] = after;
+  }
+}
+
+/**
+ * Apply the changes between two objects to an object literal
+ *
+ * Only properties whose value changed are written; removed properties
+ * are deleted.
+ */
+function applyObjectChanges(
+  target: ProxifiedObject,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): void {
+  for (const key of Object.keys(before)) {
+    if (after[key] === undefined && before[key] !== undefined) {
+      delete target[key];
+    }
+  }
+
+  for (const [key, value] of Object.entries(after)) {
+    if (value !== undefined) {
+      applyValueChange(target, key, before[key], value);
+    }
+  }
+}
+
+/**
+ * Write configuration changes to the project's configuration file
+ *
+ * The change is computed against `current`, the configuration currently
+ * loaded from the file, so properties that did not change keep their
+ * source (including comments and computed expressions). If the project
+ * has no configuration file, `writenex.config.ts` is created.
+ *
+ * @param projectRoot - Project root path
+ * @param current - Configuration currently loaded from the file
+ * @param next - New configuration
+ * @returns Write result
+ *
+ * @example
+ * ```typescript
+ * const result = await writeConfigFile(projectRoot, userConfig, {
+ *   ...userConfig,
+ *   editor: { autosave: false },
+ * });
+ * ```
+ */
+export async function writeConfigFile(
+  projectRoot: string,
+  current: WritenexConfig,
+  next: WritenexConfig
+): Promise<WriteConfigResult> {
+  const magicast = await loadMagicast(projectRoot);
+  if (!magicast) {
+    return {
+      success: false,
+      error: "Cannot edit the configuration file: magicast was not found",
+    };
+  }
+
+  const existingPath = findConfigFile(projectRoot);
+  const configPath = existingPath ?? join(projectRoot, DEFAULT_CONFIG_FILE);
+
+  try {
+    const source =
+      existingPath && existsSync(existingPath)
+        ? await readFile(existingPath, "utf-8")
+        : CONFIG_TEMPLATE;
+
+    const module = magicast.parseModule(source);
+    let options: unknown = magicast.getDefaultExportOptions(module);
+    if (!isProxifiedObject(options)) {
+      options = magicast.getConfigFromVariableDeclaration(module).config;
+    }
+    if (!isProxifiedObject(options)) {
+      return {
+        success: false,
+        configPath,
+        error:
+          "Cannot edit the configuration file: the default export is not an object literal",
+      };
+    }
+
+    applyObjectChanges(
+      options,
+      (existingPath ? current : {}) as Record<string, unknown>,
+      next as Record<string, unknown>
+    );
+
+    await writeFile(configPath, magicast.generateCode(module).code, "utf-8");
+
+    return { success: true, configPath, created: !existingPath };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      configPath,
+      error: `Failed to write configuration: ${message}`,
+    };
+  }
+}
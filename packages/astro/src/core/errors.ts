@@ -14,6 +14,12 @@
  * @module @writenex/astro/core/errors
  */
 
+import type {
+  ContentLink,
+  ContentMergeResult,
+  FrontmatterFieldError,
+} from "@/types";
+
 /**
  * Error codes for categorization and i18n support
  */
@@ -22,6 +28,7 @@ export enum WritenexErrorCode {
   CONFIG_NOT_FOUND = "CONFIG_NOT_FOUND",
   CONFIG_INVALID = "CONFIG_INVALID",
   CONFIG_PARSE_ERROR = "CONFIG_PARSE_ERROR",
+  CONFIG_WRITE_ERROR = "CONFIG_WRITE_ERROR",
 
   // Filesystem errors (2xx)
   FS_READ_ERROR = "FS_READ_ERROR",
@@ -38,6 +45,8 @@ export enum WritenexErrorCode {
   CONTENT_ALREADY_EXISTS = "CONTENT_ALREADY_EXISTS",
   CONTENT_INVALID_SLUG = "CONTENT_INVALID_SLUG",
   CONTENT_CONFLICT = "CONTENT_CONFLICT",
+  CONTENT_HAS_BACKLINKS = "CONTENT_HAS_BACKLINKS",
+  CONTENT_INVALID_TRANSITION = "CONTENT_INVALID_TRANSITION",
 
   // Collection errors (4xx)
   COLLECTION_NOT_FOUND = "COLLECTION_NOT_FOUND",
@@ -49,6 +58,8 @@ export enum WritenexErrorCode {
   API_METHOD_NOT_ALLOWED = "API_METHOD_NOT_ALLOWED",
   API_INTERNAL_ERROR = "API_INTERNAL_ERROR",
   API_TIMEOUT = "API_TIMEOUT",
+  API_UNAUTHORIZED = "API_UNAUTHORIZED",
+  API_FORBIDDEN = "API_FORBIDDEN",
 
   // Image errors (6xx)
   IMAGE_INVALID_TYPE = "IMAGE_INVALID_TYPE",
@@ -67,6 +78,10 @@ export enum WritenexErrorCode {
   PATTERN_INVALID = "PATTERN_INVALID",
   PATTERN_MISSING_TOKEN = "PATTERN_MISSING_TOKEN",
 
+  // Git errors (9xx)
+  GIT_NOT_A_REPOSITORY = "GIT_NOT_A_REPOSITORY",
+  GIT_COMMAND_ERROR = "GIT_COMMAND_ERROR",
+
   // Unknown
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
 }
@@ -79,6 +94,7 @@ export const ERROR_HTTP_STATUS: Record<WritenexErrorCode, number> = {
   [WritenexErrorCode.CONFIG_NOT_FOUND]: 500,
   [WritenexErrorCode.CONFIG_INVALID]: 500,
   [WritenexErrorCode.CONFIG_PARSE_ERROR]: 500,
+  [WritenexErrorCode.CONFIG_WRITE_ERROR]: 500,
 
   // Filesystem errors
   [WritenexErrorCode.FS_READ_ERROR]: 500,
@@ -95,6 +111,8 @@ export const ERROR_HTTP_STATUS: Record<WritenexErrorCode, number> = {
   [WritenexErrorCode.CONTENT_ALREADY_EXISTS]: 409,
   [WritenexErrorCode.CONTENT_INVALID_SLUG]: 400,
   [WritenexErrorCode.CONTENT_CONFLICT]: 409,
+  [WritenexErrorCode.CONTENT_HAS_BACKLINKS]: 409,
+  [WritenexErrorCode.CONTENT_INVALID_TRANSITION]: 409,
 
   // Collection errors
   [WritenexErrorCode.COLLECTION_NOT_FOUND]: 404,
@@ -106,6 +124,8 @@ export const ERROR_HTTP_STATUS: Record<WritenexErrorCode, number> = {
   [WritenexErrorCode.API_METHOD_NOT_ALLOWED]: 405,
   [WritenexErrorCode.API_INTERNAL_ERROR]: 500,
   [WritenexErrorCode.API_TIMEOUT]: 504,
+  [WritenexErrorCode.API_UNAUTHORIZED]: 401,
+  [WritenexErrorCode.API_FORBIDDEN]: 403,
 
   // Image errors
   [WritenexErrorCode.IMAGE_INVALID_TYPE]: 400,
@@ -124,6 +144,10 @@ export const ERROR_HTTP_STATUS: Record<WritenexErrorCode, number> = {
   [WritenexErrorCode.PATTERN_INVALID]: 400,
   [WritenexErrorCode.PATTERN_MISSING_TOKEN]: 400,
 
+  // Git errors
+  [WritenexErrorCode.GIT_NOT_A_REPOSITORY]: 409,
+  [WritenexErrorCode.GIT_COMMAND_ERROR]: 500,
+
   // Unknown
   [WritenexErrorCode.UNKNOWN_ERROR]: 500,
 };
@@ -233,6 +257,18 @@ export class ConfigParseError extends WritenexError {
   }
 }
 
+/**
+ * Error thrown when configuration changes cannot be written to the file
+ */
+export class ConfigWriteError extends WritenexError {
+  constructor(configPath: string | undefined, reason: string) {
+    super(WritenexErrorCode.CONFIG_WRITE_ERROR, reason, {
+      context: { configPath },
+    });
+    this.name = "ConfigWriteError";
+  }
+}
+
 // =============================================================================
 // Filesystem Errors
 // =============================================================================
@@ -340,15 +376,34 @@ export class ContentParseError extends WritenexError {
 
 /**
  * Error thrown when content validation fails
+ *
+ * Carries one entry per invalid frontmatter field so the editor can show
+ * each message next to its field.
  */
 export class ContentValidationError extends WritenexError {
-  constructor(errors: string[], contentId?: string) {
+  /** Invalid fields and the reason for each */
+  readonly fieldErrors: FrontmatterFieldError[];
+
+  constructor(fieldErrors: FrontmatterFieldError[], contentId?: string) {
     super(
       WritenexErrorCode.CONTENT_VALIDATION_ERROR,
-      `Content validation failed: ${errors.join("; ")}`,
-      { context: { errors, contentId } }
+      `Content validation failed: ${fieldErrors
+        .map((e) => `${e.field}: ${e.message}`)
+        .join("; ")}`,
+      { context: { contentId } }
     );
     this.name = "ContentValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+
+  /**
+   * Override toJSON to include the per-field errors
+   */
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      fieldErrors: this.fieldErrors,
+    };
   }
 }
 
@@ -366,6 +421,55 @@ export class ContentAlreadyExistsError extends WritenexError {
   }
 }
 
+/**
+ * Error thrown when a slug or path token cannot be used in a file path
+ */
+export class ContentInvalidSlugError extends WritenexError {
+  constructor(slug: string, reason: string) {
+    super(
+      WritenexErrorCode.CONTENT_INVALID_SLUG,
+      `Invalid slug '${slug}': ${reason}`,
+      { context: { slug, reason } }
+    );
+    this.name = "ContentInvalidSlugError";
+  }
+}
+
+/**
+ * Error thrown when deleting content that other entries link to
+ *
+ * Carries the links so the editor can show which entries would break.
+ */
+export class ContentHasBacklinksError extends WritenexError {
+  /** Links from other entries to the content */
+  readonly backlinks: ContentLink[];
+
+  constructor(collection: string, contentId: string, backlinks: ContentLink[]) {
+    const sources = new Set(
+      backlinks.map((link) => `${link.source.collection}/${link.source.id}`)
+    ).size;
+    super(
+      WritenexErrorCode.CONTENT_HAS_BACKLINKS,
+      `Content '${contentId}' in '${collection}' is linked from ${sources} other ${
+        sources === 1 ? "entry" : "entries"
+      }`,
+      { context: { collection, contentId } }
+    );
+    this.name = "ContentHasBacklinksError";
+    this.backlinks = backlinks;
+  }
+
+  /**
+   * Override toJSON to include the links
+   */
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      backlinks: this.backlinks,
+    };
+  }
+}
+
 /**
  * Error thrown when content was modified externally (conflict detection)
  *
@@ -379,13 +483,16 @@ export class ContentConflictError extends WritenexError {
   readonly serverMtime: number;
   /** Client's expected mtime */
   readonly clientMtime: number;
+  /** Three-way merge attempt, when the client supplied a base version */
+  readonly merge?: ContentMergeResult;
 
   constructor(
     collection: string,
     contentId: string,
     serverContent: string,
     serverMtime: number,
-    clientMtime: number
+    clientMtime: number,
+    merge?: ContentMergeResult
   ) {
     super(
       WritenexErrorCode.CONTENT_CONFLICT,
@@ -405,6 +512,7 @@ export class ContentConflictError extends WritenexError {
     this.serverContent = serverContent;
     this.serverMtime = serverMtime;
     this.clientMtime = clientMtime;
+    this.merge = merge;
   }
 
   /**
@@ -416,10 +524,35 @@ export class ContentConflictError extends WritenexError {
       serverContent: this.serverContent,
       serverMtime: this.serverMtime,
       clientMtime: this.clientMtime,
+      ...(this.merge ? { merge: this.merge } : {}),
     };
   }
 }
 
+/**
+ * Error thrown when an entry moves to a workflow state its current state
+ * does not allow
+ */
+export class ContentTransitionError extends WritenexError {
+  constructor(
+    collection: string,
+    contentId: string,
+    from: string,
+    to: string,
+    allowed: string[]
+  ) {
+    super(
+      WritenexErrorCode.CONTENT_INVALID_TRANSITION,
+      `Content '${contentId}' in '${collection}' cannot move from '${from}' to '${to}'` +
+        (allowed.length > 0
+          ? ` (allowed: ${allowed.join(", ")})`
+          : ` ('${from}' is final)`),
+      { context: { collection, contentId, from, to, allowed } }
+    );
+    this.name = "ContentTransitionError";
+  }
+}
+
 // =============================================================================
 // Collection Errors
 // =============================================================================
@@ -494,6 +627,26 @@ export class ApiTimeoutError extends WritenexError {
   }
 }
 
+/**
+ * Error thrown when a request is not authenticated
+ */
+export class ApiUnauthorizedError extends WritenexError {
+  constructor(message: string = "Authentication required") {
+    super(WritenexErrorCode.API_UNAUTHORIZED, message);
+    this.name = "ApiUnauthorizedError";
+  }
+}
+
+/**
+ * Error thrown when an authenticated request is not allowed
+ */
+export class ApiForbiddenError extends WritenexError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(WritenexErrorCode.API_FORBIDDEN, message, { context: details });
+    this.name = "ApiForbiddenError";
+  }
+}
+
 // =============================================================================
 // Image Errors
 // =============================================================================
@@ -663,6 +816,38 @@ export class PatternMissingTokenError extends WritenexError {
   }
 }
 
+// =============================================================================
+// Git Errors
+// =============================================================================
+
+/**
+ * Error thrown when a Git operation is requested outside a repository
+ */
+export class GitNotRepositoryError extends WritenexError {
+  constructor(projectRoot: string) {
+    super(
+      WritenexErrorCode.GIT_NOT_A_REPOSITORY,
+      "The project is not in a Git repository (or Git integration is disabled)",
+      { context: { projectRoot } }
+    );
+    this.name = "GitNotRepositoryError";
+  }
+}
+
+/**
+ * Error thrown when a Git command fails
+ */
+export class GitCommandError extends WritenexError {
+  constructor(command: string, output: string, cause?: Error) {
+    super(
+      WritenexErrorCode.GIT_COMMAND_ERROR,
+      `git ${command} failed${output ? `: ${output}` : ""}`,
+      { context: { command }, cause }
+    );
+    this.name = "GitCommandError";
+  }
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -2,10 +2,15 @@
  * @fileoverview Core utilities barrel file for @writenex/astro
  *
  * This module re-exports shared utilities including error classes,
- * error codes, and constants used across the integration.
+ * error codes, frontmatter validation, workflow and scheduling rules,
+ * value helpers and constants used across the integration.
  *
  * @module @writenex/astro/core
  */
 
 export * from "./errors";
 export * from "./constants";
+export * from "./validation";
+export * from "./workflow";
+export * from "./schedule";
+export * from "./utils";
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Scheduled publishing rules
+ *
+ * This module reads the `publishAt` date of an entry and computes the
+ * frontmatter changes that publish it once the date has passed.
+ *
+ * ## Publishing a scheduled entry:
+ * - `draft` is set to false (and the workflow state to the first
+ *   published state, when the collection has a workflow)
+ * - The publication date is set to the scheduled time
+ * - `publishAt` is removed
+ *
+ * @module @writenex/astro/core/schedule
+ */
+
+import type { CollectionWorkflow } from "@/types";
+import { getWorkflowChanges } from "./workflow";
+
+/**
+ * Frontmatter field holding the scheduled publication time
+ */
+export const PUBLISH_AT_FIELD = "publishAt";
+
+/**
+ * Publication date fields, in the order they are looked up
+ */
+const DATE_FIELDS = ["pubDate", "publishDate", "date"];
+
+/**
+ * Get the scheduled publication time of an entry
+ *
+ * @param frontmatter - Entry frontmatter
+ * @returns The time, or null if none (or an invalid one) is set
+ */
+export function getPublishAt(
+  frontmatter: Record<string, unknown>
+): Date | null {
+  const value = frontmatter[PUBLISH_AT_FIELD];
+  if (!(value instanceof Date) && typeof value !== "string") return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Check whether an entry is a draft waiting to be published
+ *
+ * @param frontmatter - Entry frontmatter
+ * @returns True if the entry is a draft with a publication time
+ */
+export function isScheduled(frontmatter: Record<string, unknown>): boolean {
+  return frontmatter.draft === true && getPublishAt(frontmatter) !== null;
+}
+
+/**
+ * Check whether a scheduled entry is due to be published
+ *
+ * @param frontmatter - Entry frontmatter
+ * @param now - Current time
+ * @returns True if the entry is scheduled at or before `now`
+ */
+export function isDue(
+  frontmatter: Record<string, unknown>,
+  now: Date = new Date()
+): boolean {
+  const publishAt = getPublishAt(frontmatter);
+  return (
+    frontmatter.draft === true &&
+    publishAt !== null &&
+    publishAt.getTime() <= now.getTime()
+  );
+}
+
+/**
+ * Compute the frontmatter changes that publish a scheduled entry
+ *
+ * The publication date keeps its format: entries with date-only values
+ * get the scheduled day, entries with timestamps the scheduled time.
+ *
+ * @param frontmatter - Entry frontmatter
+ * @param publishAt - Scheduled publication time
+ * @param workflow - Workflow of the collection (if any)
+ * @returns Keys to change (null removes a key)
+ *
+ * @example
+ * ```typescript
+ * getPublishChanges(
+ *   { title: 'Launch', pubDate: '2025-01-01', draft: true, publishAt: '2025-03-01T09:00:00.000Z' },
+ *   new Date('2025-03-01T09:00:00.000Z')
+ * );
+ * // { draft: false, pubDate: '2025-03-01', publishAt: null }
+ * ```
+ */
+export function getPublishChanges(
+  frontmatter: Record<string, unknown>,
+  publishAt: Date,
+  workflow?: CollectionWorkflow | null
+): Record<string, unknown> {
+  const dateField =
+    DATE_FIELDS.find((field) => frontmatter[field] !== undefined) ??
+    DATE_FIELDS[0]!;
+  const current = frontmatter[dateField];
+  const hasTime =
+    current instanceof Date
+      ? current.getTime() % 86400000 !== 0
+      : typeof current === "string" && /\d{2}:\d{2}/.test(current);
+
+  const iso = publishAt.toISOString();
+  const changes: Record<string, unknown> = {
+    draft: false,
+    [dateField]: hasTime ? iso : iso.slice(0, 10),
+    [PUBLISH_AT_FIELD]: null,
+  };
+
+  if (workflow) {
+    Object.assign(
+      changes,
+      getWorkflowChanges(workflow, frontmatter, { ...frontmatter, ...changes })
+    );
+  }
+
+  return changes;
+}
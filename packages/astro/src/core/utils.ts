@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Value helpers shared across @writenex/astro
+ *
+ * Small checks on parsed frontmatter, data entries and configuration
+ * values that several modules need.
+ *
+ * @module @writenex/astro/core/utils
+ */
+
+/**
+ * Check if a value is a plain object (not null, an array or a date)
+ *
+ * YAML parses timestamps to `Date` objects, which are values rather than
+ * nested objects in frontmatter.
+ *
+ * @param value - Value to check
+ * @returns True if the value is a plain object
+ *
+ * @example
+ * ```typescript
+ * isPlainObject({ title: 'Hello' }); // true
+ * isPlainObject(new Date());         // false
+ * isPlainObject(['a', 'b']);         // false
+ * ```
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
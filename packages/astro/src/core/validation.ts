@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Frontmatter validation against collection schemas
+ *
+ * This module checks frontmatter sent by the editor against a collection's
+ * resolved schema before it is written to disk, producing one error per
+ * offending field so the form can show them inline.
+ *
+ * ## Checks:
+ * - Required fields are present and not empty
+ * - Values match the field type (string, number, boolean, image, ...)
+ * - Enum values are one of the allowed options
+ * - Dates parse to a valid date
+ * - Array items and nested object fields are checked recursively
+ *
+ * Date strings sent for date fields can also be turned into dates, so
+ * they are written as YAML timestamps rather than strings, and absent
+ * fields of new entries can be filled in with their schema defaults.
+ *
+ * @module @writenex/astro/core/validation
+ */
+
+import type {
+  CollectionSchema,
+  FrontmatterFieldError,
+  SchemaField,
+} from "@/types";
+import { isPlainObject } from "./utils";
+
+/**
+ * Check if a value counts as missing for required checks
+ */
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Check if a value parses to a valid date
+ */
+function isValidDate(value: unknown): boolean {
+  if (value instanceof Date) {
+    return !isNaN(value.getTime());
+  }
+  return typeof value === "string" && !isNaN(Date.parse(value));
+}
+
+/**
+ * Validate a single value against its field definition
+ *
+ * @param value - Value to check (known to be present)
+ * @param field - Field definition
+ * @param path - Field path used in error messages
+ * @param errors - Array collecting validation errors
+ */
+function validateValue(
+  value: unknown,
+  field: SchemaField,
+  path: string,
+  errors: FrontmatterFieldError[]
+): void {
+  const fail = (message: string) => errors.push({ field: path, message });
+
+  switch (field.type) {
+    case "string":
+    case "image":
+      if (typeof value !== "string") fail("Expected text");
+      break;
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        fail("Expected a number");
+      }
+      break;
+
+    case "boolean":
+      if (typeof value !== "boolean") fail("Expected true or false");
+      break;
+
+    case "date":
+      if (!isValidDate(value)) fail("Invalid date");
+      break;
+
+    case "enum":
+      if (typeof value !== "string") {
+        fail("Expected text");
+      } else if (field.options?.length && !field.options.includes(value)) {
+        fail(`Must be one of: ${field.options.join(", ")}`);
+      }
+      break;
+
+    case "reference": {
+      // Entry ID, or { collection, id | slug } as accepted by Astro
+      const id = isPlainObject(value) ? (value.id ?? value.slug) : value;
+      if (typeof id !== "string" || id === "") {
+        fail(
+          field.collection
+            ? `Expected an entry of ${field.collection}`
+            : "Expected an entry ID"
+        );
+      }
+      break;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        fail("Expected a list");
+        break;
+      }
+      if (!field.items) break;
+
+      const itemField: SchemaField = {
+        type: field.items as SchemaField["type"],
+        options: field.options,
+        collection: field.collection,
+      };
+      value.forEach((item, index) => {
+        if (!isMissing(item)) {
+          validateValue(item, itemField, `${path}[${index}]`, errors);
+        }
+      });
+      break;
+    }
+
+    case "object":
+      if (!isPlainObject(value)) {
+        fail("Expected an object");
+      } else if (field.fields) {
+        collectErrors(value, field.fields, `${path}.`, errors);
+      }
+      break;
+  }
+}
+
+/**
+ * Validate every field of a schema against a frontmatter object
+ *
+ * @param frontmatter - Frontmatter (or nested object) to check
+ * @param schema - Field definitions
+ * @param prefix - Path prefix for nested fields
+ * @param errors - Array collecting validation errors
+ */
+function collectErrors(
+  frontmatter: Record<string, unknown>,
+  schema: CollectionSchema,
+  prefix: string,
+  errors: FrontmatterFieldError[]
+): void {
+  for (const [name, field] of Object.entries(schema)) {
+    const path = `${prefix}${name}`;
+    const value = frontmatter[name];
+
+    if (isMissing(value)) {
+      if (field.required) {
+        errors.push({ field: path, message: "Required" });
+      }
+      continue;
+    }
+
+    validateValue(value, field, path, errors);
+  }
+}
+
+/**
+ * Validate frontmatter against a collection schema
+ *
+ * Fields not described by the schema are left alone.
+ *
+ * @param frontmatter - Frontmatter to validate
+ * @param schema - Collection schema
+ * @returns List of field errors (empty when valid)
+ *
+ * @example
+ * ```typescript
+ * const errors = validateFrontmatter(
+ *   { title: '', status: 'archived' },
+ *   {
+ *     title: { type: 'string', required: true },
+ *     status: { type: 'enum', options: ['draft', 'published'] },
+ *   }
+ * );
+ * // [
+ * //   { field: 'title', message: 'Required' },
+ * //   { field: 'status', message: 'Must be one of: draft, published' },
+ * // ]
+ * ```
+ */
+export function validateFrontmatter(
+  frontmatter: Record<string, unknown>,
+  schema: CollectionSchema
+): FrontmatterFieldError[] {
+  const errors: FrontmatterFieldError[] = [];
+  collectErrors(frontmatter, schema, "", errors);
+  return errors;
+}
+
+/**
+ * Convert a value of a field to dates where the field holds dates
+ *
+ * @param value - Value to convert
+ * @param field - Field definition
+ * @returns Value with valid date strings replaced by dates
+ */
+function parseDateValue(value: unknown, field: SchemaField): unknown {
+  if (field.type === "date") {
+    return typeof value === "string" && value !== "" && isValidDate(value)
+      ? new Date(value)
+      : value;
+  }
+  if (
+    field.type === "array" &&
+    field.items === "date" &&
+    Array.isArray(value)
+  ) {
+    return value.map((item) => parseDateValue(item, { type: "date" }));
+  }
+  if (field.type === "object" && field.fields && isPlainObject(value)) {
+    return parseDateFields(value, field.fields);
+  }
+  return value;
+}
+
+/**
+ * Turn date strings of date fields into dates
+ *
+ * The editor sends dates as strings; converting them keeps date fields
+ * YAML timestamps when they are written. Other fields are left alone, so
+ * a string field holding a date stays a string.
+ *
+ * @param frontmatter - Frontmatter as sent by the editor
+ * @param schema - Collection schema
+ * @returns Frontmatter with date fields as dates
+ *
+ * @example
+ * ```typescript
+ * parseDateFields(
+ *   { pubDate: '2024-01-15', title: '2024-01-15' },
+ *   { pubDate: { type: 'date' }, title: { type: 'string' } }
+ * );
+ * // { pubDate: Date(2024-01-15), title: '2024-01-15' }
+ * ```
+ */
+export function parseDateFields(
+  frontmatter: Record<string, unknown>,
+  schema: CollectionSchema
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(frontmatter).map(([name, value]) => {
+      const field = schema[name];
+      return [name, field ? parseDateValue(value, field) : value];
+    })
+  );
+}
+
+/**
+ * Fill in schema defaults for fields that are absent
+ *
+ * New entries get the defaults before they are validated, so a required
+ * field with a default does not need to be sent. Fields of nested objects
+ * that are present are filled in too.
+ *
+ * @param frontmatter - Frontmatter as sent by the editor
+ * @param schema - Collection schema
+ * @returns Frontmatter with defaults for absent fields
+ *
+ * @example
+ * ```typescript
+ * applySchemaDefaults(
+ *   { title: 'Hello' },
+ *   { title: { type: 'string' }, draft: { type: 'boolean', default: true } }
+ * );
+ * // { title: 'Hello', draft: true }
+ * ```
+ */
+export function applySchemaDefaults(
+  frontmatter: Record<string, unknown>,
+  schema: CollectionSchema
+): Record<string, unknown> {
+  const result = { ...frontmatter };
+
+  for (const [name, field] of Object.entries(schema)) {
+    const value = result[name];
+    if (value === undefined) {
+      if (field.default !== undefined) {
+        result[name] = structuredClone(field.default);
+      }
+    } else if (
+      field.type === "object" &&
+      field.fields &&
+      isPlainObject(value)
+    ) {
+      result[name] = applySchemaDefaults(value, field.fields);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Editorial workflow states
+ *
+ * This module resolves the workflow that applies to a collection, reads
+ * the state of an entry from its frontmatter, keeps the state field and
+ * the `draft` flag in sync, and checks state changes against the
+ * configured transitions.
+ *
+ * ## State of an entry:
+ * - The value of the workflow field, when it names a state
+ * - Otherwise the initial state for drafts, and the first published
+ *   state for everything else
+ *
+ * @module @writenex/astro/core/workflow
+ */
+
+import type { CollectionWorkflow, WorkflowConfig } from "@/types";
+import { ContentTransitionError } from "./errors";
+
+/**
+ * Get the workflow that applies to a collection
+ *
+ * @param config - Resolved workflow configuration
+ * @param collection - Collection name
+ * @returns The workflow, or null if the collection has none
+ *
+ * @example
+ * ```typescript
+ * const workflow = getCollectionWorkflow(config.workflow, 'blog');
+ * // { field: 'status', states: [...], initialState: 'idea', transitions: {} }
+ * ```
+ */
+export function getCollectionWorkflow(
+  config: WorkflowConfig | undefined,
+  collection: string
+): CollectionWorkflow | null {
+  if (!config?.enabled || !config.states || config.states.length === 0) {
+    return null;
+  }
+  if (config.collections && !config.collections.includes(collection)) {
+    return null;
+  }
+
+  const states = config.states;
+  return {
+    field: config.field ?? "status",
+    states,
+    initialState: config.initialState ?? states[0]!.name,
+    transitions: config.transitions ?? {},
+  };
+}
+
+/**
+ * Check whether a workflow state counts as published
+ *
+ * @param workflow - Collection workflow
+ * @param state - State name
+ * @returns True if entries in the state are published
+ */
+export function isPublishedState(
+  workflow: CollectionWorkflow,
+  state: string
+): boolean {
+  return workflow.states.some((s) => s.name === state && s.published === true);
+}
+
+/**
+ * Get the workflow state of an entry
+ *
+ * @param workflow - Collection workflow
+ * @param frontmatter - Entry frontmatter
+ * @returns State name
+ */
+export function getWorkflowState(
+  workflow: CollectionWorkflow,
+  frontmatter: Record<string, unknown>
+): string {
+  const value = frontmatter[workflow.field];
+  if (
+    typeof value === "string" &&
+    workflow.states.some((s) => s.name === value)
+  ) {
+    return value;
+  }
+
+  if (frontmatter.draft === true) return workflow.initialState;
+  return (
+    workflow.states.find((s) => s.published)?.name ?? workflow.initialState
+  );
+}
+
+/**
+ * Get the states an entry may move to from a state
+ *
+ * @param workflow - Collection workflow
+ * @param from - Current state
+ * @returns Allowed next states (every other state if unrestricted)
+ */
+export function getAllowedStates(
+  workflow: CollectionWorkflow,
+  from: string
+): string[] {
+  return (
+    workflow.transitions[from] ??
+    workflow.states.map((s) => s.name).filter((name) => name !== from)
+  );
+}
+
+/**
+ * Compute the frontmatter changes that keep the state and `draft` in sync
+ *
+ * A changed state sets `draft`. A changed `draft` (publish or unpublish
+ * without touching the state) moves the entry to the first published
+ * state or back to the initial state. New entries without a state get
+ * the initial state.
+ *
+ * @param workflow - Collection workflow
+ * @param before - Frontmatter on disk (undefined for new entries)
+ * @param after - Frontmatter as it will be written
+ * @returns Keys to add to the change, or an empty object
+ *
+ * @example
+ * ```typescript
+ * getWorkflowChanges(workflow, { status: 'review', draft: true }, { status: 'published', draft: true });
+ * // { draft: false }
+ * ```
+ */
+export function getWorkflowChanges(
+  workflow: CollectionWorkflow,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown>
+): Record<string, unknown> {
+  const { field } = workflow;
+  const changes: Record<string, unknown> = {};
+  let state: string;
+
+  if (before && after[field] === before[field]) {
+    const wasDraft = before.draft === true;
+    const isDraft = after.draft === true;
+    if (wasDraft === isDraft) return changes;
+
+    state = getWorkflowState(workflow, before);
+    if (isPublishedState(workflow, state) === isDraft) {
+      state = isDraft
+        ? workflow.initialState
+        : (workflow.states.find((s) => s.published)?.name ?? state);
+      changes[field] = state;
+    }
+  } else if (!before && after[field] === undefined) {
+    state =
+      after.draft === false
+        ? getWorkflowState(workflow, after)
+        : workflow.initialState;
+    changes[field] = state;
+  } else {
+    state = getWorkflowState(workflow, after);
+  }
+
+  const draft = !isPublishedState(workflow, state);
+  if ((after.draft === true) !== draft) {
+    changes.draft = draft;
+  }
+
+  return changes;
+}
+
+/**
+ * Check a state change against the workflow's transitions
+ *
+ * @param workflow - Collection workflow
+ * @param collection - Collection name
+ * @param contentId - Content ID
+ * @param before - Frontmatter on disk
+ * @param after - Frontmatter as it will be written
+ * @returns An error to send, or null if the change is allowed
+ */
+export function checkTransition(
+  workflow: CollectionWorkflow,
+  collection: string,
+  contentId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ContentTransitionError | null {
+  const from = getWorkflowState(workflow, before);
+  const to = getWorkflowState(workflow, after);
+  if (from === to) return null;
+
+  const allowed = getAllowedStates(workflow, from);
+  return allowed.includes(to)
+    ? null
+    : new ContentTransitionError(collection, contentId, from, to, allowed);
+}
@@ -8,8 +8,10 @@
  * 1. Scan src/content/ for subdirectories
  * 2. Each subdirectory is treated as a collection
  * 3. Count content files in each collection
- * 4. Detect file patterns from existing files
- * 5. Auto-detect frontmatter schema from sample files
+ * 4. Detect file patterns from existing files (JSON/YAML files make a
+ *    data collection)
+ * 5. Use the schema declared in the Astro content config, or auto-detect
+ *    the frontmatter schema from sample files
  *
  * @module @writenex/astro/discovery/collections
  */
@@ -17,8 +19,13 @@
 import { readdir, stat } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import type { DiscoveredCollection, CollectionConfig } from "@/types";
+import type {
+  DiscoveredCollection,
+  CollectionConfig,
+  CollectionSchema,
+} from "@/types";
 import { getCollectionCount } from "@/filesystem/reader";
+import { isDataFile } from "@/filesystem/data";
 import { DEFAULT_FILE_PATTERN } from "@/config/defaults";
 import { detectFilePattern as detectPattern } from "./patterns";
 import { detectSchema } from "./schema";
@@ -55,6 +62,8 @@ function shouldIgnore(name: string): boolean {
  *
  * @param projectRoot - Absolute path to the project root
  * @param contentDir - Relative path to content directory (default: src/content)
+ * @param declaredSchemas - Schemas from the Astro content config, keyed by
+ *   collection name; detection only runs for collections not listed here
  * @returns Array of discovered collections
  *
  * @example
@@ -68,7 +77,8 @@ function shouldIgnore(name: string): boolean {
  */
 export async function discoverCollections(
   projectRoot: string,
-  contentDir: string = DEFAULT_CONTENT_DIR
+  contentDir: string = DEFAULT_CONTENT_DIR,
+  declaredSchemas: Record<string, CollectionSchema> = {}
 ): Promise<DiscoveredCollection[]> {
   const contentPath = join(projectRoot, contentDir);
 
@@ -98,22 +108,32 @@ export async function discoverCollections(
       const patternResult = await detectPattern(collectionPath);
       const filePattern = patternResult.pattern;
 
-      // Auto-detect schema from sample files
-      const schemaResult = await detectSchema(collectionPath);
-      const schema =
-        Object.keys(schemaResult.schema).length > 0
-          ? schemaResult.schema
-          : undefined;
+      // Prefer the declared schema, otherwise auto-detect from sample files
+      let schema = declaredSchemas[entry.name];
+      let schemaSource: DiscoveredCollection["schemaSource"] = schema
+        ? "content-config"
+        : undefined;
+      if (!schema) {
+        const schemaResult = await detectSchema(collectionPath);
+        if (Object.keys(schemaResult.schema).length > 0) {
+          schema = schemaResult.schema;
+          schemaSource = "detected";
+        }
+      }
 
-      // Generate default preview URL pattern
-      const previewUrl = `/${entry.name}/{slug}`;
+      // Data entries have no pages of their own to preview
+      const type = isDataFile(filePattern) ? "data" : "content";
+      const previewUrl =
+        type === "content" ? `/${entry.name}/{slug}` : undefined;
 
       collections.push({
         name: entry.name,
         path: relativePath,
         filePattern,
+        type,
         count,
         schema,
+        schemaSource,
         previewUrl,
       });
     }
@@ -132,11 +152,14 @@ export async function discoverCollections(
  *
  * @param discovered - Auto-discovered collections
  * @param configured - User-configured collections
+ * @param declaredSchemas - Schemas from the Astro content config, used for
+ *   configured collections without an explicit schema
  * @returns Merged collection list
  */
 export function mergeCollections(
   discovered: DiscoveredCollection[],
-  configured: CollectionConfig[]
+  configured: CollectionConfig[],
+  declaredSchemas: Record<string, CollectionSchema> = {}
 ): DiscoveredCollection[] {
   const configuredNames = new Set(configured.map((c) => c.name));
   const result: DiscoveredCollection[] = [];
@@ -144,16 +167,25 @@ export function mergeCollections(
   // Add configured collections first (they take precedence)
   for (const config of configured) {
     const discoveredMatch = discovered.find((d) => d.name === config.name);
+    const declaredSchema = declaredSchemas[config.name];
+
+    const filePattern =
+      config.filePattern ??
+      discoveredMatch?.filePattern ??
+      DEFAULT_FILE_PATTERN;
 
     result.push({
       name: config.name,
       path: config.path,
-      filePattern:
-        config.filePattern ??
-        discoveredMatch?.filePattern ??
-        DEFAULT_FILE_PATTERN,
+      filePattern,
+      type: isDataFile(filePattern) ? "data" : "content",
       count: discoveredMatch?.count ?? 0,
-      schema: config.schema ?? discoveredMatch?.schema,
+      schema: config.schema ?? declaredSchema ?? discoveredMatch?.schema,
+      schemaSource: config.schema
+        ? "config"
+        : declaredSchema
+          ? "content-config"
+          : discoveredMatch?.schemaSource,
       previewUrl:
         config.previewUrl ??
         discoveredMatch?.previewUrl ??
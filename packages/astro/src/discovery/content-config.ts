@@ -0,0 +1,610 @@
+/**
+ * @fileoverview Schema import from Astro content collection config
+ *
+ * Astro projects declare the authoritative frontmatter schema for each
+ * collection with `defineCollection({ schema: z.object(...) })` in their
+ * content config file. This module loads that file and converts each Zod
+ * schema into a Writenex `CollectionSchema`, so the editor does not have
+ * to guess field types from sample content.
+ *
+ * ## Supported Zod constructs:
+ * - Primitives: string, number, bigint, boolean, date (incl. `z.coerce.date()`)
+ * - `z.enum()`, `z.nativeEnum()` and unions of string literals
+ * - `image()` from the schema context
+ * - `reference()` from `astro:content`
+ * - Arrays, sets, nested objects and records
+ * - Wrappers: optional, nullable, default, catch, readonly, branded,
+ *   lazy, pipelines and effects (refine/transform)
+ *
+ * @module @writenex/astro/discovery/content-config
+ */
+
+import { existsSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { z, ZodFirstPartyTypeKind } from "zod";
+import type { CollectionSchema, FieldType, SchemaField } from "@/types";
+
+/**
+ * Content config file names relative to the project root, in order of
+ * priority (Astro 5 location first, then the legacy location)
+ */
+export const CONTENT_CONFIG_FILE_NAMES = [
+  "src/content.config.ts",
+  "src/content.config.mts",
+  "src/content.config.js",
+  "src/content.config.mjs",
+  "src/content/config.ts",
+  "src/content/config.mts",
+  "src/content/config.js",
+  "src/content/config.mjs",
+];
+
+/**
+ * Minimal structural view of a Zod schema
+ *
+ * The user's content config uses Astro's bundled Zod, which may be a
+ * different instance than ours, so schemas are inspected by their
+ * `_def.typeName` rather than with `instanceof`.
+ */
+interface ZodLike {
+  _def: { typeName?: string } & Record<string, unknown>;
+  description?: string;
+}
+
+/**
+ * Function used to load the content config module
+ *
+ * In the dev server this is Vite's `ssrLoadModule`, which resolves the
+ * `astro:content` virtual module the config imports.
+ */
+export type ContentConfigModuleLoader = (
+  path: string
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Result of loading collection schemas from the content config
+ */
+export interface ContentSchemaLoadResult {
+  /** Converted schemas, keyed by collection name */
+  schemas: Record<string, CollectionSchema>;
+  /** Path to the content config file (if found) */
+  configPath: string | null;
+  /** Any warnings generated during loading */
+  warnings: string[];
+}
+
+/**
+ * Schemas returned by our `image()` helper
+ *
+ * Astro's own `image()` returns a plain string transform that cannot be
+ * told apart from other transforms, so the schema context we pass to
+ * collection schema functions returns tagged schemas instead.
+ */
+const imageSchemas = new WeakSet<object>();
+
+/**
+ * Create a schema standing in for Astro's `image()` helper
+ *
+ * @returns A string schema recognised as an image field
+ */
+function createImageSchema(): z.ZodString {
+  const schema = z.string();
+  imageSchemas.add(schema);
+  return schema;
+}
+
+/**
+ * Check if a value is a Zod schema
+ *
+ * @param value - Value to check
+ * @returns True if the value has a Zod type definition
+ */
+function isZodType(value: unknown): value is ZodLike {
+  if (typeof value !== "object" || value === null || !("_def" in value)) {
+    return false;
+  }
+  const def = (value as { _def: unknown })._def;
+  return (
+    typeof def === "object" &&
+    def !== null &&
+    typeof (def as { typeName?: unknown }).typeName === "string"
+  );
+}
+
+/**
+ * Read a nested schema from a Zod type definition
+ *
+ * @param schema - Parent schema
+ * @param key - Definition key holding the nested schema
+ * @returns The nested schema, or undefined if absent
+ */
+function getInner(schema: ZodLike, key: string): ZodLike | undefined {
+  const inner = schema._def[key];
+  return isZodType(inner) ? inner : undefined;
+}
+
+/**
+ * Check if a schema was produced by `reference()` from `astro:content`
+ *
+ * Astro builds references as a transform over a union of a string ID and
+ * `{ id | slug, collection }` objects.
+ *
+ * @param schema - Schema to check
+ * @returns True if the schema looks like a collection reference
+ */
+function isReference(schema: ZodLike): boolean {
+  if (schema._def.typeName !== ZodFirstPartyTypeKind.ZodEffects) {
+    return false;
+  }
+
+  const union = getInner(schema, "schema");
+  if (union?._def.typeName !== ZodFirstPartyTypeKind.ZodUnion) {
+    return false;
+  }
+
+  const options = union._def.options;
+  if (!Array.isArray(options) || !options.every(isZodType)) {
+    return false;
+  }
+
+  return (
+    options[0]?._def.typeName === ZodFirstPartyTypeKind.ZodString &&
+    options.some(
+      (option) =>
+        option._def.typeName === ZodFirstPartyTypeKind.ZodObject &&
+        "collection" in getShape(option)
+    )
+  );
+}
+
+/**
+ * Get the shape of an object schema
+ *
+ * @param schema - A ZodObject schema
+ * @returns Field schemas keyed by name
+ */
+function getShape(schema: ZodLike): Record<string, unknown> {
+  const shape = schema._def.shape;
+  if (typeof shape === "function") {
+    return (shape as () => Record<string, unknown>)();
+  }
+  return {};
+}
+
+/**
+ * Strip wrappers that do not change the field's editing type
+ *
+ * Collects whether the field is optional, its default value and its
+ * description on the way down.
+ *
+ * @param schema - Schema to unwrap
+ * @returns The innermost schema and the collected modifiers
+ */
+function unwrap(schema: ZodLike): {
+  schema: ZodLike;
+  optional: boolean;
+  defaultValue?: unknown;
+  description?: string;
+} {
+  let current = schema;
+  let optional = false;
+  let defaultValue: unknown;
+  let description = schema.description;
+
+  for (;;) {
+    let next: ZodLike | undefined;
+
+    switch (current._def.typeName) {
+      case ZodFirstPartyTypeKind.ZodOptional:
+      case ZodFirstPartyTypeKind.ZodNullable:
+        optional = true;
+        next = getInner(current, "innerType");
+        break;
+      case ZodFirstPartyTypeKind.ZodDefault: {
+        optional = true;
+        const getDefault = current._def.defaultValue;
+        if (defaultValue === undefined && typeof getDefault === "function") {
+          defaultValue = (getDefault as () => unknown)();
+        }
+        next = getInner(current, "innerType");
+        break;
+      }
+      case ZodFirstPartyTypeKind.ZodCatch:
+      case ZodFirstPartyTypeKind.ZodReadonly:
+        next = getInner(current, "innerType");
+        break;
+      case ZodFirstPartyTypeKind.ZodBranded:
+        next = getInner(current, "type");
+        break;
+      case ZodFirstPartyTypeKind.ZodPipeline:
+        next = getInner(current, "in");
+        break;
+      case ZodFirstPartyTypeKind.ZodLazy: {
+        const getter = current._def.getter;
+        const resolved =
+          typeof getter === "function" ? (getter as () => unknown)() : null;
+        next = isZodType(resolved) ? resolved : undefined;
+        break;
+      }
+      case ZodFirstPartyTypeKind.ZodEffects:
+        if (!isReference(current)) {
+          next = getInner(current, "schema");
+        }
+        break;
+    }
+
+    if (!next) {
+      break;
+    }
+
+    current = next;
+    description ??= current.description;
+  }
+
+  return { schema: current, optional, defaultValue, description };
+}
+
+/**
+ * Get the allowed string values of an enum-like schema
+ *
+ * @param schema - Unwrapped schema
+ * @returns Allowed values, or undefined if the schema is not enum-like
+ */
+function getEnumValues(schema: ZodLike): string[] | undefined {
+  switch (schema._def.typeName) {
+    case ZodFirstPartyTypeKind.ZodEnum: {
+      const values = schema._def.values;
+      return Array.isArray(values) ? values.map(String) : undefined;
+    }
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const values = schema._def.values;
+      if (typeof values !== "object" || values === null) return undefined;
+      const strings = Object.values(values).filter(
+        (v): v is string => typeof v === "string"
+      );
+      return strings.length > 0 ? strings : undefined;
+    }
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      const options = schema._def.options;
+      if (!Array.isArray(options) || !options.every(isZodType)) {
+        return undefined;
+      }
+      const values = options.map((option) => {
+        const inner = unwrap(option).schema;
+        return inner._def.typeName === ZodFirstPartyTypeKind.ZodLiteral
+          ? inner._def.value
+          : undefined;
+      });
+      return values.every((v): v is string => typeof v === "string")
+        ? values
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Collection name used to probe `reference()` schemas
+ */
+const REFERENCE_PROBE = "__writenex_probe__";
+
+/**
+ * Find the collection a `reference()` schema points to
+ *
+ * The target is only held in Astro's transform closure, so an entry from
+ * a collection that cannot exist is parsed and the expected collection is
+ * read back from the validation message.
+ *
+ * @param schema - Reference schema
+ * @returns Target collection name, or undefined if it cannot be determined
+ */
+function getReferenceCollection(schema: ZodLike): string | undefined {
+  const safeParse = (schema as { safeParse?: unknown }).safeParse;
+  if (typeof safeParse !== "function") {
+    return undefined;
+  }
+
+  try {
+    const result = safeParse.call(schema, {
+      id: "",
+      collection: REFERENCE_PROBE,
+    }) as { error?: { issues?: Array<{ message?: string }> } };
+    const message = result.error?.issues?.[0]?.message ?? "";
+    return /Reference to (\S+) invalid/.exec(message)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map an unwrapped schema to a Writenex field type
+ *
+ * @param schema - Unwrapped schema
+ * @returns The matching field type (string when nothing fits better)
+ */
+function getFieldType(schema: ZodLike): FieldType {
+  if (imageSchemas.has(schema)) {
+    return "image";
+  }
+
+  if (isReference(schema)) {
+    return "reference";
+  }
+
+  if (getEnumValues(schema)) {
+    return "enum";
+  }
+
+  switch (schema._def.typeName) {
+    case ZodFirstPartyTypeKind.ZodNumber:
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return "number";
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return "boolean";
+    case ZodFirstPartyTypeKind.ZodDate:
+      return "date";
+    case ZodFirstPartyTypeKind.ZodArray:
+    case ZodFirstPartyTypeKind.ZodSet:
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return "array";
+    case ZodFirstPartyTypeKind.ZodObject:
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return "object";
+    case ZodFirstPartyTypeKind.ZodLiteral: {
+      const value = schema._def.value;
+      if (typeof value === "number") return "number";
+      if (typeof value === "boolean") return "boolean";
+      return "string";
+    }
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      // Use the shared type of all options, e.g. z.union([z.date(), z.string().date()])
+      const options = schema._def.options;
+      if (!Array.isArray(options) || !options.every(isZodType)) {
+        return "string";
+      }
+      const types = new Set(
+        options.map((option) => getFieldType(unwrap(option).schema))
+      );
+      return types.size === 1 ? [...types][0]! : "string";
+    }
+    default:
+      return "string";
+  }
+}
+
+/**
+ * Get the element schema of an array-like schema
+ *
+ * @param schema - Unwrapped array, set or tuple schema
+ * @returns The element schema, or undefined if unknown
+ */
+function getElement(schema: ZodLike): ZodLike | undefined {
+  const items = schema._def.items;
+  return (
+    getInner(schema, "type") ??
+    getInner(schema, "valueType") ??
+    (Array.isArray(items) && isZodType(items[0]) ? items[0] : undefined)
+  );
+}
+
+/**
+ * Convert a single Zod field schema into a Writenex schema field
+ *
+ * @param schema - Zod schema of the field
+ * @returns Equivalent schema field
+ */
+export function zodToSchemaField(schema: unknown): SchemaField {
+  if (!isZodType(schema)) {
+    return { type: "string", required: false };
+  }
+
+  const unwrapped = unwrap(schema);
+  const inner = unwrapped.schema;
+  const type = getFieldType(inner);
+
+  const field: SchemaField = {
+    type,
+    required: !unwrapped.optional,
+  };
+
+  // Dates from default factories would freeze the load time, so skip them
+  if (
+    unwrapped.defaultValue !== undefined &&
+    !(unwrapped.defaultValue instanceof Date)
+  ) {
+    field.default = unwrapped.defaultValue;
+  }
+
+  if (unwrapped.description) {
+    field.description = unwrapped.description;
+  }
+
+  // Enum options and reference targets describe the items of arrays
+  let target = inner;
+  let targetType = type;
+  if (type === "array") {
+    const element = getElement(inner);
+    if (element) {
+      target = unwrap(element).schema;
+      targetType = getFieldType(target);
+      field.items = targetType;
+    }
+  }
+
+  if (targetType === "enum") {
+    field.options = getEnumValues(target);
+  } else if (targetType === "reference") {
+    const collection = getReferenceCollection(target);
+    if (collection) {
+      field.collection = collection;
+    }
+  } else if (type === "object") {
+    const fields = zodToCollectionSchema(inner);
+    if (fields && Object.keys(fields).length > 0) {
+      field.fields = fields;
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Convert a Zod object schema into a Writenex collection schema
+ *
+ * @param schema - Zod schema of a collection entry's frontmatter
+ * @returns Collection schema, or null if the schema is not an object
+ *
+ * @example
+ * ```typescript
+ * const schema = zodToCollectionSchema(
+ *   z.object({
+ *     title: z.string(),
+ *     pubDate: z.coerce.date(),
+ *     status: z.enum(['draft', 'published']).default('draft'),
+ *   })
+ * );
+ * // {
+ * //   title: { type: 'string', required: true },
+ * //   pubDate: { type: 'date', required: true },
+ * //   status: { type: 'enum', required: false, default: 'draft',
+ * //             options: ['draft', 'published'] },
+ * // }
+ * ```
+ */
+export function zodToCollectionSchema(
+  schema: unknown
+): CollectionSchema | null {
+  if (!isZodType(schema)) {
+    return null;
+  }
+
+  const inner = unwrap(schema).schema;
+  if (inner._def.typeName !== ZodFirstPartyTypeKind.ZodObject) {
+    return null;
+  }
+
+  const result: CollectionSchema = {};
+  for (const [name, field] of Object.entries(getShape(inner))) {
+    result[name] = zodToSchemaField(field);
+  }
+  return result;
+}
+
+/**
+ * Find the content config file in the project
+ *
+ * @param projectRoot - Absolute path to the project root
+ * @returns Path to the content config file, or null if not found
+ */
+export function findContentConfigFile(projectRoot: string): string | null {
+  for (const fileName of CONTENT_CONFIG_FILE_NAMES) {
+    const filePath = join(projectRoot, fileName);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Default module loader using a native dynamic import
+ *
+ * Only works for plain JavaScript configs that do not import
+ * `astro:content`; the dev server passes Vite's loader instead.
+ *
+ * @param path - Path to the module
+ * @returns The module namespace
+ */
+async function importModule(path: string): Promise<Record<string, unknown>> {
+  return (await import(pathToFileURL(resolve(path)).href)) as Record<
+    string,
+    unknown
+  >;
+}
+
+/**
+ * Load collection schemas declared in the project's content config
+ *
+ * Schemas defined as functions (`schema: ({ image }) => z.object(...)`)
+ * are called with a context whose `image()` helper yields image fields.
+ * Collections without a schema, or with a schema that is not an object,
+ * are left out so callers can fall back to schema detection.
+ *
+ * @param projectRoot - Absolute path to the project root
+ * @param loadModule - Module loader (default: native dynamic import)
+ * @returns Converted schemas keyed by collection name
+ *
+ * @example
+ * ```typescript
+ * const { schemas, warnings } = await loadContentSchemas(
+ *   projectRoot,
+ *   (path) => server.ssrLoadModule(path)
+ * );
+ * ```
+ */
+export async function loadContentSchemas(
+  projectRoot: string,
+  loadModule: ContentConfigModuleLoader = importModule
+): Promise<ContentSchemaLoadResult> {
+  const schemas: Record<string, CollectionSchema> = {};
+  const warnings: string[] = [];
+  const configPath = findContentConfigFile(projectRoot);
+
+  if (!configPath) {
+    return { schemas, configPath, warnings };
+  }
+
+  let collections: unknown;
+  try {
+    const module = await loadModule(configPath);
+    collections = module.collections;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    warnings.push(
+      `Failed to load content config from ${configPath}: ${message}`
+    );
+    return { schemas, configPath, warnings };
+  }
+
+  if (typeof collections !== "object" || collections === null) {
+    return { schemas, configPath, warnings };
+  }
+
+  for (const [name, definition] of Object.entries(collections)) {
+    const declared =
+      typeof definition === "object" && definition !== null
+        ? (definition as { schema?: unknown }).schema
+        : undefined;
+
+    if (declared === undefined) {
+      continue;
+    }
+
+    try {
+      const schema =
+        typeof declared === "function"
+          ? (declared as (context: unknown) => unknown)({
+              image: createImageSchema,
+            })
+          : declared;
+
+      const converted = zodToCollectionSchema(schema);
+      if (converted) {
+        schemas[name] = converted;
+      } else {
+        warnings.push(
+          `Schema of collection "${name}" is not an object schema; falling back to detection`
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(
+        `Failed to read schema of collection "${name}": ${message}`
+      );
+    }
+  }
+
+  return { schemas, configPath, warnings };
+}
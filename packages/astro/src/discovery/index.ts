@@ -2,7 +2,8 @@
  * @fileoverview Discovery module exports for @writenex/astro
  *
  * This module provides the public API for collection discovery,
- * file pattern detection, and schema auto-detection.
+ * file pattern detection, schema auto-detection, and schema import from
+ * the Astro content config.
  *
  * @module @writenex/astro/discovery
  */
@@ -19,6 +20,7 @@ export {
 export {
   detectFilePattern,
   generatePathFromPattern,
+  extractTokensFromPath,
   parsePatternTokens,
   validatePattern,
   getPatternExtension,
@@ -31,3 +33,15 @@ export type { PatternDetectionResult, ResolveTokensOptions } from "./patterns";
 // Schema detection
 export { detectSchema, mergeSchema, describeSchema } from "./schema";
 export type { SchemaDetectionResult } from "./schema";
+
+// Content config schema import
+export {
+  loadContentSchemas,
+  findContentConfigFile,
+  zodToCollectionSchema,
+  zodToSchemaField,
+} from "./content-config";
+export type {
+  ContentSchemaLoadResult,
+  ContentConfigModuleLoader,
+} from "./content-config";
@@ -16,6 +16,9 @@
  * - `{lang}/{slug}.md` - Language-prefixed content (i18n)
  * - `{lang}/{slug}/index.md` - Language with folder-based content
  *
+ * Data collections use the same layouts with a `.json`, `.yaml` or `.yml`
+ * extension (e.g. `{slug}.json`).
+ *
  * ## Custom Patterns:
  * Developers can configure custom patterns in their collection config.
  * Custom tokens are resolved from frontmatter data or use default values.
@@ -33,6 +36,7 @@ import { readdir } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { join, extname, relative } from "node:path";
 import { isContentFile } from "@/filesystem/reader";
+import { DATA_EXTENSIONS, isDataFile } from "@/filesystem/data";
 
 /**
  * Pattern definition with regex and template
@@ -319,14 +323,17 @@ export async function detectFilePattern(
 
   // Analyze each file
   for (const filePath of files) {
-    const result = matchPattern(filePath);
+    // Data entries follow the same layouts as Markdown files
+    const ext = extname(filePath);
+    const result = matchPattern(
+      isDataFile(filePath) ? `${filePath.slice(0, -ext.length)}.md` : filePath
+    );
 
     if (result) {
       const { pattern, match } = result;
       const entry = patternCounts.get(pattern.name);
 
       if (entry) {
-        const ext = extname(filePath);
         const extracted = pattern.extract(match, ext);
 
         entry.count++;
@@ -358,8 +365,8 @@ export async function detectFilePattern(
 
       // Adjust template for actual extension used
       let template = entry.pattern.template;
-      if (entry.extension === ".mdx") {
-        template = template.replace(".md", ".mdx");
+      if (entry.extension !== ".md") {
+        template = template.replace(/\.md$/, entry.extension);
       }
 
       bestPattern = {
@@ -413,6 +420,64 @@ export function generatePathFromPattern(
   return result;
 }
 
+/**
+ * Value formats of tokens with a fixed shape, used when reading tokens
+ * back from a path (so "{date}-{slug}" splits at the right dash)
+ */
+const TOKEN_VALUE_PATTERNS: Record<string, string> = {
+  date: "\\d{4}-\\d{2}-\\d{2}",
+  year: "\\d{4}",
+  month: "\\d{2}",
+  day: "\\d{2}",
+};
+
+/**
+ * Extract token values from a file path generated by a pattern
+ *
+ * The inverse of {@link generatePathFromPattern}. The file extension
+ * may be either `.md` or `.mdx` regardless of the pattern's extension
+ * (or any data extension, for data entries).
+ *
+ * @param pattern - Pattern template (e.g., "{year}/{slug}.md")
+ * @param relativePath - Path relative to the collection directory
+ * @returns Token values, or null if the path does not match the pattern
+ *
+ * @example
+ * ```typescript
+ * const tokens = extractTokensFromPath(
+ *   "{date}-{slug}.md",
+ *   "2024-01-15-my-post.md"
+ * );
+ * // Returns: { date: "2024-01-15", slug: "my-post" }
+ * ```
+ */
+export function extractTokensFromPath(
+  pattern: string,
+  relativePath: string
+): Record<string, string> | null {
+  const names: string[] = [];
+  const source = pattern
+    .replace(/\.(md|mdx|json|ya?ml)$/, "")
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      const token = /^\{([^}]+)\}$/.exec(part);
+      if (!token) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+      const name = token[1]!;
+      if (names.includes(name)) return `\\${names.indexOf(name) + 1}`;
+      names.push(name);
+      return `(${TOKEN_VALUE_PATTERNS[name] ?? "[^/]+?"})`;
+    })
+    .join("");
+
+  const match = new RegExp(`^${source}\\.(?:md|mdx|json|ya?ml)$`).exec(
+    relativePath.replace(/\\/g, "/")
+  );
+  if (!match) return null;
+
+  return Object.fromEntries(names.map((name, i) => [name, match[i + 1]!]));
+}
+
 /**
  * Parse a pattern template to extract token names
  *
@@ -458,11 +523,12 @@ export function validatePattern(
  * Get the default extension for a pattern
  *
  * @param pattern - Pattern template
- * @returns The file extension (.md or .mdx)
+ * @returns The file extension (.md, .mdx or a data extension)
  */
 export function getPatternExtension(pattern: string): string {
-  if (pattern.endsWith(".mdx")) {
-    return ".mdx";
+  const ext = extname(pattern);
+  if (ext === ".mdx" || DATA_EXTENSIONS.includes(ext)) {
+    return ext;
   }
   return ".md";
 }
@@ -663,7 +729,7 @@ export function resolvePatternTokens(
  *
  * A pattern is valid if:
  * - It contains the {slug} token (required)
- * - It ends with .md or .mdx
+ * - It ends with .md or .mdx (or .json, .yaml or .yml for data entries)
  * - All tokens can be resolved
  *
  * @param pattern - Pattern template to validate
@@ -678,9 +744,16 @@ export function isValidPattern(pattern: string): {
     return { valid: false, error: "Pattern must contain {slug} token" };
   }
 
-  // Must end with .md or .mdx
-  if (!pattern.endsWith(".md") && !pattern.endsWith(".mdx")) {
-    return { valid: false, error: "Pattern must end with .md or .mdx" };
+  // Must end with .md or .mdx, or a data extension
+  if (
+    !pattern.endsWith(".md") &&
+    !pattern.endsWith(".mdx") &&
+    !isDataFile(pattern)
+  ) {
+    return {
+      valid: false,
+      error: "Pattern must end with .md, .mdx, .json, .yaml or .yml",
+    };
   }
 
   // Check for unclosed tokens
@@ -18,12 +18,15 @@
  * - date: ISO date strings or Date objects
  * - array: Arrays (with item type detection)
  * - image: Paths ending with image extensions
+ * - enum: Strings drawn from a small set of repeated values
+ * - object: Nested objects (with nested field detection)
  *
  * @module @writenex/astro/discovery/schema
  */
 
 import type { CollectionSchema, FieldType, SchemaField } from "@/types";
 import { readCollection } from "@/filesystem/reader";
+import { isPlainObject } from "@/core/utils";
 
 /**
  * Maximum number of files to sample for schema detection
@@ -237,50 +240,26 @@ function detectArrayItemType(analysis: FieldAnalysis): string | undefined {
 }
 
 /**
- * Analyze frontmatter from content items to detect schema
+ * Infer a schema from a set of frontmatter records
  *
- * @param collectionPath - Absolute path to the collection directory
- * @returns Schema detection result
+ * Called recursively for object fields, using the nested objects found
+ * across samples as records.
  *
- * @example
- * ```typescript
- * const result = await detectSchema('/project/src/content/blog');
- * console.log(result.schema);
- * // {
- * //   title: { type: 'string', required: true },
- * //   pubDate: { type: 'date', required: true },
- * //   draft: { type: 'boolean', required: false, default: false },
- * //   tags: { type: 'array', required: false, items: 'string' },
- * // }
- * ```
+ * @param records - Frontmatter objects to analyze
+ * @param warnings - Array collecting type inconsistency warnings
+ * @param path - Key prefix for nested fields in warnings (e.g. "seo.")
+ * @returns Inferred schema
  */
-export async function detectSchema(
-  collectionPath: string
-): Promise<SchemaDetectionResult> {
-  const warnings: string[] = [];
-
-  // Read sample content files
-  const items = await readCollection(collectionPath, {
-    includeDrafts: true,
-  });
-
-  // Limit to max samples
-  const samples = items.slice(0, MAX_SAMPLE_FILES);
-
-  if (samples.length === 0) {
-    return {
-      schema: {},
-      samplesAnalyzed: 0,
-      confidence: 0,
-      warnings: ["No content files found in collection"],
-    };
-  }
-
+function inferSchema(
+  records: Record<string, unknown>[],
+  warnings: string[],
+  path = ""
+): CollectionSchema {
   // Analyze each field across all samples
   const fieldAnalyses = new Map<string, FieldAnalysis>();
 
-  for (const item of samples) {
-    for (const [fieldName, value] of Object.entries(item.frontmatter)) {
+  for (const record of records) {
+    for (const [fieldName, value] of Object.entries(record)) {
       // Get or create field analysis
       let analysis = fieldAnalyses.get(fieldName);
       if (!analysis) {
@@ -319,7 +298,7 @@ export async function detectSchema(
 
   // Generate schema from analysis
   const schema: CollectionSchema = {};
-  const totalSamples = samples.length;
+  const totalSamples = records.length;
 
   for (const [fieldName, analysis] of fieldAnalyses) {
     const fieldType = inferFieldType(analysis);
@@ -343,10 +322,17 @@ export async function detectSchema(
     if (fieldType === "string") {
       const enumValues = detectEnum(analysis.values, totalSamples);
       if (enumValues) {
-        // Store enum values in the field
-        // Note: We use 'default' to store enum options since SchemaField
-        // doesn't have an 'enum' property - this can be enhanced later
-        field.description = `Options: ${enumValues.join(", ")}`;
+        field.type = "enum";
+        field.options = enumValues;
+      }
+    }
+
+    // Detect nested fields for object fields
+    if (fieldType === "object") {
+      const nested = analysis.values.filter(isPlainObject);
+      const fields = inferSchema(nested, warnings, `${path}${fieldName}.`);
+      if (Object.keys(fields).length > 0) {
+        field.fields = fields;
       }
     }
 
@@ -367,25 +353,73 @@ export async function detectSchema(
     const nonNullTypes = [...analysis.types].filter((t) => t !== "null");
     if (nonNullTypes.length > 1) {
       warnings.push(
-        `Field "${fieldName}" has inconsistent types: ${nonNullTypes.join(", ")}`
+        `Field "${path}${fieldName}" has inconsistent types: ${nonNullTypes.join(", ")}`
       );
     }
 
     schema[fieldName] = field;
   }
 
+  return schema;
+}
+
+/**
+ * Analyze frontmatter from content items to detect schema
+ *
+ * @param collectionPath - Absolute path to the collection directory
+ * @returns Schema detection result
+ *
+ * @example
+ * ```typescript
+ * const result = await detectSchema('/project/src/content/blog');
+ * console.log(result.schema);
+ * // {
+ * //   title: { type: 'string', required: true },
+ * //   pubDate: { type: 'date', required: true },
+ * //   draft: { type: 'boolean', required: false, default: false },
+ * //   tags: { type: 'array', required: false, items: 'string' },
+ * // }
+ * ```
+ */
+export async function detectSchema(
+  collectionPath: string
+): Promise<SchemaDetectionResult> {
+  const warnings: string[] = [];
+
+  // Read sample content files
+  const items = await readCollection(collectionPath, {
+    includeDrafts: true,
+  });
+
+  // Limit to max samples
+  const samples = items.slice(0, MAX_SAMPLE_FILES);
+
+  if (samples.length === 0) {
+    return {
+      schema: {},
+      samplesAnalyzed: 0,
+      confidence: 0,
+      warnings: ["No content files found in collection"],
+    };
+  }
+
+  const schema = inferSchema(
+    samples.map((item) => item.frontmatter),
+    warnings
+  );
+
   // Calculate confidence based on consistency
   const inconsistentFields = warnings.filter((w) =>
     w.includes("inconsistent")
   ).length;
   const confidence = Math.max(
     0,
-    1 - inconsistentFields / Math.max(1, fieldAnalyses.size)
+    1 - inconsistentFields / Math.max(1, Object.keys(schema).length)
   );
 
   return {
     schema,
-    samplesAnalyzed: totalSamples,
+    samplesAnalyzed: samples.length,
     confidence,
     warnings,
   };
@@ -438,6 +472,14 @@ export function describeSchema(schema: CollectionSchema): string {
       desc += ` of ${field.items}`;
     }
 
+    if (field.options) {
+      desc += ` (${field.options.join(" | ")})`;
+    }
+
+    if (field.collection) {
+      desc += ` -> ${field.collection}`;
+    }
+
     if (field.default !== undefined) {
       desc += ` [default: ${JSON.stringify(field.default)}]`;
     }
@@ -447,6 +489,13 @@ export function describeSchema(schema: CollectionSchema): string {
     }
 
     lines.push(desc);
+
+    if (field.fields) {
+      const nested = describeSchema(field.fields)
+        .split("\n")
+        .map((line) => `  ${line}`);
+      lines.push(...nested);
+    }
   }
 
   return lines.join("\n");
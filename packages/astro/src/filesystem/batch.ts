@@ -0,0 +1,411 @@
+/**
+ * @fileoverview Batch operations on content entries
+ *
+ * This module applies one change (publish, set a field, edit tags, move
+ * to a category, delete) to several entries of a collection at once. A
+ * batch is planned first, so every entry can be checked before anything
+ * is written, and then applied as a unit: if any entry fails, the entries
+ * already changed are restored.
+ *
+ * ## Features:
+ * - Frontmatter changes computed up front for validation
+ * - Version snapshot of every affected file before it changes
+ * - Category moves through the collection's file pattern
+ * - Rollback of earlier entries when a later one fails
+ *
+ * @module @writenex/astro/filesystem/batch
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getContentFilePath, readContentFile } from "./reader";
+import { updateContent, deleteContent } from "./writer";
+import { saveVersion } from "./versions";
+import { restoreFromTrash } from "./trash";
+import { planMove, findMoveCollision, moveContent } from "./move";
+import type { MovePlan } from "./move";
+import { parsePatternTokens } from "@/discovery/patterns";
+import { ContentAlreadyExistsError, ContentNotFoundError } from "@/core/errors";
+import type {
+  BatchAction,
+  BatchItemResult,
+  ContentItem,
+  VersionHistoryConfig,
+} from "@/types";
+
+/**
+ * Options for planning a batch
+ */
+export interface PrepareBatchOptions {
+  /** Collection name (for error messages) */
+  collection: string;
+  /** File pattern of the collection (used by category moves) */
+  filePattern: string;
+}
+
+/**
+ * Planned change for one entry
+ */
+export interface BatchEntry {
+  /** Content ID */
+  id: string;
+  /** Content as read before the batch */
+  content: ContentItem;
+  /** Frontmatter changes to save (null removes a key), or null if none */
+  changes: Record<string, unknown> | null;
+  /** Frontmatter after the changes, for validation */
+  frontmatter: Record<string, unknown>;
+  /** Files to move, or null if the entry stays in place */
+  move: MovePlan | null;
+  /** Whether the entry is deleted */
+  delete: boolean;
+}
+
+/**
+ * A planned batch operation
+ */
+export interface BatchPlan {
+  /** Path to the collection directory */
+  collectionPath: string;
+  /** Entries in request order */
+  entries: BatchEntry[];
+}
+
+/**
+ * Options for applying a batch
+ */
+export interface ApplyBatchOptions {
+  /** Absolute path to project root (required for version history) */
+  projectRoot?: string;
+  /** Collection name (required for version history) */
+  collection?: string;
+  /** Version history configuration */
+  versionHistoryConfig?: Required<VersionHistoryConfig>;
+}
+
+/**
+ * Result of applying a batch
+ */
+export interface BatchResult {
+  /** Whether every entry was applied */
+  success: boolean;
+  /** Per-entry outcome (when successful) */
+  results?: BatchItemResult[];
+  /** Error message if the batch was rolled back */
+  error?: string;
+}
+
+/**
+ * Read a list field as an array of strings
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string" && value !== "") return [value];
+  return [];
+}
+
+/**
+ * Compute the frontmatter changes a batch action makes to one entry
+ *
+ * @param frontmatter - Current frontmatter
+ * @param action - Batch action
+ * @returns Changed keys (null removes a key), or null if nothing changes
+ *
+ * @example
+ * ```typescript
+ * getBatchChanges({ tags: ['astro'] }, { type: 'addTags', tags: ['react'] });
+ * // { tags: ['astro', 'react'] }
+ * ```
+ */
+export function getBatchChanges(
+  frontmatter: Record<string, unknown>,
+  action: BatchAction
+): Record<string, unknown> | null {
+  let changes: Record<string, unknown>;
+
+  switch (action.type) {
+    case "publish":
+      changes = { draft: false };
+      break;
+    case "unpublish":
+      changes = { draft: true };
+      break;
+    case "set":
+      changes = { [action.field]: action.value };
+      break;
+    case "addTags": {
+      const field = action.field ?? "tags";
+      const current = toList(frontmatter[field]);
+      const added = action.tags.filter((tag) => !current.includes(tag));
+      changes = { [field]: [...current, ...added] };
+      if (added.length === 0 && Array.isArray(frontmatter[field])) {
+        return null;
+      }
+      break;
+    }
+    case "removeTags": {
+      const field = action.field ?? "tags";
+      if (frontmatter[field] === undefined) return null;
+      const current = toList(frontmatter[field]);
+      const kept = current.filter((tag) => !action.tags.includes(tag));
+      if (kept.length === current.length) return null;
+      changes = { [field]: kept };
+      break;
+    }
+    case "move":
+      changes = { category: action.category };
+      break;
+    case "delete":
+      return null;
+  }
+
+  const changed = Object.entries(changes).some(
+    ([key, value]) =>
+      JSON.stringify(value ?? null) !== JSON.stringify(frontmatter[key] ?? null)
+  );
+  return changed ? changes : null;
+}
+
+/**
+ * Plan a batch operation
+ *
+ * Reads every entry and works out its new frontmatter and, for category
+ * moves, its new path. Nothing is written.
+ *
+ * @param collectionPath - Path to the collection directory
+ * @param ids - Content IDs (duplicates are ignored)
+ * @param action - Change to apply to each entry
+ * @param options - Collection name and file pattern
+ * @returns The batch plan
+ * @throws ContentNotFoundError if an entry does not exist
+ * @throws ContentAlreadyExistsError if a move target is taken
+ * @throws ContentInvalidSlugError if the category cannot be used in a path
+ */
+export async function prepareBatch(
+  collectionPath: string,
+  ids: string[],
+  action: BatchAction,
+  options: PrepareBatchOptions
+): Promise<BatchPlan> {
+  const { collection, filePattern } = options;
+  const movesFiles =
+    action.type === "move" &&
+    parsePatternTokens(filePattern).includes("category");
+
+  const entries: BatchEntry[] = [];
+  const targets = new Set<string>();
+
+  for (const id of new Set(ids)) {
+    const filePath = getContentFilePath(collectionPath, id);
+    const read = filePath
+      ? await readContentFile(filePath, collectionPath)
+      : null;
+
+    if (!read?.success || !read.content) {
+      throw new ContentNotFoundError(collection, id);
+    }
+
+    const content = read.content;
+    const changes = getBatchChanges(content.frontmatter, action);
+    const frontmatter = { ...content.frontmatter, ...changes };
+
+    let move: MovePlan | null = null;
+    if (movesFiles && action.type === "move") {
+      const plan = planMove(collectionPath, content.path, {
+        filePattern,
+        tokens: { category: action.category },
+      });
+      if (plan.renames.length > 0) {
+        if (
+          findMoveCollision(plan) ||
+          plan.renames.some((rename) => targets.has(rename.to))
+        ) {
+          throw new ContentAlreadyExistsError(collection, plan.toId);
+        }
+        plan.renames.forEach((rename) => targets.add(rename.to));
+        move = plan;
+      }
+    }
+
+    entries.push({
+      id,
+      content,
+      changes,
+      frontmatter,
+      move,
+      delete: action.type === "delete",
+    });
+  }
+
+  return { collectionPath, entries };
+}
+
+/**
+ * Undo the changes made to one entry
+ *
+ * @param collectionPath - Path to the collection directory
+ * @param entry - Planned entry
+ * @param moved - Whether its files were moved
+ * @param options - Version history options
+ */
+async function restoreEntry(
+  collectionPath: string,
+  entry: BatchEntry,
+  moved: boolean,
+  options: ApplyBatchOptions
+): Promise<void> {
+  const { content, move } = entry;
+  const { projectRoot, collection, versionHistoryConfig } = options;
+
+  // Deleted entries went to the trash with their images
+  if (
+    entry.delete &&
+    projectRoot &&
+    collection &&
+    versionHistoryConfig?.enabled
+  ) {
+    await restoreFromTrash(entry.id, {
+      projectRoot,
+      collection,
+      collectionPath,
+      versionHistoryConfig,
+    });
+  }
+
+  if (moved && move) {
+    await moveContent(
+      {
+        collectionPath: move.collectionPath,
+        fromId: move.toId,
+        toId: move.fromId,
+        fromPath: move.toPath,
+        toPath: move.fromPath,
+        renames: move.renames
+          .map((rename) => ({ from: rename.to, to: rename.from }))
+          .reverse(),
+      },
+      options
+    );
+  }
+
+  await mkdir(dirname(content.path), { recursive: true });
+  await writeFile(content.path, content.raw, "utf-8");
+}
+
+/**
+ * Apply a planned batch operation
+ *
+ * Each changed entry gets a version snapshot before it is written, moved
+ * or deleted. If an entry fails, the entries changed before it are
+ * restored from the content read while planning.
+ *
+ * @param plan - Batch plan from {@link prepareBatch}
+ * @param options - Version history options
+ * @returns BatchResult with the outcome for each entry
+ *
+ * @example
+ * ```typescript
+ * const plan = await prepareBatch(collectionPath, ['a', 'b'], { type: 'publish' }, {
+ *   collection: 'blog',
+ *   filePattern: '{slug}.md',
+ * });
+ * const result = await applyBatch(plan, { projectRoot, collection: 'blog', versionHistoryConfig });
+ * ```
+ */
+export async function applyBatch(
+  plan: BatchPlan,
+  options: ApplyBatchOptions = {}
+): Promise<BatchResult> {
+  const { collectionPath, entries } = plan;
+  const { projectRoot, collection, versionHistoryConfig } = options;
+
+  const results: BatchItemResult[] = [];
+  const applied: { entry: BatchEntry; moved: boolean }[] = [];
+
+  for (const entry of entries) {
+    const { id, content, changes, move } = entry;
+
+    if (!changes && !move && !entry.delete) {
+      results.push({ id, newId: id, changed: false });
+      continue;
+    }
+
+    const state = { entry, moved: false };
+    applied.push(state);
+
+    try {
+      if (changes) {
+        // updateContent takes the version snapshot
+        const result = await updateContent(content.path, collectionPath, {
+          frontmatter: changes,
+          projectRoot,
+          collection,
+          versionHistoryConfig,
+        });
+        if (!result.success) throw new Error(result.error);
+      } else if (
+        projectRoot &&
+        collection &&
+        versionHistoryConfig?.enabled &&
+        !entry.delete
+      ) {
+        const result = await saveVersion(
+          projectRoot,
+          collection,
+          id,
+          content.raw,
+          versionHistoryConfig,
+          { skipIfIdentical: true }
+        );
+        if (!result.success) {
+          console.warn(
+            `[writenex] Failed to create version snapshot: ${result.error}`
+          );
+        }
+      }
+
+      if (move) {
+        const result = await moveContent(move, options);
+        if (!result.success) throw new Error(result.error);
+        state.moved = true;
+      }
+
+      if (entry.delete) {
+        // deleteContent takes the version snapshot
+        const result = await deleteContent(content.path, {
+          collectionPath,
+          projectRoot,
+          collection,
+          versionHistoryConfig,
+        });
+        if (!result.success) throw new Error(result.error);
+      }
+
+      results.push({
+        id,
+        newId: entry.delete ? undefined : (move?.toId ?? id),
+        changed: true,
+        ...(entry.delete ? { deleted: true } : {}),
+      });
+    } catch (error) {
+      for (const done of applied.reverse()) {
+        try {
+          await restoreEntry(collectionPath, done.entry, done.moved, options);
+        } catch (restoreError) {
+          console.warn(
+            `[writenex] Failed to restore ${done.entry.id}:`,
+            restoreError
+          );
+        }
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `Batch failed at '${id}', no changes were kept: ${message}`,
+      };
+    }
+  }
+
+  return { success: true, results };
+}
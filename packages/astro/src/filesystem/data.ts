@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Entry file formats for content and data collections
+ *
+ * Astro data collections store each entry as a JSON or YAML file instead
+ * of Markdown. This module reads and writes both kinds of files, so the
+ * rest of the filesystem layer can treat every entry as frontmatter plus
+ * body: a data entry is all frontmatter, with an empty body.
+ *
+ * ## Supported files:
+ * - `.md`, `.mdx` - Markdown with YAML frontmatter
+ * - `.json` - JSON object
+ * - `.yaml`, `.yml` - YAML mapping
+ *
+ * @module @writenex/astro/filesystem/data
+ */
+
+import { extname } from "node:path";
+import matter from "gray-matter";
+import {
+  parseYaml,
+  stringifyContent,
+  stringifyJson,
+  stringifyYaml,
+} from "./frontmatter";
+import type { ContentItem } from "@/types";
+import { isPlainObject } from "@/core/utils";
+
+/**
+ * Format of a data entry file
+ */
+export type DataFormat = "json" | "yaml";
+
+/**
+ * Data file extensions and their formats
+ */
+const DATA_FORMATS: Record<string, DataFormat> = {
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+};
+
+/**
+ * Supported data file extensions
+ */
+export const DATA_EXTENSIONS = Object.keys(DATA_FORMATS);
+
+/**
+ * Get the data format of a file or file pattern
+ *
+ * @param filePath - File path, name or pattern (e.g. "{slug}.json")
+ * @returns The format, or null for Markdown files
+ */
+export function getDataFormat(filePath: string): DataFormat | null {
+  return DATA_FORMATS[extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Check if a file or file pattern is a data entry
+ *
+ * @param filePath - File path, name or pattern
+ * @returns True for JSON and YAML files
+ */
+export function isDataFile(filePath: string): boolean {
+  return getDataFormat(filePath) !== null;
+}
+
+/**
+ * Parse the content of a data file
+ *
+ * @param raw - File content
+ * @param format - Data format
+ * @returns Entry data
+ * @throws Error if the file is invalid or does not hold an object
+ */
+export function parseData(
+  raw: string,
+  format: DataFormat
+): Record<string, unknown> {
+  const data = format === "json" ? JSON.parse(raw) : parseYaml(raw);
+  if (!isPlainObject(data)) {
+    throw new Error(
+      `Data entry must be a ${format === "json" ? "JSON object" : "YAML mapping"}`
+    );
+  }
+  return data;
+}
+
+/**
+ * Guess the data format of stored file content
+ *
+ * Used for version snapshots, which are stored without their original
+ * file name. Markdown entries start with a frontmatter block, so content
+ * that does not, and parses as an object, is a data entry.
+ *
+ * @param raw - File content
+ * @returns The format, or null for Markdown content
+ */
+export function detectDataFormat(raw: string): DataFormat | null {
+  if (raw.startsWith("---")) return null;
+
+  for (const format of ["json", "yaml"] as const) {
+    try {
+      if (Object.keys(parseData(raw, format)).length > 0) return format;
+    } catch {
+      // Try the next format
+    }
+  }
+  return null;
+}
+
+/**
+ * Split entry file content into frontmatter and body
+ *
+ * @param raw - File content
+ * @param format - Data format, or null for Markdown
+ * @returns Frontmatter (the whole data of data entries) and body
+ * @throws Error if a data file is invalid
+ */
+export function parseEntry(
+  raw: string,
+  format: DataFormat | null
+): { frontmatter: Record<string, unknown>; body: string } {
+  if (format) {
+    return { frontmatter: parseData(raw, format), body: "" };
+  }
+
+  const { data, content } = matter(raw);
+  return { frontmatter: data, body: content };
+}
+
+/**
+ * Build the content of an entry file
+ *
+ * Markdown files get frontmatter and body; data files only the
+ * frontmatter, as JSON or YAML depending on the file extension.
+ *
+ * @param filePath - Entry file path (its extension picks the format)
+ * @param frontmatter - Frontmatter or entry data
+ * @param body - Markdown body (ignored for data files)
+ * @param original - Entry as currently on disk (for updates)
+ * @returns Complete file content
+ */
+export function stringifyEntry(
+  filePath: string,
+  frontmatter: Record<string, unknown>,
+  body: string,
+  original?: Pick<ContentItem, "raw" | "frontmatter">
+): string {
+  switch (getDataFormat(filePath)) {
+    case "json":
+      return stringifyJson(frontmatter, original);
+    case "yaml":
+      return stringifyYaml(frontmatter, original);
+    default:
+      return stringifyContent(frontmatter, body, original);
+  }
+}
@@ -0,0 +1,888 @@
+/**
+ * @fileoverview Round-trip safe frontmatter serialization
+ *
+ * This module turns frontmatter objects back into YAML when content is
+ * saved. When the file already exists, the original YAML is patched in
+ * place instead of being regenerated: untouched keys keep their exact
+ * source text (comments, quoting, formatting), changed keys are rewritten
+ * where they stand, and new keys are appended. Saving without edits
+ * therefore reproduces the file byte for byte.
+ *
+ * Data entries (JSON and YAML files of data collections) are written the
+ * same way: YAML files are patched like frontmatter, JSON files keep
+ * their indentation and key order.
+ *
+ * ## Features:
+ * - Arbitrary nesting (objects in arrays, arrays in objects, ...)
+ * - Key order, comments and quoting of untouched keys preserved
+ * - Nested block mappings patched key by key
+ * - Dates written as YAML timestamps (day-only at midnight UTC)
+ * - Strings YAML would read as another type quoted, so they stay strings
+ * - Patched output verified by re-parsing, with a full rewrite as fallback
+ * - Whole-file YAML and JSON data entries
+ *
+ * @module @writenex/astro/filesystem/frontmatter
+ */
+
+import matter from "gray-matter";
+import type { ContentItem } from "@/types";
+import { isPlainObject } from "@/core/utils";
+
+/**
+ * Lines of a mapping entry or sequence item in the source YAML
+ */
+interface SourceRange {
+  /** First line (the key or `-` line) */
+  start: number;
+  /** Line after the last content line */
+  end: number;
+  /** Line where the next entry or item (or the block end) starts */
+  next: number;
+}
+
+/**
+ * A key/value entry of a block mapping in the source YAML
+ */
+interface SourceEntry extends SourceRange {
+  /** Unquoted key */
+  key: string;
+  /** Whether the key line holds no inline value */
+  isBlock: boolean;
+}
+
+/**
+ * Layout of a block value below its key
+ */
+interface BlockLayout {
+  /** Indentation of the nested keys or `-` markers */
+  indent: number;
+  /** Whether the value is a block sequence */
+  isSequence: boolean;
+}
+
+/**
+ * ISO dates and timestamps, as the editor sends date values
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)?$/;
+
+/**
+ * Plain scalars YAML would read as something other than a string
+ */
+const RESERVED_PATTERN =
+  /^(?:~|null|true|false|yes|no|on|off|y|n|[-+]?\.inf|\.nan)$/i;
+
+/**
+ * Key line of a block mapping entry: indentation, key, colon
+ */
+const KEY_LINE_PATTERN =
+  /^( *)("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?[\]{}&*!|>%@`][^#]*?|-[^\s#][^#]*?)[ \t]*:(?=[ \t]|$)/;
+
+/**
+ * Blank or comment-only line
+ */
+const TRIVIA_PATTERN = /^\s*(?:#.*)?$/;
+
+// =============================================================================
+// Value Helpers
+// =============================================================================
+
+/**
+ * Normalize a value for comparison
+ *
+ * Dates parsed from YAML reach the editor as ISO strings, so dates and
+ * date strings are compared by their ISO representation. Object keys are
+ * sorted, as key order is kept from the source anyway.
+ *
+ * @param value - Value to normalize
+ * @returns JSON-compatible value
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value === "string" && DATE_PATTERN.test(value)) {
+    return new Date(value).toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item ?? null));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = value[key];
+      if (item !== undefined) {
+        result[key] = normalizeValue(item);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Compare two frontmatter values structurally
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return (
+    JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b))
+  );
+}
+
+/**
+ * Keep values that are dates in the source dates
+ *
+ * The editor sends dates as ISO strings. Where such a string replaces a
+ * date, it is turned back into a date so the field stays a YAML
+ * timestamp; any other string is written as a string.
+ *
+ * @param previous - Value as parsed from the source
+ * @param next - Value to write
+ * @returns The value to write, with dates restored
+ */
+function keepDates(previous: unknown, next: unknown): unknown {
+  if (
+    previous instanceof Date &&
+    typeof next === "string" &&
+    DATE_PATTERN.test(next)
+  ) {
+    return new Date(next);
+  }
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    return next.map((item, index) => keepDates(previous[index], item));
+  }
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    return Object.fromEntries(
+      Object.entries(next).map(([key, value]) => [
+        key,
+        keepDates(previous[key], value),
+      ])
+    );
+  }
+  return next;
+}
+
+/**
+ * Drop top-level keys without a value (they are removed from the file)
+ */
+function withoutEmptyKeys(
+  frontmatter: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(frontmatter).filter(
+      ([, value]) => value !== undefined && value !== null
+    )
+  );
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Format a date as a YAML timestamp
+ */
+function formatDate(iso: string): string {
+  return iso.replace(/T00:00:00(?:\.0+)?Z$/, "");
+}
+
+/**
+ * Format a string as a YAML scalar, quoting only when needed
+ *
+ * Strings YAML would read as another type (dates, numbers, booleans,
+ * null) are quoted, so they are still strings when read back.
+ *
+ * @param value - String to format
+ * @returns Plain or double-quoted scalar
+ */
+function formatString(value: string): string {
+  const needsQuotes =
+    value === "" ||
+    value !== value.trim() ||
+    RESERVED_PATTERN.test(value) ||
+    !isNaN(Number(value)) ||
+    /^[-+]?[\d_.:]+$/.test(value) ||
+    /^\d{4}-\d\d?-\d\d?/.test(value) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /: |:$| #|[\u0000-\u001f\u007f]/.test(value);
+
+  // JSON escapes are valid in YAML double-quoted scalars
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Format a value that fits on the key line
+ *
+ * @param value - Value to format
+ * @returns Inline YAML, or null for non-empty arrays and objects
+ */
+function formatInline(value: unknown): string | null {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") return formatString(value);
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "bigint") return String(value);
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return ".nan";
+    if (!Number.isFinite(value)) return value > 0 ? ".inf" : "-.inf";
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "null" : formatDate(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? "[]" : null;
+  }
+  if (isPlainObject(value)) {
+    return Object.values(value).every((item) => item === undefined)
+      ? "{}"
+      : null;
+  }
+  return formatString(String(value));
+}
+
+/**
+ * Serialize a non-empty array or object as block YAML lines
+ *
+ * @param value - Array or object
+ * @returns Lines without indentation
+ */
+function serializeBlock(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const inline = formatInline(item);
+      if (inline !== null) return [`- ${inline}`];
+
+      const [first, ...rest] = serializeBlock(item);
+      return [`- ${first}`, ...rest.map((line) => `  ${line}`)];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) => serializeEntry(key, item));
+}
+
+/**
+ * Serialize a single key/value entry
+ *
+ * @param key - Mapping key
+ * @param value - Value
+ * @returns Lines without indentation
+ */
+function serializeEntry(key: string, value: unknown): string[] {
+  const formattedKey = formatString(key);
+  const inline = formatInline(value);
+  if (inline !== null) {
+    return [`${formattedKey}: ${inline}`];
+  }
+  return [
+    `${formattedKey}:`,
+    ...serializeBlock(value).map((line) => `  ${line}`),
+  ];
+}
+
+/**
+ * Convert a frontmatter object to YAML
+ *
+ * Keys with `null` or `undefined` values are left out.
+ *
+ * @param frontmatter - Frontmatter data
+ * @returns YAML string (without delimiters or trailing newline)
+ *
+ * @example
+ * ```typescript
+ * serializeFrontmatter({
+ *   title: 'Hello: World',
+ *   pubDate: new Date('2024-01-15'),
+ *   authors: [{ name: 'Jane', url: 'https://example.com' }],
+ * });
+ * // title: "Hello: World"
+ * // pubDate: 2024-01-15
+ * // authors:
+ * //   - name: Jane
+ * //     url: https://example.com
+ * ```
+ */
+export function serializeFrontmatter(
+  frontmatter: Record<string, unknown>
+): string {
+  const data = withoutEmptyKeys(frontmatter);
+  return Object.keys(data).length === 0 ? "" : serializeBlock(data).join("\n");
+}
+
+// =============================================================================
+// Source Patching
+// =============================================================================
+
+/**
+ * Unquote a mapping key as written in the source
+ *
+ * @param raw - Key text
+ * @returns Key, or null if it cannot be decoded
+ */
+function unquoteKey(raw: string): string | null {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      return null;
+    }
+  }
+  if (raw.startsWith("'")) {
+    return raw.slice(1, -1).replace(/''/g, "'");
+  }
+  return raw.trim();
+}
+
+/**
+ * Count the leading spaces of a line
+ */
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Check if a line starts a sequence item at the given column
+ */
+function isItemLine(line: string, column: number): boolean {
+  return /^-(?:\s|$)/.test(line.slice(column));
+}
+
+/**
+ * Set where each range's content ends and the next range starts
+ *
+ * Trailing blank and comment lines are left in the gap before the next
+ * range, so they survive when a range is rewritten or removed.
+ *
+ * @param lines - Source lines
+ * @param ranges - Ranges in source order (start lines set)
+ * @param end - Line after the block
+ */
+function closeRanges(lines: string[], ranges: SourceRange[], end: number) {
+  ranges.forEach((range, index) => {
+    range.next = ranges[index + 1]?.start ?? end;
+    for (let i = range.next - 1; i > range.start; i--) {
+      if (!TRIVIA_PATTERN.test(lines[i]!)) {
+        range.end = i + 1;
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Split a block mapping into its entries
+ *
+ * @param lines - Source lines
+ * @param start - First line of the mapping
+ * @param end - Line after the mapping
+ * @param indent - Indentation of the mapping keys
+ * @returns Entries in source order, or null if the mapping uses syntax
+ *   that cannot be patched safely (merge keys, duplicates, flow style, ...)
+ */
+function parseEntries(
+  lines: string[],
+  start: number,
+  end: number,
+  indent: number
+): SourceEntry[] | null {
+  const entries: SourceEntry[] = [];
+  const seen = new Set<string>();
+
+  for (let i = start; i < end; i++) {
+    const line = lines[i]!;
+    if (TRIVIA_PATTERN.test(line)) continue;
+
+    const lineIndent = indentOf(line);
+    if (lineIndent > indent) continue;
+    if (lineIndent < indent) return null;
+
+    // Sequences may sit at the same indentation as their key
+    if (isItemLine(line, indent)) {
+      if (entries.length === 0) return null;
+      continue;
+    }
+
+    const match = KEY_LINE_PATTERN.exec(line);
+    const key = match ? unquoteKey(match[2]!) : null;
+    if (!match || key === null || key === "<<" || seen.has(key)) return null;
+
+    seen.add(key);
+    entries.push({
+      key,
+      start: i,
+      end: i + 1,
+      next: end,
+      isBlock: TRIVIA_PATTERN.test(line.slice(match[0].length)),
+    });
+  }
+
+  closeRanges(lines, entries, end);
+  return entries;
+}
+
+/**
+ * Split a block sequence into its items
+ *
+ * @param lines - Source lines
+ * @param start - First line of the sequence
+ * @param end - Line after the sequence
+ * @param indent - Indentation of the `-` markers
+ * @returns Items in source order, or null if not a plain block sequence
+ */
+function parseItems(
+  lines: string[],
+  start: number,
+  end: number,
+  indent: number
+): SourceRange[] | null {
+  const items: SourceRange[] = [];
+
+  for (let i = start; i < end; i++) {
+    const line = lines[i]!;
+    if (TRIVIA_PATTERN.test(line)) continue;
+
+    const lineIndent = indentOf(line);
+    if (lineIndent > indent) continue;
+    if (lineIndent < indent || !isItemLine(line, indent)) return null;
+
+    items.push({ start: i, end: i + 1, next: end });
+  }
+
+  closeRanges(lines, items, end);
+  return items;
+}
+
+/**
+ * Find how an entry's value is laid out below its key
+ *
+ * @param lines - Source lines
+ * @param entry - Mapping entry
+ * @param indent - Indentation of the entry's key
+ * @returns Layout of the nested block, or null for inline values
+ */
+function getBlockLayout(
+  lines: string[],
+  entry: SourceEntry,
+  indent: number
+): BlockLayout | null {
+  if (!entry.isBlock) return null;
+
+  for (let i = entry.start + 1; i < entry.end; i++) {
+    const line = lines[i]!;
+    if (TRIVIA_PATTERN.test(line)) continue;
+
+    const lineIndent = indentOf(line);
+    const isSequence = isItemLine(line, lineIndent);
+    return lineIndent > indent || (isSequence && lineIndent === indent)
+      ? { indent: lineIndent, isSequence }
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Patch a sequence item holding a mapping (`- key: value` lines)
+ *
+ * @param lines - Source lines
+ * @param item - Item range
+ * @param indent - Indentation of the `-` marker
+ * @param previous - Value the item currently holds
+ * @param next - Value to write
+ * @returns Patched lines, or null if the item has to be rewritten
+ */
+function patchItem(
+  lines: string[],
+  item: SourceRange,
+  indent: number,
+  previous: unknown,
+  next: unknown
+): string[] | null {
+  if (!isPlainObject(previous) || !isPlainObject(next)) return null;
+
+  // Treat "- " as indentation so the item reads as a plain mapping
+  const first = lines[item.start]!;
+  const keyIndent = indent + 1 + indentOf(first.slice(indent + 1));
+  const itemLines = lines.slice(item.start, item.end);
+  itemLines[0] = " ".repeat(keyIndent) + first.slice(keyIndent);
+
+  const patched = patchMapping(
+    itemLines,
+    0,
+    itemLines.length,
+    keyIndent,
+    previous,
+    next,
+    false
+  );
+  if (!patched) return null;
+
+  const firstKey = patched.findIndex((line) => !TRIVIA_PATTERN.test(line));
+  if (firstKey === -1 || indentOf(patched[firstKey]!) !== keyIndent) {
+    return null;
+  }
+  patched[firstKey] =
+    first.slice(0, keyIndent) + patched[firstKey]!.slice(keyIndent);
+  return patched;
+}
+
+/**
+ * Patch a block sequence in the source to hold new items
+ *
+ * Items are matched by position; extra items are appended and missing
+ * ones removed from the end.
+ *
+ * @param lines - Source lines
+ * @param start - First line of the sequence
+ * @param end - Line after the sequence
+ * @param indent - Indentation of the `-` markers
+ * @param previous - Items the source currently holds
+ * @param next - Items to write
+ * @returns Patched lines, or null if the sequence cannot be patched
+ */
+function patchSequence(
+  lines: string[],
+  start: number,
+  end: number,
+  indent: number,
+  previous: unknown[],
+  next: unknown[]
+): string[] | null {
+  const items = parseItems(lines, start, end, indent);
+  if (!items) return null;
+
+  const pad = " ".repeat(indent);
+  const output = lines.slice(start, items[0]?.start ?? end);
+
+  items.forEach((item, index) => {
+    if (index >= next.length) return;
+
+    if (valuesEqual(previous[index], next[index])) {
+      output.push(...lines.slice(item.start, item.end));
+    } else {
+      output.push(
+        ...(patchItem(lines, item, indent, previous[index], next[index]) ??
+          serializeBlock([next[index]]).map((line) => `${pad}${line}`))
+      );
+    }
+    output.push(...lines.slice(item.end, item.next));
+  });
+
+  if (next.length > items.length) {
+    output.push(
+      ...serializeBlock(next.slice(items.length)).map((line) => `${pad}${line}`)
+    );
+  }
+
+  return output;
+}
+
+/**
+ * Patch a block mapping in the source to hold new values
+ *
+ * @param lines - Source lines
+ * @param start - First line of the mapping
+ * @param end - Line after the mapping
+ * @param indent - Indentation of the mapping keys
+ * @param previous - Values the source currently holds
+ * @param next - Values to write
+ * @param topLevel - Whether `null` removes a key (top level only)
+ * @returns Patched lines, or null if the mapping cannot be patched
+ */
+function patchMapping(
+  lines: string[],
+  start: number,
+  end: number,
+  indent: number,
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  topLevel: boolean
+): string[] | null {
+  const entries = parseEntries(lines, start, end, indent);
+  if (!entries) return null;
+
+  const pad = " ".repeat(indent);
+  const output = lines.slice(start, entries[0]?.start ?? end);
+
+  for (const entry of entries) {
+    const { key } = entry;
+    const oldValue = previous[key];
+    const newValue = next[key];
+
+    if (valuesEqual(oldValue, newValue) && key in next) {
+      output.push(...lines.slice(entry.start, entry.end));
+    } else if (
+      newValue === undefined ||
+      !(key in next) ||
+      (topLevel && newValue === null)
+    ) {
+      // Removed: drop the entry, keep the comments after it
+    } else {
+      // Patch nested blocks of the same shape, rewrite anything else
+      const layout = getBlockLayout(lines, entry, indent);
+      let patched: string[] | null = null;
+      if (layout && !layout.isSequence) {
+        patched =
+          isPlainObject(oldValue) && isPlainObject(newValue)
+            ? patchMapping(
+                lines,
+                entry.start + 1,
+                entry.end,
+                layout.indent,
+                oldValue,
+                newValue,
+                false
+              )
+            : null;
+      } else if (layout) {
+        patched =
+          Array.isArray(oldValue) && Array.isArray(newValue)
+            ? patchSequence(
+                lines,
+                entry.start + 1,
+                entry.end,
+                layout.indent,
+                oldValue,
+                newValue
+              )
+            : null;
+      }
+
+      output.push(
+        ...(patched
+          ? [lines[entry.start]!, ...patched]
+          : serializeEntry(key, newValue).map((line) => `${pad}${line}`))
+      );
+    }
+
+    output.push(...lines.slice(entry.end, entry.next));
+  }
+
+  // New keys go after the existing ones
+  const existing = new Set(entries.map((entry) => entry.key));
+  for (const [key, value] of Object.entries(next)) {
+    if (
+      existing.has(key) ||
+      value === undefined ||
+      (topLevel && value === null)
+    ) {
+      continue;
+    }
+    output.push(...serializeEntry(key, value).map((line) => `${pad}${line}`));
+  }
+
+  return output;
+}
+
+/**
+ * Patch a YAML mapping document in place
+ *
+ * @param yaml - YAML source (with a trailing line break, if any)
+ * @param eol - Line break used by the source
+ * @param previous - Values as parsed from the source
+ * @param next - Values to write
+ * @returns Patched YAML, or null if the source cannot be patched
+ */
+function patchYaml(
+  yaml: string,
+  eol: string,
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>
+): string | null {
+  const source = yaml.endsWith(eol) ? yaml.slice(0, -eol.length) : yaml;
+  const lines = source === "" ? [] : source.split(eol);
+  const patched = patchMapping(lines, 0, lines.length, 0, previous, next, true);
+  if (!patched) return null;
+
+  return patched.length > 0 ? patched.join(eol) + eol : "";
+}
+
+/**
+ * Split a content file into its frontmatter parts
+ *
+ * Mirrors gray-matter: the block closes at the first line starting
+ * with `---`.
+ *
+ * @param raw - Raw file content
+ * @returns Delimiters, YAML source and body, or null without frontmatter
+ */
+function splitContent(
+  raw: string
+): { open: string; yaml: string; close: string; rest: string } | null {
+  if (!raw.startsWith("---")) return null;
+
+  const openEnd = raw.indexOf("\n") + 1;
+  const closeStart = raw.indexOf("\n---", 2) + 1;
+  if (openEnd === 0 || closeStart === 0 || closeStart < openEnd) return null;
+
+  return {
+    open: raw.slice(0, openEnd),
+    yaml: raw.slice(openEnd, closeStart),
+    close: raw.slice(closeStart, closeStart + 3),
+    rest: raw.slice(closeStart + 3),
+  };
+}
+
+/**
+ * Build the content of a file from frontmatter and body
+ *
+ * New files are written from scratch. For existing files, pass the
+ * content item as read from disk: its YAML is patched in place and the
+ * whitespace around the body is kept, so unchanged content is written
+ * back byte for byte.
+ *
+ * @param frontmatter - Frontmatter data
+ * @param body - Markdown body content
+ * @param original - Content as currently on disk (for updates)
+ * @returns Complete file content
+ *
+ * @example
+ * ```typescript
+ * const existing = await readContentFile(filePath, collectionPath);
+ * const content = stringifyContent(
+ *   { ...existing.content.frontmatter, title: 'New title' },
+ *   existing.content.body,
+ *   existing.content
+ * );
+ * // Only the title line differs from existing.content.raw
+ * ```
+ */
+export function stringifyContent(
+  frontmatter: Record<string, unknown>,
+  body: string,
+  original?: Pick<ContentItem, "raw" | "frontmatter">
+): string {
+  const parts = original ? splitContent(original.raw) : null;
+  if (!original || !parts) {
+    return `---\n${serializeFrontmatter(frontmatter)}\n---\n\n${body}`;
+  }
+
+  frontmatter = keepDates(original.frontmatter, frontmatter) as Record<
+    string,
+    unknown
+  >;
+
+  const eol = parts.yaml.includes("\r\n") ? "\r\n" : "\n";
+
+  // Keep the whitespace between the delimiter and body, and at the end
+  const leading = /^\s*/.exec(parts.rest)![0];
+  const trailing = leading === parts.rest ? "" : /\s*$/.exec(parts.rest)![0];
+  const rest =
+    body.trim() === parts.rest.trim()
+      ? parts.rest
+      : `${leading}${body.trim().replace(/\r?\n/g, eol)}${trailing}`;
+
+  const build = (yaml: string) => `${parts.open}${yaml}${parts.close}${rest}`;
+
+  if (valuesEqual(original.frontmatter, frontmatter)) {
+    return build(parts.yaml);
+  }
+
+  const fresh = serializeFrontmatter(frontmatter);
+  const fallback = build(fresh ? `${fresh.split("\n").join(eol)}${eol}` : "");
+
+  const patched = patchYaml(parts.yaml, eol, original.frontmatter, frontmatter);
+  if (patched === null) return fallback;
+
+  const content = build(patched);
+
+  // Re-parse to make sure patching kept every value intact
+  try {
+    const { data } = matter(content, {});
+    if (valuesEqual(withoutEmptyKeys(data), withoutEmptyKeys(frontmatter))) {
+      return content;
+    }
+  } catch {
+    // Fall through to a full rewrite
+  }
+  return fallback;
+}
+
+// =============================================================================
+// Data Entries
+// =============================================================================
+
+/**
+ * Parse a YAML document with the same engine as frontmatter
+ *
+ * @param yaml - YAML source
+ * @returns Parsed value (an empty document is an empty object)
+ */
+export function parseYaml(yaml: string): unknown {
+  return matter(`---\n${yaml}\n---\n`, {}).data;
+}
+
+/**
+ * Build the content of a YAML data file
+ *
+ * Existing files are patched in place like frontmatter, so unchanged
+ * data is written back byte for byte.
+ *
+ * @param data - Entry data
+ * @param original - Entry as currently on disk (for updates)
+ * @returns File content
+ */
+export function stringifyYaml(
+  data: Record<string, unknown>,
+  original?: Pick<ContentItem, "raw" | "frontmatter">
+): string {
+  if (original) {
+    data = keepDates(original.frontmatter, data) as Record<string, unknown>;
+  }
+
+  const fresh = serializeFrontmatter(data);
+  if (!original) {
+    return fresh ? `${fresh}\n` : "";
+  }
+
+  if (valuesEqual(original.frontmatter, data)) {
+    return original.raw;
+  }
+
+  const eol = original.raw.includes("\r\n") ? "\r\n" : "\n";
+  const fallback = fresh ? `${fresh.split("\n").join(eol)}${eol}` : "";
+
+  const patched = patchYaml(original.raw, eol, original.frontmatter, data);
+  if (patched === null) return fallback;
+
+  // Re-parse to make sure patching kept every value intact
+  try {
+    const parsed = parseYaml(patched);
+    if (
+      isPlainObject(parsed) &&
+      valuesEqual(withoutEmptyKeys(parsed), withoutEmptyKeys(data))
+    ) {
+      return patched;
+    }
+  } catch {
+    // Fall through to a full rewrite
+  }
+  return fallback;
+}
+
+/**
+ * Build the content of a JSON data file
+ *
+ * Keys keep their order, and existing files keep their indentation,
+ * line breaks and final newline. Top-level `null` values remove a key,
+ * as in frontmatter.
+ *
+ * @param data - Entry data
+ * @param original - Entry as currently on disk (for updates)
+ * @returns File content
+ */
+export function stringifyJson(
+  data: Record<string, unknown>,
+  original?: Pick<ContentItem, "raw" | "frontmatter">
+): string {
+  if (original && valuesEqual(original.frontmatter, data)) {
+    return original.raw;
+  }
+
+  const raw = original?.raw ?? "";
+  const indent = /^([ \t]+)"/m.exec(raw)?.[1] ?? "  ";
+  const eol = raw.includes("\r\n") ? "\r\n" : "\n";
+  const finalNewline = original ? /\n$/.test(raw) : true;
+
+  const json = JSON.stringify(withoutEmptyKeys(data), null, indent);
+  return json.split("\n").join(eol) + (finalNewline ? eol : "");
+}
@@ -0,0 +1,386 @@
+/**
+ * @fileoverview Git status, diff and commit for content entries
+ *
+ * This module runs the `git` command line in the project root to report
+ * which content entries have uncommitted changes, show the working-tree
+ * diff of an entry, and commit (and optionally push) selected entries.
+ *
+ * ## Features:
+ * - Changed files mapped to entries, including colocated images
+ * - Only content collections are reported; other changes are left alone
+ * - Commits include only the selected entries' files, whatever else is staged
+ * - Push failures reported without undoing the commit
+ *
+ * @module @writenex/astro/filesystem/git
+ */
+
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, join, relative, resolve, sep } from "node:path";
+import { promisify } from "node:util";
+import { extractSlug, isContentFile } from "./reader";
+import { isWithin } from "./watcher";
+import { GitCommandError } from "@/core/errors";
+import type {
+  DiscoveredCollection,
+  GitCommitResponse,
+  GitConfig,
+  GitDiffResponse,
+  GitEntryStatus,
+  GitFileStatus,
+  GitStatusResponse,
+} from "@/types";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Largest output read from a git command (diffed files can be large)
+ */
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Options for reading the Git status of content entries
+ */
+export interface GitStatusOptions {
+  /** Project root path */
+  projectRoot: string;
+  /** Collections whose entries are reported */
+  collections: DiscoveredCollection[];
+  /** Git configuration */
+  config: GitConfig;
+}
+
+/**
+ * Options for committing content entries
+ */
+export interface GitCommitOptions {
+  /** Project root path */
+  projectRoot: string;
+  /** Project-relative paths of the files to commit */
+  files: string[];
+  /** Commit message */
+  message: string;
+  /** Remote and branch to push to after committing */
+  push?: { remote: string; branch?: string };
+}
+
+/**
+ * Run a git command in a directory
+ *
+ * Pathspecs are taken literally, and git never prompts for credentials
+ * (a push that needs them fails instead of hanging the request).
+ *
+ * @param cwd - Working directory
+ * @param args - Git arguments
+ * @returns Standard output
+ * @throws GitCommandError if git fails or is not installed
+ */
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["--literal-pathspecs", ...args],
+      {
+        cwd,
+        encoding: "utf-8",
+        maxBuffer: MAX_OUTPUT_BYTES,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      }
+    );
+    return stdout;
+  } catch (error) {
+    const err = error as Error & { stderr?: string };
+    throw new GitCommandError(
+      args[0] ?? "",
+      err.stderr?.trim() || err.message,
+      err
+    );
+  }
+}
+
+/**
+ * Get the path of the project root inside its Git repository
+ *
+ * @param projectRoot - Project root path
+ * @returns Prefix of project paths in the repository (e.g. "site/", or ""
+ *   at the top level), or null if the project is not in a repository
+ */
+async function getRepositoryPrefix(
+  projectRoot: string
+): Promise<string | null> {
+  try {
+    return (await runGit(projectRoot, ["rev-parse", "--show-prefix"])).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a project is inside a Git repository
+ *
+ * @param projectRoot - Project root path
+ * @returns True if git is installed and the project is in a repository
+ */
+export async function isGitRepository(projectRoot: string): Promise<boolean> {
+  return (await getRepositoryPrefix(projectRoot)) !== null;
+}
+
+/**
+ * Parse `git status --porcelain -z` output
+ *
+ * @param output - Command output
+ * @param prefix - Repository prefix of the project root
+ * @returns Status per project-relative path
+ */
+function parseStatus(
+  output: string,
+  prefix: string
+): Map<string, GitFileStatus> {
+  const statuses = new Map<string, GitFileStatus>();
+  const add = (path: string | undefined, status: GitFileStatus) => {
+    if (path?.startsWith(prefix)) {
+      statuses.set(path.slice(prefix.length), status);
+    }
+  };
+
+  const records = output.split("\0");
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record || record.length < 4) continue;
+
+    const [x, y] = record;
+    const path = record.slice(3);
+
+    // Renames and copies are followed by the original path
+    if (x === "R" || x === "C") {
+      const from = records[++i];
+      if (x === "R") add(from, "deleted");
+      add(path, "new");
+    } else if (x === "?") {
+      add(path, "untracked");
+    } else if (x === "A") {
+      add(path, "new");
+    } else if (x === "D" || y === "D") {
+      add(path, "deleted");
+    } else {
+      add(path, "modified");
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * Find the entry a changed file belongs to
+ *
+ * Content files belong to their own entry. Other files (images) belong to
+ * the folder-based entry (`{slug}/index.md`) or flat file (`{slug}.md`
+ * next to a `{slug}/` folder) they are stored with.
+ *
+ * @param collectionPath - Absolute path of the collection
+ * @param file - Absolute path of the changed file
+ * @param changed - Absolute paths of all changed files (deleted entries)
+ * @returns Content ID and whether the file is the content file, or null
+ */
+function findEntry(
+  collectionPath: string,
+  file: string,
+  changed: Set<string>
+): { id: string; contentFile: boolean } | null {
+  if (isContentFile(basename(file))) {
+    return { id: extractSlug(file, collectionPath), contentFile: true };
+  }
+
+  for (
+    let dir = dirname(file);
+    dir !== collectionPath && isWithin(collectionPath, dir);
+    dir = dirname(dir)
+  ) {
+    const candidates = [
+      join(dir, "index.md"),
+      join(dir, "index.mdx"),
+      `${dir}.md`,
+      `${dir}.mdx`,
+    ];
+    for (const candidate of candidates) {
+      if (existsSync(candidate) || changed.has(candidate)) {
+        return {
+          id: extractSlug(candidate, collectionPath),
+          contentFile: false,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the content entries with uncommitted changes
+ *
+ * @param options - Project root, collections and Git configuration
+ * @returns Repository state and changed entries, sorted by collection and ID
+ *
+ * @example
+ * ```typescript
+ * const status = await getGitStatus({ projectRoot, collections, config: config.git });
+ * // status.entries: [{ collection: 'blog', id: 'hello', status: 'modified', files: [...] }]
+ * ```
+ */
+export async function getGitStatus(
+  options: GitStatusOptions
+): Promise<GitStatusResponse> {
+  const { projectRoot, collections, config } = options;
+  const prefix =
+    config.enabled === false ? null : await getRepositoryPrefix(projectRoot);
+
+  if (prefix === null) {
+    return { repository: false, branch: null, remote: null, entries: [] };
+  }
+
+  // Longest path first: files of a collection inside another collection's
+  // directory are reported under the inner one
+  const roots = collections
+    .map((collection) => ({
+      name: collection.name,
+      path: resolve(projectRoot, collection.path),
+    }))
+    .sort((a, b) => b.path.length - a.path.length);
+
+  const [output, branch] = await Promise.all([
+    roots.length > 0
+      ? runGit(projectRoot, [
+          "status",
+          "--porcelain",
+          "-z",
+          "--untracked-files=all",
+          "--",
+          ...roots.map((root) => relative(projectRoot, root.path)),
+        ])
+      : Promise.resolve(""),
+    runGit(projectRoot, ["symbolic-ref", "--short", "-q", "HEAD"]).then(
+      (name) => name.trim() || null,
+      () => null
+    ),
+  ]);
+
+  const statuses = parseStatus(output, prefix);
+  const changed = new Set(
+    [...statuses.keys()].map((path) => join(projectRoot, path))
+  );
+  const entries = new Map<string, GitEntryStatus>();
+
+  for (const [path, status] of statuses) {
+    const file = join(projectRoot, path);
+    const root = roots.find((r) => isWithin(r.path, file));
+    if (!root) continue;
+
+    const found = findEntry(root.path, file, changed);
+    if (!found) continue;
+
+    const key = `${root.name}/${found.id}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        collection: root.name,
+        id: found.id,
+        status: "modified",
+        files: [],
+      };
+      entries.set(key, entry);
+    }
+    entry.files.push(path);
+    if (found.contentFile) {
+      entry.status = status;
+    }
+  }
+
+  return {
+    repository: true,
+    branch,
+    remote: config.remote ?? null,
+    entries: [...entries.values()].sort(
+      (a, b) =>
+        a.collection.localeCompare(b.collection) || a.id.localeCompare(b.id)
+    ),
+  };
+}
+
+/**
+ * Get the working-tree diff of a content file against the last commit
+ *
+ * @param projectRoot - Project root path
+ * @param filePath - Absolute path of the content file
+ * @returns Committed and current content
+ */
+export async function getGitDiff(
+  projectRoot: string,
+  filePath: string
+): Promise<GitDiffResponse> {
+  const path = relative(projectRoot, filePath).split(sep).join("/");
+  const prefix = (await getRepositoryPrefix(projectRoot)) ?? "";
+
+  const [output, original, current] = await Promise.all([
+    runGit(projectRoot, [
+      "status",
+      "--porcelain",
+      "-z",
+      "--untracked-files=all",
+      "--",
+      path,
+    ]),
+    // Not in the last commit (new file, or no commits yet)
+    runGit(projectRoot, ["show", `HEAD:./${path}`]).catch(() => ""),
+    existsSync(filePath) ? readFile(filePath, "utf-8") : Promise.resolve(""),
+  ]);
+
+  return {
+    path,
+    status: parseStatus(output, prefix).get(path) ?? null,
+    original,
+    current,
+  };
+}
+
+/**
+ * Commit files and optionally push the commit
+ *
+ * Only the given files are committed, including new and deleted ones;
+ * changes staged for other files stay staged. A failed push is reported
+ * in the result, since the commit itself was made.
+ *
+ * @param options - Files, message and push target
+ * @returns Commit hash and push result
+ * @throws GitCommandError if the files cannot be committed
+ */
+export async function commitGitChanges(
+  options: GitCommitOptions
+): Promise<GitCommitResponse> {
+  const { projectRoot, files, message, push } = options;
+
+  await runGit(projectRoot, ["add", "--all", "--", ...files]);
+  await runGit(projectRoot, ["commit", "--message", message, "--", ...files]);
+  const commit = (await runGit(projectRoot, ["rev-parse", "HEAD"])).trim();
+
+  if (!push) {
+    return { success: true, commit, files, pushed: false };
+  }
+
+  try {
+    await runGit(projectRoot, [
+      "push",
+      push.remote,
+      push.branch ? `HEAD:refs/heads/${push.branch}` : "HEAD",
+    ]);
+    return { success: true, commit, files, pushed: true };
+  } catch (error) {
+    return {
+      success: true,
+      commit,
+      files,
+      pushed: false,
+      pushError: error instanceof Error ? error.message : "Push failed",
+    };
+  }
+}
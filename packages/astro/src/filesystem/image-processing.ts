@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Image processing for uploads
+ *
+ * This module resizes, re-encodes and strips metadata from uploaded
+ * images before they are written. Processing uses `sharp`, loaded from
+ * the project (Astro installs it for its image service); without it,
+ * images are stored as uploaded.
+ *
+ * ## Features:
+ * - Scale down to maximum dimensions (aspect ratio kept)
+ * - Re-encode to WebP or AVIF, or keep the format
+ * - Configurable quality
+ * - EXIF/GPS stripping and auto-orientation
+ *
+ * @module @writenex/astro/filesystem/image-processing
+ */
+
+import { createRequire } from "node:module";
+import { extname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { ImageOptimizeConfig } from "@/types";
+
+/**
+ * The subset of the sharp pipeline used for processing
+ */
+interface SharpPipeline {
+  rotate(): SharpPipeline;
+  resize(options: {
+    width?: number;
+    height?: number;
+    fit: "inside";
+    withoutEnlargement: boolean;
+  }): SharpPipeline;
+  jpeg(options: { quality: number; mozjpeg?: boolean }): SharpPipeline;
+  png(options: { quality?: number; compressionLevel?: number }): SharpPipeline;
+  webp(options: { quality: number }): SharpPipeline;
+  avif(options: { quality: number }): SharpPipeline;
+  keepMetadata(): SharpPipeline;
+  metadata(): Promise<{ width?: number; height?: number }>;
+  toBuffer(options: {
+    resolveWithObject: true;
+  }): Promise<{ data: Buffer; info: { width: number; height: number } }>;
+}
+
+/**
+ * sharp's default export
+ */
+type SharpFactory = (
+  input: Buffer | string,
+  options?: { failOn?: "none" | "truncated" | "error" | "warning" }
+) => SharpPipeline;
+
+/**
+ * Default encoding quality
+ */
+const DEFAULT_QUALITY = 80;
+
+/**
+ * Extensions that are stored as uploaded (vector or possibly animated)
+ */
+const PASSTHROUGH_EXTENSIONS = new Set([".svg", ".gif"]);
+
+/**
+ * Loaded sharp module per project root (null if not installed)
+ */
+const sharpCache = new Map<string, Promise<SharpFactory | null>>();
+
+/**
+ * Result of processing an image
+ */
+export interface ProcessedImage {
+  /** Image data to write */
+  data: Buffer;
+  /** File extension of the data (with dot, lowercase) */
+  extension: string;
+  /** Width in pixels (if known) */
+  width?: number;
+  /** Height in pixels (if known) */
+  height?: number;
+  /** Whether the data differs from the upload */
+  processed: boolean;
+}
+
+/**
+ * Load sharp from the project's dependencies
+ *
+ * @param projectRoot - Project root path
+ * @returns sharp's factory function, or null if it is not installed
+ */
+export function loadSharp(projectRoot: string): Promise<SharpFactory | null> {
+  let loaded = sharpCache.get(projectRoot);
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const require = createRequire(join(projectRoot, "package.json"));
+        const module = (await import(
+          pathToFileURL(require.resolve("sharp")).href
+        )) as { default?: SharpFactory };
+        return module.default ?? null;
+      } catch {
+        return null;
+      }
+    })();
+    sharpCache.set(projectRoot, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Check whether an upload would be processed with the given options
+ *
+ * @param filename - Uploaded filename
+ * @param options - Processing options
+ * @returns True if the image is resized or re-encoded
+ */
+export function shouldProcessImage(
+  filename: string,
+  options: ImageOptimizeConfig | undefined
+): options is ImageOptimizeConfig {
+  return (
+    options !== undefined &&
+    options.enabled !== false &&
+    !PASSTHROUGH_EXTENSIONS.has(extname(filename).toLowerCase())
+  );
+}
+
+/**
+ * Process an uploaded image
+ *
+ * Without processing options (or for SVG and GIF files) the data is
+ * returned unchanged, with its dimensions when sharp is available.
+ *
+ * @param data - Uploaded image data
+ * @param filename - Uploaded filename (used for the format)
+ * @param options - Processing options
+ * @param projectRoot - Project root path (to load sharp)
+ * @returns The image to write
+ *
+ * @example
+ * ```typescript
+ * const image = await processImage(buffer, 'photo.jpg', {
+ *   maxWidth: 2000,
+ *   format: 'webp',
+ * }, projectRoot);
+ * // { data, extension: '.webp', width: 2000, height: 1500, processed: true }
+ * ```
+ */
+export async function processImage(
+  data: Buffer,
+  filename: string,
+  options: ImageOptimizeConfig | undefined,
+  projectRoot: string
+): Promise<ProcessedImage> {
+  const extension = extname(filename).toLowerCase();
+  const unchanged: ProcessedImage = { data, extension, processed: false };
+
+  if (extension === ".svg") return unchanged;
+
+  const sharp = await loadSharp(projectRoot);
+  if (!sharp) {
+    if (shouldProcessImage(filename, options)) {
+      console.warn(
+        "[writenex] Image optimization is configured but sharp is not installed; storing the original image"
+      );
+    }
+    return unchanged;
+  }
+
+  if (!shouldProcessImage(filename, options)) {
+    try {
+      const { width, height } = await sharp(data).metadata();
+      return { ...unchanged, width, height };
+    } catch {
+      return unchanged;
+    }
+  }
+
+  const {
+    maxWidth,
+    maxHeight,
+    format = "original",
+    quality = DEFAULT_QUALITY,
+    stripMetadata = true,
+    autoOrient = true,
+  } = options;
+
+  let pipeline = sharp(data, { failOn: "none" });
+
+  if (autoOrient) {
+    pipeline = pipeline.rotate();
+  }
+  if (maxWidth || maxHeight) {
+    pipeline = pipeline.resize({
+      width: maxWidth,
+      height: maxHeight,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+  if (!stripMetadata) {
+    pipeline = pipeline.keepMetadata();
+  }
+
+  let outputExtension = extension;
+  if (format === "webp") {
+    pipeline = pipeline.webp({ quality });
+    outputExtension = ".webp";
+  } else if (format === "avif") {
+    pipeline = pipeline.avif({ quality });
+    outputExtension = ".avif";
+  } else if (extension === ".jpg" || extension === ".jpeg") {
+    pipeline = pipeline.jpeg({ quality, mozjpeg: true });
+  } else if (extension === ".webp") {
+    pipeline = pipeline.webp({ quality });
+  } else if (extension === ".avif") {
+    pipeline = pipeline.avif({ quality });
+  } else if (extension === ".png") {
+    pipeline = pipeline.png({ compressionLevel: 9 });
+  }
+
+  const result = await pipeline.toBuffer({ resolveWithObject: true });
+
+  return {
+    data: result.data,
+    extension: outputExtension,
+    width: result.info.width,
+    height: result.info.height,
+    processed: true,
+  };
+}
+
+/**
+ * Create a small preview of an image
+ *
+ * @param path - Absolute path to the image
+ * @param width - Maximum width in pixels
+ * @param projectRoot - Project root path (to load sharp)
+ * @returns WebP thumbnail, or null if sharp is not installed
+ */
+export async function createThumbnail(
+  path: string,
+  width: number,
+  projectRoot: string
+): Promise<Buffer | null> {
+  const sharp = await loadSharp(projectRoot);
+  if (!sharp) return null;
+
+  const result = await sharp(path, { failOn: "none" })
+    .rotate()
+    .resize({ width, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 70 })
+    .toBuffer({ resolveWithObject: true });
+  return result.data;
+}
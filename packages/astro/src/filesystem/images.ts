@@ -12,8 +12,9 @@
  * @module @writenex/astro/filesystem/images
  */
 
-import { writeFile, mkdir, readdir, stat } from "node:fs/promises";
+import { writeFile, mkdir, readdir, readFile, stat } from "node:fs/promises";
 import { existsSync } from "node:fs";
+import { createHash } from "node:crypto";
 import { join, dirname, basename, extname, relative } from "node:path";
 import type {
   ImageConfig,
@@ -22,6 +23,7 @@ import type {
   ImageDiscoveryResult,
 } from "@/types";
 import { getContentFilePath } from "./reader";
+import { processImage } from "./image-processing";
 
 /**
  * Default image configuration
@@ -54,6 +56,14 @@ export interface ImageUploadResult {
   path?: string;
   /** Public URL for the image */
   url?: string;
+  /** Width in pixels of the stored image (if known) */
+  width?: number;
+  /** Height in pixels of the stored image (if known) */
+  height?: number;
+  /** Markdown-compatible path of the unprocessed upload (if kept) */
+  originalPath?: string;
+  /** Whether an identical existing image was returned instead of a copy */
+  deduplicated?: boolean;
   /** Error message if failed */
   error?: string;
 }
@@ -72,8 +82,12 @@ export interface ImageUploadOptions {
   contentId: string;
   /** Project root path */
   projectRoot: string;
+  /** Path to the collection directory (default: src/content/{collection}) */
+  collectionPath?: string;
   /** Image configuration */
   config?: ImageConfig;
+  /** Write a new file even if an identical image exists (default: false) */
+  force?: boolean;
 }
 
 /**
@@ -109,6 +123,50 @@ function generateUniqueFilename(
   return `${baseName}-${timestamp}${ext}`;
 }
 
+/**
+ * Hash image data for duplicate detection
+ *
+ * @param data - Image data
+ * @returns SHA-256 hex digest
+ */
+function hashImageData(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Find an image in a folder with exactly the given content
+ *
+ * Only files of the same size are read and hashed.
+ *
+ * @param dir - Folder the upload would be written to
+ * @param data - Image data to be written
+ * @returns Filename of the identical image, or null
+ */
+async function findIdenticalImage(
+  dir: string,
+  data: Buffer
+): Promise<string | null> {
+  if (!existsSync(dir)) return null;
+
+  let hash: string | undefined;
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (!entry.isFile() || !isValidImageFile(entry.name)) continue;
+
+    const path = join(dir, entry.name);
+    const stats = await stat(path);
+    if (stats.size !== data.length) continue;
+
+    hash ??= hashImageData(data);
+    if (hashImageData(await readFile(path)) === hash) {
+      return entry.name;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get storage path for colocated strategy
  *
@@ -117,19 +175,16 @@ function generateUniqueFilename(
  * - Folder-based (slug/index.md): ./filename (image in same folder as index.md)
  * - Flat file (slug.md): ./slug/filename (image in sibling folder)
  *
- * @param projectRoot - Project root path
- * @param collection - Collection name
+ * @param collectionPath - Path to the collection directory
  * @param contentId - Content ID
  * @param filename - Image filename
  * @returns Absolute path to store the image and markdown-compatible path
  */
 function getColocatedPath(
-  projectRoot: string,
-  collection: string,
+  collectionPath: string,
   contentId: string,
   filename: string
 ): { storagePath: string; markdownPath: string } {
-  const collectionPath = join(projectRoot, "src/content", collection);
   const imageDir = join(collectionPath, contentId);
   const storagePath = join(imageDir, filename);
 
@@ -180,6 +235,11 @@ function getPublicPath(
 /**
  * Upload an image file
  *
+ * If `config.optimize` is set, the image is resized, re-encoded and
+ * stripped of metadata before it is written. If the folder the image
+ * would be written to already holds an identical file (same bytes after
+ * processing), that file is returned instead, unless `force` is set.
+ *
  * @param options - Upload options
  * @returns Upload result with paths
  *
@@ -207,7 +267,9 @@ export async function uploadImage(
     collection,
     contentId,
     projectRoot,
+    collectionPath = join(projectRoot, "src/content", collection),
     config = DEFAULT_IMAGE_CONFIG,
+    force = false,
   } = options;
 
   // Validate file
@@ -218,55 +280,76 @@ export async function uploadImage(
     };
   }
 
-  // Generate unique filename
-  const uniqueFilename = generateUniqueFilename(filename, contentId);
-
   try {
-    let storagePath: string;
-    let markdownPath: string;
-    let url: string | undefined;
-
-    switch (config.strategy) {
-      case "public": {
-        const paths = getPublicPath(
-          projectRoot,
-          collection,
-          uniqueFilename,
-          config
-        );
-        storagePath = paths.storagePath;
-        markdownPath = paths.markdownPath;
-        url = paths.url;
-        break;
+    const image = await processImage(
+      data,
+      filename,
+      config.optimize,
+      projectRoot
+    );
+
+    // Generate unique filename (with the extension of the processed image)
+    const originalFilename = generateUniqueFilename(filename, contentId);
+    const uniqueFilename =
+      originalFilename.slice(0, -extname(originalFilename).length) +
+      image.extension;
+
+    const getPaths = (
+      name: string
+    ): { storagePath: string; markdownPath: string; url?: string } => {
+      switch (config.strategy) {
+        case "public":
+          return getPublicPath(projectRoot, collection, name, config);
+
+        case "colocated":
+        default:
+          return getColocatedPath(collectionPath, contentId, name);
       }
+    };
 
-      case "colocated":
-      default: {
-        const paths = getColocatedPath(
-          projectRoot,
-          collection,
-          contentId,
-          uniqueFilename
-        );
-        storagePath = paths.storagePath;
-        markdownPath = paths.markdownPath;
-        break;
+    const { storagePath, markdownPath, url } = getPaths(uniqueFilename);
+    const dir = dirname(storagePath);
+
+    // Reuse an identical image instead of writing a copy
+    if (!force) {
+      const existing = await findIdenticalImage(dir, image.data);
+      if (existing) {
+        const paths = getPaths(existing);
+        return {
+          success: true,
+          path: paths.markdownPath,
+          url: paths.url ?? paths.markdownPath,
+          ...(image.width !== undefined ? { width: image.width } : {}),
+          ...(image.height !== undefined ? { height: image.height } : {}),
+          deduplicated: true,
+        };
       }
     }
 
     // Ensure directory exists
-    const dir = dirname(storagePath);
     if (!existsSync(dir)) {
       await mkdir(dir, { recursive: true });
     }
 
     // Write file
-    await writeFile(storagePath, data);
+    await writeFile(storagePath, image.data);
+
+    // Keep the upload next to the processed image
+    let originalPath: string | undefined;
+    if (image.processed && config.optimize?.keepOriginal) {
+      const ext = extname(originalFilename);
+      const keptFilename = `${originalFilename.slice(0, -ext.length)}-original${ext}`;
+      await writeFile(join(dir, keptFilename), data);
+      originalPath = markdownPath.replace(/[^/]+$/, keptFilename);
+    }
 
     return {
       success: true,
       path: markdownPath,
       url: url ?? markdownPath,
+      ...(image.width !== undefined ? { width: image.width } : {}),
+      ...(image.height !== undefined ? { height: image.height } : {}),
+      ...(originalPath ? { originalPath } : {}),
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
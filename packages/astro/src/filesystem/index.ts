@@ -17,6 +17,7 @@ export {
   checkCollection,
   getFileStats,
   isContentFile,
+  isIndexFile,
   extractSlug,
   generateExcerpt,
   toContentSummary,
@@ -35,9 +36,85 @@ export {
 export type {
   CreateContentOptions,
   UpdateContentOptions,
+  DeleteContentOptions,
   WriteResult,
 } from "./writer";
 
+// Frontmatter serialization
+export {
+  serializeFrontmatter,
+  stringifyContent,
+  parseYaml,
+  stringifyYaml,
+  stringifyJson,
+} from "./frontmatter";
+
+// Data entry formats
+export {
+  DATA_EXTENSIONS,
+  getDataFormat,
+  isDataFile,
+  parseData,
+  detectDataFormat,
+  parseEntry,
+  stringifyEntry,
+} from "./data";
+export type { DataFormat } from "./data";
+
+// Link rewriting functions and types
+export {
+  rewriteMarkdownLinks,
+  extractMarkdownLinks,
+  splitUrl,
+  isRelativeUrl,
+  applyMoves,
+  relocateLink,
+  relocateSiteUrl,
+  rewriteReferences,
+  updateInboundLinks,
+} from "./links";
+export type {
+  PathMove,
+  UpdateInboundLinksOptions,
+  UpdatedLinkEntry,
+} from "./links";
+
+// Move functions and types
+export { planMove, findMoveCollision, moveContent } from "./move";
+export type {
+  MoveRequest,
+  MovePlan,
+  MoveContentOptions,
+  MoveResult,
+} from "./move";
+
+// Batch functions and types
+export { getBatchChanges, prepareBatch, applyBatch } from "./batch";
+export type {
+  PrepareBatchOptions,
+  BatchEntry,
+  BatchPlan,
+  ApplyBatchOptions,
+  BatchResult,
+} from "./batch";
+
+// Link index functions and types
+export {
+  buildLinkIndex,
+  getBacklinks,
+  getOutboundLinks,
+  getBrokenLinks,
+} from "./link-index";
+export type { BuildLinkIndexOptions } from "./link-index";
+
+// Merge functions
+export {
+  mergeContent,
+  mergeFrontmatter,
+  mergeText,
+  segmentsToText,
+} from "./merge";
+
 // Watcher functions and types
 export {
   ContentWatcher,
@@ -47,6 +124,8 @@ export {
 export type {
   FileChangeType,
   FileChangeEvent,
+  FileKind,
+  WatchedCollection,
   WatcherOptions,
 } from "./watcher";
 
@@ -57,12 +136,22 @@ export {
   getVersion,
   deleteVersion,
   clearVersions,
+  moveVersions,
   pruneVersions,
+  selectVersionsToPrune,
+  setVersionPinned,
   restoreVersion,
+  readVersionContent,
+  compactVersions,
+  listVersionHistories,
+  getVersionStorageReport,
+  getVersionTimeline,
+  removeVersionHistory,
   generateVersionId,
   parseVersionId,
   getVersionStoragePath,
   getVersionFilePath,
+  getVersionDeltaPath,
   getManifestPath,
   generatePreview,
   readManifest,
@@ -74,6 +163,19 @@ export {
   ensureStorageDirectory,
 } from "./versions";
 
+// Trash for deleted entries
+export {
+  moveToTrash,
+  listTrash,
+  restoreFromTrash,
+  deleteFromTrash,
+} from "./trash";
+export type { TrashOptions } from "./trash";
+
+// Version diffs
+export { createDelta, applyDelta, parseDelta } from "./version-delta";
+export type { VersionDelta } from "./version-delta";
+
 // Version config helpers
 export {
   resolveVersionConfig,
@@ -105,3 +207,32 @@ export type {
   ContentStructure,
   ContentStructureResult,
 } from "./images";
+
+// Image processing functions and types
+export {
+  loadSharp,
+  shouldProcessImage,
+  processImage,
+  createThumbnail,
+} from "./image-processing";
+export type { ProcessedImage } from "./image-processing";
+
+// Media library functions and types
+export { buildMediaIndex, getMediaReference } from "./media";
+export type { BuildMediaIndexOptions } from "./media";
+
+// Scheduled publishing functions and types
+export { findDueEntries, publishScheduledContent } from "./schedule";
+export type {
+  PublishScheduledOptions,
+  ScheduledPublishResult,
+} from "./schedule";
+
+// Git functions and types
+export {
+  isGitRepository,
+  getGitStatus,
+  getGitDiff,
+  commitGitChanges,
+} from "./git";
+export type { GitStatusOptions, GitCommitOptions } from "./git";
@@ -0,0 +1,428 @@
+/**
+ * @fileoverview Index of links between content entries
+ *
+ * This module scans every entry of every collection for links in the
+ * Markdown body and for `reference` and `image` fields in the frontmatter,
+ * and resolves each link to the entry, image or file it points at. The
+ * index powers the backlinks panel, the warning before deleting linked
+ * entries, and the broken-link report.
+ *
+ * ## Resolved link forms:
+ * - Relative paths (`../other-post.md`, `./hero.png`)
+ * - Site URLs matching a collection's preview URL (`/blog/other-post/`)
+ * - Absolute image paths served from `public/` (`/images/hero.png`)
+ * - Reference fields (entry ID or `{ collection, id }`)
+ *
+ * @module @writenex/astro/filesystem/link-index
+ */
+
+import { existsSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { readCollection, extractSlug, isContentFile } from "./reader";
+import { isValidImageFile } from "./images";
+import { extractMarkdownLinks, isRelativeUrl, splitUrl } from "./links";
+import type {
+  CollectionSchema,
+  ContentLink,
+  ContentRef,
+  DiscoveredCollection,
+  LinkIndex,
+} from "@/types";
+import { isPlainObject } from "@/core/utils";
+
+/**
+ * Options for building the link index
+ */
+export interface BuildLinkIndexOptions {
+  /** Absolute path to project root */
+  projectRoot: string;
+  /** Collections to scan */
+  collections: DiscoveredCollection[];
+}
+
+/**
+ * Known entries, by "collection/id" and by file path
+ */
+interface EntryLookup {
+  byId: Set<string>;
+  byPath: Map<string, ContentRef>;
+}
+
+/**
+ * Key for an entry in the lookup
+ */
+function entryKey(collection: string, id: string): string {
+  return `${collection}/${id}`;
+}
+
+/**
+ * Convert an absolute path to a project-relative path with forward slashes
+ */
+function toProjectPath(projectRoot: string, path: string): string {
+  return relative(projectRoot, path).split(sep).join("/");
+}
+
+/**
+ * Check whether two entry references point at the same entry
+ */
+function isSameEntry(a: ContentRef | undefined, b: ContentRef): boolean {
+  return a?.collection === b.collection && a.id === b.id;
+}
+
+/**
+ * Match a site path against the collections' preview URLs
+ *
+ * Only preview URLs whose single token is `{slug}` are matched.
+ *
+ * @param path - URL path (without query or hash)
+ * @param collections - Collections with preview URLs
+ * @returns Matched collection and ID, or null
+ */
+function matchPreviewUrl(
+  path: string,
+  collections: DiscoveredCollection[]
+): ContentRef | null {
+  const normalized = path.replace(/\/$/, "");
+
+  for (const collection of collections) {
+    const parts = collection.previewUrl?.split("{slug}");
+    if (!parts || parts.length !== 2 || parts.join("").includes("{")) {
+      continue;
+    }
+
+    const prefix = parts[0]!;
+    const suffix = parts[1]!.replace(/\/$/, "");
+    if (
+      normalized.length > prefix.length + suffix.length &&
+      normalized.startsWith(prefix) &&
+      normalized.endsWith(suffix)
+    ) {
+      const id = normalized.slice(
+        prefix.length,
+        normalized.length - suffix.length
+      );
+      if (!id.includes("/")) {
+        return { collection: collection.name, id };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the entry stored at a path (its file, or its folder for index files)
+ */
+function findEntryAtPath(
+  path: string,
+  entries: EntryLookup
+): ContentRef | undefined {
+  return (
+    entries.byPath.get(path) ??
+    entries.byPath.get(join(path, "index.md")) ??
+    entries.byPath.get(join(path, "index.mdx"))
+  );
+}
+
+/**
+ * Resolve a body link to its target
+ *
+ * @param url - URL as written
+ * @param source - Entry containing the link
+ * @param sourceDir - Directory of the source file
+ * @param context - Project root, collections and known entries
+ * @returns The indexed link, or null for links that are not checked
+ */
+function resolveBodyLink(
+  url: string,
+  source: ContentRef,
+  sourceDir: string,
+  context: {
+    projectRoot: string;
+    collections: DiscoveredCollection[];
+    entries: EntryLookup;
+  }
+): ContentLink | null {
+  const { projectRoot, collections, entries } = context;
+  const { path } = splitUrl(url);
+  if (path === "") return null;
+
+  let decoded: string;
+  try {
+    decoded = decodeURI(path);
+  } catch {
+    decoded = path;
+  }
+  const kind = isValidImageFile(decoded) ? "image" : "link";
+
+  if (isRelativeUrl(url)) {
+    const resolved = resolve(sourceDir, decoded);
+    const target = findEntryAtPath(resolved.replace(/[/\\]$/, ""), entries);
+    if (target) {
+      return { source, kind, url, target, broken: false };
+    }
+    const file = toProjectPath(projectRoot, resolved);
+    if (existsSync(resolved)) {
+      return { source, kind, url, file, broken: false };
+    }
+    return {
+      source,
+      kind,
+      url,
+      file,
+      broken: true,
+      reason:
+        kind === "image"
+          ? "missing-image"
+          : isContentFile(decoded)
+            ? "missing-entry"
+            : "missing-file",
+    };
+  }
+
+  if (!path.startsWith("/") || path.startsWith("//")) return null;
+
+  // Site URL of an entry
+  const target = matchPreviewUrl(decoded, collections);
+  if (target) {
+    const exists = entries.byId.has(entryKey(target.collection, target.id));
+    return {
+      source,
+      kind,
+      url,
+      target,
+      broken: !exists,
+      ...(exists ? {} : { reason: "missing-entry" as const }),
+    };
+  }
+
+  // Image served from public/
+  if (kind === "image") {
+    const file = join(projectRoot, "public", decoded);
+    const exists = existsSync(file);
+    return {
+      source,
+      kind,
+      url,
+      file: toProjectPath(projectRoot, file),
+      broken: !exists,
+      ...(exists ? {} : { reason: "missing-image" as const }),
+    };
+  }
+
+  // Other site routes cannot be checked from the content files
+  return null;
+}
+
+/**
+ * Collect reference and image links from frontmatter
+ *
+ * @param frontmatter - Frontmatter (or nested object) to scan
+ * @param schema - Field definitions
+ * @param prefix - Field path prefix for nested fields
+ * @param source - Entry containing the frontmatter
+ * @param sourceDir - Directory of the source file
+ * @param context - Project root and known entries
+ * @param links - Array collecting links
+ */
+function collectFrontmatterLinks(
+  frontmatter: Record<string, unknown>,
+  schema: CollectionSchema,
+  prefix: string,
+  source: ContentRef,
+  sourceDir: string,
+  context: { projectRoot: string; entries: EntryLookup },
+  links: ContentLink[]
+): void {
+  const { projectRoot, entries } = context;
+
+  for (const [name, field] of Object.entries(schema)) {
+    const value = frontmatter[name];
+    if (value === undefined || value === null || value === "") continue;
+    const path = `${prefix}${name}`;
+
+    const isReference =
+      field.type === "reference" ||
+      (field.type === "array" && field.items === "reference");
+    const isImage =
+      field.type === "image" ||
+      (field.type === "array" && field.items === "image");
+
+    if (isReference && field.collection) {
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        const ref: Record<string, unknown> =
+          typeof item === "object" && item !== null
+            ? (item as Record<string, unknown>)
+            : { id: item };
+        const id = ref.id ?? ref.slug;
+        if (typeof id !== "string" || id === "") continue;
+
+        const target = {
+          collection:
+            typeof ref.collection === "string"
+              ? ref.collection
+              : field.collection,
+          id,
+        };
+        const exists = entries.byId.has(entryKey(target.collection, id));
+        links.push({
+          source,
+          kind: "reference",
+          url: id,
+          field: path,
+          target,
+          broken: !exists,
+          ...(exists ? {} : { reason: "missing-entry" as const }),
+        });
+      }
+    } else if (isImage) {
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        if (typeof item !== "string" || !isRelativeUrl(item)) continue;
+        const file = resolve(sourceDir, splitUrl(item).path);
+        const exists = existsSync(file);
+        links.push({
+          source,
+          kind: "image",
+          url: item,
+          field: path,
+          file: toProjectPath(projectRoot, file),
+          broken: !exists,
+          ...(exists ? {} : { reason: "missing-image" as const }),
+        });
+      }
+    } else if (
+      field.type === "object" &&
+      field.fields &&
+      isPlainObject(value)
+    ) {
+      collectFrontmatterLinks(
+        value,
+        field.fields,
+        `${path}.`,
+        source,
+        sourceDir,
+        context,
+        links
+      );
+    }
+  }
+}
+
+/**
+ * Build the index of links between all content entries
+ *
+ * @param options - Project root and collections to scan
+ * @returns Link index
+ *
+ * @example
+ * ```typescript
+ * const index = await buildLinkIndex({ projectRoot: '/project', collections });
+ * const broken = getBrokenLinks(index);
+ * ```
+ */
+export async function buildLinkIndex(
+  options: BuildLinkIndexOptions
+): Promise<LinkIndex> {
+  const { projectRoot, collections } = options;
+
+  const items = await Promise.all(
+    collections.map(async (collection) => {
+      const collectionPath = resolve(projectRoot, collection.path);
+      return {
+        collection,
+        collectionPath,
+        items: await readCollection(collectionPath),
+      };
+    })
+  );
+
+  const entries: EntryLookup = { byId: new Set(), byPath: new Map() };
+  for (const { collection, collectionPath, items: list } of items) {
+    for (const item of list) {
+      const id = extractSlug(item.path, collectionPath);
+      entries.byId.add(entryKey(collection.name, id));
+      entries.byPath.set(item.path, { collection: collection.name, id });
+    }
+  }
+
+  const links: ContentLink[] = [];
+  for (const { collection, items: list } of items) {
+    for (const item of list) {
+      const source = { collection: collection.name, id: item.id };
+      const sourceDir = dirname(item.path);
+
+      for (const url of extractMarkdownLinks(item.body)) {
+        const link = resolveBodyLink(url, source, sourceDir, {
+          projectRoot,
+          collections,
+          entries,
+        });
+        if (link && !isSameEntry(link.target, source)) {
+          links.push(link);
+        }
+      }
+
+      if (collection.schema) {
+        collectFrontmatterLinks(
+          item.frontmatter,
+          collection.schema,
+          "",
+          source,
+          sourceDir,
+          { projectRoot, entries },
+          links
+        );
+      }
+    }
+  }
+
+  return { links, builtAt: new Date().toISOString() };
+}
+
+/**
+ * Get the links pointing at an entry from other entries
+ *
+ * @param index - Link index
+ * @param collection - Collection of the entry
+ * @param id - Content ID of the entry
+ * @returns Links whose target is the entry
+ */
+export function getBacklinks(
+  index: LinkIndex,
+  collection: string,
+  id: string
+): ContentLink[] {
+  return index.links.filter((link) =>
+    isSameEntry(link.target, { collection, id })
+  );
+}
+
+/**
+ * Get the links found in an entry
+ *
+ * @param index - Link index
+ * @param collection - Collection of the entry
+ * @param id - Content ID of the entry
+ * @returns Links whose source is the entry
+ */
+export function getOutboundLinks(
+  index: LinkIndex,
+  collection: string,
+  id: string
+): ContentLink[] {
+  return index.links.filter((link) =>
+    isSameEntry(link.source, { collection, id })
+  );
+}
+
+/**
+ * Get all links whose target does not exist
+ *
+ * @param index - Link index
+ * @returns Broken links
+ */
+export function getBrokenLinks(index: LinkIndex): ContentLink[] {
+  return index.links.filter((link) => link.broken);
+}
@@ -0,0 +1,475 @@
+/**
+ * @fileoverview Link handling for content bodies and frontmatter
+ *
+ * This module finds and rewrites links in Markdown/MDX bodies and entry
+ * references in frontmatter. It is used to keep links between entries
+ * working when content is renamed or moved.
+ *
+ * ## Features:
+ * - Inline links and images, reference definitions, `href`/`src` attributes
+ * - Fenced code blocks and inline code are left alone
+ * - Relative links resolved against the linking file
+ * - Site URLs matched against a collection's preview URL pattern
+ * - Reference fields (including arrays and nested objects) updated by ID
+ *
+ * @module @writenex/astro/filesystem/links
+ */
+
+import { dirname, relative, resolve, sep } from "node:path";
+import { readCollection } from "./reader";
+import { updateContent } from "./writer";
+import type {
+  CollectionSchema,
+  DiscoveredCollection,
+  VersionHistoryConfig,
+} from "@/types";
+import { isPlainObject } from "@/core/utils";
+
+/**
+ * A file or folder that moved on disk
+ */
+export interface PathMove {
+  /** Absolute path before the move */
+  from: string;
+  /** Absolute path after the move */
+  to: string;
+}
+
+/**
+ * Options for updating links that point at moved content
+ */
+export interface UpdateInboundLinksOptions {
+  /** Absolute path to project root */
+  projectRoot: string;
+  /** All collections whose entries may link to the moved content */
+  collections: DiscoveredCollection[];
+  /** Collection of the moved content */
+  collection: string;
+  /** Content ID before the move */
+  fromId: string;
+  /** Content ID after the move */
+  toId: string;
+  /** Files and folders that moved */
+  moves: PathMove[];
+  /** Version history configuration (snapshots before each rewrite) */
+  versionHistoryConfig?: Required<VersionHistoryConfig>;
+}
+
+/**
+ * Entry updated because it linked to moved content
+ */
+export interface UpdatedLinkEntry {
+  /** Collection name */
+  collection: string;
+  /** Content ID */
+  id: string;
+}
+
+/**
+ * Inline links and images: `[text](url "title")`
+ */
+const INLINE_LINK_PATTERN =
+  /(\]\(\s*<?)([^\s<>()]+)(?=>?(?:\s+["'(][^)]*)?\s*\))/g;
+
+/**
+ * Reference definitions: `[id]: url`
+ */
+const REFERENCE_DEFINITION_PATTERN = /^( {0,3}\[[^\]]+\]:[ \t]*<?)([^\s>]+)/;
+
+/**
+ * HTML and JSX link attributes: `href="url"`, `src='url'`
+ */
+const ATTRIBUTE_PATTERN = /(\b(?:href|src)=)(["'])([^"']*)\2/g;
+
+// =============================================================================
+// Body Links
+// =============================================================================
+
+/**
+ * Apply a link replacement to one line of text outside code
+ */
+function rewriteLine(
+  line: string,
+  replace: (url: string) => string | null
+): string {
+  // Leave inline code spans untouched
+  return line
+    .split(/(`+[^`]*`+)/)
+    .map((part, index) => {
+      if (index % 2 === 1) return part;
+
+      return part
+        .replace(
+          INLINE_LINK_PATTERN,
+          (match, prefix: string, url: string) =>
+            `${prefix}${replace(url) ?? url}`
+        )
+        .replace(
+          REFERENCE_DEFINITION_PATTERN,
+          (match, prefix: string, url: string) =>
+            `${prefix}${replace(url) ?? url}`
+        )
+        .replace(
+          ATTRIBUTE_PATTERN,
+          (match, prefix: string, quote: string, url: string) =>
+            `${prefix}${quote}${replace(url) ?? url}${quote}`
+        );
+    })
+    .join("");
+}
+
+/**
+ * Rewrite the link targets in a Markdown or MDX body
+ *
+ * Links inside fenced code blocks and inline code are not touched.
+ *
+ * @param body - Markdown body
+ * @param replace - Returns the new URL, or null to keep a link as is
+ * @returns Body with rewritten links
+ *
+ * @example
+ * ```typescript
+ * const body = rewriteMarkdownLinks(
+ *   'See [my post](/blog/old-slug/).',
+ *   (url) => (url === '/blog/old-slug/' ? '/blog/new-slug/' : null)
+ * );
+ * // 'See [my post](/blog/new-slug/).'
+ * ```
+ */
+export function rewriteMarkdownLinks(
+  body: string,
+  replace: (url: string) => string | null
+): string {
+  let fence: string | null = null;
+
+  return body
+    .split("\n")
+    .map((line) => {
+      const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+      if (marker) {
+        if (!fence) {
+          fence = marker;
+        } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+          fence = null;
+        }
+        return line;
+      }
+      return fence ? line : rewriteLine(line, replace);
+    })
+    .join("\n");
+}
+
+/**
+ * List the link targets in a Markdown or MDX body
+ *
+ * @param body - Markdown body
+ * @returns URLs in document order
+ */
+export function extractMarkdownLinks(body: string): string[] {
+  const urls: string[] = [];
+  rewriteMarkdownLinks(body, (url) => {
+    urls.push(url);
+    return null;
+  });
+  return urls;
+}
+
+/**
+ * Split a URL into its path and its query/hash suffix
+ *
+ * @param url - Link URL
+ * @returns Path and suffix (starting with `?` or `#`, or empty)
+ */
+export function splitUrl(url: string): { path: string; suffix: string } {
+  const index = url.search(/[?#]/);
+  return index === -1
+    ? { path: url, suffix: "" }
+    : { path: url.slice(0, index), suffix: url.slice(index) };
+}
+
+/**
+ * Check if a URL is a relative file path (not absolute, not a scheme)
+ *
+ * @param url - Link URL
+ * @returns True for paths like "./hero.png" or "../other-post.md"
+ */
+export function isRelativeUrl(url: string): boolean {
+  return !/^(?:[a-z][a-z\d+.-]*:|\/|#|\?)/i.test(url) && url !== "";
+}
+
+/**
+ * Map a path through a list of moves
+ *
+ * @param path - Absolute path
+ * @param moves - Files and folders that moved
+ * @returns The path after the moves
+ */
+export function applyMoves(path: string, moves: PathMove[]): string {
+  for (const move of moves) {
+    if (path === move.from) return move.to;
+    if (path.startsWith(move.from + sep)) {
+      return move.to + path.slice(move.from.length);
+    }
+  }
+  return path;
+}
+
+/**
+ * Rewrite a relative link after the linking file or its target moved
+ *
+ * @param url - Link URL as written
+ * @param fromDir - Directory of the linking file before the move
+ * @param toDir - Directory of the linking file after the move
+ * @param moves - Files and folders that moved
+ * @returns New URL, or null if the link does not change
+ *
+ * @example
+ * ```typescript
+ * relocateLink('./old-post/hero.png', '/blog', '/blog', [
+ *   { from: '/blog/old-post', to: '/blog/new-post' },
+ * ]);
+ * // './new-post/hero.png'
+ * ```
+ */
+export function relocateLink(
+  url: string,
+  fromDir: string,
+  toDir: string,
+  moves: PathMove[]
+): string | null {
+  if (!isRelativeUrl(url)) return null;
+
+  const { path, suffix } = splitUrl(url);
+  let decoded: string;
+  try {
+    decoded = decodeURI(path);
+  } catch {
+    return null;
+  }
+
+  const target = applyMoves(resolve(fromDir, decoded), moves);
+  let next = relative(toDir, target).split(sep).join("/");
+  if (path.startsWith("./") && !next.startsWith("../")) {
+    next = `./${next}`;
+  }
+  if (decoded !== path) {
+    next = encodeURI(next);
+  }
+
+  const result = `${next}${suffix}`;
+  return result === url ? null : result;
+}
+
+/**
+ * Rewrite a site URL that points at a renamed entry
+ *
+ * Only preview URL patterns whose single token is `{slug}` can be
+ * matched. The trailing slash style of the link is kept.
+ *
+ * @param url - Link URL as written
+ * @param previewUrl - Preview URL pattern (e.g., "/blog/{slug}")
+ * @param fromId - Content ID before the rename
+ * @param toId - Content ID after the rename
+ * @returns New URL, or null if the link does not point at the entry
+ */
+export function relocateSiteUrl(
+  url: string,
+  previewUrl: string,
+  fromId: string,
+  toId: string
+): string | null {
+  if (previewUrl.replace("{slug}", "").includes("{")) return null;
+
+  const { path, suffix } = splitUrl(url);
+  const oldUrl = previewUrl.replace("{slug}", fromId).replace(/\/$/, "");
+  if (path !== oldUrl && path !== `${oldUrl}/`) return null;
+
+  const newUrl = previewUrl.replace("{slug}", toId).replace(/\/$/, "");
+  return `${newUrl}${path.endsWith("/") ? "/" : ""}${suffix}`;
+}
+
+// =============================================================================
+// Frontmatter References
+// =============================================================================
+
+/**
+ * Rewrite a single reference value (an ID or `{ collection, id }`)
+ */
+function rewriteReference(
+  value: unknown,
+  collection: string,
+  fromId: string,
+  toId: string
+): unknown {
+  if (value === fromId) return toId;
+
+  if (isPlainObject(value)) {
+    if (value.collection !== undefined && value.collection !== collection) {
+      return value;
+    }
+    if (value.id === fromId) return { ...value, id: toId };
+    if (value.slug === fromId) return { ...value, slug: toId };
+  }
+
+  return value;
+}
+
+/**
+ * Point reference fields at a renamed entry
+ *
+ * Walks the schema for `reference` fields (and arrays of references)
+ * targeting the given collection, including fields of nested objects.
+ *
+ * @param frontmatter - Frontmatter of the linking entry
+ * @param schema - Schema of the linking entry's collection
+ * @param collection - Collection of the renamed entry
+ * @param fromId - Content ID before the rename
+ * @param toId - Content ID after the rename
+ * @returns Updated frontmatter, or null if nothing referenced the entry
+ */
+export function rewriteReferences(
+  frontmatter: Record<string, unknown>,
+  schema: CollectionSchema,
+  collection: string,
+  fromId: string,
+  toId: string
+): Record<string, unknown> | null {
+  let changed = false;
+  const result = { ...frontmatter };
+
+  for (const [name, field] of Object.entries(schema)) {
+    const value = frontmatter[name];
+    if (value === undefined || value === null) continue;
+
+    let next: unknown = value;
+    if (field.type === "reference" && field.collection === collection) {
+      next = rewriteReference(value, collection, fromId, toId);
+    } else if (
+      field.type === "array" &&
+      field.items === "reference" &&
+      field.collection === collection &&
+      Array.isArray(value)
+    ) {
+      const items = value.map((item) =>
+        rewriteReference(item, collection, fromId, toId)
+      );
+      next = items.some((item, i) => item !== value[i]) ? items : value;
+    } else if (
+      field.type === "object" &&
+      field.fields &&
+      isPlainObject(value)
+    ) {
+      next =
+        rewriteReferences(value, field.fields, collection, fromId, toId) ??
+        value;
+    }
+
+    if (next !== value) {
+      result[name] = next;
+      changed = true;
+    }
+  }
+
+  return changed ? result : null;
+}
+
+// =============================================================================
+// Inbound Link Updates
+// =============================================================================
+
+/**
+ * Update links in all other entries that point at moved content
+ *
+ * Rewrites relative links to the moved file or its folder (including
+ * colocated images), site URLs built from the collection's preview URL,
+ * and reference fields that use the old content ID. Each changed entry is
+ * saved through {@link updateContent}, so a version snapshot is taken
+ * first when version history is enabled.
+ *
+ * @param options - Moved content and where to look for links
+ * @returns Entries that were updated
+ *
+ * @example
+ * ```typescript
+ * const updated = await updateInboundLinks({
+ *   projectRoot: '/project',
+ *   collections,
+ *   collection: 'blog',
+ *   fromId: 'old-post',
+ *   toId: 'new-post',
+ *   moves: [{ from: '/project/src/content/blog/old-post.md', to: '/project/src/content/blog/new-post.md' }],
+ * });
+ * ```
+ */
+export async function updateInboundLinks(
+  options: UpdateInboundLinksOptions
+): Promise<UpdatedLinkEntry[]> {
+  const {
+    projectRoot,
+    collections,
+    collection,
+    fromId,
+    toId,
+    moves,
+    versionHistoryConfig,
+  } = options;
+
+  const previewUrl = collections.find((c) => c.name === collection)?.previewUrl;
+  const movedPaths = new Set(moves.map((move) => move.to));
+  const updated: UpdatedLinkEntry[] = [];
+
+  for (const target of collections) {
+    const collectionPath = resolve(projectRoot, target.path);
+    const items = await readCollection(collectionPath);
+
+    for (const item of items) {
+      // The moved entry already had its own links fixed
+      if (
+        movedPaths.has(item.path) ||
+        applyMoves(item.path, moves) !== item.path
+      ) {
+        continue;
+      }
+      const dir = dirname(item.path);
+
+      const body = rewriteMarkdownLinks(
+        item.body,
+        (url) =>
+          relocateLink(url, dir, dir, moves) ??
+          (previewUrl && fromId !== toId
+            ? relocateSiteUrl(url, previewUrl, fromId, toId)
+            : null)
+      );
+      const frontmatter =
+        target.schema && fromId !== toId
+          ? rewriteReferences(
+              item.frontmatter,
+              target.schema,
+              collection,
+              fromId,
+              toId
+            )
+          : null;
+
+      if (body === item.body && !frontmatter) continue;
+
+      const result = await updateContent(item.path, collectionPath, {
+        frontmatter: frontmatter ?? undefined,
+        body: body !== item.body ? body : undefined,
+        projectRoot,
+        collection: target.name,
+        versionHistoryConfig,
+      });
+
+      if (result.success) {
+        updated.push({ collection: target.name, id: item.id });
+      } else {
+        console.warn(
+          `[writenex] Failed to update links in ${item.path}: ${result.error}`
+        );
+      }
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Project-wide media library
+ *
+ * This module indexes every image stored in the content collection
+ * folders and in `public/`, together with the entries that reference
+ * each one, so authors can reuse existing images and find the ones
+ * nothing uses anymore.
+ *
+ * ## Features:
+ * - Images from all collections and `public/`
+ * - File size, modification time and dimensions
+ * - Usage from the link index (body images and `image` fields)
+ * - Markdown reference paths relative to a given entry
+ *
+ * @module @writenex/astro/filesystem/media
+ */
+
+import { stat } from "node:fs/promises";
+import { join, relative, sep, resolve } from "node:path";
+import { scanDirectoryForImages, calculateRelativePath } from "./images";
+import { loadSharp } from "./image-processing";
+import type {
+  ContentRef,
+  DiscoveredCollection,
+  DiscoveredImage,
+  LinkIndex,
+  MediaItem,
+  MediaSource,
+} from "@/types";
+
+/**
+ * Maximum folder depth scanned for images
+ */
+const MEDIA_MAX_DEPTH = 10;
+
+/**
+ * Options for building the media index
+ */
+export interface BuildMediaIndexOptions {
+  /** Absolute path to project root */
+  projectRoot: string;
+  /** Collections to scan */
+  collections: DiscoveredCollection[];
+  /** Link index used to find the entries that reference each image */
+  linkIndex: LinkIndex;
+}
+
+/**
+ * Convert an absolute path to a project-relative path with forward slashes
+ */
+function toProjectPath(projectRoot: string, path: string): string {
+  return relative(projectRoot, path).split(sep).join("/");
+}
+
+/**
+ * Scan a folder for images
+ */
+function scanFolder(path: string): Promise<DiscoveredImage[]> {
+  return scanDirectoryForImages(path, path, {
+    maxDepth: MEDIA_MAX_DEPTH,
+    currentDepth: 0,
+    basePath: path,
+  });
+}
+
+/**
+ * Map each referenced file to the entries that reference it
+ *
+ * @param linkIndex - Link index
+ * @returns Entries by project-relative file path
+ */
+function getImageUsage(linkIndex: LinkIndex): Map<string, ContentRef[]> {
+  const usage = new Map<string, ContentRef[]>();
+
+  for (const link of linkIndex.links) {
+    if (!link.file || link.broken) continue;
+
+    const entries = usage.get(link.file) ?? [];
+    if (
+      !entries.some(
+        (entry) =>
+          entry.collection === link.source.collection &&
+          entry.id === link.source.id
+      )
+    ) {
+      entries.push(link.source);
+    }
+    usage.set(link.file, entries);
+  }
+
+  return usage;
+}
+
+/**
+ * Build the index of all images in the project
+ *
+ * Dimensions are read with sharp when it is installed.
+ *
+ * @param options - Project root, collections and link index
+ * @returns Media items, newest first
+ *
+ * @example
+ * ```typescript
+ * const items = await buildMediaIndex({ projectRoot, collections, linkIndex });
+ * const orphaned = items.filter((item) => item.orphaned);
+ * ```
+ */
+export async function buildMediaIndex(
+  options: BuildMediaIndexOptions
+): Promise<MediaItem[]> {
+  const { projectRoot, collections, linkIndex } = options;
+
+  const folders: {
+    path: string;
+    source: MediaSource;
+    collection?: string;
+  }[] = [
+    ...collections.map((collection) => ({
+      path: resolve(projectRoot, collection.path),
+      source: "collection" as const,
+      collection: collection.name,
+    })),
+    { path: join(projectRoot, "public"), source: "public" },
+  ];
+
+  const usage = getImageUsage(linkIndex);
+  const sharp = await loadSharp(projectRoot);
+  const items: MediaItem[] = [];
+
+  for (const folder of folders) {
+    for (const image of await scanFolder(folder.path)) {
+      const path = toProjectPath(projectRoot, image.absolutePath);
+      const usedBy = usage.get(path) ?? [];
+
+      let mtime = 0;
+      try {
+        mtime = (await stat(image.absolutePath)).mtimeMs;
+      } catch {
+        // Removed while scanning
+        continue;
+      }
+
+      let dimensions: { width?: number; height?: number } = {};
+      if (sharp) {
+        try {
+          const { width, height } = await sharp(image.absolutePath).metadata();
+          dimensions = { width, height };
+        } catch {
+          // Unreadable image, list it without dimensions
+        }
+      }
+
+      items.push({
+        path,
+        filename: image.filename,
+        extension: image.extension,
+        size: image.size,
+        mtime,
+        ...dimensions,
+        source: folder.source,
+        ...(folder.collection ? { collection: folder.collection } : {}),
+        ...(folder.source === "public"
+          ? {
+              url: `/${relative(folder.path, image.absolutePath).split(sep).join("/")}`,
+            }
+          : {}),
+        usedBy,
+        orphaned: usedBy.length === 0,
+      });
+    }
+  }
+
+  return items.sort((a, b) => b.mtime - a.mtime);
+}
+
+/**
+ * Get the path to use for an image in an entry's Markdown
+ *
+ * Public images are referenced by their site URL, collection images by a
+ * path relative to the content file.
+ *
+ * @param item - Media item
+ * @param contentFilePath - Absolute path to the content file
+ * @param projectRoot - Absolute path to project root
+ * @returns Path for Markdown and `image` fields
+ *
+ * @example
+ * ```typescript
+ * getMediaReference(item, '/project/src/content/blog/my-post.md', '/project');
+ * // "./my-post/hero.jpg" or "/images/hero.jpg"
+ * ```
+ */
+export function getMediaReference(
+  item: MediaItem,
+  contentFilePath: string,
+  projectRoot: string
+): string {
+  if (item.url) return item.url;
+
+  return calculateRelativePath(contentFilePath, join(projectRoot, item.path))
+    .split(sep)
+    .join("/");
+}
@@ -0,0 +1,454 @@
+/**
+ * @fileoverview Three-way merge for concurrent content edits
+ *
+ * This module merges the editor's copy of a content item with the version
+ * on disk, using the version the editor last loaded as the common ancestor.
+ * Non-overlapping frontmatter keys and body hunks are merged automatically;
+ * only changes that touch the same key or lines on both sides are reported
+ * as conflicts.
+ *
+ * ## Features:
+ * - Per-key frontmatter merge (including added and removed keys)
+ * - Line-based body merge (diff3 style)
+ * - Body returned as resolved/conflict segments for conflict UIs
+ *
+ * @module @writenex/astro/filesystem/merge
+ */
+
+import type {
+  MergeSource,
+  FrontmatterConflict,
+  MergeSegment,
+  ContentMergeResult,
+} from "@/types";
+
+/**
+ * A change from the base to one side, expressed over base line indices
+ */
+export interface Hunk {
+  /** First replaced base line (inclusive) */
+  baseStart: number;
+  /** Last replaced base line (exclusive) */
+  baseEnd: number;
+  /** Replacement lines */
+  lines: string[];
+}
+
+/**
+ * Date-only string, as sent by the client's date fields
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Largest changed region (base lines × changed lines) diffed line by line.
+ * Larger regions become a single replacement hunk, which the merge
+ * reports as a conflict if the other side changed it too.
+ */
+export const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Compare two frontmatter values structurally
+ *
+ * Values are compared by their JSON serialization, in which dates become
+ * ISO strings: a date parsed from YAML matches the same date after a round
+ * trip through the client. Date-only strings (`2024-01-15`) are read as
+ * midnight UTC, so they match the date YAML parses them to.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values serialize identically
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  const normalize = (_key: string, value: unknown): unknown =>
+    typeof value === "string" && DATE_ONLY_PATTERN.test(value)
+      ? `${value}T00:00:00.000Z`
+      : value;
+  return JSON.stringify(a, normalize) === JSON.stringify(b, normalize);
+}
+
+/**
+ * Merge frontmatter key by key
+ *
+ * For each key, a side that left the base value untouched yields to the
+ * other side. Keys changed identically on both sides are accepted; keys
+ * changed differently are conflicts and keep the editor's value.
+ *
+ * @param base - Frontmatter the editor last loaded
+ * @param ours - Frontmatter in the editor
+ * @param theirs - Frontmatter on disk
+ * @returns Merged frontmatter and any conflicting keys
+ *
+ * @example
+ * ```typescript
+ * const { merged, conflicts } = mergeFrontmatter(
+ *   { title: 'A', draft: true },
+ *   { title: 'B', draft: true },
+ *   { title: 'A', draft: false }
+ * );
+ * // merged: { title: 'B', draft: false }, conflicts: []
+ * ```
+ */
+export function mergeFrontmatter(
+  base: Record<string, unknown>,
+  ours: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): { merged: Record<string, unknown>; conflicts: FrontmatterConflict[] } {
+  const merged: Record<string, unknown> = {};
+  const conflicts: FrontmatterConflict[] = [];
+
+  // Keep the on-disk key order, then append keys added in the editor
+  const keys = new Set([
+    ...Object.keys(theirs),
+    ...Object.keys(ours),
+    ...Object.keys(base),
+  ]);
+
+  for (const key of keys) {
+    const b = base[key];
+    const o = ours[key];
+    const t = theirs[key];
+
+    let value: unknown;
+    if (valuesEqual(o, t)) {
+      value = o;
+    } else if (valuesEqual(o, b)) {
+      value = t;
+    } else if (valuesEqual(t, b)) {
+      value = o;
+    } else {
+      conflicts.push({ key, base: b, ours: o, theirs: t });
+      value = o;
+    }
+
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Compute the hunks that turn `base` into `other`
+ *
+ * Lines shared at the start and end are skipped, since edits usually
+ * change a single region. The rest is diffed with a longest common
+ * subsequence table, the same approach as the client's diff viewer,
+ * unless it exceeds `MAX_DIFF_CELLS`: then the whole region becomes one
+ * hunk.
+ *
+ * @param base - Base lines
+ * @param other - Changed lines
+ * @returns Hunks ordered by base position
+ */
+export function computeHunks(base: string[], other: string[]): Hunk[] {
+  let start = 0;
+  while (
+    start < base.length &&
+    start < other.length &&
+    base[start] === other[start]
+  ) {
+    start++;
+  }
+
+  let baseEnd = base.length;
+  let otherEnd = other.length;
+  while (
+    baseEnd > start &&
+    otherEnd > start &&
+    base[baseEnd - 1] === other[otherEnd - 1]
+  ) {
+    baseEnd--;
+    otherEnd--;
+  }
+
+  if (baseEnd === start && otherEnd === start) {
+    return [];
+  }
+  if ((baseEnd - start) * (otherEnd - start) > MAX_DIFF_CELLS) {
+    return [{ baseStart: start, baseEnd, lines: other.slice(start, otherEnd) }];
+  }
+
+  return diffLines(
+    base.slice(start, baseEnd),
+    other.slice(start, otherEnd)
+  ).map((hunk) => ({
+    ...hunk,
+    baseStart: hunk.baseStart + start,
+    baseEnd: hunk.baseEnd + start,
+  }));
+}
+
+/**
+ * Diff two line arrays with a longest common subsequence table
+ *
+ * @param base - Base lines
+ * @param other - Changed lines
+ * @returns Hunks ordered by base position
+ */
+function diffLines(base: string[], other: string[]): Hunk[] {
+  const m = base.length;
+  const n = other.length;
+
+  // LCS lengths of suffixes: table[i][j] = LCS(base[i..], other[j..])
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= m; i++) {
+    table.push(new Uint32Array(n + 1));
+  }
+  for (let i = m - 1; i >= 0; i--) {
+    const row = table[i]!;
+    const next = table[i + 1]!;
+    for (let j = n - 1; j >= 0; j--) {
+      row[j] =
+        base[i] === other[j]
+          ? next[j + 1]! + 1
+          : Math.max(next[j]!, row[j + 1]!);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  let current: Hunk | null = null;
+
+  while (i < m || j < n) {
+    if (i < m && j < n && base[i] === other[j]) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { baseStart: i, baseEnd: i, lines: [] };
+    }
+
+    if (j < n && (i === m || table[i]![j + 1]! >= table[i + 1]![j]!)) {
+      current.lines.push(other[j]!);
+      j++;
+    } else {
+      i++;
+      current.baseEnd = i;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply one side's hunks to a range of base lines
+ *
+ * @param base - Base lines
+ * @param hunks - Hunks that fall inside the range
+ * @param start - Range start (inclusive)
+ * @param end - Range end (exclusive)
+ * @returns The range as it reads on that side
+ */
+export function applyHunks(
+  base: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number
+): string[] {
+  const result: string[] = [];
+  let position = start;
+
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  result.push(...base.slice(position, end));
+
+  return result;
+}
+
+/**
+ * Check whether two line arrays are identical
+ */
+function linesEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge two edited copies of a text against their common ancestor
+ *
+ * Hunks from each side are grouped when their base ranges overlap (or
+ * both insert at the same position). A group touched by only one side is
+ * taken from that side; a group touched by both is accepted when both
+ * sides made the same change and reported as a conflict otherwise.
+ *
+ * @param base - Text the editor last loaded
+ * @param ours - Text in the editor
+ * @param theirs - Text on disk
+ * @returns Body segments in document order
+ *
+ * @example
+ * ```typescript
+ * const segments = mergeText('a\nb\nc', 'A\nb\nc', 'a\nb\nC');
+ * // [{ type: 'resolved', lines: ['A', 'b', 'C'] }]
+ * ```
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string
+): MergeSegment[] {
+  const baseLines = base.split("\n");
+  const oursHunks = computeHunks(baseLines, ours.split("\n"));
+  const theirsHunks = computeHunks(baseLines, theirs.split("\n"));
+
+  const segments: MergeSegment[] = [];
+  let resolved: string[] = [];
+  let position = 0;
+  let o = 0;
+  let t = 0;
+
+  while (o < oursHunks.length || t < theirsHunks.length) {
+    const nextOurs = oursHunks[o];
+    const nextTheirs = theirsHunks[t];
+
+    // Start a group at the earliest hunk
+    const first =
+      nextOurs && (!nextTheirs || nextOurs.baseStart <= nextTheirs.baseStart)
+        ? nextOurs
+        : nextTheirs!;
+    const groupStart = first.baseStart;
+    let groupEnd = first.baseEnd;
+
+    const groupOurs: Hunk[] = [];
+    const groupTheirs: Hunk[] = [];
+
+    // Absorb every hunk that overlaps the growing range
+    let absorbed = true;
+    while (absorbed) {
+      absorbed = false;
+
+      const candidateOurs = oursHunks[o];
+      if (
+        candidateOurs &&
+        (candidateOurs.baseStart < groupEnd ||
+          candidateOurs.baseStart === groupStart)
+      ) {
+        groupOurs.push(candidateOurs);
+        groupEnd = Math.max(groupEnd, candidateOurs.baseEnd);
+        o++;
+        absorbed = true;
+      }
+
+      const candidateTheirs = theirsHunks[t];
+      if (
+        candidateTheirs &&
+        (candidateTheirs.baseStart < groupEnd ||
+          candidateTheirs.baseStart === groupStart)
+      ) {
+        groupTheirs.push(candidateTheirs);
+        groupEnd = Math.max(groupEnd, candidateTheirs.baseEnd);
+        t++;
+        absorbed = true;
+      }
+    }
+
+    // Unchanged lines before the group
+    resolved.push(...baseLines.slice(position, groupStart));
+    position = groupEnd;
+
+    const oursRange = applyHunks(baseLines, groupOurs, groupStart, groupEnd);
+    const theirsRange = applyHunks(
+      baseLines,
+      groupTheirs,
+      groupStart,
+      groupEnd
+    );
+
+    if (groupTheirs.length === 0) {
+      resolved.push(...oursRange);
+    } else if (groupOurs.length === 0 || linesEqual(oursRange, theirsRange)) {
+      resolved.push(...theirsRange);
+    } else {
+      if (resolved.length > 0) {
+        segments.push({ type: "resolved", lines: resolved });
+        resolved = [];
+      }
+      segments.push({
+        type: "conflict",
+        base: baseLines.slice(groupStart, groupEnd),
+        ours: oursRange,
+        theirs: theirsRange,
+      });
+    }
+  }
+
+  resolved.push(...baseLines.slice(position));
+  if (resolved.length > 0) {
+    segments.push({ type: "resolved", lines: resolved });
+  }
+
+  return segments;
+}
+
+/**
+ * Join body segments back into text
+ *
+ * @param segments - Merge segments
+ * @param pick - Side to use for conflicting segments (default: "ours")
+ * @returns Merged body text
+ */
+export function segmentsToText(
+  segments: MergeSegment[],
+  pick: "ours" | "theirs" = "ours"
+): string {
+  const lines: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === "resolved") {
+      lines.push(...segment.lines);
+    } else {
+      lines.push(...segment[pick]);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Three-way merge of a content item
+ *
+ * @param base - Version the editor last loaded (common ancestor)
+ * @param ours - Version in the editor
+ * @param theirs - Version currently on disk
+ * @returns Merge result with conflicts (if any)
+ *
+ * @example
+ * ```typescript
+ * const result = mergeContent(lastLoaded, editorCopy, diskCopy);
+ * if (!result.hasConflicts) {
+ *   await writeFile(path, serialize(result.frontmatter, result.body));
+ * }
+ * ```
+ */
+export function mergeContent(
+  base: MergeSource,
+  ours: MergeSource,
+  theirs: MergeSource
+): ContentMergeResult {
+  const { merged, conflicts } = mergeFrontmatter(
+    base.frontmatter,
+    ours.frontmatter,
+    theirs.frontmatter
+  );
+  const segments = mergeText(base.body, ours.body, theirs.body);
+
+  return {
+    frontmatter: merged,
+    body: segmentsToText(segments),
+    frontmatterConflicts: conflicts,
+    segments,
+    hasConflicts:
+      conflicts.length > 0 || segments.some((s) => s.type === "conflict"),
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Rename and move content items
+ *
+ * This module changes the slug or other path tokens of a content item and
+ * moves its file (or folder) to the matching location, along with its
+ * colocated images and version history.
+ *
+ * ## Features:
+ * - New path computed from the collection's file pattern
+ * - Folder-based entries (`{slug}/index.md`) moved as a whole folder
+ * - Sibling image folders of flat files moved with the file
+ * - Relative links in the moved entry adjusted to its new location
+ * - Version history carried over to the new content ID
+ *
+ * @module @writenex/astro/filesystem/move
+ */
+
+import { mkdir, rename, rmdir } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import {
+  join,
+  dirname,
+  basename,
+  extname,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+import { extractSlug, isIndexFile, readContentFile } from "./reader";
+import { updateContent } from "./writer";
+import { moveVersions } from "./versions";
+import { getContentImageFolder } from "./images";
+import { rewriteMarkdownLinks, relocateLink } from "./links";
+import type { PathMove } from "./links";
+import {
+  extractTokensFromPath,
+  generatePathFromPattern,
+  parsePatternTokens,
+} from "@/discovery/patterns";
+import {
+  ContentInvalidSlugError,
+  PathTraversalError,
+  PatternMissingTokenError,
+} from "@/core/errors";
+import type { VersionHistoryConfig } from "@/types";
+
+/**
+ * Requested changes for a move
+ */
+export interface MoveRequest {
+  /** File pattern of the collection (e.g., "{date}-{slug}.md") */
+  filePattern: string;
+  /** New slug */
+  slug?: string;
+  /** New values for other pattern tokens (e.g., date, category, lang) */
+  tokens?: Record<string, string>;
+}
+
+/**
+ * Everything that changes on disk when content is moved
+ */
+export interface MovePlan {
+  /** Path to the collection directory */
+  collectionPath: string;
+  /** Content ID before the move */
+  fromId: string;
+  /** Content ID after the move */
+  toId: string;
+  /** Content file before the move */
+  fromPath: string;
+  /** Content file after the move */
+  toPath: string;
+  /** Files and folders to rename, in order */
+  renames: PathMove[];
+}
+
+/**
+ * Options for performing a move
+ */
+export interface MoveContentOptions {
+  /** Absolute path to project root (required for version history) */
+  projectRoot?: string;
+  /** Collection name (required for version history) */
+  collection?: string;
+  /** Version history configuration */
+  versionHistoryConfig?: Required<VersionHistoryConfig>;
+}
+
+/**
+ * Result of a move operation
+ */
+export interface MoveResult {
+  /** Whether the operation succeeded */
+  success: boolean;
+  /** Content ID after the move */
+  id?: string;
+  /** Content file after the move */
+  path?: string;
+  /** Content ID before the move */
+  previousId?: string;
+  /** Error message if operation failed */
+  error?: string;
+}
+
+/**
+ * Check that a token value can be used as a single path segment
+ *
+ * @param value - Token value
+ * @throws ContentInvalidSlugError if the value is empty or not a plain name
+ */
+function assertPathSegment(value: string): void {
+  if (value.trim() === "") {
+    throw new ContentInvalidSlugError(value, "must not be empty");
+  }
+  if (value.includes("/") || value.includes("\\")) {
+    throw new ContentInvalidSlugError(value, "must not contain slashes");
+  }
+  if (value.startsWith(".")) {
+    throw new ContentInvalidSlugError(value, "must not start with a dot");
+  }
+}
+
+/**
+ * Check if a content file is the index file of a folder-based entry
+ */
+function isFolderEntry(filePath: string, collectionPath: string): boolean {
+  return (
+    isIndexFile(basename(filePath)) && dirname(filePath) !== collectionPath
+  );
+}
+
+/**
+ * Work out where a content item moves to
+ *
+ * Token values not given in the request are read back from the current
+ * path. Files that do not follow the collection pattern keep their
+ * layout and only have their slug changed.
+ *
+ * @param collectionPath - Path to the collection directory
+ * @param filePath - Current content file
+ * @param request - New slug and token values
+ * @returns The move plan (with no renames if nothing changes)
+ * @throws PatternMissingTokenError if a token is not part of the pattern
+ * @throws ContentInvalidSlugError if a value cannot be used in a path
+ * @throws PathTraversalError if the new path leaves the collection
+ *
+ * @example
+ * ```typescript
+ * const plan = planMove('/project/src/content/blog', '/project/src/content/blog/2024-01-15-my-post.md', {
+ *   filePattern: '{date}-{slug}.md',
+ *   slug: 'better-title',
+ * });
+ * // plan.toPath: '/project/src/content/blog/2024-01-15-better-title.md'
+ * ```
+ */
+export function planMove(
+  collectionPath: string,
+  filePath: string,
+  request: MoveRequest
+): MovePlan {
+  const { slug, tokens = {} } = request;
+  const ext = extname(filePath);
+  const relativePath = relative(collectionPath, filePath).split(sep).join("/");
+  const fromId = extractSlug(filePath, collectionPath);
+  const folderEntry = isFolderEntry(filePath, collectionPath);
+
+  // Use the pattern with the file's own extension (.md, .mdx or data)
+  let pattern = request.filePattern.replace(/\.(md|mdx|json|ya?ml)$/, ext);
+  let current = extractTokensFromPath(pattern, relativePath);
+
+  if (!current) {
+    // Not created from the pattern: keep the layout, swap the slug
+    const parts = relativePath.split("/");
+    parts[parts.length - (folderEntry ? 2 : 1)] = folderEntry
+      ? "{slug}"
+      : `{slug}${ext}`;
+    pattern = parts.join("/");
+    current = { slug: fromId };
+  }
+
+  const patternTokens = parsePatternTokens(pattern);
+  for (const name of Object.keys(tokens)) {
+    if (!patternTokens.includes(name)) {
+      throw new PatternMissingTokenError(pattern, name);
+    }
+  }
+
+  const next: Record<string, string> = { ...current, ...tokens };
+  if (slug !== undefined) {
+    next.slug = slug;
+  }
+  for (const [name, value] of Object.entries(next)) {
+    if (value !== current[name]) {
+      assertPathSegment(value);
+    }
+  }
+
+  const toPath = resolve(
+    collectionPath,
+    generatePathFromPattern(pattern, next)
+  );
+  if (!toPath.startsWith(collectionPath + sep)) {
+    throw new PathTraversalError(toPath, collectionPath);
+  }
+
+  const toId = extractSlug(toPath, collectionPath);
+  const renames: PathMove[] = [];
+
+  if (toPath !== filePath) {
+    if (folderEntry && isFolderEntry(toPath, collectionPath)) {
+      // Folder-based: the folder holds the entry and its images
+      renames.push({ from: dirname(filePath), to: dirname(toPath) });
+    } else {
+      renames.push({ from: filePath, to: toPath });
+
+      const imageFolder = getContentImageFolder(
+        collectionPath,
+        fromId,
+        filePath
+      );
+      if (imageFolder && fromId !== toId) {
+        renames.push({ from: imageFolder, to: join(collectionPath, toId) });
+      }
+    }
+  }
+
+  return { collectionPath, fromId, toId, fromPath: filePath, toPath, renames };
+}
+
+/**
+ * Find the first move target that is already taken
+ *
+ * @param plan - Move plan
+ * @returns Path of the existing file or folder, or null if free
+ */
+export function findMoveCollision(plan: MovePlan): string | null {
+  return plan.renames.find((move) => existsSync(move.to))?.to ?? null;
+}
+
+/**
+ * Remove empty directories left behind by a move
+ *
+ * @param dir - Directory the moved item was in
+ * @param stopAt - Directory to stop at (not removed)
+ */
+async function removeEmptyParents(dir: string, stopAt: string): Promise<void> {
+  let current = dir;
+  while (current.startsWith(stopAt + sep)) {
+    try {
+      await rmdir(current);
+    } catch {
+      // Not empty (or already gone)
+      return;
+    }
+    current = dirname(current);
+  }
+}
+
+/**
+ * Move a content item as described by a plan
+ *
+ * Renames the files and folders, adjusts relative links in the moved
+ * entry's body, and moves its version history to the new content ID.
+ * If a rename fails, the renames already done are reverted.
+ *
+ * @param plan - Move plan from {@link planMove}
+ * @param options - Version history options
+ * @returns MoveResult with the new ID and path
+ *
+ * @example
+ * ```typescript
+ * const plan = planMove(collectionPath, filePath, { filePattern, slug: 'new-slug' });
+ * if (!findMoveCollision(plan)) {
+ *   const result = await moveContent(plan, {
+ *     projectRoot: '/project',
+ *     collection: 'blog',
+ *     versionHistoryConfig,
+ *   });
+ * }
+ * ```
+ */
+export async function moveContent(
+  plan: MovePlan,
+  options: MoveContentOptions = {}
+): Promise<MoveResult> {
+  const { collectionPath, fromId, toId, fromPath, toPath, renames } = plan;
+  const { projectRoot, collection, versionHistoryConfig } = options;
+
+  const done: PathMove[] = [];
+  try {
+    for (const move of renames) {
+      await mkdir(dirname(move.to), { recursive: true });
+      await rename(move.from, move.to);
+      done.push(move);
+    }
+  } catch (error) {
+    for (const move of done.reverse()) {
+      await rename(move.to, move.from).catch(() => undefined);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to move content: ${message}` };
+  }
+
+  for (const move of renames) {
+    await removeEmptyParents(dirname(move.from), collectionPath);
+  }
+
+  // Carry the history over before saving link fixes under the new ID
+  if (
+    projectRoot &&
+    collection &&
+    versionHistoryConfig?.enabled &&
+    fromId !== toId
+  ) {
+    const result = await moveVersions(
+      projectRoot,
+      collection,
+      fromId,
+      toId,
+      versionHistoryConfig
+    );
+    if (!result.success) {
+      console.warn(
+        `[writenex] Failed to move version history for ${fromId}: ${result.error}`
+      );
+    }
+  }
+
+  // Relative links in the moved entry now start from a new location
+  const read = await readContentFile(toPath, collectionPath);
+  if (read.success && read.content) {
+    const fromDir = dirname(fromPath);
+    const toDir = dirname(toPath);
+    const body = rewriteMarkdownLinks(read.content.body, (url) =>
+      relocateLink(url, fromDir, toDir, renames)
+    );
+
+    if (body !== read.content.body) {
+      const result = await updateContent(toPath, collectionPath, {
+        body,
+        projectRoot,
+        collection,
+        versionHistoryConfig,
+      });
+      if (!result.success) {
+        console.warn(
+          `[writenex] Failed to update links in ${toPath}: ${result.error}`
+        );
+      }
+    }
+  }
+
+  return { success: true, id: toId, path: toPath, previousId: fromId };
+}
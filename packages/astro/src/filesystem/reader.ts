@@ -8,21 +8,23 @@
  * - Read individual content files with frontmatter parsing
  * - List all content files in a collection
  * - Generate content summaries for listing
- * - Support for .md and .mdx files
+ * - Support for .md and .mdx files, and .json/.yaml data entries
  *
  * @module @writenex/astro/filesystem/reader
  */
 
 import { readFile, readdir, stat } from "node:fs/promises";
-import { existsSync } from "node:fs";
+import { existsSync, readdirSync } from "node:fs";
 import { join, basename, extname, relative } from "node:path";
-import matter from "gray-matter";
-import type { ContentItem, ContentSummary } from "@/types";
+import { DATA_EXTENSIONS, getDataFormat, parseEntry } from "./data";
+import { getWorkflowState } from "@/core/workflow";
+import { getPublishAt, isScheduled } from "@/core/schedule";
+import type { CollectionWorkflow, ContentItem, ContentSummary } from "@/types";
 
 /**
- * Supported content file extensions
+ * Supported content file extensions (Markdown and data entries)
  */
-const CONTENT_EXTENSIONS = [".md", ".mdx"];
+const CONTENT_EXTENSIONS = [".md", ".mdx", ...DATA_EXTENSIONS];
 
 /**
  * Maximum excerpt length in characters
@@ -39,6 +41,8 @@ export interface ReadContentOptions {
   sortBy?: string;
   /** Sort order */
   sortOrder?: "asc" | "desc";
+  /** Workflow of the collection (adds the state to summaries) */
+  workflow?: CollectionWorkflow | null;
 }
 
 /**
@@ -64,13 +68,30 @@ export function isContentFile(filename: string): boolean {
   return CONTENT_EXTENSIONS.includes(ext);
 }
 
+/**
+ * Check if a file is the index file of a folder-based entry
+ *
+ * Any content extension counts, so data entries can be folder-based
+ * (`jane-doe/index.json`) as well as Markdown ones.
+ *
+ * @param filename - The filename to check
+ * @returns True if the file is an index content file
+ */
+export function isIndexFile(filename: string): boolean {
+  return (
+    isContentFile(filename) && basename(filename, extname(filename)) === "index"
+  );
+}
+
 /**
  * Extract slug from a content file path
  *
  * Handles various file patterns:
  * - `my-post.md` -> `my-post`
+ * - `jane-doe.json` -> `jane-doe`
  * - `2024-01-15-my-post.md` -> `2024-01-15-my-post`
  * - `my-post/index.md` -> `my-post`
+ * - `jane-doe/index.json` -> `jane-doe`
  *
  * @param filePath - Path to the content file
  * @param collectionPath - Path to the collection directory
@@ -82,7 +103,7 @@ export function extractSlug(filePath: string, collectionPath: string): string {
   const ext = extname(filename);
 
   // Handle index files (folder-based content)
-  if (filename === "index.md" || filename === "index.mdx") {
+  if (isIndexFile(filename)) {
     const parts = relativePath.split("/");
     if (parts.length >= 2) {
       const slug = parts[parts.length - 2];
@@ -182,8 +203,8 @@ export async function readContentFile(
       stat(filePath),
     ]);
 
-    // Parse frontmatter
-    const { data: frontmatter, content: body } = matter(raw);
+    // Parse frontmatter (data entries are all frontmatter)
+    const { frontmatter, body } = parseEntry(raw, getDataFormat(filePath));
 
     // Extract slug
     const id = extractSlug(filePath, collectionPath);
@@ -309,9 +330,13 @@ export async function readCollection(
  * Convert a content item to a summary for listing
  *
  * @param item - The full content item
+ * @param workflow - Workflow of the collection (if any)
  * @returns Content summary with essential fields
  */
-export function toContentSummary(item: ContentItem): ContentSummary {
+export function toContentSummary(
+  item: ContentItem,
+  workflow?: CollectionWorkflow | null
+): ContentSummary {
   const { id, path, frontmatter, body } = item;
 
   // Support both pubDate and publishDate naming conventions
@@ -321,9 +346,14 @@ export function toContentSummary(item: ContentItem): ContentSummary {
   return {
     id,
     path,
-    title: String(frontmatter.title ?? id),
+    // Data entries (authors, ...) are often named rather than titled
+    title: String(frontmatter.title ?? frontmatter.name ?? id),
     pubDate: dateValue ? String(dateValue) : undefined,
     draft: frontmatter.draft === true,
+    state: workflow ? getWorkflowState(workflow, frontmatter) : undefined,
+    publishAt: isScheduled(frontmatter)
+      ? getPublishAt(frontmatter)!.toISOString()
+      : undefined,
     excerpt: generateExcerpt(body),
   };
 }
@@ -340,7 +370,7 @@ export async function getCollectionSummaries(
   options: ReadContentOptions = {}
 ): Promise<ContentSummary[]> {
   const items = await readCollection(collectionPath, options);
-  return items.map(toContentSummary);
+  return items.map((item) => toContentSummary(item, options.workflow));
 }
 
 /**
@@ -408,8 +438,11 @@ export async function getFileStats(filePath: string): Promise<{
  *
  * Searches for the content file in the collection directory,
  * handling different content structures:
- * - Folder-based: `slug/index.md` or `slug/index.mdx`
+ * - Folder-based: `slug/index.md`, `slug/index.mdx` or a data index file
  * - Flat file: `slug.md` or `slug.mdx`
+ * - Data file: `slug.json`, `slug.yaml` or `slug.yml`
+ * - Nested by a file pattern (e.g. `{category}/{slug}.md`): first file in
+ *   a subfolder whose ID matches
  *
  * @param collectionPath - Path to the collection directory
  * @param contentId - Content ID (slug)
@@ -426,26 +459,59 @@ export function getContentFilePath(
   collectionPath: string,
   contentId: string
 ): string | null {
-  // Try folder-based structure first (slug/index.md or slug/index.mdx)
-  const indexMdPath = join(collectionPath, contentId, "index.md");
-  if (existsSync(indexMdPath)) {
-    return indexMdPath;
+  // Try folder-based structure first (slug/index.md, slug/index.json, ...)
+  for (const ext of CONTENT_EXTENSIONS) {
+    const indexPath = join(collectionPath, contentId, `index${ext}`);
+    if (existsSync(indexPath)) {
+      return indexPath;
+    }
   }
 
-  const indexMdxPath = join(collectionPath, contentId, "index.mdx");
-  if (existsSync(indexMdxPath)) {
-    return indexMdxPath;
+  // Try flat file structure (slug.md, slug.mdx or a data file)
+  for (const ext of CONTENT_EXTENSIONS) {
+    const flatPath = join(collectionPath, `${contentId}${ext}`);
+    if (existsSync(flatPath)) {
+      return flatPath;
+    }
   }
 
-  // Try flat file structure (slug.md or slug.mdx)
-  const flatMdPath = join(collectionPath, `${contentId}.md`);
-  if (existsSync(flatMdPath)) {
-    return flatMdPath;
+  return findNestedContentFile(collectionPath, collectionPath, contentId);
+}
+
+/**
+ * Search subfolders for a content file with the given ID
+ *
+ * @param dirPath - Directory to search
+ * @param collectionPath - Path to the collection directory
+ * @param contentId - Content ID (slug)
+ * @returns File path if found, null otherwise
+ */
+function findNestedContentFile(
+  dirPath: string,
+  collectionPath: string,
+  contentId: string
+): string | null {
+  if (!existsSync(dirPath)) {
+    return null;
   }
 
-  const flatMdxPath = join(collectionPath, `${contentId}.mdx`);
-  if (existsSync(flatMdxPath)) {
-    return flatMdxPath;
+  const entries = readdirSync(dirPath, { withFileTypes: true }).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  for (const entry of entries) {
+    const fullPath = join(dirPath, entry.name);
+
+    if (entry.isDirectory()) {
+      const found = findNestedContentFile(fullPath, collectionPath, contentId);
+      if (found) return found;
+    } else if (
+      entry.isFile() &&
+      isContentFile(entry.name) &&
+      extractSlug(fullPath, collectionPath) === contentId
+    ) {
+      return fullPath;
+    }
   }
 
   return null;
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Publishing of scheduled content entries
+ *
+ * This module finds drafts whose `publishAt` date has passed and publishes
+ * them. It is run periodically by the dev server and on demand by the
+ * `writenex publish` command.
+ *
+ * ## Features:
+ * - Due entries found across all collections
+ * - Labelled version snapshot of each entry before it is published
+ * - Workflow state moved to the first published state
+ * - Dry runs that only report the due entries
+ *
+ * @module @writenex/astro/filesystem/schedule
+ */
+
+import { resolve } from "node:path";
+import { readCollection } from "./reader";
+import { updateContent } from "./writer";
+import { saveVersion } from "./versions";
+import { getPublishAt, getPublishChanges, isDue } from "@/core/schedule";
+import type {
+  ContentItem,
+  DiscoveredCollection,
+  VersionHistoryConfig,
+} from "@/types";
+
+/**
+ * Label of the version snapshot taken before publishing (kept in the
+ * version manifest, not in the snapshot)
+ */
+const SNAPSHOT_LABEL = "Before scheduled publish";
+
+/**
+ * Options for publishing scheduled entries
+ */
+export interface PublishScheduledOptions {
+  /** Absolute path to project root */
+  projectRoot: string;
+  /** Collections to check */
+  collections: DiscoveredCollection[];
+  /** Version history configuration */
+  versionHistoryConfig?: Required<VersionHistoryConfig>;
+  /** Time to compare schedules against (default: now) */
+  now?: Date;
+  /** Report due entries without changing them */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of publishing one scheduled entry
+ */
+export interface ScheduledPublishResult {
+  /** Collection name */
+  collection: string;
+  /** Content ID */
+  id: string;
+  /** Scheduled publication time (ISO string) */
+  publishAt: string;
+  /** Whether the entry was published (false for dry runs and failures) */
+  published: boolean;
+  /** Error message if publishing failed */
+  error?: string;
+}
+
+/**
+ * Find the entries of a collection that are due to be published
+ *
+ * @param collectionPath - Path to the collection directory
+ * @param now - Time to compare schedules against
+ * @returns Due entries, earliest schedule first
+ */
+export async function findDueEntries(
+  collectionPath: string,
+  now: Date = new Date()
+): Promise<ContentItem[]> {
+  const items = await readCollection(collectionPath);
+  return items
+    .filter((item) => isDue(item.frontmatter, now))
+    .sort(
+      (a, b) =>
+        getPublishAt(a.frontmatter)!.getTime() -
+        getPublishAt(b.frontmatter)!.getTime()
+    );
+}
+
+/**
+ * Publish every entry whose scheduled time has passed
+ *
+ * Each entry gets a labelled version snapshot of its file, byte for byte,
+ * before it is written, so the scheduled draft can be restored exactly.
+ * Entries are published one at a time; a failed entry is reported and
+ * the others are still published.
+ *
+ * @param options - Project root, collections and version history options
+ * @returns Outcome for each due entry
+ *
+ * @example
+ * ```typescript
+ * const results = await publishScheduledContent({
+ *   projectRoot: '/project',
+ *   collections,
+ *   versionHistoryConfig: config.versionHistory,
+ * });
+ * // [{ collection: 'blog', id: 'launch', publishAt: '2025-03-01T09:00:00.000Z', published: true }]
+ * ```
+ */
+export async function publishScheduledContent(
+  options: PublishScheduledOptions
+): Promise<ScheduledPublishResult[]> {
+  const {
+    projectRoot,
+    collections,
+    versionHistoryConfig,
+    now = new Date(),
+    dryRun = false,
+  } = options;
+
+  const results: ScheduledPublishResult[] = [];
+
+  for (const collection of collections) {
+    const collectionPath = resolve(projectRoot, collection.path);
+
+    for (const item of await findDueEntries(collectionPath, now)) {
+      const publishAt = getPublishAt(item.frontmatter)!;
+      const result: ScheduledPublishResult = {
+        collection: collection.name,
+        id: item.id,
+        publishAt: publishAt.toISOString(),
+        published: false,
+      };
+      results.push(result);
+
+      if (dryRun) continue;
+
+      if (versionHistoryConfig?.enabled) {
+        const snapshot = await saveVersion(
+          projectRoot,
+          collection.name,
+          item.id,
+          item.raw,
+          versionHistoryConfig,
+          { label: SNAPSHOT_LABEL }
+        );
+        if (!snapshot.success) {
+          console.warn(
+            `[writenex] Failed to create version snapshot: ${snapshot.error}`
+          );
+        }
+      }
+
+      // The labelled snapshot replaces the automatic one
+      const update = await updateContent(item.path, collectionPath, {
+        frontmatter: getPublishChanges(
+          item.frontmatter,
+          publishAt,
+          collection.workflow
+        ),
+      });
+
+      if (update.success) {
+        result.published = true;
+      } else {
+        result.error = update.error ?? "Failed to publish";
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,498 @@
+/**
+ * @fileoverview Trash for deleted content items
+ *
+ * Deleting an entry keeps its version history, so a deleted entry can be
+ * brought back from its newest version. With version history enabled,
+ * deleting from Writenex also saves a last snapshot, and moves the
+ * entry's colocated images into the history instead of leaving them
+ * behind.
+ *
+ * An entry is in the trash when its file is gone but its history is not,
+ * whether it was deleted from Writenex or removed by other means.
+ *
+ * ## Storage (next to the version files):
+ * ```
+ * .writenex/versions/{collection}/{contentId}/
+ * ├── trash.json   # Deletion time, file path and image folder
+ * └── .trash/      # Colocated images of the deleted entry
+ * ```
+ *
+ * @module @writenex/astro/filesystem/trash
+ */
+
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  rmdir,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { existsSync } from "node:fs";
+import {
+  basename,
+  dirname,
+  extname,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+import { extractSlug, getContentFilePath, isContentFile } from "./reader";
+import { getContentImageFolder } from "./images";
+import {
+  getVersion,
+  getVersions,
+  getVersionStoragePath,
+  listVersionHistories,
+  removeVersionHistory,
+  saveVersion,
+} from "./versions";
+import type { WriteResult } from "./writer";
+import type { TrashEntry, VersionHistoryConfig, VersionResult } from "@/types";
+
+/** Record of a deletion, in the entry's history directory */
+const TRASH_FILE = "trash.json";
+
+/** Folder holding the images of a deleted entry */
+const TRASH_IMAGES_FOLDER = ".trash";
+
+/** Label of the snapshot saved before an entry is deleted */
+const DELETE_SNAPSHOT_LABEL = "Before delete";
+
+/**
+ * Content of `trash.json`
+ */
+interface TrashRecord {
+  /** When the entry was deleted (ISO string) */
+  deletedAt: string;
+  /** File path relative to the collection */
+  path: string;
+  /** Image folder relative to the collection (if images were kept) */
+  images?: string;
+}
+
+/**
+ * Options for trash operations
+ */
+export interface TrashOptions {
+  /** Absolute path to project root */
+  projectRoot: string;
+  /** Collection name */
+  collection: string;
+  /** Path to the collection directory */
+  collectionPath: string;
+  /** Version history configuration */
+  versionHistoryConfig: Required<VersionHistoryConfig>;
+}
+
+/**
+ * Convert a path relative to the collection to forward slashes
+ */
+function toCollectionPath(collectionPath: string, path: string): string {
+  return relative(collectionPath, path).split(sep).join("/");
+}
+
+/**
+ * Resolve a path from a trash record inside the collection
+ *
+ * @returns The absolute path, or null if it leaves the collection
+ */
+function fromCollectionPath(
+  collectionPath: string,
+  path: string
+): string | null {
+  const resolved = resolve(collectionPath, path);
+  return resolved.startsWith(collectionPath + sep) ? resolved : null;
+}
+
+/**
+ * Read the trash record of an entry
+ *
+ * @param storagePath - Version storage directory of the entry
+ * @returns The record, or null if the entry was not deleted from Writenex
+ */
+async function readTrashRecord(
+  storagePath: string
+): Promise<TrashRecord | null> {
+  try {
+    const data = JSON.parse(
+      await readFile(join(storagePath, TRASH_FILE), "utf-8")
+    ) as Partial<TrashRecord>;
+    if (typeof data.deletedAt !== "string" || typeof data.path !== "string") {
+      return null;
+    }
+    return data as TrashRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a folder (or any folder in it) holds content files
+ */
+async function containsContentFiles(dir: string): Promise<boolean> {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (await containsContentFiles(join(dir, entry.name))) return true;
+    } else if (isContentFile(entry.name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Move the contents of a folder into another, then remove it
+ *
+ * @param from - Folder to empty
+ * @param to - Existing folder
+ */
+async function mergeFolder(from: string, to: string): Promise<void> {
+  for (const name of await readdir(from)) {
+    if (!existsSync(join(to, name))) {
+      await rename(join(from, name), join(to, name));
+    }
+  }
+  await rm(from, { recursive: true, force: true });
+}
+
+/**
+ * Delete a content item, keeping it restorable
+ *
+ * Saves the current content as a labeled version, deletes the file and
+ * moves the colocated image folder into the version history. Image
+ * folders that hold other entries are left in place.
+ *
+ * @param filePath - Absolute path to the content file
+ * @param options - Collection and version history options
+ * @returns WriteResult with the deleted entry's ID and path
+ *
+ * @example
+ * ```typescript
+ * const result = await moveToTrash('/project/src/content/blog/my-post.md', {
+ *   projectRoot: '/project',
+ *   collection: 'blog',
+ *   collectionPath: '/project/src/content/blog',
+ *   versionHistoryConfig,
+ * });
+ * ```
+ */
+export async function moveToTrash(
+  filePath: string,
+  options: TrashOptions
+): Promise<WriteResult> {
+  const { projectRoot, collection, collectionPath, versionHistoryConfig } =
+    options;
+
+  try {
+    if (!existsSync(filePath)) {
+      return { success: false, error: "Content file not found" };
+    }
+
+    const contentId = extractSlug(filePath, collectionPath);
+    const content = await readFile(filePath, "utf-8");
+
+    // Without a snapshot the entry could not be restored
+    const snapshot = await saveVersion(
+      projectRoot,
+      collection,
+      contentId,
+      content,
+      versionHistoryConfig,
+      { label: DELETE_SNAPSHOT_LABEL }
+    );
+    if (!snapshot.success) {
+      return { success: false, error: snapshot.error };
+    }
+
+    const imageFolder = getContentImageFolder(
+      collectionPath,
+      contentId,
+      filePath
+    );
+    await unlink(filePath);
+
+    const storagePath = getVersionStoragePath(
+      projectRoot,
+      collection,
+      contentId,
+      versionHistoryConfig
+    );
+    const stash = join(storagePath, TRASH_IMAGES_FOLDER);
+    await rm(stash, { recursive: true, force: true });
+
+    const record: TrashRecord = {
+      deletedAt: new Date().toISOString(),
+      path: toCollectionPath(collectionPath, filePath),
+    };
+
+    if (imageFolder && existsSync(imageFolder)) {
+      try {
+        if ((await readdir(imageFolder)).length === 0) {
+          // Folder of a folder-based entry without images
+          await rmdir(imageFolder);
+        } else if (!(await containsContentFiles(imageFolder))) {
+          await rename(imageFolder, stash);
+          record.images = toCollectionPath(collectionPath, imageFolder);
+        }
+      } catch (error) {
+        console.warn(
+          `[writenex] Failed to keep images of ${collection}/${contentId}:`,
+          error
+        );
+      }
+    }
+
+    await writeFile(
+      join(storagePath, TRASH_FILE),
+      JSON.stringify(record, null, 2),
+      "utf-8"
+    );
+
+    return { success: true, id: contentId, path: filePath };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to delete content: ${message}`,
+    };
+  }
+}
+
+/**
+ * List the deleted entries whose version history remains
+ *
+ * Histories of collections that no longer exist are left out.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param collectionPaths - Path to each collection directory, by name
+ * @param config - Version history configuration
+ * @returns Trash entries, most recently deleted first
+ *
+ * @example
+ * ```typescript
+ * const entries = await listTrash(
+ *   '/project',
+ *   { blog: '/project/src/content/blog' },
+ *   config
+ * );
+ * ```
+ */
+export async function listTrash(
+  projectRoot: string,
+  collectionPaths: Record<string, string>,
+  config: Required<VersionHistoryConfig>
+): Promise<TrashEntry[]> {
+  const entries: TrashEntry[] = [];
+
+  if (!config.enabled) {
+    return entries;
+  }
+
+  for (const { collection, contentId } of await listVersionHistories(
+    projectRoot,
+    config
+  )) {
+    const collectionPath = collectionPaths[collection];
+    if (!collectionPath || getContentFilePath(collectionPath, contentId)) {
+      continue;
+    }
+
+    const versions = await getVersions(
+      projectRoot,
+      collection,
+      contentId,
+      config
+    );
+    const latest = versions[0];
+    if (!latest) continue;
+
+    const storagePath = getVersionStoragePath(
+      projectRoot,
+      collection,
+      contentId,
+      config
+    );
+    const record = await readTrashRecord(storagePath);
+    const version = await getVersion(
+      projectRoot,
+      collection,
+      contentId,
+      latest.id,
+      config
+    );
+    const title = version?.frontmatter.title ?? version?.frontmatter.name;
+
+    entries.push({
+      collection,
+      contentId,
+      ...(typeof title === "string" ? { title } : {}),
+      ...(record ? { deletedAt: record.deletedAt, path: record.path } : {}),
+      hasImages: existsSync(join(storagePath, TRASH_IMAGES_FOLDER)),
+      versions: versions.length,
+      latest,
+    });
+  }
+
+  const deletedTime = (entry: TrashEntry) =>
+    new Date(entry.deletedAt ?? entry.latest.timestamp).getTime();
+  return entries.sort((a, b) => deletedTime(b) - deletedTime(a));
+}
+
+/**
+ * Restore a deleted entry from the trash
+ *
+ * Writes the newest version back to the entry's file and moves its
+ * images back next to it. The version history stays as it is. Entries
+ * removed by other means are restored to the path the collection's file
+ * pattern gives their ID.
+ *
+ * @param contentId - Content item ID (slug)
+ * @param options - Collection and version history options
+ * @param filePattern - File pattern of the collection (e.g. "{slug}.md")
+ * @returns WriteResult with the restored entry's ID and path
+ *
+ * @example
+ * ```typescript
+ * const result = await restoreFromTrash('my-post', {
+ *   projectRoot: '/project',
+ *   collection: 'blog',
+ *   collectionPath: '/project/src/content/blog',
+ *   versionHistoryConfig,
+ * }, '{slug}.md');
+ * ```
+ */
+export async function restoreFromTrash(
+  contentId: string,
+  options: TrashOptions,
+  filePattern = "{slug}.md"
+): Promise<WriteResult> {
+  const { projectRoot, collection, collectionPath, versionHistoryConfig } =
+    options;
+
+  try {
+    if (getContentFilePath(collectionPath, contentId)) {
+      return {
+        success: false,
+        error: `Content '${contentId}' already exists in '${collection}'`,
+      };
+    }
+
+    const [latest] = await getVersions(
+      projectRoot,
+      collection,
+      contentId,
+      versionHistoryConfig
+    );
+    const version =
+      latest &&
+      (await getVersion(
+        projectRoot,
+        collection,
+        contentId,
+        latest.id,
+        versionHistoryConfig
+      ));
+    if (!version) {
+      return {
+        success: false,
+        error: `No version of '${contentId}' to restore`,
+      };
+    }
+
+    const storagePath = getVersionStoragePath(
+      projectRoot,
+      collection,
+      contentId,
+      versionHistoryConfig
+    );
+    const record = await readTrashRecord(storagePath);
+
+    // Files removed outside Writenex take the path of their ID
+    const fileName = basename(filePattern);
+    const defaultPath = /^index\.mdx?$/.test(fileName)
+      ? join(contentId, fileName)
+      : `${contentId}${extname(fileName) || ".md"}`;
+    const filePath = fromCollectionPath(
+      collectionPath,
+      record?.path ?? defaultPath
+    );
+    if (!filePath) {
+      return { success: false, error: "Invalid path in trash record" };
+    }
+
+    if (existsSync(filePath)) {
+      return {
+        success: false,
+        error: `File already exists: ${toCollectionPath(collectionPath, filePath)}`,
+      };
+    }
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, version.content, "utf-8");
+
+    const stash = join(storagePath, TRASH_IMAGES_FOLDER);
+    const imageFolder =
+      record?.images && fromCollectionPath(collectionPath, record.images);
+    if (imageFolder && existsSync(stash)) {
+      try {
+        if (existsSync(imageFolder)) {
+          await mergeFolder(stash, imageFolder);
+        } else {
+          await mkdir(dirname(imageFolder), { recursive: true });
+          await rename(stash, imageFolder);
+        }
+      } catch (error) {
+        console.warn(
+          `[writenex] Failed to restore images of ${collection}/${contentId}:`,
+          error
+        );
+      }
+    }
+
+    await rm(join(storagePath, TRASH_FILE), { force: true });
+
+    return { success: true, id: contentId, path: filePath };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to restore content: ${message}`,
+    };
+  }
+}
+
+/**
+ * Permanently delete an entry from the trash
+ *
+ * Removes its version history and kept images. Entries whose file
+ * exists are not in the trash and are left alone.
+ *
+ * @param contentId - Content item ID (slug)
+ * @param options - Collection and version history options
+ * @returns Result of the delete operation
+ */
+export async function deleteFromTrash(
+  contentId: string,
+  options: TrashOptions
+): Promise<VersionResult> {
+  const { projectRoot, collection, collectionPath, versionHistoryConfig } =
+    options;
+
+  if (getContentFilePath(collectionPath, contentId)) {
+    return {
+      success: false,
+      error: `Content '${contentId}' is not deleted`,
+    };
+  }
+
+  return removeVersionHistory(
+    projectRoot,
+    collection,
+    contentId,
+    versionHistoryConfig
+  );
+}
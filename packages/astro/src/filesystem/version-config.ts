@@ -20,7 +20,10 @@ import type {
   RestoreVersionOptions,
   RestoreResult,
 } from "@/types";
-import { DEFAULT_VERSION_HISTORY_CONFIG } from "@/config/defaults";
+import {
+  DEFAULT_VERSION_HISTORY_CONFIG,
+  applyRetentionDefaults,
+} from "@/config/defaults";
 import {
   saveVersion as coreSaveVersion,
   getVersions as coreGetVersions,
@@ -63,6 +66,10 @@ export function resolveVersionConfig(
       config.maxVersions ?? DEFAULT_VERSION_HISTORY_CONFIG.maxVersions,
     storagePath:
       config.storagePath ?? DEFAULT_VERSION_HISTORY_CONFIG.storagePath,
+    keyframeInterval:
+      config.keyframeInterval ??
+      DEFAULT_VERSION_HISTORY_CONFIG.keyframeInterval,
+    retention: applyRetentionDefaults(config.retention),
   };
 }
 
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Line diffs between version snapshots
+ *
+ * Version history stores most snapshots as a diff against the previous
+ * one instead of a full copy. A diff is the list of hunks that turn the
+ * base snapshot into the next, computed with the same line-based approach
+ * as the three-way merge.
+ *
+ * ## Diff file format (`{versionId}.delta`):
+ * ```json
+ * { "base": "2024-12-11T10-30-00.000Z", "hunks": [[12, 14, ["New line"]]] }
+ * ```
+ * Each hunk replaces base lines `start` to `end` (exclusive) with `lines`.
+ *
+ * @module @writenex/astro/filesystem/version-delta
+ */
+
+import { applyHunks, computeHunks } from "./merge";
+
+/**
+ * Stored hunk: base start, base end (exclusive) and replacement lines
+ */
+type StoredHunk = [number, number, string[]];
+
+/**
+ * Content of a diff file
+ */
+export interface VersionDelta {
+  /** ID of the version the diff applies to */
+  base: string;
+  /** Hunks ordered by base position */
+  hunks: StoredHunk[];
+}
+
+/**
+ * Create the diff that turns one snapshot into another
+ *
+ * @param baseId - ID of the base version
+ * @param base - Content of the base version
+ * @param content - Content to store
+ * @returns Diff of the content against the base
+ *
+ * @example
+ * ```typescript
+ * createDelta("v1", "# Title\n\nOld\n", "# Title\n\nNew\n");
+ * // { base: "v1", hunks: [[2, 3, ["New"]]] }
+ * ```
+ */
+export function createDelta(
+  baseId: string,
+  base: string,
+  content: string
+): VersionDelta {
+  const hunks = computeHunks(base.split("\n"), content.split("\n"));
+
+  return {
+    base: baseId,
+    hunks: hunks.map((hunk) => [hunk.baseStart, hunk.baseEnd, hunk.lines]),
+  };
+}
+
+/**
+ * Rebuild a snapshot from its base and diff
+ *
+ * @param base - Content of the base version
+ * @param delta - Diff of the snapshot
+ * @returns Snapshot content
+ * @throws Error if the diff does not fit the base
+ */
+export function applyDelta(base: string, delta: VersionDelta): string {
+  const lines = base.split("\n");
+  const hunks = delta.hunks.map(([baseStart, baseEnd, replacement]) => ({
+    baseStart,
+    baseEnd,
+    lines: replacement,
+  }));
+
+  let position = 0;
+  for (const hunk of hunks) {
+    if (hunk.baseStart < position || hunk.baseEnd > lines.length) {
+      throw new Error(`Version diff does not match its base ${delta.base}`);
+    }
+    position = hunk.baseEnd;
+  }
+
+  return applyHunks(lines, hunks, 0, lines.length).join("\n");
+}
+
+/**
+ * Parse the content of a diff file
+ *
+ * @param raw - File content
+ * @returns The diff
+ * @throws Error if the file is not a valid diff
+ */
+export function parseDelta(raw: string): VersionDelta {
+  const data = JSON.parse(raw) as Partial<VersionDelta>;
+  if (typeof data.base !== "string" || !Array.isArray(data.hunks)) {
+    throw new Error("Invalid version diff");
+  }
+  return data as VersionDelta;
+}
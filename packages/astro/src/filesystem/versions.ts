@@ -3,17 +3,22 @@
  *
  * This module provides functions for creating, reading, and managing
  * version history (shadow copies) of content files. Versions are stored
- * as markdown files in a hidden directory structure with a JSON manifest
- * tracking metadata.
+ * in a hidden directory structure with a JSON manifest tracking metadata.
+ *
+ * Every `keyframeInterval`th version is a full copy (keyframe); the others
+ * are line diffs against the previous version. Reading a version applies
+ * the diffs from its keyframe, and deleting one rebases the version that
+ * was stored against it.
  *
  * ## Storage Structure:
  * ```
  * .writenex/versions/
- * ├── .gitignore              # Contains "*" to exclude from Git
+ * ├── .gitignore                 # Contains "*" to exclude from Git
  * └── {collection}/
  *     └── {contentId}/
- *         ├── manifest.json   # Version metadata
- *         └── {timestamp}.md  # Version files
+ *         ├── manifest.json      # Version metadata
+ *         ├── {timestamp}.md     # Full copies
+ *         └── {timestamp}.delta  # Diffs (see version-delta.ts)
  * ```
  *
  * @module @writenex/astro/filesystem/versions
@@ -28,10 +33,15 @@ import {
   readdir,
   stat,
   unlink,
+  rename,
+  rm,
 } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import { join, basename } from "node:path";
+import { join, dirname, relative, sep } from "node:path";
 import matter from "gray-matter";
+import { detectDataFormat, parseEntry } from "./data";
+import { applyDelta, createDelta, parseDelta } from "./version-delta";
+import { applyRetentionDefaults } from "@/config/defaults";
 import type {
   VersionEntry,
   VersionManifest,
@@ -41,6 +51,8 @@ import type {
   SaveVersionOptions,
   RestoreVersionOptions,
   RestoreResult,
+  VersionStorageReport,
+  TimelineEntry,
 } from "@/types";
 
 // =============================================================================
@@ -53,7 +65,7 @@ const PREVIEW_MAX_LENGTH = 100;
 /** Default gitignore content for version storage */
 const GITIGNORE_CONTENT = "*\n";
 
-/** Frontmatter key for storing version label (prefixed to avoid conflicts) */
+/** Frontmatter key that stored version labels in earlier releases */
 const LABEL_FRONTMATTER_KEY = "_writenex_label";
 
 /** Lock timeout in milliseconds */
@@ -62,6 +74,9 @@ const LOCK_TIMEOUT_MS = 30000;
 /** Lock retry interval in milliseconds */
 const LOCK_RETRY_INTERVAL_MS = 50;
 
+/** Version file names: full copies and diffs */
+const VERSION_FILE_PATTERN = /^(.+)\.(md|delta)$/;
+
 // =============================================================================
 // Locking Mechanism
 // =============================================================================
@@ -267,6 +282,20 @@ export function getVersionFilePath(
   return join(storagePath, `${versionId}.md`);
 }
 
+/**
+ * Get the path to the diff file of a version stored as a diff.
+ *
+ * @param storagePath - Version storage directory path
+ * @param versionId - Version ID
+ * @returns Absolute path to version diff file
+ */
+export function getVersionDeltaPath(
+  storagePath: string,
+  versionId: string
+): string {
+  return join(storagePath, `${versionId}.delta`);
+}
+
 /**
  * Get the path to the manifest file for a content item.
  *
@@ -315,8 +344,9 @@ export function generatePreview(content: string): string {
 /**
  * Extract label from version file content.
  *
- * Reads the special _writenex_label frontmatter field that stores
- * the version label for recovery purposes.
+ * Labels are kept in the manifest. Versions saved by earlier releases
+ * also stored theirs in a special _writenex_label frontmatter field,
+ * which is still read for them.
  *
  * @param content - Full markdown content of version file
  * @returns Label string or undefined if not present
@@ -331,36 +361,12 @@ export function extractLabelFromContent(content: string): string | undefined {
   }
 }
 
-/**
- * Inject label into content as frontmatter for persistence.
- *
- * Adds the _writenex_label field to frontmatter so the label
- * can be recovered if the manifest is lost or corrupted.
- *
- * @param content - Original markdown content
- * @param label - Label to inject
- * @returns Content with label injected in frontmatter
- */
-export function injectLabelIntoContent(content: string, label: string): string {
-  try {
-    const { data, content: body } = matter(content);
-
-    // Add label to frontmatter
-    const newData = { ...data, [LABEL_FRONTMATTER_KEY]: label };
-
-    // Reconstruct the file with updated frontmatter
-    return matter.stringify(body, newData);
-  } catch {
-    // If parsing fails, prepend frontmatter with just the label
-    return `---\n${LABEL_FRONTMATTER_KEY}: "${label}"\n---\n\n${content}`;
-  }
-}
-
 /**
  * Remove the internal label field from content for user-facing operations.
  *
- * Strips the _writenex_label field from frontmatter when returning
- * content to users (e.g., during restore).
+ * Strips the _writenex_label field that versions saved by earlier
+ * releases carry from frontmatter when returning content to users
+ * (e.g., during restore). Other content is returned unchanged.
  *
  * @param content - Content that may contain internal label field
  * @returns Content with internal label field removed
@@ -560,28 +566,37 @@ export async function recoverManifest(
 
   try {
     const files = await readdir(storagePath);
-    const versionFiles = files.filter(
-      (f) => f.endsWith(".md") && f !== "manifest.json"
-    );
 
-    for (const file of versionFiles) {
-      const versionId = basename(file, ".md");
+    for (const file of files) {
+      const match = VERSION_FILE_PATTERN.exec(file);
+      if (!match) continue;
+
+      const versionId = match[1]!;
       const filePath = join(storagePath, file);
 
+      // A version left in both forms by an interrupted write
+      if (manifest.versions.some((v) => v.id === versionId)) continue;
+
       try {
-        const content = await readFile(filePath, "utf-8");
+        const content = await readVersionContent(storagePath, versionId);
         const stats = await stat(filePath);
         const timestamp = parseVersionId(versionId);
 
-        if (timestamp) {
-          // Extract label from content if present (for recovery)
+        if (timestamp && content !== null) {
+          // Only versions saved by earlier releases carry their label
           const label = extractLabelFromContent(content);
+          const base =
+            match[2] === "delta"
+              ? parseDelta(await readFile(filePath, "utf-8")).base
+              : undefined;
 
           const entry: VersionEntry = {
             id: versionId,
             timestamp: timestamp.toISOString(),
             preview: generatePreview(content),
-            size: stats.size,
+            size: Buffer.byteLength(content, "utf-8"),
+            storedSize: stats.size,
+            ...(base ? { base } : {}),
             ...(label ? { label } : {}),
           };
 
@@ -636,6 +651,184 @@ export async function getOrRecoverManifest(
   return recoverManifest(storagePath, collection, contentId);
 }
 
+// =============================================================================
+// Version Storage
+// =============================================================================
+
+/**
+ * Read the content of a version, applying diffs from its keyframe.
+ *
+ * @param storagePath - Version storage directory path
+ * @param versionId - Version ID
+ * @returns Stored content (with any injected label) or null if not found
+ * @throws Error if a diff or its base is missing or corrupted
+ */
+export async function readVersionContent(
+  storagePath: string,
+  versionId: string
+): Promise<string | null> {
+  const deltas = [];
+  const seen = new Set<string>();
+  let id = versionId;
+
+  // Walk back to the keyframe, then replay the diffs forward
+  while (!existsSync(getVersionFilePath(storagePath, id))) {
+    const deltaPath = getVersionDeltaPath(storagePath, id);
+    if (!existsSync(deltaPath)) {
+      if (id === versionId) return null;
+      throw new Error(`Base version not found: ${id}`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`Version diffs form a cycle at ${id}`);
+    }
+    seen.add(id);
+
+    const delta = parseDelta(await readFile(deltaPath, "utf-8"));
+    deltas.push(delta);
+    id = delta.base;
+  }
+
+  let content = await readFile(getVersionFilePath(storagePath, id), "utf-8");
+  for (const delta of deltas.reverse()) {
+    content = applyDelta(content, delta);
+  }
+  return content;
+}
+
+/**
+ * Check if a version is stored, as a full copy or a diff.
+ *
+ * @param storagePath - Version storage directory path
+ * @param versionId - Version ID
+ * @returns True if the version exists
+ */
+function versionExists(storagePath: string, versionId: string): boolean {
+  return (
+    existsSync(getVersionFilePath(storagePath, versionId)) ||
+    existsSync(getVersionDeltaPath(storagePath, versionId))
+  );
+}
+
+/**
+ * Write the content of a version.
+ *
+ * With a base, the version is stored as a diff against it, unless the
+ * diff is not smaller than the content. Any previous file of the version
+ * in the other form is removed.
+ *
+ * @param storagePath - Version storage directory path
+ * @param versionId - Version ID
+ * @param content - Content to store
+ * @param base - Version to store a diff against (null for a full copy)
+ * @returns Storage fields for the version entry
+ */
+async function writeVersionContent(
+  storagePath: string,
+  versionId: string,
+  content: string,
+  base: { id: string; content: string } | null
+): Promise<Pick<VersionEntry, "base" | "storedSize">> {
+  const size = Buffer.byteLength(content, "utf-8");
+
+  if (base) {
+    const delta = JSON.stringify(createDelta(base.id, base.content, content));
+    const deltaSize = Buffer.byteLength(delta, "utf-8");
+
+    if (deltaSize < size) {
+      await writeFile(
+        getVersionDeltaPath(storagePath, versionId),
+        delta,
+        "utf-8"
+      );
+      await rm(getVersionFilePath(storagePath, versionId), { force: true });
+      return { base: base.id, storedSize: deltaSize };
+    }
+  }
+
+  await writeFile(getVersionFilePath(storagePath, versionId), content, "utf-8");
+  await rm(getVersionDeltaPath(storagePath, versionId), { force: true });
+  return { base: undefined, storedSize: size };
+}
+
+/**
+ * Apply the storage fields of a version to its manifest entry.
+ *
+ * @param entry - Manifest entry to update
+ * @param stored - Result of writeVersionContent()
+ */
+function setStorage(
+  entry: VersionEntry,
+  stored: Pick<VersionEntry, "base" | "storedSize">
+): void {
+  entry.storedSize = stored.storedSize;
+  if (stored.base) {
+    entry.base = stored.base;
+  } else {
+    delete entry.base;
+  }
+}
+
+/**
+ * Count the diffs between a version and its keyframe.
+ *
+ * @param manifest - Version manifest
+ * @param versionId - Version ID
+ * @returns Number of diffs to apply (0 for a full copy)
+ */
+function getChainLength(manifest: VersionManifest, versionId: string): number {
+  let length = 0;
+  let entry = manifest.versions.find((v) => v.id === versionId);
+
+  while (entry?.base && length < manifest.versions.length) {
+    const base: string = entry.base;
+    length++;
+    entry = manifest.versions.find((v) => v.id === base);
+  }
+  return length;
+}
+
+/**
+ * Delete the files of a version.
+ *
+ * Versions stored as a diff against it are first rewritten against its
+ * own base, or as full copies if it is a keyframe, so they stay readable.
+ * The caller removes the entry from the manifest.
+ *
+ * @param storagePath - Version storage directory path
+ * @param manifest - Version manifest (dependent entries are updated)
+ * @param versionId - Version ID
+ */
+async function removeVersionFiles(
+  storagePath: string,
+  manifest: VersionManifest,
+  versionId: string
+): Promise<void> {
+  const entry = manifest.versions.find((v) => v.id === versionId);
+  const dependents = manifest.versions.filter((v) => v.base === versionId);
+
+  if (dependents.length > 0) {
+    const baseContent = entry?.base
+      ? await readVersionContent(storagePath, entry.base)
+      : null;
+    const base =
+      entry?.base && baseContent !== null
+        ? { id: entry.base, content: baseContent }
+        : null;
+
+    for (const dependent of dependents) {
+      const content = await readVersionContent(storagePath, dependent.id);
+      if (content === null) continue;
+      setStorage(
+        dependent,
+        await writeVersionContent(storagePath, dependent.id, content, base)
+      );
+    }
+  }
+
+  await rm(getVersionFilePath(storagePath, versionId), { force: true });
+  await rm(getVersionDeltaPath(storagePath, versionId), { force: true });
+}
+
 // =============================================================================
 // Version CRUD Operations
 // =============================================================================
@@ -707,50 +900,52 @@ export async function saveVersion(
         contentId
       );
 
-      // Check if content is identical to last version (if skipIfIdentical is true)
-      if (skipIfIdentical && manifest.versions.length > 0) {
-        const lastVersion = manifest.versions[0];
-        if (lastVersion) {
-          const lastVersionPath = getVersionFilePath(
-            storagePath,
-            lastVersion.id
-          );
-          if (existsSync(lastVersionPath)) {
-            try {
-              const lastContent = await readFile(lastVersionPath, "utf-8");
-              if (lastContent === content) {
-                return { success: true, version: lastVersion };
-              }
-            } catch {
-              // If we can't read the last version, proceed with saving
-            }
-          }
+      // Read the last version: compared when skipping identical content,
+      // and the base of the new version's diff
+      const lastVersion = manifest.versions[0];
+      let lastContent: string | null = null;
+      if (lastVersion) {
+        try {
+          lastContent = await readVersionContent(storagePath, lastVersion.id);
+        } catch {
+          // If we can't read the last version, save a full copy
         }
       }
 
+      // Check if content is identical to last version (if skipIfIdentical is true)
+      if (skipIfIdentical && lastVersion && lastContent === content) {
+        return { success: true, version: lastVersion };
+      }
+
       // Generate version ID and create version file
       // Use the same timestamp for both id and timestamp to ensure consistency
       const now = new Date();
       const versionId = now.toISOString().replace(/:/g, "-");
-      const versionPath = getVersionFilePath(storagePath, versionId);
 
-      // If label is provided, inject it into content for recovery purposes
-      const contentToSave = label
-        ? injectLabelIntoContent(content, label)
-        : content;
+      // Store a diff unless the chain since the last keyframe is full
+      const base =
+        lastVersion &&
+        lastContent !== null &&
+        getChainLength(manifest, lastVersion.id) + 1 < config.keyframeInterval
+          ? { id: lastVersion.id, content: lastContent }
+          : null;
 
       // Write version file
-      await writeFile(versionPath, contentToSave, "utf-8");
-
-      // Get file stats for size
-      const stats = await stat(versionPath);
+      const stored = await writeVersionContent(
+        storagePath,
+        versionId,
+        content,
+        base
+      );
 
       // Create version entry
       const entry: VersionEntry = {
         id: versionId,
         timestamp: now.toISOString(),
         preview: generatePreview(content),
-        size: stats.size,
+        size: Buffer.byteLength(content, "utf-8"),
+        storedSize: stored.storedSize,
+        ...(stored.base ? { base: stored.base } : {}),
         ...(label ? { label } : {}),
       };
 
@@ -887,25 +1082,23 @@ export async function getVersion(
       contentId,
       config
     );
-    const versionPath = getVersionFilePath(storagePath, versionId);
-
-    // Check if version file exists
-    if (!existsSync(versionPath)) {
+    // Read version file (applying diffs for versions stored as one)
+    const rawContent = await readVersionContent(storagePath, versionId);
+    if (rawContent === null) {
       return null;
     }
 
-    // Read version file
-    const rawContent = await readFile(versionPath, "utf-8");
-    const stats = await stat(versionPath);
-
-    // Extract label from content (stored for recovery)
+    // Versions saved by earlier releases carry their label in the content
     const labelFromContent = extractLabelFromContent(rawContent);
 
     // Strip internal label field before returning to user
     const content = stripLabelFromContent(rawContent);
 
-    // Parse frontmatter from cleaned content
-    const { data: frontmatter, content: body } = matter(content);
+    // Parse frontmatter from cleaned content (data entries are all data)
+    const { frontmatter, body } = parseEntry(
+      content,
+      detectDataFormat(content)
+    );
 
     // Get timestamp from version ID
     const timestamp = parseVersionId(versionId);
@@ -922,7 +1115,7 @@ export async function getVersion(
       id: versionId,
       timestamp: timestamp.toISOString(),
       preview: generatePreview(content),
-      size: stats.size,
+      size: Buffer.byteLength(rawContent, "utf-8"),
       content,
       frontmatter,
       body: body.trim(),
@@ -978,10 +1171,8 @@ export async function deleteVersion(
   // Use lock to prevent concurrent manifest modifications
   return withLock(storagePath, async () => {
     try {
-      const versionPath = getVersionFilePath(storagePath, versionId);
-
       // Check if version file exists
-      if (!existsSync(versionPath)) {
+      if (!versionExists(storagePath, versionId)) {
         return { success: false, error: `Version not found: ${versionId}` };
       }
 
@@ -996,8 +1187,8 @@ export async function deleteVersion(
       const entryIndex = manifest.versions.findIndex((v) => v.id === versionId);
       const entry = entryIndex >= 0 ? manifest.versions[entryIndex] : undefined;
 
-      // Delete version file
-      await unlink(versionPath);
+      // Delete version file (rebasing versions stored against it)
+      await removeVersionFiles(storagePath, manifest, versionId);
 
       // Update manifest
       if (entryIndex >= 0) {
@@ -1015,6 +1206,77 @@ export async function deleteVersion(
   });
 }
 
+/**
+ * Pin or unpin a version.
+ *
+ * Pinned versions are never removed by pruning. The pin is kept in the
+ * manifest only, so it does not survive manifest recovery.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param collection - Collection name
+ * @param contentId - Content item ID (slug)
+ * @param versionId - Version ID to pin or unpin
+ * @param pinned - Whether the version is pinned
+ * @param config - Version history configuration
+ * @returns Result with the updated version entry
+ *
+ * @example
+ * ```typescript
+ * const result = await setVersionPinned(
+ *   '/project',
+ *   'blog',
+ *   'my-post',
+ *   '2024-12-11T10-30-00-000Z',
+ *   true,
+ *   config
+ * );
+ * ```
+ */
+export async function setVersionPinned(
+  projectRoot: string,
+  collection: string,
+  contentId: string,
+  versionId: string,
+  pinned: boolean,
+  config: Required<VersionHistoryConfig>
+): Promise<VersionResult> {
+  const storagePath = getVersionStoragePath(
+    projectRoot,
+    collection,
+    contentId,
+    config
+  );
+
+  return withLock(storagePath, async () => {
+    try {
+      const manifest = await getOrRecoverManifest(
+        storagePath,
+        collection,
+        contentId
+      );
+      const entry = manifest.versions.find((v) => v.id === versionId);
+
+      if (!entry) {
+        return { success: false, error: `Version not found: ${versionId}` };
+      }
+
+      if (pinned) {
+        entry.pinned = true;
+      } else {
+        delete entry.pinned;
+      }
+      manifest.updatedAt = new Date().toISOString();
+      await writeManifest(storagePath, manifest);
+
+      return { success: true, version: entry };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[writenex] Failed to pin version:`, error);
+      return { success: false, error: `Failed to pin version: ${message}` };
+    }
+  });
+}
+
 /**
  * Clear all versions for a content item.
  *
@@ -1063,9 +1325,7 @@ export async function clearVersions(
     try {
       // Get all version files
       const files = await readdir(storagePath);
-      const versionFiles = files.filter(
-        (f) => f.endsWith(".md") && f !== "manifest.json"
-      );
+      const versionFiles = files.filter((f) => VERSION_FILE_PATTERN.test(f));
 
       // Delete all version files
       for (const file of versionFiles) {
@@ -1091,27 +1351,159 @@ export async function clearVersions(
 }
 
 /**
- * Prune old versions to maintain the maximum limit.
+ * Move the version history of a content item to a new content ID.
  *
- * Deletes the oldest unlabeled versions when the count exceeds maxVersions.
- * Labeled versions are preserved regardless of count.
+ * Used when content is renamed. If history already exists under the new
+ * ID (e.g. from an entry deleted earlier), both histories are combined
+ * and the manifest is rebuilt from the version files.
  *
  * @param projectRoot - Absolute path to project root
  * @param collection - Collection name
- * @param contentId - Content item ID (slug)
+ * @param fromId - Current content item ID
+ * @param toId - New content item ID
  * @param config - Version history configuration
- * @returns Result of the prune operation
+ * @returns Result of the move operation
  *
  * @example
  * ```typescript
- * const result = await pruneVersions(
+ * const result = await moveVersions(
  *   '/project',
  *   'blog',
  *   'my-post',
+ *   'my-renamed-post',
  *   { enabled: true, maxVersions: 20, storagePath: '.writenex/versions' }
  * );
  * ```
  */
+export async function moveVersions(
+  projectRoot: string,
+  collection: string,
+  fromId: string,
+  toId: string,
+  config: Required<VersionHistoryConfig>
+): Promise<VersionResult> {
+  const fromPath = getVersionStoragePath(
+    projectRoot,
+    collection,
+    fromId,
+    config
+  );
+  const toPath = getVersionStoragePath(projectRoot, collection, toId, config);
+
+  if (fromId === toId || !existsSync(fromPath)) {
+    return { success: true };
+  }
+
+  return withLock(fromPath, () =>
+    withLock(toPath, async () => {
+      try {
+        if (!existsSync(toPath)) {
+          await ensureStorageDirectory(dirname(toPath));
+          await rename(fromPath, toPath);
+
+          const manifest = await getOrRecoverManifest(toPath, collection, toId);
+          await writeManifest(toPath, { ...manifest, contentId: toId });
+          return { success: true };
+        }
+
+        // Combine with the existing history (version IDs are unique)
+        const files = await readdir(fromPath);
+        for (const file of files) {
+          if (VERSION_FILE_PATTERN.test(file)) {
+            await rename(join(fromPath, file), join(toPath, file));
+          }
+        }
+        await rm(fromPath, { recursive: true, force: true });
+        await recoverManifest(toPath, collection, toId);
+
+        return { success: true };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[writenex] Failed to move versions:`, error);
+        return { success: false, error: `Failed to move versions: ${message}` };
+      }
+    })
+  );
+}
+
+/**
+ * Select the versions that pruning removes.
+ *
+ * Without retention rules, the oldest versions beyond `maxVersions` are
+ * removed. With retention rules, every version saved within
+ * `keepAllHours` is kept, then the newest of each hour within
+ * `hourlyDays` and the newest of each day (UTC) within `dailyDays`.
+ * Labeled and pinned versions are always kept and do not count towards
+ * `maxVersions`; the newest version is always kept too, and counts
+ * towards the limit unless it is labeled or pinned.
+ *
+ * @param versions - Version entries
+ * @param config - Version history configuration
+ * @param now - Time to measure version ages from (default: now)
+ * @returns Entries to remove
+ *
+ * @example
+ * ```typescript
+ * // Keep everything from today, hourly for a week, daily for a month
+ * const toDelete = selectVersionsToPrune(manifest.versions, {
+ *   ...config,
+ *   retention: { enabled: true, keepAllHours: 24, hourlyDays: 7, dailyDays: 30 },
+ * });
+ * ```
+ */
+export function selectVersionsToPrune(
+  versions: VersionEntry[],
+  config: Required<VersionHistoryConfig>,
+  now: Date = new Date()
+): VersionEntry[] {
+  // Newest first
+  const sorted = [...versions].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+  const prunable = sorted.filter(
+    (v, index) => index > 0 && !v.label && !v.pinned
+  );
+  const prunableSet = new Set(prunable);
+  const retention = applyRetentionDefaults(config.retention);
+
+  if (!retention.enabled) {
+    // The newest version counts towards the limit
+    const limit =
+      sorted[0]?.label || sorted[0]?.pinned
+        ? config.maxVersions
+        : config.maxVersions - 1;
+    return prunable.slice(Math.max(limit, 0));
+  }
+
+  const hour = 60 * 60 * 1000;
+  const day = 24 * hour;
+  const keptHours = new Set<number>();
+  const keptDays = new Set<string>();
+  const toDelete: VersionEntry[] = [];
+
+  for (const version of sorted) {
+    const time = new Date(version.timestamp);
+    const age = now.getTime() - time.getTime();
+    const hourKey = Math.floor(time.getTime() / hour);
+    const dayKey = version.timestamp.slice(0, 10);
+
+    const keep =
+      !prunableSet.has(version) ||
+      age <= retention.keepAllHours * hour ||
+      (age <= retention.hourlyDays * day && !keptHours.has(hourKey)) ||
+      (age <= retention.dailyDays * day && !keptDays.has(dayKey));
+
+    if (keep) {
+      keptHours.add(hourKey);
+      keptDays.add(dayKey);
+    } else {
+      toDelete.push(version);
+    }
+  }
+
+  return toDelete;
+}
+
 /**
  * Internal prune function that assumes lock is already held.
  *
@@ -1135,47 +1527,28 @@ async function pruneVersionsInternal(
       return { success: true };
     }
 
-    // Separate labeled and unlabeled versions
-    const labeledVersions = manifest.versions.filter((v) => v.label);
-    const unlabeledVersions = manifest.versions.filter((v) => !v.label);
-
     // Check if pruning is needed
-    if (unlabeledVersions.length <= config.maxVersions) {
+    const toDelete = selectVersionsToPrune(manifest.versions, config);
+    if (toDelete.length === 0) {
       return { success: true };
     }
 
-    // Sort unlabeled versions by timestamp (oldest first for deletion)
-    const sortedUnlabeled = [...unlabeledVersions].sort(
-      (a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    // Calculate how many to delete
-    const toDelete = sortedUnlabeled.slice(
-      0,
-      unlabeledVersions.length - config.maxVersions
-    );
-
-    // Delete old version files
-    for (const version of toDelete) {
-      const versionPath = getVersionFilePath(storagePath, version.id);
+    // Delete old version files (oldest first, rebasing later versions)
+    for (const version of [...toDelete].reverse()) {
       try {
-        if (existsSync(versionPath)) {
-          await unlink(versionPath);
-        }
+        await removeVersionFiles(storagePath, manifest, version.id);
       } catch {
         // Ignore errors for individual files
       }
     }
 
-    // Update manifest - keep labeled + remaining unlabeled
-    const remainingUnlabeled = sortedUnlabeled.slice(
-      unlabeledVersions.length - config.maxVersions
-    );
-    manifest.versions = [...labeledVersions, ...remainingUnlabeled].sort(
-      (a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
+    // Update manifest - keep the remaining versions, newest first
+    manifest.versions = manifest.versions
+      .filter((v) => !toDelete.includes(v))
+      .sort(
+        (a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
     manifest.updatedAt = new Date().toISOString();
 
     await writeManifest(storagePath, manifest);
@@ -1188,6 +1561,30 @@ async function pruneVersionsInternal(
   }
 }
 
+/**
+ * Prune old versions to maintain the maximum limit.
+ *
+ * Deletes the oldest unlabeled versions when the count exceeds maxVersions,
+ * or the versions outside the retention rules when they are enabled (see
+ * {@link selectVersionsToPrune}). Labeled and pinned versions are
+ * preserved regardless of count.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param collection - Collection name
+ * @param contentId - Content item ID (slug)
+ * @param config - Version history configuration
+ * @returns Result of the prune operation
+ *
+ * @example
+ * ```typescript
+ * const result = await pruneVersions(
+ *   '/project',
+ *   'blog',
+ *   'my-post',
+ *   { enabled: true, maxVersions: 20, storagePath: '.writenex/versions' }
+ * );
+ * ```
+ */
 export async function pruneVersions(
   projectRoot: string,
   collection: string,
@@ -1337,3 +1734,317 @@ export async function restoreVersion(
     };
   }
 }
+
+// =============================================================================
+// Storage Maintenance
+// =============================================================================
+
+/**
+ * List the content items that have a version history.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param config - Version history configuration
+ * @returns Collection and content ID of each history
+ */
+export async function listVersionHistories(
+  projectRoot: string,
+  config: Required<VersionHistoryConfig>
+): Promise<Array<{ collection: string; contentId: string }>> {
+  const storageRoot = join(projectRoot, config.storagePath);
+  const histories: Array<{ collection: string; contentId: string }> = [];
+
+  if (!existsSync(storageRoot)) {
+    return histories;
+  }
+
+  // Content IDs may contain slashes, so histories can be nested
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const [collection, ...idParts] = relative(storageRoot, dir).split(sep);
+
+    if (
+      collection &&
+      idParts.length > 0 &&
+      entries.some(
+        (e) =>
+          e.isFile() &&
+          (e.name === "manifest.json" || VERSION_FILE_PATTERN.test(e.name))
+      )
+    ) {
+      histories.push({ collection, contentId: idParts.join("/") });
+    }
+
+    for (const entry of entries) {
+      // Dot folders hold data of a history (e.g. images of a deleted entry)
+      if (entry.isDirectory() && !entry.name.startsWith(".")) {
+        await walk(join(dir, entry.name));
+      }
+    }
+  };
+
+  await walk(storageRoot);
+  return histories;
+}
+
+/**
+ * Rewrite the version history of a content item as keyframes and diffs.
+ *
+ * Brings histories saved as full copies (before diffs were introduced,
+ * or with another `keyframeInterval`) in line with the configuration.
+ * A `keyframeInterval` of 1 expands every version back to a full copy.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param collection - Collection name
+ * @param contentId - Content item ID (slug)
+ * @param config - Version history configuration
+ * @returns Result of the compact operation
+ *
+ * @example
+ * ```typescript
+ * const result = await compactVersions(
+ *   '/project',
+ *   'blog',
+ *   'my-post',
+ *   { enabled: true, maxVersions: 20, storagePath: '.writenex/versions', keyframeInterval: 10 }
+ * );
+ * ```
+ */
+export async function compactVersions(
+  projectRoot: string,
+  collection: string,
+  contentId: string,
+  config: Required<VersionHistoryConfig>
+): Promise<VersionResult> {
+  const storagePath = getVersionStoragePath(
+    projectRoot,
+    collection,
+    contentId,
+    config
+  );
+
+  if (!existsSync(storagePath)) {
+    return { success: true };
+  }
+
+  return withLock(storagePath, async () => {
+    try {
+      const manifest = await getOrRecoverManifest(
+        storagePath,
+        collection,
+        contentId
+      );
+
+      // Read every version before rewriting any of them
+      const versions = [...manifest.versions].sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+      const contents = new Map<string, string>();
+      for (const version of versions) {
+        const content = await readVersionContent(storagePath, version.id);
+        if (content !== null) {
+          contents.set(version.id, content);
+        }
+      }
+
+      // Oldest first: each version is a diff against the one before it
+      let previous: { id: string; content: string } | null = null;
+      let chainLength = 0;
+      for (const version of versions) {
+        const content = contents.get(version.id);
+        if (content === undefined) continue;
+
+        const base =
+          previous && chainLength + 1 < config.keyframeInterval
+            ? previous
+            : null;
+        const stored = await writeVersionContent(
+          storagePath,
+          version.id,
+          content,
+          base
+        );
+        setStorage(version, stored);
+        version.size = Buffer.byteLength(content, "utf-8");
+
+        chainLength = stored.base ? chainLength + 1 : 0;
+        previous = { id: version.id, content };
+      }
+
+      manifest.updatedAt = new Date().toISOString();
+      await writeManifest(storagePath, manifest);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[writenex] Failed to compact versions:`, error);
+      return {
+        success: false,
+        error: `Failed to compact versions: ${message}`,
+      };
+    }
+  });
+}
+
+/**
+ * Report the version storage used by each collection.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param config - Version history configuration
+ * @returns Storage use per collection, sorted by collection name
+ *
+ * @example
+ * ```typescript
+ * const report = await getVersionStorageReport('/project', config);
+ * for (const { collection, size, storedSize } of report) {
+ *   console.log(`${collection}: ${storedSize} of ${size} bytes`);
+ * }
+ * ```
+ */
+export async function getVersionStorageReport(
+  projectRoot: string,
+  config: Required<VersionHistoryConfig>
+): Promise<VersionStorageReport[]> {
+  const reports = new Map<string, VersionStorageReport>();
+
+  for (const { collection, contentId } of await listVersionHistories(
+    projectRoot,
+    config
+  )) {
+    const manifest = await getOrRecoverManifest(
+      getVersionStoragePath(projectRoot, collection, contentId, config),
+      collection,
+      contentId
+    );
+
+    let report = reports.get(collection);
+    if (!report) {
+      report = {
+        collection,
+        entries: 0,
+        versions: 0,
+        keyframes: 0,
+        deltas: 0,
+        size: 0,
+        storedSize: 0,
+      };
+      reports.set(collection, report);
+    }
+
+    report.entries++;
+    for (const version of manifest.versions) {
+      report.versions++;
+      if (version.base) {
+        report.deltas++;
+      } else {
+        report.keyframes++;
+      }
+      report.size += version.size;
+      // Versions saved before diffs were introduced are full copies
+      report.storedSize += version.storedSize ?? version.size;
+    }
+  }
+
+  return [...reports.values()].sort((a, b) =>
+    a.collection.localeCompare(b.collection)
+  );
+}
+
+/**
+ * List recent versions across all content items.
+ *
+ * Includes the histories of deleted entries, whose versions stay in
+ * storage until their history is removed.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param config - Version history configuration
+ * @param options - Collection to limit the timeline to, and number of versions
+ * @returns Versions with their collection and content ID, newest first
+ *
+ * @example
+ * ```typescript
+ * const timeline = await getVersionTimeline('/project', config, { limit: 20 });
+ * for (const { collection, contentId, timestamp } of timeline) {
+ *   console.log(`${timestamp} ${collection}/${contentId}`);
+ * }
+ * ```
+ */
+export async function getVersionTimeline(
+  projectRoot: string,
+  config: Required<VersionHistoryConfig>,
+  options: { collection?: string; limit?: number } = {}
+): Promise<TimelineEntry[]> {
+  const { collection: only, limit = 50 } = options;
+  const timeline: TimelineEntry[] = [];
+
+  if (!config.enabled) {
+    return timeline;
+  }
+
+  for (const { collection, contentId } of await listVersionHistories(
+    projectRoot,
+    config
+  )) {
+    if (only && collection !== only) continue;
+
+    const manifest = await getOrRecoverManifest(
+      getVersionStoragePath(projectRoot, collection, contentId, config),
+      collection,
+      contentId
+    );
+    for (const version of manifest.versions) {
+      timeline.push({ ...version, collection, contentId });
+    }
+  }
+
+  return timeline
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Remove the whole version history of a content item.
+ *
+ * Unlike {@link clearVersions}, also removes the storage directory and
+ * everything kept in it, such as the images of a deleted entry.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param collection - Collection name
+ * @param contentId - Content item ID (slug)
+ * @param config - Version history configuration
+ * @returns Result of the remove operation
+ */
+export async function removeVersionHistory(
+  projectRoot: string,
+  collection: string,
+  contentId: string,
+  config: Required<VersionHistoryConfig>
+): Promise<VersionResult> {
+  const storagePath = getVersionStoragePath(
+    projectRoot,
+    collection,
+    contentId,
+    config
+  );
+
+  if (!existsSync(storagePath)) {
+    return { success: true };
+  }
+
+  return withLock(storagePath, async () => {
+    try {
+      await rm(storagePath, { recursive: true, force: true });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[writenex] Failed to remove version history:`, error);
+      return {
+        success: false,
+        error: `Failed to remove version history: ${message}`,
+      };
+    }
+  });
+}
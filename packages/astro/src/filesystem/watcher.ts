@@ -5,25 +5,51 @@
  * content files are modified outside of the Writenex editor
  * (e.g., in VS Code or another editor).
  *
+ * Besides the content directory, the watcher follows every configured
+ * collection path (which may live outside `src/content`, e.g. in a
+ * monorepo sibling) and image storage directories, and maps each event
+ * to the collection that owns the file.
+ *
  * @module @writenex/astro/filesystem/watcher
  */
 
 import { watch, type FSWatcher } from "chokidar";
 import { stat } from "node:fs/promises";
-import { join } from "node:path";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { isValidImageFile } from "./images";
+import { isContentFile } from "./reader";
 
 /**
  * File change event types
  */
 export type FileChangeType = "add" | "change" | "unlink";
 
+/**
+ * Kind of file that changed
+ */
+export type FileKind = "content" | "image";
+
 /**
  * File change event
  */
 export interface FileChangeEvent {
   type: FileChangeType;
+  /** Whether a content file or an image changed */
+  kind: FileKind;
   path: string;
   collection: string;
+  /** Absolute path to the collection directory the file belongs to */
+  collectionPath: string;
+}
+
+/**
+ * Collection directory to watch
+ */
+export interface WatchedCollection {
+  /** Collection name reported in change events */
+  name: string;
+  /** Collection directory (relative to project root, or absolute) */
+  path: string;
 }
 
 /**
@@ -36,18 +62,52 @@ export interface WatcherOptions {
   debounceMs?: number;
   /** Patterns to ignore */
   ignored?: string[];
+  /** Configured collections, matched before the content directory */
+  collections?: WatchedCollection[];
+  /** Image storage directories laid out as {path}/{collection}/{file} */
+  imagePaths?: string[];
+}
+
+/**
+ * Check whether a path is inside (or equal to) a directory
+ *
+ * @param dir - Absolute directory path
+ * @param filePath - Absolute path to check
+ * @returns True if filePath is dir or one of its descendants
+ */
+export function isWithin(dir: string, filePath: string): boolean {
+  const rel = relative(dir, filePath);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Get the first directory below a root that contains a file
+ *
+ * @param root - Absolute root directory
+ * @param filePath - Absolute file path
+ * @returns Directory name, or null if the file is not in a subdirectory of root
+ */
+function firstSegment(root: string, filePath: string): string | null {
+  if (!isWithin(root, filePath)) {
+    return null;
+  }
+
+  const parts = relative(root, filePath).split(/[/\\]/);
+  return parts.length > 1 ? (parts[0] ?? null) : null;
 }
 
 /**
  * Content file watcher
  *
- * Watches the src/content directory for changes and emits events
- * when files are added, modified, or deleted.
+ * Watches the src/content directory, configured collection paths and
+ * image storage paths for changes and emits events when files are added,
+ * modified, or deleted.
  */
 export class ContentWatcher {
   private watcher: FSWatcher | null = null;
-  private projectRoot: string;
-  private contentDir: string;
+  private contentRoot: string;
+  private collectionRoots: WatchedCollection[];
+  private imageRoots: string[];
   private options: WatcherOptions;
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
 
@@ -56,13 +116,47 @@ export class ContentWatcher {
     contentDir: string = "src/content",
     options: WatcherOptions = {}
   ) {
-    this.projectRoot = projectRoot;
-    this.contentDir = contentDir;
+    this.contentRoot = resolve(projectRoot, contentDir);
     this.options = {
       debounceMs: 100,
       ignored: ["**/node_modules/**", "**/.git/**"],
       ...options,
     };
+
+    // Most specific path first so nested collections win
+    this.collectionRoots = (options.collections ?? [])
+      .map((collection) => ({
+        name: collection.name,
+        path: resolve(projectRoot, collection.path),
+      }))
+      .sort((a, b) => b.path.length - a.path.length);
+
+    this.imageRoots = (options.imagePaths ?? []).map((path) =>
+      resolve(projectRoot, path)
+    );
+  }
+
+  /**
+   * Get the directories being watched
+   *
+   * Duplicates and directories nested inside another watched directory
+   * are dropped so each file is only reported once.
+   *
+   * @returns Absolute directory paths
+   */
+  getWatchPaths(): string[] {
+    const candidates = [
+      ...new Set([
+        this.contentRoot,
+        ...this.collectionRoots.map((collection) => collection.path),
+        ...this.imageRoots,
+      ]),
+    ];
+
+    return candidates.filter(
+      (path) =>
+        !candidates.some((other) => other !== path && isWithin(other, path))
+    );
   }
 
   /**
@@ -73,9 +167,7 @@ export class ContentWatcher {
       return; // Already watching
     }
 
-    const watchPath = join(this.projectRoot, this.contentDir);
-
-    this.watcher = watch(watchPath, {
+    this.watcher = watch(this.getWatchPaths(), {
       ignored: this.options.ignored,
       persistent: true,
       ignoreInitial: true,
@@ -114,8 +206,13 @@ export class ContentWatcher {
    * Handle a file change event
    */
   private handleChange(type: FileChangeType, filePath: string): void {
-    // Only handle markdown files
-    if (!filePath.endsWith(".md") && !filePath.endsWith(".mdx")) {
+    // Only handle content files (Markdown and data) and images
+    let kind: FileKind;
+    if (isContentFile(filePath)) {
+      kind = "content";
+    } else if (isValidImageFile(filePath)) {
+      kind = "image";
+    } else {
       return;
     }
 
@@ -127,7 +224,7 @@ export class ContentWatcher {
 
     const timer = setTimeout(() => {
       this.debounceTimers.delete(filePath);
-      this.emitChange(type, filePath);
+      this.emitChange(type, kind, filePath);
     }, this.options.debounceMs);
 
     this.debounceTimers.set(filePath, timer);
@@ -136,26 +233,68 @@ export class ContentWatcher {
   /**
    * Emit a file change event
    */
-  private emitChange(type: FileChangeType, filePath: string): void {
+  private emitChange(
+    type: FileChangeType,
+    kind: FileKind,
+    filePath: string
+  ): void {
     if (!this.options.onChange) {
       return;
     }
 
-    // Extract collection name from path
-    const contentPath = join(this.projectRoot, this.contentDir);
-    const relativePath = filePath
-      .replace(contentPath, "")
-      .replace(/^[/\\]/, "");
-    const parts = relativePath.split(/[/\\]/);
-    const collection = parts[0] ?? "";
+    const owner = this.resolveCollection(kind, filePath);
+    if (!owner) {
+      return;
+    }
 
     this.options.onChange({
       type,
+      kind,
       path: filePath,
-      collection,
+      collection: owner.name,
+      collectionPath: owner.path,
     });
   }
 
+  /**
+   * Find the collection a changed file belongs to
+   *
+   * Configured collection paths are checked first, then auto-discovered
+   * collections (first directory below the content root), then image
+   * storage directories for images.
+   *
+   * @param kind - Kind of file that changed
+   * @param filePath - Absolute path of the changed file
+   * @returns Collection name and directory, or null if no collection owns it
+   */
+  private resolveCollection(
+    kind: FileKind,
+    filePath: string
+  ): WatchedCollection | null {
+    const configured = this.collectionRoots.find((collection) =>
+      isWithin(collection.path, filePath)
+    );
+    if (configured) {
+      return configured;
+    }
+
+    const discovered = firstSegment(this.contentRoot, filePath);
+    if (discovered) {
+      return { name: discovered, path: join(this.contentRoot, discovered) };
+    }
+
+    if (kind === "image") {
+      for (const root of this.imageRoots) {
+        const collection = firstSegment(root, filePath);
+        if (collection) {
+          return { name: collection, path: join(root, collection) };
+        }
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Check if the watcher is running
    */
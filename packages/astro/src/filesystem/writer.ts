@@ -7,27 +7,32 @@
  * ## Features:
  * - Create new content files with frontmatter
  * - Update existing content files
- * - Delete content files
+ * - Delete content files (into the trash when version history is enabled)
  * - Generate unique slugs to avoid collisions
  * - Support for different file patterns (flat, folder-based, date-prefixed)
  * - Automatic version history creation before updates
+ * - Three-way merge with external edits when a base version is supplied
+ * - Frontmatter saved without disturbing untouched keys or comments
  *
  * @module @writenex/astro/filesystem/writer
  */
 
 import { writeFile, unlink, mkdir, readFile, stat } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import { join, dirname, basename } from "node:path";
+import { join, dirname } from "node:path";
 import slugify from "slugify";
-import { readContentFile } from "./reader";
+import { extractSlug, readContentFile } from "./reader";
 import { saveVersion } from "./versions";
+import { mergeContent } from "./merge";
+import { stringifyEntry } from "./data";
+import { moveToTrash } from "./trash";
 import {
   generatePathFromPattern,
   resolvePatternTokens,
   isValidPattern,
 } from "@/discovery/patterns";
-import type { VersionHistoryConfig } from "@/types";
-import { ContentConflictError } from "@/core/errors";
+import type { VersionHistoryConfig, MergeSource } from "@/types";
+import { ContentConflictError, type WritenexError } from "@/core/errors";
 
 /**
  * Options for creating content
@@ -64,6 +69,34 @@ export interface UpdateContentOptions {
    * If provided and the file's mtime differs, the update will fail with a conflict error.
    */
   expectedMtime?: number;
+  /**
+   * Version the client last loaded, used as the common ancestor when the
+   * file changed on disk. If provided, non-overlapping changes are merged
+   * instead of failing with a conflict error.
+   */
+  base?: MergeSource;
+  /**
+   * Check of the frontmatter as it will be written (after merging), given
+   * the frontmatter on disk. Returning an error cancels the update.
+   */
+  check?: (
+    current: Record<string, unknown>,
+    next: Record<string, unknown>
+  ) => WritenexError | null;
+}
+
+/**
+ * Options for deleting content
+ */
+export interface DeleteContentOptions {
+  /** Path to the collection directory (required for the trash) */
+  collectionPath?: string;
+  /** Project root for version history (required for the trash) */
+  projectRoot?: string;
+  /** Collection name for version history */
+  collection?: string;
+  /** Version history configuration */
+  versionHistoryConfig?: Required<VersionHistoryConfig>;
 }
 
 /**
@@ -82,6 +115,10 @@ export interface WriteResult {
   mtime?: number;
   /** Conflict error if update failed due to external modification */
   conflict?: ContentConflictError;
+  /** Content as written, if the update was merged with external changes */
+  merged?: MergeSource;
+  /** Error returned by the `check` option, if it cancelled the update */
+  rejected?: WritenexError;
 }
 
 /**
@@ -147,72 +184,12 @@ export async function generateUniqueSlug(
   return slug;
 }
 
-/**
- * Convert frontmatter object to YAML string
- *
- * @param frontmatter - Frontmatter data
- * @returns YAML string
- */
-function frontmatterToYaml(frontmatter: Record<string, unknown>): string {
-  const lines: string[] = [];
-
-  for (const [key, value] of Object.entries(frontmatter)) {
-    if (value === undefined || value === null) {
-      continue;
-    }
-
-    if (typeof value === "string") {
-      // Quote strings that contain special characters
-      if (value.includes(":") || value.includes("#") || value.includes("\n")) {
-        lines.push(`${key}: "${value.replace(/"/g, '\\"')}"`);
-      } else {
-        lines.push(`${key}: ${value}`);
-      }
-    } else if (typeof value === "number" || typeof value === "boolean") {
-      lines.push(`${key}: ${value}`);
-    } else if (value instanceof Date) {
-      lines.push(`${key}: ${value.toISOString().split("T")[0]}`);
-    } else if (Array.isArray(value)) {
-      if (value.length === 0) {
-        lines.push(`${key}: []`);
-      } else {
-        lines.push(`${key}:`);
-        for (const item of value) {
-          lines.push(`  - ${item}`);
-        }
-      }
-    } else if (typeof value === "object") {
-      // Simple object serialization
-      lines.push(`${key}:`);
-      for (const [subKey, subValue] of Object.entries(value)) {
-        lines.push(`  ${subKey}: ${subValue}`);
-      }
-    }
-  }
-
-  return lines.join("\n");
-}
-
-/**
- * Create a content file with frontmatter and body
- *
- * @param frontmatter - Frontmatter data
- * @param body - Markdown body content
- * @returns Complete file content
- */
-function createFileContent(
-  frontmatter: Record<string, unknown>,
-  body: string
-): string {
-  const yaml = frontmatterToYaml(frontmatter);
-  return `---\n${yaml}\n---\n\n${body}`;
-}
-
 /**
  * Create a new content file in a collection
  *
  * Supports various file patterns with automatic token resolution:
  * - `{slug}.md` - Simple flat structure (default)
+ * - `{slug}.json`, `{slug}.yaml` - Data entries (the body is ignored)
  * - `{slug}/index.md` - Folder-based content
  * - `{date}-{slug}.md` - Date-prefixed naming
  * - `{year}/{slug}.md` - Year folder structure
@@ -286,8 +263,8 @@ export async function createContent(
       };
     }
 
-    // Generate slug from title or use custom slug
-    const title = frontmatter.title as string | undefined;
+    // Generate slug from title (or a data entry's name) or use custom slug
+    const title = (frontmatter.title ?? frontmatter.name) as string | undefined;
     const baseSlug = customSlug ?? (title ? generateSlug(title) : "untitled");
 
     // Ensure unique slug using the file pattern
@@ -314,8 +291,8 @@ export async function createContent(
       await mkdir(parentDir, { recursive: true });
     }
 
-    // Create file content
-    const content = createFileContent(frontmatter, body);
+    // Create file content (data entries have no body)
+    const content = stringifyEntry(filePath, frontmatter, body);
 
     // Write file
     await writeFile(filePath, content, "utf-8");
@@ -342,6 +319,13 @@ export async function createContent(
  * file write if the new content is identical to the current file content.
  * Version creation errors are logged but do not fail the save operation.
  *
+ * When `expectedMtime` no longer matches and a `base` version is given,
+ * the update is three-way merged with the file on disk. A clean merge is
+ * written and returned in `merged`; otherwise the conflict error carries
+ * the merge attempt so the client can resolve the remaining conflicts.
+ * The `check` option sees the frontmatter after merging, so merged
+ * values are checked like the ones that were sent.
+ *
  * @param filePath - Absolute path to the content file
  * @param collectionPath - Path to the collection directory
  * @param options - Update options including version history config
@@ -367,8 +351,14 @@ export async function updateContent(
   collectionPath: string,
   options: UpdateContentOptions
 ): Promise<WriteResult> {
-  const { projectRoot, collection, versionHistoryConfig, expectedMtime } =
-    options;
+  const {
+    projectRoot,
+    collection,
+    versionHistoryConfig,
+    expectedMtime,
+    base,
+    check,
+  } = options;
 
   try {
     // Read existing content
@@ -381,38 +371,77 @@ export async function updateContent(
       };
     }
 
+    // Set when the update was merged with external changes
+    let merged: MergeSource | undefined;
+
     // Conflict detection: check if file was modified externally
     if (expectedMtime !== undefined && existing.content.mtime !== undefined) {
       // Allow small tolerance (1ms) for filesystem precision differences
       const mtimeDiff = Math.abs(existing.content.mtime - expectedMtime);
       if (mtimeDiff > 1) {
-        // File was modified externally - return conflict error
-        const conflictError = new ContentConflictError(
-          collection ?? "unknown",
-          existing.content.id,
-          existing.content.raw,
-          existing.content.mtime,
-          expectedMtime
-        );
+        // Try a three-way merge against the version the client loaded
+        const merge = base
+          ? mergeContent(
+              base,
+              {
+                frontmatter: options.frontmatter ?? base.frontmatter,
+                body: options.body ?? base.body,
+              },
+              {
+                frontmatter: existing.content.frontmatter,
+                body: existing.content.body,
+              }
+            )
+          : undefined;
+
+        if (merge && !merge.hasConflicts) {
+          merged = { frontmatter: merge.frontmatter, body: merge.body };
+        } else {
+          // File was modified externally - return conflict error
+          const conflictError = new ContentConflictError(
+            collection ?? "unknown",
+            existing.content.id,
+            existing.content.raw,
+            existing.content.mtime,
+            expectedMtime,
+            merge
+          );
 
-        return {
-          success: false,
-          error: conflictError.message,
-          conflict: conflictError,
-        };
+          return {
+            success: false,
+            error: conflictError.message,
+            conflict: conflictError,
+          };
+        }
       }
     }
 
-    // Merge frontmatter
-    const frontmatter = options.frontmatter
-      ? { ...existing.content.frontmatter, ...options.frontmatter }
-      : existing.content.frontmatter;
+    // Merge frontmatter (a three-way merge result replaces it entirely)
+    const frontmatter = merged
+      ? merged.frontmatter
+      : options.frontmatter
+        ? { ...existing.content.frontmatter, ...options.frontmatter }
+        : existing.content.frontmatter;
 
-    // Use new body or existing
-    const body = options.body ?? existing.content.body;
+    // Use merged, new, or existing body
+    const body = merged?.body ?? options.body ?? existing.content.body;
 
-    // Create updated content
-    const newContent = createFileContent(frontmatter, body);
+    const rejected = check?.(existing.content.frontmatter, frontmatter);
+    if (rejected) {
+      return {
+        success: false,
+        error: rejected.message,
+        rejected,
+      };
+    }
+
+    // Create updated content, patching the existing frontmatter in place
+    const newContent = stringifyEntry(
+      filePath,
+      frontmatter,
+      body,
+      existing.content
+    );
 
     // Read current file content for comparison
     const currentContent = existsSync(filePath)
@@ -426,6 +455,7 @@ export async function updateContent(
         id: existing.content.id,
         path: filePath,
         mtime: existing.content.mtime,
+        merged,
       };
     }
 
@@ -439,12 +469,7 @@ export async function updateContent(
       currentContent
     ) {
       try {
-        // Extract content ID from file path
-        const fileName = basename(filePath);
-        const contentId =
-          fileName === "index.md" || fileName === "index.mdx"
-            ? basename(dirname(filePath))
-            : fileName.replace(/\.(md|mdx)$/, "");
+        const contentId = extractSlug(filePath, collectionPath);
 
         // Save version of the current content before overwriting
         // skipIfIdentical compares with last version in history
@@ -482,6 +507,7 @@ export async function updateContent(
       id: existing.content.id,
       path: filePath,
       mtime: newStats.mtimeMs,
+      merged,
     };
   } catch (error) {
     // Re-throw ContentConflictError as-is
@@ -504,15 +530,45 @@ export async function updateContent(
 /**
  * Delete a content file
  *
+ * With version history enabled, the entry goes to the trash: it can be
+ * restored with its colocated images from its version history (see
+ * `./trash`). Otherwise the file is removed.
+ *
  * @param filePath - Absolute path to the content file
+ * @param options - Collection and version history options
  * @returns WriteResult with success status
  *
  * @example
  * ```typescript
- * const result = await deleteContent('/project/src/content/blog/my-post.md');
+ * const result = await deleteContent('/project/src/content/blog/my-post.md', {
+ *   collectionPath: '/project/src/content/blog',
+ *   projectRoot: '/project',
+ *   collection: 'blog',
+ *   versionHistoryConfig,
+ * });
  * ```
  */
-export async function deleteContent(filePath: string): Promise<WriteResult> {
+export async function deleteContent(
+  filePath: string,
+  options: DeleteContentOptions = {}
+): Promise<WriteResult> {
+  const { collectionPath, projectRoot, collection, versionHistoryConfig } =
+    options;
+
+  if (
+    collectionPath &&
+    projectRoot &&
+    collection &&
+    versionHistoryConfig?.enabled
+  ) {
+    return moveToTrash(filePath, {
+      projectRoot,
+      collection,
+      collectionPath,
+      versionHistoryConfig,
+    });
+  }
+
   try {
     if (!existsSync(filePath)) {
       return {
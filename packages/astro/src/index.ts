@@ -40,6 +40,9 @@ export { defineConfig, validateConfig, loadConfig } from "@/config";
 export type {
   WritenexConfig,
   WritenexOptions,
+  WritenexAuthOptions,
+  AuthUser,
+  AuthVerifier,
   CollectionConfig,
   CollectionSchema,
   SchemaField,
@@ -48,6 +51,15 @@ export type {
   ImageStrategy,
   DiscoveryConfig,
   EditorConfig,
+  PermissionsConfig,
+  WritenexRole,
+  GitConfig,
+  WorkflowConfig,
+  WorkflowState,
+  ScheduleConfig,
+  MdxComponentConfig,
+  MdxComponentProp,
+  MdxComponentPropType,
   ContentItem,
   ContentSummary,
   DiscoveredCollection,
@@ -8,7 +8,10 @@
  * - Injects editor UI at /_writenex
  * - Provides API routes for content CRUD operations
  * - Auto-discovers content collections
+ * - Applies configuration file changes without a restart
+ * - Publishes scheduled drafts when their time has passed
  * - Production guard to prevent accidental exposure
+ * - Optional authentication (token, basic or custom) with CSRF protection
  *
  * ## Usage:
  * ```typescript
@@ -25,11 +28,25 @@
  */
 
 import type { AstroIntegration } from "astro";
-import type { WritenexOptions, WritenexConfig } from "@/types";
+import type {
+  WritenexOptions,
+  WritenexConfig,
+  ConfigChangeEvent,
+} from "@/types";
 import { loadConfig } from "@/config/loader";
-import { createMiddleware } from "@/server/middleware";
+import { DEFAULT_SCHEDULE_CONFIG } from "@/config/defaults";
+import { ConfigWatcher } from "@/config/watcher";
+import { createMiddleware, type MiddlewareContext } from "@/server/middleware";
+import { getResolvedCollections } from "@/server/routes";
+import { PublishScheduler } from "@/server/scheduler";
+import { publishScheduledContent } from "@/filesystem/schedule";
 import { ContentWatcher } from "@/filesystem/watcher";
 import { getCache } from "@/server/cache";
+import { getEventBroadcaster, createContentChangeEvent } from "@/server/events";
+import {
+  CONTENT_CONFIG_FILE_NAMES,
+  loadContentSchemas,
+} from "@/discovery/content-config";
 
 /**
  * Default base path for the Writenex editor UI
@@ -49,6 +66,7 @@ const PACKAGE_NAME = "@writenex/astro";
  *
  * @param options - Integration options
  * @param options.allowProduction - Allow running in production (default: false)
+ * @param options.auth - Require authentication for the editor and API
  * @returns Astro integration object
  *
  * @example
@@ -63,13 +81,14 @@ const PACKAGE_NAME = "@writenex/astro";
  *   integrations: [
  *     writenex({
  *       allowProduction: true,  // Enable in production (use with caution)
+ *       auth: { type: 'basic', users: { alice: process.env.WRITENEX_PASSWORD } },
  *     }),
  *   ],
  * });
  * ```
  */
 export default function writenex(options?: WritenexOptions): AstroIntegration {
-  const { allowProduction = false } = options ?? {};
+  const { allowProduction = false, auth } = options ?? {};
 
   // Use fixed base path for consistency and branding
   const basePath = DEFAULT_BASE_PATH;
@@ -79,6 +98,8 @@ export default function writenex(options?: WritenexOptions): AstroIntegration {
 
   // Store loaded configuration
   let resolvedConfig: Required<WritenexConfig> | null = null;
+  let userConfig: WritenexConfig = {};
+  let configErrors: string[] = [];
 
   // Store project root
   let projectRoot = "";
@@ -86,8 +107,13 @@ export default function writenex(options?: WritenexOptions): AstroIntegration {
   // Store Astro's trailingSlash setting
   let astroTrailingSlash: "always" | "never" | "ignore" = "ignore";
 
-  // File watcher instance
+  // File watcher instances
   let watcher: ContentWatcher | null = null;
+  let configWatcher: ConfigWatcher | null = null;
+  let contentConfigWatcher: ConfigWatcher | null = null;
+
+  // Scheduled publishing timer
+  let scheduler: PublishScheduler | null = null;
 
   // Track if editor URL has been logged (to avoid duplicate logs)
   let hasLoggedEditorUrl = false;
@@ -121,9 +147,15 @@ export default function writenex(options?: WritenexOptions): AstroIntegration {
         astroTrailingSlash = config.trailingSlash ?? "ignore";
 
         // Load Writenex configuration
-        const { config: loadedConfig, warnings } =
-          await loadConfig(projectRoot);
+        const {
+          config: loadedConfig,
+          userConfig: loadedUserConfig,
+          errors,
+          warnings,
+        } = await loadConfig(projectRoot);
         resolvedConfig = loadedConfig;
+        userConfig = loadedUserConfig;
+        configErrors = errors;
 
         // Log any configuration warnings
         for (const warning of warnings) {
@@ -136,37 +168,264 @@ export default function writenex(options?: WritenexOptions): AstroIntegration {
        *
        * This hook runs when the Astro dev server starts.
        * We use it to:
-       * 1. Inject middleware for API routes
-       * 2. Serve the editor UI
-       * 3. Start file watcher for cache invalidation
+       * 1. Load collection schemas from the Astro content config
+       * 2. Inject middleware for API routes
+       * 3. Serve the editor UI
+       * 4. Start file watcher for cache invalidation and live client updates
+       * 5. Watch the configuration file and apply changes to the router
+       *    (and the content config, reloading the collection schemas)
+       * 6. Publish scheduled drafts when their time has passed
        */
-      "astro:server:setup": ({ server }) => {
+      "astro:server:setup": async ({ server, logger }) => {
         // Skip if disabled (production guard triggered)
         if (!isActive || !resolvedConfig) {
           return;
         }
 
-        // Create and register the middleware
-        const middleware = createMiddleware({
+        // Load declared schemas through Vite so `astro:content` resolves
+        const { schemas: contentSchemas, warnings } = await loadContentSchemas(
+          projectRoot,
+          (path) => server.ssrLoadModule(path)
+        );
+
+        for (const warning of warnings) {
+          logger.warn(warning);
+        }
+
+        // Shared with the API router; reloads swap the config in place
+        const context: MiddlewareContext = {
           basePath,
           projectRoot,
           config: resolvedConfig,
+          userConfig,
+          configErrors,
           trailingSlash: astroTrailingSlash,
-        });
+          contentSchemas,
+          auth,
+        };
+
+        // Create and register the middleware
+        const middleware = createMiddleware(context);
 
         server.middlewares.use(middleware);
 
         // Setup cache with file watcher integration
         const cache = getCache({ hasWatcher: true });
 
+        // Push file changes to connected editor clients
+        const broadcaster = getEventBroadcaster();
+
+        /**
+         * Create and start a content watcher for a configuration
+         */
+        const startContentWatcher = (
+          config: Required<WritenexConfig>
+        ): ContentWatcher => {
+          // Image storage directories used by public/custom strategies
+          const imagePaths = [
+            config.images,
+            ...config.collections.map((collection) => collection.images),
+          ]
+            .filter((images) => images && images.strategy !== "colocated")
+            .map((images) => images?.storagePath)
+            .filter((path): path is string => Boolean(path));
+
+          const contentWatcher = new ContentWatcher(
+            projectRoot,
+            "src/content",
+            {
+              collections: config.collections.map(({ name, path }) => ({
+                name,
+                path,
+              })),
+              imagePaths,
+              onChange: (event) => {
+                if (event.kind === "image") {
+                  cache.invalidateCollectionImages(event.collection);
+                  cache.invalidateLinkIndex();
+                  cache.invalidateMedia();
+                  return;
+                }
+
+                cache.handleFileChange(event.type, event.collection);
+
+                void createContentChangeEvent(event, event.collectionPath).then(
+                  (payload) => broadcaster.broadcast("content-change", payload)
+                );
+              },
+            }
+          );
+
+          contentWatcher.start();
+          return contentWatcher;
+        };
+
+        /**
+         * Create and start the scheduled publishing timer for a configuration
+         */
+        const startScheduler = (
+          config: Required<WritenexConfig>
+        ): PublishScheduler | null => {
+          if (!config.schedule.enabled) {
+            return null;
+          }
+
+          const publishScheduler = new PublishScheduler({
+            interval:
+              config.schedule.interval ?? DEFAULT_SCHEDULE_CONFIG.interval,
+            publish: async () =>
+              publishScheduledContent({
+                projectRoot,
+                collections: await getResolvedCollections(context),
+                versionHistoryConfig: config.versionHistory as Required<
+                  typeof config.versionHistory
+                >,
+              }),
+            onPublish: (results) => {
+              for (const result of results) {
+                if (result.published) {
+                  logger.info(
+                    `Published scheduled entry ${result.collection}/${result.id}`
+                  );
+                } else {
+                  logger.error(
+                    `Failed to publish scheduled entry ${result.collection}/${result.id}: ${result.error}`
+                  );
+                }
+              }
+            },
+            onError: (error) => {
+              logger.error(`Scheduled publishing failed: ${error}`);
+            },
+          });
+
+          publishScheduler.start();
+          return publishScheduler;
+        };
+
+        /**
+         * Load a module through Vite, evaluating it again if it changed
+         *
+         * The module is replaced in Vite's module graph, so reloads do not
+         * add a module to Node's module cache each time a file is saved.
+         */
+        const loadChangedModule = async (
+          path: string
+        ): Promise<Record<string, unknown>> => {
+          for (const mod of server.moduleGraph.getModulesByFile(path) ?? []) {
+            server.moduleGraph.invalidateModule(mod);
+          }
+          return server.ssrLoadModule(path);
+        };
+
+        /**
+         * Reload the configuration file and apply it if it is valid
+         *
+         * An invalid file is reported to the log and to editor clients,
+         * and the previous configuration stays in effect.
+         */
+        const reloadConfig = async (): Promise<void> => {
+          const result = await loadConfig(projectRoot, loadChangedModule);
+          const { configPath, errors } = result;
+
+          const event: ConfigChangeEvent = {
+            status: errors.length > 0 ? "invalid" : "applied",
+            configPath,
+            errors,
+            timestamp: new Date().toISOString(),
+          };
+
+          context.configErrors = errors;
+
+          if (errors.length > 0) {
+            logger.error(
+              `Configuration file has errors, keeping the previous configuration:\n${errors.join("\n")}`
+            );
+            broadcaster.broadcast("config-change", event);
+            return;
+          }
+
+          resolvedConfig = result.config;
+          userConfig = result.userConfig;
+          context.config = result.config;
+          context.userConfig = result.userConfig;
+          cache.invalidateAll();
+
+          // Collection paths and image storage may have changed
+          await watcher?.stop();
+          watcher = startContentWatcher(result.config);
+
+          // The schedule settings may have changed
+          await scheduler?.stop();
+          scheduler = startScheduler(result.config);
+
+          logger.info("Configuration reloaded");
+          broadcaster.broadcast("config-change", event);
+        };
+
+        /**
+         * Reload the collection schemas from the Astro content config
+         *
+         * The schemas are applied even when some collections fail to
+         * convert; those fall back to schema detection, as on startup.
+         */
+        const reloadContentSchemas = async (
+          path: string | null
+        ): Promise<void> => {
+          const result = await loadContentSchemas(
+            projectRoot,
+            loadChangedModule
+          );
+
+          for (const warning of result.warnings) {
+            logger.warn(warning);
+          }
+
+          context.contentSchemas = result.schemas;
+          cache.invalidateAll();
+
+          const event: ConfigChangeEvent = {
+            status: "applied",
+            configPath: result.configPath ?? path,
+            errors: [],
+            timestamp: new Date().toISOString(),
+          };
+
+          logger.info("Content config reloaded");
+          broadcaster.broadcast("config-change", event);
+        };
+
         // Start file watcher for cache invalidation
-        watcher = new ContentWatcher(projectRoot, "src/content", {
-          onChange: (event) => {
-            cache.handleFileChange(event.type, event.collection);
+        watcher = startContentWatcher(resolvedConfig);
+
+        // Publish scheduled drafts while the dev server runs
+        scheduler = startScheduler(resolvedConfig);
+
+        // Apply configuration file changes one at a time
+        let reloading = Promise.resolve();
+        configWatcher = new ConfigWatcher(projectRoot, {
+          onChange: () => {
+            reloading = reloading.then(reloadConfig).catch((error) => {
+              logger.error(`Failed to reload configuration: ${error}`);
+            });
+          },
+        });
+
+        configWatcher.start();
+
+        // Keep validation in step with the content config
+        contentConfigWatcher = new ConfigWatcher(projectRoot, {
+          fileNames: CONTENT_CONFIG_FILE_NAMES,
+          onChange: (path) => {
+            reloading = reloading
+              .then(() => reloadContentSchemas(path))
+              .catch((error) => {
+                logger.error(`Failed to reload content config: ${error}`);
+              });
           },
         });
 
-        watcher.start();
+        contentConfigWatcher.start();
       },
 
       /**
@@ -201,9 +460,27 @@ export default function writenex(options?: WritenexOptions): AstroIntegration {
        * Server done hook
        *
        * This hook runs when the server is shutting down.
-       * We use it to clean up the file watcher.
+       * We use it to clean up the file watchers, the scheduled publishing
+       * timer and open event streams.
        */
       "astro:server:done": async () => {
+        getEventBroadcaster().closeAll();
+
+        if (scheduler) {
+          await scheduler.stop();
+          scheduler = null;
+        }
+
+        if (configWatcher) {
+          await configWatcher.stop();
+          configWatcher = null;
+        }
+
+        if (contentConfigWatcher) {
+          await contentConfigWatcher.stop();
+          contentConfigWatcher = null;
+        }
+
         if (watcher) {
           await watcher.stop();
           watcher = null;
@@ -219,7 +496,9 @@ export default function writenex(options?: WritenexOptions): AstroIntegration {
       "astro:build:done": ({ logger }) => {
         if (allowProduction) {
           logger.warn(
-            "Production mode enabled. Ensure your deployment is secured."
+            auth
+              ? "Production mode enabled. Ensure your deployment is served over HTTPS."
+              : "Production mode enabled without authentication. Configure the auth option or secure your deployment."
           );
         }
       },
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Authentication for Writenex routes
+ *
+ * When the integration is configured with `auth`, every request under the
+ * base path (editor UI, assets and API) must be authenticated. Three
+ * providers are supported:
+ *
+ * - `token`: `Authorization: Bearer <token>` header, or a cookie set by
+ *   opening the editor once with `?token=<token>`
+ * - `basic`: HTTP basic authentication (the browser shows a login prompt)
+ * - `custom`: a user-supplied function that verifies each request
+ *
+ * @module @writenex/astro/server/auth
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuthUser, WritenexAuthOptions } from "@/types";
+import { ApiUnauthorizedError } from "@/core/errors";
+
+/**
+ * Cookie holding the token after signing in with `?token=`
+ */
+export const TOKEN_COOKIE = "writenex_token";
+
+/**
+ * Query parameter used to sign in with a token
+ */
+const TOKEN_QUERY_PARAM = "token";
+
+/**
+ * Default realm for basic authentication
+ */
+const DEFAULT_REALM = "Writenex";
+
+/**
+ * Authenticated user per request
+ */
+const requestUsers = new WeakMap<IncomingMessage, AuthUser>();
+
+/**
+ * Parse the Cookie header of a request
+ *
+ * @param req - The incoming request
+ * @returns Cookie values by name
+ */
+export function parseCookies(req: IncomingMessage): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  const header = req.headers.cookie;
+  if (!header) return cookies;
+
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index === -1) continue;
+    const name = pair.slice(0, index).trim();
+    const value = pair.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Add a Set-Cookie header without replacing cookies set earlier
+ *
+ * @param req - The incoming request (to detect HTTPS)
+ * @param res - The server response
+ * @param cookie - Cookie name, value and attributes
+ */
+export function setCookie(
+  req: IncomingMessage,
+  res: ServerResponse,
+  cookie: {
+    name: string;
+    value: string;
+    path: string;
+    httpOnly?: boolean;
+  }
+): void {
+  const secure =
+    (req.socket as { encrypted?: boolean }).encrypted === true ||
+    req.headers["x-forwarded-proto"] === "https";
+
+  const parts = [
+    `${cookie.name}=${encodeURIComponent(cookie.value)}`,
+    `Path=${cookie.path}`,
+    "SameSite=Strict",
+    ...(cookie.httpOnly ? ["HttpOnly"] : []),
+    ...(secure ? ["Secure"] : []),
+  ];
+
+  const existing = res.getHeader("Set-Cookie");
+  const cookies = Array.isArray(existing)
+    ? existing
+    : typeof existing === "string"
+      ? [existing]
+      : [];
+  res.setHeader("Set-Cookie", [...cookies, parts.join("; ")]);
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Get the bearer token from the Authorization header
+ *
+ * @param req - The incoming request
+ * @returns The token, or null if the header is missing or not a bearer token
+ */
+export function getBearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() ?? null;
+}
+
+/**
+ * Find the user a token belongs to
+ */
+function findTokenUser(
+  tokens: Record<string, string>,
+  token: string
+): AuthUser | null {
+  let found: AuthUser | null = null;
+  // Check every token so the time taken does not reveal a match
+  for (const [id, expected] of Object.entries(tokens)) {
+    if (safeEqual(expected, token) && !found) {
+      found = { id };
+    }
+  }
+  return found;
+}
+
+/**
+ * Verify HTTP basic credentials
+ */
+function findBasicUser(
+  users: Record<string, string>,
+  req: IncomingMessage
+): AuthUser | null {
+  const match = req.headers.authorization?.match(/^Basic\s+(.+)$/i);
+  if (!match?.[1]) return null;
+
+  const decoded = Buffer.from(match[1], "base64").toString("utf-8");
+  const separator = decoded.indexOf(":");
+  if (separator === -1) return null;
+
+  const id = decoded.slice(0, separator);
+  const password = decoded.slice(separator + 1);
+  const expected = Object.hasOwn(users, id) ? users[id] : undefined;
+  if (expected === undefined) {
+    // Compare anyway so unknown users take as long as wrong passwords
+    safeEqual(password, password);
+    return null;
+  }
+
+  return safeEqual(expected, password) ? { id } : null;
+}
+
+/**
+ * Authenticate a request
+ *
+ * @param req - The incoming request
+ * @param auth - Authentication options
+ * @returns The authenticated user, or null if the request is not authenticated
+ */
+export async function authenticateRequest(
+  req: IncomingMessage,
+  auth: WritenexAuthOptions
+): Promise<AuthUser | null> {
+  switch (auth.type) {
+    case "token": {
+      const token = getBearerToken(req) ?? parseCookies(req)[TOKEN_COOKIE];
+      return token ? findTokenUser(auth.tokens, token) : null;
+    }
+
+    case "basic":
+      return findBasicUser(auth.users, req);
+
+    case "custom": {
+      const result = await auth.verify(req);
+      if (!result) return null;
+      return result === true ? { id: "anonymous" } : result;
+    }
+  }
+}
+
+/**
+ * Require authentication for a request under the base path
+ *
+ * Opening a page with `?token=` (token provider) stores the token in a
+ * cookie and redirects to the same page without it; in that case the
+ * response is complete and false is returned.
+ *
+ * @param req - The incoming request
+ * @param res - The server response
+ * @param auth - Authentication options
+ * @param basePath - Base path of the Writenex routes (cookie path)
+ * @returns True if the request may continue
+ * @throws ApiUnauthorizedError if the request is not authenticated
+ */
+export async function requireAuthentication(
+  req: IncomingMessage,
+  res: ServerResponse,
+  auth: WritenexAuthOptions,
+  basePath: string
+): Promise<boolean> {
+  if (auth.type === "token" && req.method === "GET") {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const token = url.searchParams.get(TOKEN_QUERY_PARAM);
+
+    if (token !== null) {
+      if (!findTokenUser(auth.tokens, token)) {
+        throw new ApiUnauthorizedError("Invalid token");
+      }
+
+      setCookie(req, res, {
+        name: TOKEN_COOKIE,
+        value: token,
+        path: basePath,
+        httpOnly: true,
+      });
+      url.searchParams.delete(TOKEN_QUERY_PARAM);
+      res.statusCode = 302;
+      res.setHeader("Location", `${url.pathname}${url.search}`);
+      res.end();
+      return false;
+    }
+  }
+
+  const user = await authenticateRequest(req, auth);
+  if (!user) {
+    if (auth.type === "basic") {
+      const realm = (auth.realm ?? DEFAULT_REALM).replace(/"/g, "");
+      res.setHeader(
+        "WWW-Authenticate",
+        `Basic realm="${realm}", charset="UTF-8"`
+      );
+    }
+    throw new ApiUnauthorizedError();
+  }
+
+  requestUsers.set(req, user);
+  return true;
+}
+
+/**
+ * Get the user a request was authenticated as
+ *
+ * @param req - The incoming request
+ * @returns The user, or undefined if authentication is not configured
+ */
+export function getRequestUser(req: IncomingMessage): AuthUser | undefined {
+  return requestUsers.get(req);
+}
@@ -8,6 +8,8 @@
  * - TTL-based cache expiration
  * - Per-collection content caching
  * - Image discovery caching
+ * - Link index caching
+ * - Media library caching
  * - Manual cache invalidation
  * - Integration with file watcher for automatic invalidation
  *
@@ -18,6 +20,8 @@ import type {
   DiscoveredCollection,
   ContentSummary,
   DiscoveredImage,
+  LinkIndex,
+  MediaItem,
 } from "@/types";
 
 /**
@@ -46,6 +50,8 @@ const DEV_TTL_MS = 30 * 1000;
  * - Collection discovery results (list of collections with metadata)
  * - Content summaries per collection (list of content items)
  * - Discovered images per content item
+ * - The index of links between content entries
+ * - The project-wide media library
  *
  * Cache invalidation happens:
  * - Automatically when TTL expires
@@ -62,6 +68,12 @@ export class ServerCache {
   /** Cache for discovered images, keyed by "collection:contentId" */
   private imagesCache: Map<string, CacheEntry<DiscoveredImage[]>> = new Map();
 
+  /** Cache for the link index across all collections */
+  private linkIndexCache: CacheEntry<LinkIndex> | null = null;
+
+  /** Cache for the media library */
+  private mediaCache: CacheEntry<MediaItem[]> | null = null;
+
   /** Time-to-live for cache entries in milliseconds */
   private ttl: number;
 
@@ -249,6 +261,74 @@ export class ServerCache {
    */
   invalidateAllImages(): void {
     this.imagesCache.clear();
+    this.linkIndexCache = null;
+    this.mediaCache = null;
+  }
+
+  // ==================== Link Index Cache ====================
+
+  /**
+   * Get cached link index if valid
+   *
+   * @returns Cached link index or null if expired/not cached
+   */
+  getLinkIndex(): LinkIndex | null {
+    if (this.isValid(this.linkIndexCache)) {
+      return this.linkIndexCache!.data;
+    }
+    return null;
+  }
+
+  /**
+   * Set link index cache
+   *
+   * @param index - Link index to cache
+   */
+  setLinkIndex(index: LinkIndex): void {
+    this.linkIndexCache = {
+      data: index,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Invalidate link index cache
+   */
+  invalidateLinkIndex(): void {
+    this.linkIndexCache = null;
+  }
+
+  // ==================== Media Cache ====================
+
+  /**
+   * Get cached media library if valid
+   *
+   * @returns Cached media items or null if expired/not cached
+   */
+  getMedia(): MediaItem[] | null {
+    if (this.isValid(this.mediaCache)) {
+      return this.mediaCache!.data;
+    }
+    return null;
+  }
+
+  /**
+   * Set media library cache
+   *
+   * @param items - Media items to cache
+   */
+  setMedia(items: MediaItem[]): void {
+    this.mediaCache = {
+      data: items,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Invalidate media library cache
+   */
+  invalidateMedia(): void {
+    this.mediaCache = null;
   }
 
   // ==================== Bulk Invalidation ====================
@@ -288,6 +368,10 @@ export class ServerCache {
       this.invalidateCollectionImages(collection);
     }
 
+    // Any content change can add, remove or break links (and image usage)
+    this.invalidateLinkIndex();
+    this.invalidateMedia();
+
     // For add/unlink, also invalidate collections cache (count changed)
     if (type === "add" || type === "unlink") {
       this.invalidateCollections();
@@ -305,6 +389,8 @@ export class ServerCache {
     collectionsValid: boolean;
     contentCollections: string[];
     cachedImages: string[];
+    linkIndexValid: boolean;
+    mediaValid: boolean;
     ttl: number;
     hasWatcher: boolean;
   } {
@@ -316,6 +402,8 @@ export class ServerCache {
       cachedImages: Array.from(this.imagesCache.keys()).filter((key) =>
         this.isValid(this.imagesCache.get(key))
       ),
+      linkIndexValid: this.isValid(this.linkIndexCache),
+      mediaValid: this.isValid(this.mediaCache),
       ttl: this.ttl,
       hasWatcher: this.hasWatcher,
     };
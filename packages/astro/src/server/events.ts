@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Server-sent events for Writenex
+ *
+ * Provides a push channel from the dev server to connected editor clients
+ * so external file changes (e.g., edits made in VS Code) show up in the UI
+ * without waiting for a save to fail with a conflict.
+ *
+ * ## Features:
+ * - Long-lived `text/event-stream` connections under `/api/events`
+ * - Broadcast of content change events to every connected client
+ * - Periodic heartbeat to keep idle connections open through proxies
+ *
+ * @module @writenex/astro/server/events
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { stat } from "node:fs/promises";
+import type { ContentChangeEvent } from "@/types";
+import type { FileChangeEvent } from "@/filesystem/watcher";
+import { extractSlug } from "@/filesystem/reader";
+
+/**
+ * Interval between heartbeat comments (25 seconds)
+ */
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Client reconnect delay sent in the stream's retry field (3 seconds)
+ */
+const RETRY_MS = 3 * 1000;
+
+/**
+ * Broadcaster for server-sent events
+ *
+ * Keeps track of open event-stream responses and writes events to all of
+ * them. Connections are removed automatically when the client disconnects.
+ */
+export class EventBroadcaster {
+  /** Open event-stream responses */
+  private clients: Set<ServerResponse> = new Set();
+
+  /** Heartbeat timer, active only while clients are connected */
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Register a client connection and start streaming to it
+   *
+   * @param req - The incoming request (used to detect disconnects)
+   * @param res - The server response to keep open
+   */
+  addClient(req: IncomingMessage, res: ServerResponse): void {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    res.write(`retry: ${RETRY_MS}\n\n`);
+    this.clients.add(res);
+    this.startHeartbeat();
+
+    req.on("close", () => {
+      this.removeClient(res);
+    });
+  }
+
+  /**
+   * Send an event to all connected clients
+   *
+   * @param event - Event name (used by EventSource listeners)
+   * @param data - JSON-serializable payload
+   */
+  broadcast(event: string, data: unknown): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    for (const client of this.clients) {
+      if (client.writableEnded) {
+        this.removeClient(client);
+        continue;
+      }
+      client.write(message);
+    }
+  }
+
+  /**
+   * Get the number of connected clients
+   *
+   * @returns Number of open event streams
+   */
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Close all client connections
+   *
+   * Called when the dev server shuts down.
+   */
+  closeAll(): void {
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    this.stopHeartbeat();
+  }
+
+  /**
+   * Remove a client connection
+   */
+  private removeClient(res: ServerResponse): void {
+    this.clients.delete(res);
+    if (this.clients.size === 0) {
+      this.stopHeartbeat();
+    }
+  }
+
+  /**
+   * Start the heartbeat timer if it is not already running
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        client.write(": ping\n\n");
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Don't keep the process alive just for heartbeats
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Stop the heartbeat timer
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+/**
+ * Build a client-facing change event from a watcher event
+ *
+ * Resolves the content ID from the file path and reads the new
+ * modification time so clients can tell their own saves apart from
+ * external edits.
+ *
+ * @param event - File change event from the content watcher
+ * @param collectionPath - Absolute path to the collection directory
+ * @returns Content change event ready to broadcast
+ */
+export async function createContentChangeEvent(
+  event: FileChangeEvent,
+  collectionPath: string
+): Promise<ContentChangeEvent> {
+  let mtime: number | undefined;
+
+  if (event.type !== "unlink") {
+    try {
+      const stats = await stat(event.path);
+      mtime = stats.mtimeMs;
+    } catch {
+      // File removed again before we could stat it
+    }
+  }
+
+  return {
+    type: event.type,
+    collection: event.collection,
+    contentId: extractSlug(event.path, collectionPath),
+    path: event.path,
+    mtime,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Global broadcaster instance
+ *
+ * Shared between the API router and the file watcher.
+ */
+let globalBroadcaster: EventBroadcaster | null = null;
+
+/**
+ * Get or create the global event broadcaster
+ *
+ * @returns The global broadcaster instance
+ */
+export function getEventBroadcaster(): EventBroadcaster {
+  if (!globalBroadcaster) {
+    globalBroadcaster = new EventBroadcaster();
+  }
+  return globalBroadcaster;
+}
+
+/**
+ * Reset the global event broadcaster
+ *
+ * Closes any open connections. Useful for testing or server restarts.
+ */
+export function resetEventBroadcaster(): void {
+  globalBroadcaster?.closeAll();
+  globalBroadcaster = null;
+}
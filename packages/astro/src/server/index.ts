@@ -2,7 +2,8 @@
  * @fileoverview Server module exports for @writenex/astro
  *
  * This module provides the public API for server-side functionality,
- * including middleware, API routes, static assets, and caching.
+ * including middleware, API routes, static assets, caching, and
+ * server-sent events.
  *
  * @module @writenex/astro/server
  */
@@ -19,7 +20,25 @@ export {
 export type { MiddlewareContext } from "./middleware";
 
 // Routes
-export { createApiRouter } from "./routes";
+export { createApiRouter, getResolvedCollections } from "./routes";
+
+// Authentication and CSRF protection
+export {
+  authenticateRequest,
+  requireAuthentication,
+  getRequestUser,
+  parseCookies,
+} from "./auth";
+export { ensureCsrfCookie, verifyCsrf, CSRF_COOKIE, CSRF_HEADER } from "./csrf";
+
+// Role-based permissions
+export {
+  getRequestRole,
+  hasPermission,
+  checkPermission,
+  getSession,
+  ROLE_PERMISSIONS,
+} from "./permissions";
 
 // Assets
 export {
@@ -31,3 +50,15 @@ export {
 
 // Cache
 export { ServerCache, getCache, resetCache } from "./cache";
+
+// Scheduled publishing
+export { PublishScheduler } from "./scheduler";
+export type { PublishSchedulerOptions } from "./scheduler";
+
+// Events
+export {
+  EventBroadcaster,
+  getEventBroadcaster,
+  resetEventBroadcaster,
+  createContentChangeEvent,
+} from "./events";
@@ -9,14 +9,23 @@
  * - `/_writenex/api/*` - API endpoints for CRUD operations
  * - `/_writenex/assets/*` - Static assets (JS, CSS)
  *
+ * With `auth` configured, every route requires authentication, and
+ * mutating API requests are checked for cross-site request forgery.
+ *
  * @module @writenex/astro/server/middleware
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { Connect } from "vite";
-import type { WritenexConfig } from "@/types";
+import type {
+  WritenexConfig,
+  CollectionSchema,
+  WritenexAuthOptions,
+} from "@/types";
 import { createApiRouter } from "./routes";
 import { serveEditorHtml, serveAsset } from "./assets";
+import { requireAuthentication } from "./auth";
+import { ensureCsrfCookie, verifyCsrf } from "./csrf";
 import type { WritenexError } from "@/core/errors";
 import { WritenexErrorCode, isWritenexError, wrapError } from "@/core/errors";
 
@@ -30,8 +39,16 @@ export interface MiddlewareContext {
   projectRoot: string;
   /** Resolved Writenex configuration */
   config: Required<WritenexConfig>;
+  /** Configuration as loaded from the config file, before defaults */
+  userConfig: WritenexConfig;
+  /** Errors in the config file on disk (the last valid config stays in use) */
+  configErrors?: string[];
   /** Astro trailingSlash setting for preview URLs */
   trailingSlash: "always" | "never" | "ignore";
+  /** Schemas declared in the Astro content config, keyed by collection */
+  contentSchemas?: Record<string, CollectionSchema>;
+  /** Authentication required for all routes (none if undefined) */
+  auth?: WritenexAuthOptions;
 }
 
 /**
@@ -73,8 +90,19 @@ export function createMiddleware(
     const path = url.slice(basePath.length) || "/";
 
     try {
+      // Authenticate before anything is served
+      if (
+        context.auth &&
+        !(await requireAuthentication(req, res, context.auth, basePath))
+      ) {
+        return;
+      }
+
+      ensureCsrfCookie(req, res, basePath);
+
       // Handle API routes
       if (path.startsWith("/api/")) {
+        verifyCsrf(req, context.auth !== undefined);
         return await apiRouter(req, res, path.slice(4)); // Remove '/api' prefix
       }
 
@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Role-based permissions for API routes
+ *
+ * Each authenticated user has a role (viewer, author, editor or admin),
+ * assigned in the `permissions` section of the configuration, optionally
+ * overridden per collection. The API router checks the role before any
+ * route that changes content; content handlers additionally keep authors
+ * from publishing.
+ *
+ * Without authentication every request has the `admin` role.
+ *
+ * @module @writenex/astro/server/permissions
+ */
+
+import type { IncomingMessage } from "node:http";
+import type { Permission, SessionResponse, WritenexRole } from "@/types";
+import { ApiForbiddenError } from "@/core/errors";
+import { getPublishAt } from "@/core/schedule";
+import { DEFAULT_ROLE } from "@/config/defaults";
+import type { MiddlewareContext } from "./middleware";
+import { getRequestUser } from "./auth";
+
+/**
+ * Actions allowed per role
+ */
+export const ROLE_PERMISSIONS: Record<WritenexRole, Permission[]> = {
+  viewer: [],
+  author: ["create", "edit", "uploadImages"],
+  editor: [
+    "create",
+    "edit",
+    "uploadImages",
+    "publish",
+    "delete",
+    "move",
+    "batch",
+    "restoreVersions",
+    "commit",
+  ],
+  admin: [
+    "create",
+    "edit",
+    "uploadImages",
+    "publish",
+    "delete",
+    "move",
+    "batch",
+    "restoreVersions",
+    "deleteVersions",
+    "editConfig",
+    "commit",
+  ],
+};
+
+/**
+ * Descriptions of actions for error messages
+ */
+const PERMISSION_LABELS: Record<Permission, string> = {
+  create: "create entries",
+  edit: "edit entries",
+  publish: "publish entries",
+  delete: "delete entries",
+  move: "move entries",
+  batch: "apply batch actions",
+  uploadImages: "upload images",
+  restoreVersions: "restore versions",
+  deleteVersions: "delete versions",
+  editConfig: "edit the configuration",
+  commit: "commit changes",
+};
+
+/**
+ * Get the role of a request's user
+ *
+ * Collection assignments win over global ones; users without an
+ * assignment get the collection's, then the global, default role.
+ *
+ * @param req - The incoming request
+ * @param context - Middleware context
+ * @param collection - Collection the request acts on (if any)
+ * @returns The user's role
+ */
+export function getRequestRole(
+  req: IncomingMessage,
+  context: MiddlewareContext,
+  collection?: string
+): WritenexRole {
+  if (!context.auth) return "admin";
+
+  const { permissions } = context.config;
+  const user = getRequestUser(req);
+  const id = user?.id;
+  const scoped = collection ? permissions.collections?.[collection] : undefined;
+
+  const lookup = (users: Record<string, WritenexRole> | undefined) =>
+    id !== undefined && users && Object.hasOwn(users, id)
+      ? users[id]
+      : undefined;
+
+  return (
+    lookup(scoped?.users) ??
+    scoped?.defaultRole ??
+    lookup(permissions.users) ??
+    permissions.defaultRole ??
+    DEFAULT_ROLE
+  );
+}
+
+/**
+ * Check whether a role allows an action
+ *
+ * @param role - The role
+ * @param permission - The action
+ * @returns True if the role allows the action
+ */
+export function hasPermission(
+  role: WritenexRole,
+  permission: Permission
+): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Check whether a request's user may perform an action
+ *
+ * @param req - The incoming request
+ * @param context - Middleware context
+ * @param permission - The action
+ * @param collection - Collection the action applies to (if any)
+ * @returns An error to send, or null if the action is allowed
+ */
+export function checkPermission(
+  req: IncomingMessage,
+  context: MiddlewareContext,
+  permission: Permission,
+  collection?: string
+): ApiForbiddenError | null {
+  const role = getRequestRole(req, context, collection);
+  if (hasPermission(role, permission)) return null;
+
+  return new ApiForbiddenError(
+    `The ${role} role is not allowed to ${PERMISSION_LABELS[permission]}${collection ? ` in '${collection}'` : ""}`,
+    { role, permission, ...(collection ? { collection } : {}) }
+  );
+}
+
+/**
+ * Get the action an API route performs
+ *
+ * Image uploads and Git commits name their collections in the request
+ * body, so they are checked by their handlers instead.
+ *
+ * @param method - HTTP method
+ * @param segments - Path segments after `/api`
+ * @returns The action and collection, or null for read-only routes
+ */
+export function getRoutePermission(
+  method: string,
+  segments: string[]
+): { permission: Permission; collection?: string } | null {
+  const [resource, collection, id, versionId, action] = segments;
+
+  if (resource === "config" && method === "PUT") {
+    return { permission: "editConfig" };
+  }
+
+  if (resource === "content" && collection) {
+    if (method === "POST" && id === "batch" && !versionId) {
+      return { permission: "batch", collection };
+    }
+    if (method === "POST" && id && versionId === "move") {
+      return { permission: "move", collection };
+    }
+    if (method === "POST") return { permission: "create", collection };
+    if (method === "PUT") return { permission: "edit", collection };
+    if (method === "DELETE") return { permission: "delete", collection };
+  }
+
+  if (resource === "versions" && collection) {
+    if (method === "DELETE") {
+      return { permission: "deleteVersions", collection };
+    }
+    if (method === "POST" && action === "restore") {
+      return { permission: "restoreVersions", collection };
+    }
+    // Pinning only changes what pruning keeps
+    if (method === "POST" || method === "PUT") {
+      return { permission: "edit", collection };
+    }
+  }
+
+  if (resource === "trash" && collection) {
+    if (method === "POST" && versionId === "restore") {
+      return { permission: "restoreVersions", collection };
+    }
+    if (method === "DELETE") {
+      return { permission: "deleteVersions", collection };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keep roles without the publish permission to drafts
+ *
+ * Such roles may only create entries with `draft: true`, and only edit
+ * entries that are drafts and stay drafts. Scheduling publishes an entry
+ * later, so they cannot change `publishAt` either. Data entries are never
+ * published, so callers skip this check for data collections.
+ *
+ * @param req - The incoming request
+ * @param context - Middleware context
+ * @param collection - Collection of the entry
+ * @param before - Frontmatter on disk (undefined for new entries)
+ * @param after - Frontmatter as it will be written
+ * @returns An error to send, or null if the change is allowed
+ */
+export function checkDraftChange(
+  req: IncomingMessage,
+  context: MiddlewareContext,
+  collection: string,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown>
+): ApiForbiddenError | null {
+  const role = getRequestRole(req, context, collection);
+  if (hasPermission(role, "publish")) return null;
+
+  if (before && before.draft !== true) {
+    return new ApiForbiddenError(
+      `The ${role} role can only edit drafts in '${collection}'`,
+      { role, permission: "publish", collection }
+    );
+  }
+  if (after.draft !== true) {
+    return new ApiForbiddenError(
+      `The ${role} role cannot publish entries in '${collection}'; keep draft: true`,
+      { role, permission: "publish", collection }
+    );
+  }
+  if (
+    (getPublishAt(before ?? {})?.getTime() ?? null) !==
+    (getPublishAt(after)?.getTime() ?? null)
+  ) {
+    return new ApiForbiddenError(
+      `The ${role} role cannot schedule entries in '${collection}'`,
+      { role, permission: "publish", collection }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Describe the request's user and what they may do
+ *
+ * @param req - The incoming request
+ * @param context - Middleware context
+ * @param collections - Names of all collections
+ * @returns Session response
+ */
+export function getSession(
+  req: IncomingMessage,
+  context: MiddlewareContext,
+  collections: string[]
+): SessionResponse {
+  const describe = (collection?: string) => {
+    const role = getRequestRole(req, context, collection);
+    return { role, permissions: ROLE_PERMISSIONS[role] };
+  };
+
+  return {
+    user: getRequestUser(req) ?? null,
+    ...describe(),
+    collections: Object.fromEntries(
+      collections.map((collection) => [collection, describe(collection)])
+    ),
+  };
+}
@@ -6,28 +6,50 @@
  *
  * ## API Endpoints:
  * - GET /api/collections - List all collections
+ * - GET /api/config - Get the current configuration
+ * - PUT /api/config - Update the configuration file
+ * - GET /api/session - Get the current user's role and permissions
  * - GET /api/content/:collection - List content in collection
  * - GET /api/content/:collection/:id - Get single content item
  * - POST /api/content/:collection - Create new content
+ * - POST /api/content/:collection/batch - Apply a change to several entries
  * - PUT /api/content/:collection/:id - Update content
  * - DELETE /api/content/:collection/:id - Delete content
+ * - POST /api/content/:collection/:id/move - Rename or move content
+ * - GET /api/links/broken - List broken links across all collections
+ * - GET /api/links/:collection/:id - List backlinks and outbound links
+ * - GET /api/git/status - List entries with uncommitted changes
+ * - GET /api/git/diff/:collection/:id - Get the working-tree diff of an entry
+ * - POST /api/git/commit - Commit (and optionally push) entries
  * - GET /api/images/:collection/:contentId - Discover images for content
  * - GET /api/images/:collection/:contentId/* - Serve image file
  * - POST /api/images - Upload image
+ * - GET /api/media - List all images in the project with their usage
+ * - GET /api/media/file/* - Serve an image (or a thumbnail) by project path
+ * - GET /api/versions - Report version storage per collection
+ * - GET /api/versions/timeline - List recent versions across all entries
  * - GET /api/versions/:collection/:id - List versions
  * - GET /api/versions/:collection/:id/:versionId - Get version
  * - POST /api/versions/:collection/:id - Create manual version
  * - POST /api/versions/:collection/:id/:versionId/restore - Restore version
+ * - PUT /api/versions/:collection/:id/:versionId - Pin or unpin version
  * - GET /api/versions/:collection/:id/:versionId/diff - Get diff data
  * - DELETE /api/versions/:collection/:id/:versionId - Delete version
  * - DELETE /api/versions/:collection/:id - Clear all versions
+ * - GET /api/trash - List deleted entries with version history
+ * - POST /api/trash/:collection/:id/restore - Restore a deleted entry
+ * - DELETE /api/trash/:collection/:id - Permanently delete a deleted entry
+ * - GET /api/events - Stream content change events (server-sent events)
+ *
+ * Routes that change content require the matching permission of the
+ * user's role (see `./permissions`).
  *
  * @module @writenex/astro/server/routes
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
 import { createReadStream, existsSync, statSync } from "node:fs";
-import { join, extname } from "node:path";
+import { join, extname, resolve, sep } from "node:path";
 import type { MiddlewareContext } from "./middleware";
 import {
   sendJson,
@@ -40,8 +62,13 @@ import {
   ApiBadRequestError,
   ApiMethodNotAllowedError,
   CollectionNotFoundError,
+  ConfigWriteError,
   CollectionDiscoveryError,
+  ContentAlreadyExistsError,
+  ContentHasBacklinksError,
   ContentNotFoundError,
+  ContentValidationError,
+  GitNotRepositoryError,
   ImageInvalidTypeError,
   ImageNotFoundError,
   PathTraversalError,
@@ -51,20 +78,44 @@ import {
   WritenexErrorCode,
 } from "@/core/errors";
 import { getCache } from "./cache";
+import { getEventBroadcaster } from "./events";
+import {
+  checkDraftChange,
+  checkPermission,
+  getRoutePermission,
+  getSession,
+} from "./permissions";
 import { discoverCollections, mergeCollections } from "@/discovery/collections";
-import { getCollectionSummaries, readContentFile } from "@/filesystem/reader";
+import {
+  getCollectionSummaries,
+  isContentFile,
+  readContentFile,
+} from "@/filesystem/reader";
 import {
   createContent,
   updateContent,
   deleteContent,
   getContentFilePath,
 } from "@/filesystem/writer";
+import { planMove, findMoveCollision, moveContent } from "@/filesystem/move";
+import { prepareBatch, applyBatch } from "@/filesystem/batch";
+import { updateInboundLinks } from "@/filesystem/links";
+import type { UpdatedLinkEntry } from "@/filesystem/links";
+import {
+  buildLinkIndex,
+  getBacklinks,
+  getOutboundLinks,
+  getBrokenLinks,
+} from "@/filesystem/link-index";
 import {
   uploadImage,
   parseMultipartFormData,
   isValidImageFile,
   discoverContentImages,
 } from "@/filesystem/images";
+import { buildMediaIndex, getMediaReference } from "@/filesystem/media";
+import { getGitStatus, getGitDiff, commitGitChanges } from "@/filesystem/git";
+import { createThumbnail } from "@/filesystem/image-processing";
 import {
   getVersions,
   getVersion,
@@ -72,8 +123,43 @@ import {
   restoreVersion,
   deleteVersion,
   clearVersions,
+  getVersionStorageReport,
+  getVersionTimeline,
+  setVersionPinned,
 } from "@/filesystem/versions";
-import type { VersionHistoryConfig } from "@/types";
+import {
+  listTrash,
+  restoreFromTrash,
+  deleteFromTrash,
+} from "@/filesystem/trash";
+import {
+  applySchemaDefaults,
+  parseDateFields,
+  validateFrontmatter,
+} from "@/core/validation";
+import {
+  checkTransition,
+  getCollectionWorkflow,
+  getWorkflowChanges,
+} from "@/core/workflow";
+import { validateConfig } from "@/config/schema";
+import {
+  applyConfigDefaults,
+  applyRetentionDefaults,
+  DEFAULT_CONTENT_PATH,
+  DEFAULT_VERSION_HISTORY_CONFIG,
+} from "@/config/defaults";
+import { writeConfigFile } from "@/config/writer";
+import type {
+  VersionHistoryConfig,
+  MergeSource,
+  DiscoveredCollection,
+  BatchAction,
+  LinkIndex,
+  MediaItem,
+  WritenexConfig,
+  GitCommitRequest,
+} from "@/types";
 
 /**
  * API route handler function type
@@ -115,6 +201,18 @@ export function createApiRouter(
     const segments = pathWithoutQuery.split("/").filter(Boolean);
     const params: RouteParams = { query };
 
+    // Check the user's role before anything is changed
+    const required = getRoutePermission(method, segments);
+    if (required) {
+      const denied = checkPermission(
+        req,
+        context,
+        required.permission,
+        required.collection
+      );
+      if (denied) return sendWritenexError(res, denied);
+    }
+
     // Route: /collections
     if (segments[0] === "collections") {
       if (method === "GET") {
@@ -134,6 +232,20 @@ export function createApiRouter(
         }
         return handleGetConfig(req, res, params, context);
       }
+      if (method === "PUT" && !segments[1]) {
+        return handleUpdateConfig(req, res, params, context);
+      }
+      return sendWritenexError(
+        res,
+        new ApiMethodNotAllowedError(method, ["GET", "PUT"])
+      );
+    }
+
+    // Route: /session
+    if (segments[0] === "session" && !segments[1]) {
+      if (method === "GET") {
+        return handleGetSession(req, res, params, context);
+      }
       return sendWritenexError(
         res,
         new ApiMethodNotAllowedError(method, ["GET"])
@@ -145,6 +257,22 @@ export function createApiRouter(
       params.collection = segments[1];
       params.id = segments[2];
 
+      // Route: /content/:collection/batch
+      if (params.id === "batch" && !segments[3] && method === "POST") {
+        return handleBatchContent(req, res, params, context);
+      }
+
+      // Route: /content/:collection/:id/move
+      if (params.id && segments[3] === "move") {
+        if (method === "POST") {
+          return handleMoveContent(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["POST"])
+        );
+      }
+
       switch (method) {
         case "GET":
           if (params.id) {
@@ -170,6 +298,55 @@ export function createApiRouter(
       }
     }
 
+    // Route: /links/broken or /links/:collection/:id
+    if (segments[0] === "links") {
+      if (method !== "GET") {
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      if (segments[1] === "broken" && !segments[2]) {
+        return handleGetBrokenLinks(req, res, params, context);
+      }
+      params.collection = segments[1];
+      params.id = segments[2];
+      return handleGetContentLinks(req, res, params, context);
+    }
+
+    // Route: /git/status, /git/diff/:collection/:id or /git/commit
+    if (segments[0] === "git") {
+      if (segments[1] === "status" && !segments[2]) {
+        if (method === "GET") {
+          return handleGitStatus(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      if (segments[1] === "diff") {
+        if (method === "GET") {
+          params.collection = segments[2];
+          params.id = segments[3];
+          return handleGitDiff(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      if (segments[1] === "commit" && !segments[2]) {
+        if (method === "POST") {
+          return handleGitCommit(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["POST"])
+        );
+      }
+    }
+
     // Route: /images/:collection/:contentId - Image discovery
     // Route: /images/:collection/:contentId/* - Serve image file
     if (segments[0] === "images") {
@@ -200,6 +377,51 @@ export function createApiRouter(
       );
     }
 
+    // Route: /media - Media library
+    // Route: /media/file/* - Serve image by project path
+    if (segments[0] === "media") {
+      if (method !== "GET") {
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      if (segments[1] === "file" && segments.length > 2) {
+        const filePath = segments.slice(2).join("/");
+        return handleServeMediaFile(req, res, params, filePath, context);
+      }
+      if (!segments[1]) {
+        return handleGetMedia(req, res, params, context);
+      }
+      return sendError(res, "Not found", 404);
+    }
+
+    // Route: /versions (storage report)
+    if (segments[0] === "versions" && !segments[1]) {
+      if (method !== "GET") {
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      return handleGetVersionReport(req, res, params, context);
+    }
+
+    // Route: /versions/timeline (project-wide timeline)
+    if (
+      segments[0] === "versions" &&
+      segments[1] === "timeline" &&
+      !segments[2]
+    ) {
+      if (method !== "GET") {
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      return handleGetVersionTimeline(req, res, params, context);
+    }
+
     // Route: /versions/:collection/:id/:versionId?
     if (segments[0] === "versions") {
       params.collection = segments[1];
@@ -226,6 +448,19 @@ export function createApiRouter(
           if (!params.versionId) {
             return handleCreateVersion(req, res, params, context);
           }
+          return sendWritenexError(
+            res,
+            new ApiMethodNotAllowedError(method, [
+              "GET",
+              "POST",
+              "PUT",
+              "DELETE",
+            ])
+          );
+        case "PUT":
+          if (params.versionId && !action) {
+            return handlePinVersion(req, res, params, context);
+          }
           return sendWritenexError(
             res,
             new ApiMethodNotAllowedError(method, ["GET", "POST", "DELETE"])
@@ -238,11 +473,62 @@ export function createApiRouter(
         default:
           return sendWritenexError(
             res,
-            new ApiMethodNotAllowedError(method, ["GET", "POST", "DELETE"])
+            new ApiMethodNotAllowedError(method, [
+              "GET",
+              "POST",
+              "PUT",
+              "DELETE",
+            ])
           );
       }
     }
 
+    // Route: /trash or /trash/:collection/:id(/restore)
+    if (segments[0] === "trash") {
+      params.collection = segments[1];
+      params.id = segments[2];
+
+      if (!segments[1]) {
+        if (method === "GET") {
+          return handleListTrash(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["GET"])
+        );
+      }
+      if (segments[3] === "restore" && !segments[4]) {
+        if (method === "POST") {
+          return handleRestoreFromTrash(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["POST"])
+        );
+      }
+      if (!segments[3]) {
+        if (method === "DELETE") {
+          return handleDeleteFromTrash(req, res, params, context);
+        }
+        return sendWritenexError(
+          res,
+          new ApiMethodNotAllowedError(method, ["DELETE"])
+        );
+      }
+      return sendError(res, "Not found", 404);
+    }
+
+    // Route: /events (server-sent events)
+    if (segments[0] === "events") {
+      if (method === "GET") {
+        return handleEvents(req, res, params, context);
+      }
+      return sendWritenexError(
+        res,
+        new ApiMethodNotAllowedError(method, ["GET"])
+      );
+    }
+
     // Route: /health (for testing)
     if (segments[0] === "health") {
       return sendJson(res, {
@@ -256,22 +542,115 @@ export function createApiRouter(
   };
 }
 
+/**
+ * GET /api/events - Stream content change events
+ *
+ * Keeps the connection open as a server-sent event stream. Each external
+ * file change is pushed as a `content-change` event, and each reload of
+ * the configuration file as a `config-change` event.
+ */
+const handleEvents: RouteHandler = async (req, res, _params, _context) => {
+  getEventBroadcaster().addClient(req, res);
+};
+
 /**
  * GET /api/config - Get current configuration
  *
- * Returns the current Writenex configuration including image settings
- * and Astro's trailingSlash setting for preview URLs.
+ * Returns the current Writenex configuration including image settings,
+ * the MDX component registry, Astro's trailingSlash setting for preview
+ * URLs, and the configuration as written in the config file
+ * (`userConfig`, without defaults).
+ * `configErrors` lists problems in the config file on disk that kept it
+ * from being applied.
  */
 const handleGetConfig: RouteHandler = async (_req, res, _params, context) => {
-  const { config, trailingSlash } = context;
+  const { config, userConfig, configErrors = [], trailingSlash } = context;
 
   sendJson(res, {
     images: config.images,
     editor: config.editor,
+    components: config.components,
     trailingSlash,
+    userConfig,
+    configErrors,
   });
 };
 
+/**
+ * PUT /api/config - Update the configuration file
+ *
+ * Request body: the full configuration as it should appear in the file
+ * (without defaults). Only the properties that differ from the loaded
+ * configuration are rewritten, so comments and imports are kept. If the
+ * project has no configuration file, `writenex.config.ts` is created.
+ * The new configuration takes effect immediately.
+ *
+ * Response:
+ * {
+ *   success: true;
+ *   configPath: string;
+ *   created: boolean;
+ * }
+ */
+const handleUpdateConfig: RouteHandler = async (req, res, _params, context) => {
+  try {
+    const body = await parseJsonBody(req);
+    const validation = validateConfig(body);
+    if (!validation.success) {
+      const errors = validation.error.errors.map(
+        (e) => `${e.path.join(".")}: ${e.message}`
+      );
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError(`Invalid configuration: ${errors.join("; ")}`)
+      );
+    }
+
+    // Keep properties the schema does not know, so they are not removed
+    const nextConfig = body as WritenexConfig;
+    const names = (nextConfig.collections ?? []).map((c) => c.name);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError(`Duplicate collection name: ${duplicate}`)
+      );
+    }
+
+    const result = await writeConfigFile(
+      context.projectRoot,
+      context.userConfig,
+      nextConfig
+    );
+    if (!result.success) {
+      return sendWritenexError(
+        res,
+        new ConfigWriteError(
+          result.configPath,
+          result.error ?? "Failed to write configuration"
+        )
+      );
+    }
+
+    // Swap in the new configuration for subsequent requests
+    context.userConfig = nextConfig;
+    context.config = applyConfigDefaults(nextConfig);
+    context.configErrors = [];
+    getCache().invalidateAll();
+
+    sendJson(res, {
+      success: true,
+      configPath: result.configPath,
+      created: result.created ?? false,
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
 /**
  * GET /api/config/path - Get config file path
  *
@@ -297,6 +676,155 @@ const handleGetConfigPath: RouteHandler = async (
   });
 };
 
+/**
+ * Get configured and discovered collections, using the cache
+ *
+ * @param context - Middleware context
+ * @returns Merged collection list
+ */
+export async function getResolvedCollections(
+  context: MiddlewareContext
+): Promise<DiscoveredCollection[]> {
+  const { config, projectRoot, contentSchemas } = context;
+  const cache = getCache();
+
+  let collections = cache.getCollections();
+  if (!collections) {
+    const discovered = await discoverCollections(
+      projectRoot,
+      DEFAULT_CONTENT_PATH,
+      contentSchemas
+    );
+    collections = mergeCollections(
+      discovered,
+      config.collections,
+      contentSchemas
+    ).map((collection) => {
+      // Data entries are not published, so they have no workflow
+      const workflow =
+        collection.type !== "data" &&
+        getCollectionWorkflow(config.workflow, collection.name);
+      return workflow ? { ...collection, workflow } : collection;
+    });
+    cache.setCollections(collections);
+  }
+
+  return collections;
+}
+
+/**
+ * Get the directory of a collection
+ *
+ * Configured collections may live outside `src/content`. Unknown
+ * collections resolve to `src/content/{collection}`, where handlers
+ * report them as not found.
+ *
+ * @param context - Middleware context
+ * @param collection - Collection name
+ * @returns Absolute path to the collection directory
+ */
+async function getCollectionPath(
+  context: MiddlewareContext,
+  collection: string
+): Promise<string> {
+  const resolved = (await getResolvedCollections(context)).find(
+    (c) => c.name === collection
+  );
+  return resolve(
+    context.projectRoot,
+    resolved?.path ?? join(DEFAULT_CONTENT_PATH, collection)
+  );
+}
+
+/**
+ * Validate frontmatter against a collection's schema
+ *
+ * Schemas detected from existing files are only a guess (required fields
+ * and enums are inferred from samples), so only declared schemas from the
+ * Writenex config or the Astro content config are enforced.
+ *
+ * @param collection - Resolved collection (if found)
+ * @param frontmatter - Frontmatter to validate
+ * @param contentId - Content ID for the error context
+ * @returns Validation error, or null if the frontmatter is valid
+ */
+function checkFrontmatter(
+  collection: DiscoveredCollection | undefined,
+  frontmatter: Record<string, unknown>,
+  contentId?: string
+): ContentValidationError | null {
+  if (!collection?.schema || collection.schemaSource === "detected") {
+    return null;
+  }
+
+  const fieldErrors = validateFrontmatter(frontmatter, collection.schema);
+  return fieldErrors.length > 0
+    ? new ContentValidationError(fieldErrors, contentId)
+    : null;
+}
+
+/**
+ * Turn date strings sent for a collection's date fields into dates
+ *
+ * JSON has no dates, so entries of JSON data collections keep strings.
+ *
+ * @param collection - Resolved collection (if found)
+ * @param frontmatter - Frontmatter as sent by the editor
+ * @returns Frontmatter to write
+ */
+function parseCollectionDates(
+  collection: DiscoveredCollection | undefined,
+  frontmatter: Record<string, unknown>
+): Record<string, unknown> {
+  if (!collection?.schema || collection.filePattern.endsWith(".json")) {
+    return frontmatter;
+  }
+  return parseDateFields(frontmatter, collection.schema);
+}
+
+/**
+ * Get the link index, building it if not cached
+ *
+ * @param context - Middleware context
+ * @returns Index of links between all content entries
+ */
+async function getLinkIndex(context: MiddlewareContext): Promise<LinkIndex> {
+  const cache = getCache();
+
+  let index = cache.getLinkIndex();
+  if (!index) {
+    index = await buildLinkIndex({
+      projectRoot: context.projectRoot,
+      collections: await getResolvedCollections(context),
+    });
+    cache.setLinkIndex(index);
+  }
+
+  return index;
+}
+
+/**
+ * Get the media library, building it if not cached
+ *
+ * @param context - Middleware context
+ * @returns All images in the project, newest first
+ */
+async function getMediaIndex(context: MiddlewareContext): Promise<MediaItem[]> {
+  const cache = getCache();
+
+  let items = cache.getMedia();
+  if (!items) {
+    items = await buildMediaIndex({
+      projectRoot: context.projectRoot,
+      collections: await getResolvedCollections(context),
+      linkIndex: await getLinkIndex(context),
+    });
+    cache.setMedia(items);
+  }
+
+  return items;
+}
+
 /**
  * GET /api/collections - List all collections
  *
@@ -309,39 +837,51 @@ const handleGetCollections: RouteHandler = async (
   _params,
   context
 ) => {
-  const { config, projectRoot } = context;
-  const cache = getCache();
+  const { projectRoot } = context;
 
   try {
-    // Try to get from cache first
-    let collections = cache.getCollections();
-
-    if (!collections) {
-      // Cache miss - discover and merge collections
-      const discovered = await discoverCollections(projectRoot);
-      collections = mergeCollections(discovered, config.collections);
-
-      // Store in cache
-      cache.setCollections(collections);
-    }
-
+    const collections = await getResolvedCollections(context);
     sendJson(res, { collections });
   } catch (error) {
     const wrappedError = isWritenexError(error)
       ? error
       : new CollectionDiscoveryError(
-          join(projectRoot, "src/content"),
+          join(projectRoot, DEFAULT_CONTENT_PATH),
           error instanceof Error ? error : undefined
         );
     sendWritenexError(res, wrappedError);
   }
 };
 
+/**
+ * GET /api/session - Get the current user's role and permissions
+ *
+ * Returns the authenticated user (null without authentication), their
+ * global role and, per collection, the role that applies there. The
+ * editor uses it to hide actions the user cannot perform.
+ */
+const handleGetSession: RouteHandler = async (req, res, _params, context) => {
+  try {
+    const collections = await getResolvedCollections(context);
+    sendJson(
+      res,
+      getSession(
+        req,
+        context,
+        collections.map((c) => c.name)
+      )
+    );
+  } catch (error) {
+    sendWritenexError(res, wrapError(error));
+  }
+};
+
 /**
  * GET /api/content/:collection - List content in collection
  *
  * Query params:
  * - draft: Include drafts (default: false)
+ * - state: Only entries in this workflow state (collections with a workflow)
  * - sort: Sort field (default: pubDate)
  * - order: Sort order (asc/desc, default: desc)
  *
@@ -349,7 +889,7 @@ const handleGetCollections: RouteHandler = async (
  */
 const handleListContent: RouteHandler = async (_req, res, params, context) => {
   const { collection, query } = params;
-  const { projectRoot } = context;
+  const { config } = context;
 
   if (!collection) {
     return sendWritenexError(
@@ -361,7 +901,7 @@ const handleListContent: RouteHandler = async (_req, res, params, context) => {
   const cache = getCache();
 
   try {
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
 
     // Check if collection exists
     if (!existsSync(collectionPath)) {
@@ -385,6 +925,7 @@ const handleListContent: RouteHandler = async (_req, res, params, context) => {
         includeDrafts,
         sortBy,
         sortOrder,
+        workflow: getCollectionWorkflow(config.workflow, collection),
       });
 
       // Cache only the "all content" query
@@ -393,6 +934,10 @@ const handleListContent: RouteHandler = async (_req, res, params, context) => {
       }
     }
 
+    if (query.state) {
+      items = items.filter((item) => item.state === query.state);
+    }
+
     sendJson(res, {
       items,
       total: items.length,
@@ -411,7 +956,6 @@ const handleListContent: RouteHandler = async (_req, res, params, context) => {
  */
 const handleGetContent: RouteHandler = async (_req, res, params, context) => {
   const { collection, id } = params;
-  const { projectRoot } = context;
 
   if (!collection || !id) {
     return sendWritenexError(
@@ -421,7 +965,7 @@ const handleGetContent: RouteHandler = async (_req, res, params, context) => {
   }
 
   try {
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const filePath = getContentFilePath(collectionPath, id);
 
     if (!filePath) {
@@ -448,10 +992,19 @@ const handleGetContent: RouteHandler = async (_req, res, params, context) => {
  *
  * Automatically detects the file pattern from existing content in the collection
  * and creates new content following the same pattern.
+ *
+ * Frontmatter is checked against the collection's declared schema, after
+ * absent fields are filled in with their defaults. Required fields without
+ * a default must be sent. Invalid frontmatter returns 400 with code
+ * "CONTENT_VALIDATION_ERROR" and a `fieldErrors` list. Roles that cannot
+ * publish must create entries with `draft: true` (403 otherwise).
+ *
+ * In collections with a workflow, new entries without a state get the
+ * initial state, and `draft` follows the state.
  */
 const handleCreateContent: RouteHandler = async (req, res, params, context) => {
   const { collection } = params;
-  const { projectRoot, config } = context;
+  const { config } = context;
 
   if (!collection) {
     return sendError(res, "Collection name required", 400);
@@ -465,7 +1018,7 @@ const handleCreateContent: RouteHandler = async (req, res, params, context) => {
     }
 
     const {
-      frontmatter,
+      frontmatter: sentFrontmatter,
       body: contentBody,
       slug,
     } = body as {
@@ -474,39 +1027,49 @@ const handleCreateContent: RouteHandler = async (req, res, params, context) => {
       slug?: string;
     };
 
-    if (!frontmatter) {
+    if (!sentFrontmatter) {
       return sendError(res, "Frontmatter is required", 400);
     }
 
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const cache = getCache();
-
-    // Get the file pattern for this collection
-    let filePattern: string | undefined;
-
-    // First, check if there's a configured pattern for this collection
-    const configuredCollection = config.collections.find(
+    const resolved = (await getResolvedCollections(context)).find(
       (c) => c.name === collection
     );
-    if (configuredCollection?.filePattern) {
-      filePattern = configuredCollection.filePattern;
-    } else {
-      // Otherwise, get the detected pattern from discovered collections
-      let collections = cache.getCollections();
-      if (!collections) {
-        const discovered = await discoverCollections(projectRoot);
-        collections = mergeCollections(discovered, config.collections);
-        cache.setCollections(collections);
-      }
+    const frontmatter = parseCollectionDates(
+      resolved,
+      resolved?.schema && resolved.schemaSource !== "detected"
+        ? applySchemaDefaults(sentFrontmatter, resolved.schema)
+        : sentFrontmatter
+    );
 
-      const discoveredCollection = collections.find(
-        (c) => c.name === collection
+    if (resolved?.workflow) {
+      Object.assign(
+        frontmatter,
+        getWorkflowChanges(resolved.workflow, undefined, frontmatter)
       );
-      if (discoveredCollection?.filePattern) {
-        filePattern = discoveredCollection.filePattern;
-      }
     }
 
+    const validationError = checkFrontmatter(resolved, frontmatter, slug);
+    if (validationError) {
+      return sendWritenexError(res, validationError);
+    }
+
+    // Data entries are not published, so they have no drafts
+    const draftError =
+      resolved?.type !== "data" &&
+      checkDraftChange(req, context, collection, undefined, frontmatter);
+    if (draftError) {
+      return sendWritenexError(res, draftError);
+    }
+
+    // Configured pattern first, then the pattern detected from existing files
+    const configuredCollection = config.collections.find(
+      (c) => c.name === collection
+    );
+    const filePattern =
+      configuredCollection?.filePattern ?? resolved?.filePattern;
+
     const result = await createContent(collectionPath, {
       frontmatter,
       body: contentBody ?? "",
@@ -541,6 +1104,11 @@ const handleCreateContent: RouteHandler = async (req, res, params, context) => {
  * Supports conflict detection via expectedMtime parameter:
  * - If expectedMtime is provided and differs from current file mtime,
  *   returns 409 Conflict with both versions for client-side resolution.
+ * - If base is also provided, the update is three-way merged with the file
+ *   on disk first. Clean merges are written and returned as `merged`.
+ *
+ * The schema, draft and workflow checks below apply to the frontmatter as
+ * it will be written, after merging.
  *
  * Request body:
  * {
@@ -548,6 +1116,7 @@ const handleCreateContent: RouteHandler = async (req, res, params, context) => {
  *   body?: string;
  *   expectedMtime?: number;  // For conflict detection
  *   forceOverwrite?: boolean; // Skip conflict check (use with caution)
+ *   base?: { frontmatter, body }; // Last loaded version, enables merging
  * }
  *
  * Response on conflict (409):
@@ -557,7 +1126,22 @@ const handleCreateContent: RouteHandler = async (req, res, params, context) => {
  *   serverContent: string;
  *   serverMtime: number;
  *   clientMtime: number;
+ *   merge?: ContentMergeResult; // Present when base was provided
+ * }
+ *
+ * Response on invalid frontmatter (400):
+ * {
+ *   error: string;
+ *   code: "CONTENT_VALIDATION_ERROR";
+ *   fieldErrors: FrontmatterFieldError[];
  * }
+ *
+ * Roles that cannot publish may only edit drafts and cannot change
+ * `draft` to false (403 API_FORBIDDEN).
+ *
+ * In collections with a workflow, `draft` and the state field are kept
+ * in sync, and state changes the transitions do not allow return 409
+ * with code "CONTENT_INVALID_TRANSITION".
  */
 const handleUpdateContent: RouteHandler = async (req, res, params, context) => {
   const { collection, id } = params;
@@ -585,25 +1169,48 @@ const handleUpdateContent: RouteHandler = async (req, res, params, context) => {
       body: contentBody,
       expectedMtime,
       forceOverwrite,
+      base,
     } = body as {
       frontmatter?: Record<string, unknown>;
       body?: string;
       expectedMtime?: number;
       forceOverwrite?: boolean;
+      base?: MergeSource;
     };
 
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const filePath = getContentFilePath(collectionPath, id);
 
     if (!filePath) {
       return sendWritenexError(res, new ContentNotFoundError(collection, id));
     }
 
+    // Keep the workflow state and draft in sync with the sent changes
+    const existing = await readContentFile(filePath, collectionPath);
+    const existingFrontmatter = existing.content?.frontmatter ?? {};
+    let changes = frontmatter;
+
+    const resolved = (await getResolvedCollections(context)).find(
+      (c) => c.name === collection
+    );
+    if (frontmatter) {
+      changes = parseCollectionDates(resolved, frontmatter);
+    }
+    if (resolved?.workflow && changes) {
+      changes = {
+        ...changes,
+        ...getWorkflowChanges(resolved.workflow, existingFrontmatter, {
+          ...existingFrontmatter,
+          ...changes,
+        }),
+      };
+    }
+
     // Pass version history config to updateContent for automatic version creation
     // Note: config.versionHistory is guaranteed to have all required fields
     // because applyConfigDefaults() applies DEFAULT_VERSION_HISTORY_CONFIG
     const result = await updateContent(filePath, collectionPath, {
-      frontmatter,
+      frontmatter: changes,
       body: contentBody,
       projectRoot,
       collection,
@@ -612,8 +1219,20 @@ const handleUpdateContent: RouteHandler = async (req, res, params, context) => {
       >,
       // Only check mtime if not forcing overwrite
       expectedMtime: forceOverwrite ? undefined : expectedMtime,
+      base,
+      // Check the frontmatter as it will be written, after any merge
+      check: (current, next) =>
+        (resolved?.workflow &&
+          checkTransition(resolved.workflow, collection, id, current, next)) ||
+        (resolved?.type !== "data" &&
+          checkDraftChange(req, context, collection, current, next)) ||
+        (frontmatter ? checkFrontmatter(resolved, next, id) : null),
     });
 
+    if (!result.success && result.rejected) {
+      return sendWritenexError(res, result.rejected);
+    }
+
     // Handle conflict error specially
     if (!result.success && result.conflict) {
       return sendWritenexError(res, result.conflict);
@@ -632,6 +1251,383 @@ const handleUpdateContent: RouteHandler = async (req, res, params, context) => {
       id: result.id,
       path: result.path,
       mtime: result.mtime,
+      ...(result.merged ? { merged: result.merged } : {}),
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * POST /api/content/:collection/:id/move - Rename or move content
+ *
+ * Changes the slug and/or other file pattern tokens of an entry and moves
+ * its file or folder (with colocated images) to the new path. Version
+ * history follows the entry to its new ID.
+ *
+ * Request body:
+ * {
+ *   slug?: string;                   // New slug
+ *   tokens?: Record<string, string>; // New token values (date, category, lang, ...)
+ *   updateLinks?: boolean;           // Rewrite links in other entries
+ * }
+ *
+ * Response:
+ * {
+ *   success: true;
+ *   id: string;          // New content ID
+ *   path: string;        // New file path
+ *   previousId: string;  // Content ID before the move
+ *   updatedEntries: { collection: string; id: string }[];
+ * }
+ *
+ * Returns 409 CONTENT_ALREADY_EXISTS if the target path is taken.
+ */
+const handleMoveContent: RouteHandler = async (req, res, params, context) => {
+  const { collection, id } = params;
+  const { projectRoot, config } = context;
+
+  if (!collection || !id) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection and content ID required")
+    );
+  }
+
+  try {
+    const body = await parseJsonBody(req);
+
+    if (!body || typeof body !== "object") {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Invalid request body")
+      );
+    }
+
+    const { slug, tokens, updateLinks } = body as {
+      slug?: string;
+      tokens?: Record<string, string>;
+      updateLinks?: boolean;
+    };
+
+    if (slug === undefined && !tokens) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Either slug or tokens is required")
+      );
+    }
+
+    if (
+      (slug !== undefined && typeof slug !== "string") ||
+      (tokens !== undefined &&
+        (typeof tokens !== "object" ||
+          Object.values(tokens).some((v) => typeof v !== "string")))
+    ) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Slug and token values must be strings")
+      );
+    }
+
+    const collectionPath = await getCollectionPath(context, collection);
+    const filePath = getContentFilePath(collectionPath, id);
+
+    if (!filePath) {
+      return sendWritenexError(res, new ContentNotFoundError(collection, id));
+    }
+
+    const collections = await getResolvedCollections(context);
+    const resolved = collections.find((c) => c.name === collection);
+
+    const plan = planMove(collectionPath, filePath, {
+      filePattern: resolved?.filePattern ?? "{slug}.md",
+      slug,
+      tokens,
+    });
+
+    if (findMoveCollision(plan)) {
+      return sendWritenexError(
+        res,
+        new ContentAlreadyExistsError(collection, plan.toId)
+      );
+    }
+
+    const versionHistoryConfig = config.versionHistory as Required<
+      typeof config.versionHistory
+    >;
+    const result = await moveContent(plan, {
+      projectRoot,
+      collection,
+      versionHistoryConfig,
+    });
+
+    if (!result.success) {
+      return sendError(res, result.error ?? "Failed to move content", 500);
+    }
+
+    let updatedEntries: UpdatedLinkEntry[] = [];
+    if (updateLinks && plan.renames.length > 0) {
+      updatedEntries = await updateInboundLinks({
+        projectRoot,
+        collections,
+        collection,
+        fromId: plan.fromId,
+        toId: plan.toId,
+        moves: plan.renames,
+        versionHistoryConfig,
+      });
+    }
+
+    // Invalidate caches (entry removed under one ID, added under another)
+    const cache = getCache();
+    cache.handleFileChange("unlink", collection, plan.fromId);
+    cache.handleFileChange("add", collection, plan.toId);
+    for (const entry of updatedEntries) {
+      if (entry.collection !== collection) {
+        cache.handleFileChange("change", entry.collection);
+      }
+    }
+
+    sendJson(res, {
+      success: true,
+      id: result.id,
+      path: result.path,
+      previousId: result.previousId,
+      updatedEntries,
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * Batch action types accepted by the batch endpoint
+ */
+const BATCH_ACTION_TYPES: ReadonlySet<string> = new Set([
+  "publish",
+  "unpublish",
+  "set",
+  "addTags",
+  "removeTags",
+  "move",
+  "delete",
+]);
+
+/**
+ * Check the shape of a batch action from a request body
+ *
+ * @param action - Parsed action
+ * @returns Error message, or null if the action is well formed
+ */
+function checkBatchAction(action: unknown): string | null {
+  if (!action || typeof action !== "object") {
+    return "Action is required";
+  }
+
+  const { type, field, tags, category, force } = action as Record<
+    string,
+    unknown
+  >;
+  if (typeof type !== "string" || !BATCH_ACTION_TYPES.has(type)) {
+    return `Unknown action type: ${String(type)}`;
+  }
+  if (type === "set" && (typeof field !== "string" || field === "")) {
+    return "Field name is required";
+  }
+  if (
+    (type === "addTags" || type === "removeTags") &&
+    (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string"))
+  ) {
+    return "Tags must be a list of strings";
+  }
+  if (type === "move" && (typeof category !== "string" || category === "")) {
+    return "Category is required";
+  }
+  if (type === "delete" && force !== undefined && typeof force !== "boolean") {
+    return "Force must be a boolean";
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/content/:collection/batch - Apply a change to several entries
+ *
+ * The change is applied to all entries or to none: every entry is read
+ * and validated first, and entries already written are restored if a
+ * later one fails. Each affected file gets a version snapshot.
+ *
+ * Request body:
+ * {
+ *   ids: string[];
+ *   action:
+ *     | { type: "publish" | "unpublish" }
+ *     | { type: "delete"; force?: boolean }
+ *     | { type: "set"; field: string; value: unknown }
+ *     | { type: "addTags" | "removeTags"; tags: string[]; field?: string }
+ *     | { type: "move"; category: string };
+ * }
+ *
+ * Response:
+ * {
+ *   success: true;
+ *   results: { id: string; newId?: string; changed: boolean; deleted?: boolean }[];
+ * }
+ *
+ * Response on invalid frontmatter (400):
+ * {
+ *   error: string;
+ *   code: "CONTENT_VALIDATION_ERROR";
+ *   fieldErrors: FrontmatterFieldError[];
+ *   context: { contentId: string };
+ * }
+ *
+ * Response when deleting entries that other entries link to (409):
+ * {
+ *   error: string;
+ *   code: "CONTENT_HAS_BACKLINKS";
+ *   backlinks: ContentLink[];
+ *   context: { collection: string; contentId: string };
+ * }
+ */
+const handleBatchContent: RouteHandler = async (req, res, params, context) => {
+  const { collection } = params;
+  const { projectRoot, config } = context;
+
+  if (!collection) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection name required")
+    );
+  }
+
+  try {
+    const body = await parseJsonBody(req);
+
+    if (!body || typeof body !== "object") {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Invalid request body")
+      );
+    }
+
+    const { ids, action } = body as { ids?: unknown; action?: unknown };
+
+    if (
+      !Array.isArray(ids) ||
+      ids.length === 0 ||
+      !ids.every((id) => typeof id === "string")
+    ) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("A non-empty list of content IDs is required")
+      );
+    }
+
+    const actionError = checkBatchAction(action);
+    if (actionError) {
+      return sendWritenexError(res, new ApiBadRequestError(actionError));
+    }
+
+    const collectionPath = await getCollectionPath(context, collection);
+    const resolved = (await getResolvedCollections(context)).find(
+      (c) => c.name === collection
+    );
+
+    const plan = await prepareBatch(
+      collectionPath,
+      ids as string[],
+      action as BatchAction,
+      {
+        collection,
+        filePattern: resolved?.filePattern ?? "{slug}.md",
+      }
+    );
+
+    // Warn before deleting entries that remaining entries link to
+    const batchAction = action as BatchAction;
+    if (batchAction.type === "delete" && !batchAction.force) {
+      const index = await getLinkIndex(context);
+      const deleted = new Set(plan.entries.map((entry) => entry.id));
+      for (const entry of plan.entries) {
+        const backlinks = getBacklinks(index, collection, entry.id).filter(
+          (link) =>
+            link.source.collection !== collection ||
+            !deleted.has(link.source.id)
+        );
+        if (backlinks.length > 0) {
+          return sendWritenexError(
+            res,
+            new ContentHasBacklinksError(collection, entry.id, backlinks)
+          );
+        }
+      }
+    }
+
+    // Reject the whole batch if any entry would become invalid
+    for (const entry of plan.entries) {
+      if (entry.delete || !entry.changes) continue;
+
+      if (resolved?.workflow) {
+        const before = entry.content.frontmatter;
+        const sync = getWorkflowChanges(
+          resolved.workflow,
+          before,
+          entry.frontmatter
+        );
+        entry.changes = { ...entry.changes, ...sync };
+        entry.frontmatter = { ...entry.frontmatter, ...sync };
+
+        const transitionError = checkTransition(
+          resolved.workflow,
+          collection,
+          entry.id,
+          before,
+          entry.frontmatter
+        );
+        if (transitionError) {
+          return sendWritenexError(res, transitionError);
+        }
+      }
+
+      const validationError = checkFrontmatter(
+        resolved,
+        entry.frontmatter,
+        entry.id
+      );
+      if (validationError) {
+        return sendWritenexError(res, validationError);
+      }
+    }
+
+    const result = await applyBatch(plan, {
+      projectRoot,
+      collection,
+      versionHistoryConfig: config.versionHistory as Required<
+        typeof config.versionHistory
+      >,
+    });
+
+    if (!result.success) {
+      return sendError(res, result.error ?? "Failed to apply batch", 500);
+    }
+
+    // Invalidate cache (entries may have been moved or removed)
+    const cache = getCache();
+    const removed = result.results?.some(
+      (item) => item.deleted || item.newId !== item.id
+    );
+    cache.handleFileChange(removed ? "unlink" : "change", collection);
+
+    sendJson(res, {
+      success: true,
+      results: result.results,
     });
   } catch (error) {
     const wrappedError = isWritenexError(error)
@@ -643,6 +1639,15 @@ const handleUpdateContent: RouteHandler = async (req, res, params, context) => {
 
 /**
  * DELETE /api/content/:collection/:id - Delete content
+ *
+ * With version history enabled, the entry goes to the trash with its
+ * colocated images and can be restored from `/api/trash`.
+ *
+ * Query parameters:
+ * - force: Delete even if other entries link to this one (default: false)
+ *
+ * Without `force`, responds with 409 and code "CONTENT_HAS_BACKLINKS",
+ * listing the links in `backlinks`, when other entries link here.
  */
 const handleDeleteContent: RouteHandler = async (
   _req,
@@ -650,15 +1655,15 @@ const handleDeleteContent: RouteHandler = async (
   params,
   context
 ) => {
-  const { collection, id } = params;
-  const { projectRoot } = context;
+  const { collection, id, query } = params;
+  const { projectRoot, config } = context;
 
   if (!collection || !id) {
     return sendError(res, "Collection and content ID required", 400);
   }
 
   try {
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const filePath = getContentFilePath(collectionPath, id);
 
     if (!filePath) {
@@ -669,7 +1674,26 @@ const handleDeleteContent: RouteHandler = async (
       );
     }
 
-    const result = await deleteContent(filePath);
+    if (query.force !== "true") {
+      const backlinks = getBacklinks(
+        await getLinkIndex(context),
+        collection,
+        id
+      );
+      if (backlinks.length > 0) {
+        return sendWritenexError(
+          res,
+          new ContentHasBacklinksError(collection, id, backlinks)
+        );
+      }
+    }
+
+    const result = await deleteContent(filePath, {
+      collectionPath,
+      projectRoot,
+      collection,
+      versionHistoryConfig: getResolvedVersionConfig(config.versionHistory),
+    });
 
     if (!result.success) {
       return sendError(res, result.error ?? "Failed to delete content", 500);
@@ -689,6 +1713,267 @@ const handleDeleteContent: RouteHandler = async (
   }
 };
 
+/**
+ * GET /api/links/broken - List broken links across all collections
+ *
+ * Lists links to entries that do not exist and to missing images or
+ * files, from Markdown bodies and `reference` / `image` frontmatter.
+ *
+ * Response:
+ * {
+ *   links: ContentLink[];
+ *   total: number;
+ * }
+ */
+const handleGetBrokenLinks: RouteHandler = async (
+  _req,
+  res,
+  _params,
+  context
+) => {
+  try {
+    const links = getBrokenLinks(await getLinkIndex(context));
+
+    sendJson(res, {
+      links,
+      total: links.length,
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * GET /api/links/:collection/:id - List links to and from an entry
+ *
+ * Response:
+ * {
+ *   backlinks: ContentLink[];
+ *   outbound: ContentLink[];
+ * }
+ */
+const handleGetContentLinks: RouteHandler = async (
+  _req,
+  res,
+  params,
+  context
+) => {
+  const { collection, id } = params;
+
+  if (!collection || !id) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection and content ID required")
+    );
+  }
+
+  try {
+    const index = await getLinkIndex(context);
+
+    sendJson(res, {
+      backlinks: getBacklinks(index, collection, id),
+      outbound: getOutboundLinks(index, collection, id),
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * Get the Git status of all collections' entries
+ *
+ * @param context - Middleware context
+ * @returns Repository state and changed entries
+ */
+async function readGitStatus(context: MiddlewareContext) {
+  return getGitStatus({
+    projectRoot: context.projectRoot,
+    collections: await getResolvedCollections(context),
+    config: context.config.git,
+  });
+}
+
+/**
+ * GET /api/git/status - List entries with uncommitted changes
+ *
+ * Response:
+ * {
+ *   repository: boolean;     // false outside a repository or when disabled
+ *   branch: string | null;
+ *   remote: string | null;   // Configured push remote
+ *   entries: GitEntryStatus[];
+ * }
+ */
+const handleGitStatus: RouteHandler = async (_req, res, _params, context) => {
+  try {
+    sendJson(res, await readGitStatus(context));
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * GET /api/git/diff/:collection/:id - Get the working-tree diff of an entry
+ *
+ * Compares the entry's content file on disk with the last commit. Deleted
+ * entries are found through the Git status.
+ *
+ * Response:
+ * {
+ *   path: string;
+ *   status: GitFileStatus | null;  // null when unchanged
+ *   original: string;              // Content in the last commit
+ *   current: string;               // Content on disk
+ * }
+ */
+const handleGitDiff: RouteHandler = async (_req, res, params, context) => {
+  const { collection, id } = params;
+  const { projectRoot } = context;
+
+  if (!collection || !id) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection and content ID required")
+    );
+  }
+
+  try {
+    const status = await readGitStatus(context);
+    if (!status.repository) {
+      return sendWritenexError(res, new GitNotRepositoryError(projectRoot));
+    }
+
+    const changedFile = status.entries
+      .find((entry) => entry.collection === collection && entry.id === id)
+      ?.files.find((file) => isContentFile(file));
+    const filePath = changedFile
+      ? join(projectRoot, changedFile)
+      : getContentFilePath(await getCollectionPath(context, collection), id);
+
+    if (!filePath) {
+      return sendWritenexError(res, new ContentNotFoundError(collection, id));
+    }
+
+    sendJson(res, await getGitDiff(projectRoot, filePath));
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * POST /api/git/commit - Commit (and optionally push) entries
+ *
+ * Commits the changed files of the selected entries (content files and
+ * their images) and nothing else. Pushing needs `git.remote` in the
+ * configuration; a failed push is reported as `pushError` while the
+ * commit is kept.
+ *
+ * Request body:
+ * {
+ *   entries: { collection: string; id: string }[];
+ *   message: string;
+ *   push?: boolean;
+ * }
+ *
+ * Response:
+ * {
+ *   success: true;
+ *   commit: string;
+ *   files: string[];
+ *   pushed: boolean;
+ *   pushError?: string;
+ * }
+ */
+const handleGitCommit: RouteHandler = async (req, res, _params, context) => {
+  const { projectRoot, config } = context;
+
+  try {
+    const body = (await parseJsonBody(req)) as Partial<GitCommitRequest> | null;
+    const message =
+      typeof body?.message === "string" ? body.message.trim() : "";
+    const requested = Array.isArray(body?.entries)
+      ? body.entries.filter(
+          (entry) =>
+            typeof entry?.collection === "string" &&
+            typeof entry.id === "string"
+        )
+      : [];
+
+    if (!message) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Commit message is required")
+      );
+    }
+    if (requested.length === 0) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Select at least one entry to commit")
+      );
+    }
+    if (body?.push && !config.git.remote) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("No Git remote is configured (git.remote)")
+      );
+    }
+
+    for (const collection of new Set(requested.map((e) => e.collection))) {
+      const denied = checkPermission(req, context, "commit", collection);
+      if (denied) return sendWritenexError(res, denied);
+    }
+
+    const status = await readGitStatus(context);
+    if (!status.repository) {
+      return sendWritenexError(res, new GitNotRepositoryError(projectRoot));
+    }
+
+    const files = status.entries
+      .filter((entry) =>
+        requested.some(
+          (r) => r.collection === entry.collection && r.id === entry.id
+        )
+      )
+      .flatMap((entry) => entry.files);
+
+    if (files.length === 0) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("The selected entries have no changes")
+      );
+    }
+
+    const result = await commitGitChanges({
+      projectRoot,
+      files,
+      message,
+      push:
+        body?.push && config.git.remote
+          ? { remote: config.git.remote, branch: config.git.branch }
+          : undefined,
+    });
+
+    sendJson(res, result);
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
 /**
  * POST /api/images - Upload image
  *
@@ -696,6 +1981,23 @@ const handleDeleteContent: RouteHandler = async (
  * - file: The image file
  * - collection: Collection name
  * - contentId: Content ID (slug)
+ * - force: "true" to write a new file even if an identical image exists
+ *
+ * The image is processed with the collection's `images.optimize`
+ * settings (falling back to the global ones) before it is written. An
+ * identical image already in the target folder is returned instead of
+ * writing a copy (`deduplicated: true`).
+ *
+ * Response:
+ * {
+ *   success: true;
+ *   path: string;
+ *   url: string;
+ *   width?: number;
+ *   height?: number;
+ *   originalPath?: string;
+ *   deduplicated?: boolean;
+ * }
  */
 const handleImageUpload: RouteHandler = async (req, res, _params, context) => {
   const { projectRoot, config } = context;
@@ -732,6 +2034,16 @@ const handleImageUpload: RouteHandler = async (req, res, _params, context) => {
       );
     }
 
+    const denied = checkPermission(
+      req,
+      context,
+      "uploadImages",
+      fields.collection
+    );
+    if (denied) {
+      return sendWritenexError(res, denied);
+    }
+
     if (!isValidImageFile(file.filename)) {
       return sendWritenexError(
         res,
@@ -747,6 +2059,11 @@ const handleImageUpload: RouteHandler = async (req, res, _params, context) => {
       );
     }
 
+    // Use the collection's image settings, if configured
+    const collectionConfig = config.collections.find(
+      (c) => c.name === fields.collection
+    );
+
     // Upload image
     const result = await uploadImage({
       filename: file.filename,
@@ -754,7 +2071,9 @@ const handleImageUpload: RouteHandler = async (req, res, _params, context) => {
       collection: fields.collection,
       contentId: fields.contentId,
       projectRoot,
-      config: config.images,
+      collectionPath: await getCollectionPath(context, fields.collection),
+      config: collectionConfig?.images ?? config.images,
+      force: fields.force === "true",
     });
 
     if (!result.success) {
@@ -765,6 +2084,10 @@ const handleImageUpload: RouteHandler = async (req, res, _params, context) => {
       success: true,
       path: result.path,
       url: result.url,
+      width: result.width,
+      height: result.height,
+      originalPath: result.originalPath,
+      deduplicated: result.deduplicated,
     });
   } catch (error) {
     const wrappedError = isWritenexError(error)
@@ -794,7 +2117,6 @@ const handleImageDiscovery: RouteHandler = async (
   context
 ) => {
   const { collection, id: contentId } = params;
-  const { projectRoot } = context;
 
   if (!collection || !contentId) {
     return sendError(res, "Collection and content ID required", 400);
@@ -803,16 +2125,10 @@ const handleImageDiscovery: RouteHandler = async (
   const cache = getCache();
 
   try {
-    const collectionPath = join(projectRoot, "src/content", collection);
-
-    // Check if collection exists by discovering collections
-    let collections = cache.getCollections();
-    if (!collections) {
-      // Cache miss - discover collections
-      collections = await discoverCollections(projectRoot);
-      cache.setCollections(collections);
-    }
+    const collectionPath = await getCollectionPath(context, collection);
 
+    // Check if collection exists
+    const collections = await getResolvedCollections(context);
     if (!collections.some((c) => c.name === collection)) {
       return sendError(res, `Collection '${collection}' not found`, 404);
     }
@@ -882,7 +2198,6 @@ const handleServeImage = async (
   context: MiddlewareContext
 ): Promise<void> => {
   const { collection, id: contentId } = params;
-  const { projectRoot } = context;
 
   if (!collection || !contentId) {
     return sendWritenexError(
@@ -892,7 +2207,7 @@ const handleServeImage = async (
   }
 
   try {
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
 
     // Check if content exists
     const contentFilePath = getContentFilePath(collectionPath, contentId);
@@ -920,41 +2235,183 @@ const handleServeImage = async (
       fullImagePath = join(collectionPath, contentId, imagePath);
     }
 
-    // Security check: ensure the path is within the content folder
-    const normalizedPath = join(fullImagePath);
-    if (!normalizedPath.startsWith(collectionPath)) {
+    // Security check: ensure the path is within the content folder
+    const normalizedPath = join(fullImagePath);
+    if (!normalizedPath.startsWith(collectionPath)) {
+      return sendWritenexError(
+        res,
+        new PathTraversalError(imagePath, collectionPath)
+      );
+    }
+
+    // Check if file exists
+    if (!existsSync(fullImagePath)) {
+      return sendWritenexError(res, new ImageNotFoundError(imagePath));
+    }
+
+    // Get file stats
+    const stats = statSync(fullImagePath);
+    if (!stats.isFile()) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Requested path is not a file")
+      );
+    }
+
+    // Determine MIME type
+    const ext = extname(fullImagePath).toLowerCase();
+    const mimeType = IMAGE_MIME_TYPES[ext] ?? "application/octet-stream";
+
+    // Set headers
+    res.setHeader("Content-Type", mimeType);
+    res.setHeader("Content-Length", stats.size);
+    res.setHeader("Cache-Control", "public, max-age=3600");
+
+    // Stream the file
+    const stream = createReadStream(fullImagePath);
+    stream.pipe(res);
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * Largest thumbnail width served by the media library
+ */
+const MAX_THUMBNAIL_WIDTH = 1024;
+
+/**
+ * GET /api/media - List all images in the project
+ *
+ * Query params:
+ * - collection, contentId: Entry the images would be inserted into; each
+ *   item then carries the path to reference it with (`reference`)
+ * - orphaned: Only list images no entry references (default: false)
+ *
+ * Response:
+ * {
+ *   items: MediaItem[];
+ *   total: number;
+ *   orphaned: number;
+ * }
+ */
+const handleGetMedia: RouteHandler = async (_req, res, params, context) => {
+  const { collection, contentId, orphaned } = params.query;
+  const { projectRoot } = context;
+
+  try {
+    let items = await getMediaIndex(context);
+
+    if (collection && contentId) {
+      const contentFilePath = getContentFilePath(
+        await getCollectionPath(context, collection),
+        contentId
+      );
+      if (!contentFilePath) {
+        return sendWritenexError(
+          res,
+          new ContentNotFoundError(collection, contentId)
+        );
+      }
+      items = items.map((item) => ({
+        ...item,
+        reference: getMediaReference(item, contentFilePath, projectRoot),
+      }));
+    }
+
+    const orphanedCount = items.filter((item) => item.orphaned).length;
+    if (orphaned === "true") {
+      items = items.filter((item) => item.orphaned);
+    }
+
+    sendJson(res, {
+      items,
+      total: items.length,
+      orphaned: orphanedCount,
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * GET /api/media/file/* - Serve an image by its project-relative path
+ *
+ * Only images under `src/content`, collection directories and `public`
+ * are served.
+ *
+ * Query params:
+ * - w: Serve a WebP thumbnail at most this wide (needs sharp; the
+ *   original is served otherwise)
+ */
+const handleServeMediaFile = async (
+  _req: IncomingMessage,
+  res: ServerResponse,
+  params: RouteParams,
+  filePath: string,
+  context: MiddlewareContext
+): Promise<void> => {
+  const { projectRoot } = context;
+
+  try {
+    const fullPath = join(projectRoot, decodeURI(filePath));
+    const roots = [
+      join(projectRoot, DEFAULT_CONTENT_PATH),
+      join(projectRoot, "public"),
+      ...(await getResolvedCollections(context)).map((collection) =>
+        resolve(projectRoot, collection.path)
+      ),
+    ];
+    const root = roots.find((dir) => fullPath.startsWith(dir + sep));
+    if (!root) {
       return sendWritenexError(
         res,
-        new PathTraversalError(imagePath, collectionPath)
+        new PathTraversalError(filePath, projectRoot)
       );
     }
 
-    // Check if file exists
-    if (!existsSync(fullImagePath)) {
-      return sendWritenexError(res, new ImageNotFoundError(imagePath));
-    }
-
-    // Get file stats
-    const stats = statSync(fullImagePath);
-    if (!stats.isFile()) {
+    if (!isValidImageFile(fullPath)) {
       return sendWritenexError(
         res,
-        new ApiBadRequestError("Requested path is not a file")
+        new ImageInvalidTypeError(filePath, Object.keys(IMAGE_MIME_TYPES))
       );
     }
 
-    // Determine MIME type
-    const ext = extname(fullImagePath).toLowerCase();
-    const mimeType = IMAGE_MIME_TYPES[ext] ?? "application/octet-stream";
+    if (!existsSync(fullPath) || !statSync(fullPath).isFile()) {
+      return sendWritenexError(res, new ImageNotFoundError(filePath));
+    }
 
-    // Set headers
-    res.setHeader("Content-Type", mimeType);
-    res.setHeader("Content-Length", stats.size);
-    res.setHeader("Cache-Control", "public, max-age=3600");
+    const ext = extname(fullPath).toLowerCase();
+    const width = Number.parseInt(params.query.w ?? "", 10);
+    if (width > 0 && ext !== ".svg" && ext !== ".gif") {
+      const thumbnail = await createThumbnail(
+        fullPath,
+        Math.min(width, MAX_THUMBNAIL_WIDTH),
+        projectRoot
+      );
+      if (thumbnail) {
+        res.setHeader("Content-Type", "image/webp");
+        res.setHeader("Content-Length", thumbnail.length);
+        res.setHeader("Cache-Control", "no-cache");
+        res.end(thumbnail);
+        return;
+      }
+    }
 
-    // Stream the file
-    const stream = createReadStream(fullImagePath);
-    stream.pipe(res);
+    const stats = statSync(fullPath);
+    res.setHeader(
+      "Content-Type",
+      IMAGE_MIME_TYPES[ext] ?? "application/octet-stream"
+    );
+    res.setHeader("Content-Length", stats.size);
+    res.setHeader("Cache-Control", "no-cache");
+    createReadStream(fullPath).pipe(res);
   } catch (error) {
     const wrappedError = isWritenexError(error)
       ? error
@@ -977,12 +2434,101 @@ function getResolvedVersionConfig(
   config: VersionHistoryConfig | undefined
 ): Required<VersionHistoryConfig> {
   return {
-    enabled: config?.enabled ?? true,
-    maxVersions: config?.maxVersions ?? 20,
-    storagePath: config?.storagePath ?? ".writenex/versions",
+    ...DEFAULT_VERSION_HISTORY_CONFIG,
+    ...config,
+    retention: applyRetentionDefaults(config?.retention),
   };
 }
 
+/**
+ * GET /api/versions - Report version storage per collection
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   collections: VersionStorageReport[];
+ * }
+ */
+const handleGetVersionReport: RouteHandler = async (
+  _req,
+  res,
+  _params,
+  context
+) => {
+  const { projectRoot, config } = context;
+
+  try {
+    const collections = await getVersionStorageReport(
+      projectRoot,
+      getResolvedVersionConfig(config.versionHistory)
+    );
+    sendJson(res, { success: true, collections });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendError(res, `Failed to report version storage: ${message}`, 500);
+  }
+};
+
+/**
+ * GET /api/versions/timeline - List recent versions across all entries
+ *
+ * Query parameters:
+ * - collection: Only list versions of this collection
+ * - limit: Maximum number of versions (default: 50)
+ *
+ * Response:
+ * {
+ *   versions: TimelineEntry[];  // Newest first, `deleted` set for trashed entries
+ *   total: number;
+ * }
+ */
+const handleGetVersionTimeline: RouteHandler = async (
+  _req,
+  res,
+  params,
+  context
+) => {
+  const { query } = params;
+  const { projectRoot, config } = context;
+
+  const limit = query.limit ? Number(query.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("limit must be a positive integer")
+    );
+  }
+
+  try {
+    const versions = await getVersionTimeline(
+      projectRoot,
+      getResolvedVersionConfig(config.versionHistory),
+      { collection: query.collection, limit }
+    );
+
+    // Entries can have many versions in the timeline; look each up once
+    const deleted = new Map<string, boolean>();
+    for (const version of versions) {
+      const key = `${version.collection}/${version.contentId}`;
+      if (!deleted.has(key)) {
+        deleted.set(
+          key,
+          !getContentFilePath(
+            await getCollectionPath(context, version.collection),
+            version.contentId
+          )
+        );
+      }
+      version.deleted = deleted.get(key);
+    }
+
+    sendJson(res, { versions, total: versions.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendError(res, `Failed to list version timeline: ${message}`, 500);
+  }
+};
+
 /**
  * GET /api/versions/:collection/:id - List all versions
  *
@@ -1116,7 +2662,7 @@ const handleCreateVersion: RouteHandler = async (req, res, params, context) => {
         : undefined;
 
     // Get current content
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const filePath = getContentFilePath(collectionPath, id);
 
     if (!filePath) {
@@ -1193,7 +2739,7 @@ const handleRestoreVersion: RouteHandler = async (
     const versionConfig = getResolvedVersionConfig(config.versionHistory);
 
     // Get content file path
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const filePath = getContentFilePath(collectionPath, id);
 
     if (!filePath) {
@@ -1288,7 +2834,7 @@ const handleGetVersionDiff: RouteHandler = async (
     }
 
     // Get current content
-    const collectionPath = join(projectRoot, "src/content", collection);
+    const collectionPath = await getCollectionPath(context, collection);
     const filePath = getContentFilePath(collectionPath, id);
 
     if (!filePath) {
@@ -1324,6 +2870,69 @@ const handleGetVersionDiff: RouteHandler = async (
   }
 };
 
+/**
+ * PUT /api/versions/:collection/:id/:versionId - Pin or unpin a version
+ *
+ * Pinned versions are kept forever by pruning.
+ *
+ * Request body:
+ * {
+ *   pinned: boolean;
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   version?: VersionEntry;
+ * }
+ */
+const handlePinVersion: RouteHandler = async (req, res, params, context) => {
+  const { collection, id, versionId } = params;
+  const { projectRoot, config } = context;
+
+  if (!collection || !id || !versionId) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection, content ID, and version ID required")
+    );
+  }
+
+  try {
+    const body = await parseJsonBody(req);
+    if (
+      !body ||
+      typeof body !== "object" ||
+      typeof (body as { pinned?: unknown }).pinned !== "boolean"
+    ) {
+      return sendWritenexError(
+        res,
+        new ApiBadRequestError("Request body must have a boolean 'pinned'")
+      );
+    }
+
+    const result = await setVersionPinned(
+      projectRoot,
+      collection,
+      id,
+      versionId,
+      (body as { pinned: boolean }).pinned,
+      getResolvedVersionConfig(config.versionHistory)
+    );
+
+    if (!result.success) {
+      if (result.error?.includes("not found")) {
+        return sendError(res, result.error, 404);
+      }
+      return sendError(res, result.error ?? "Failed to pin version", 500);
+    }
+
+    sendJson(res, { success: true, version: result.version });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendError(res, `Failed to pin version: ${message}`, 500);
+  }
+};
+
 /**
  * DELETE /api/versions/:collection/:id/:versionId - Delete specific version
  *
@@ -1426,3 +3035,165 @@ const handleClearVersions: RouteHandler = async (
     sendError(res, `Failed to clear versions: ${message}`, 500);
   }
 };
+
+// =============================================================================
+// Trash Route Handlers
+// =============================================================================
+
+/**
+ * GET /api/trash - List deleted entries with version history
+ *
+ * Response:
+ * {
+ *   entries: TrashEntry[];  // Most recently deleted first
+ *   total: number;
+ * }
+ */
+const handleListTrash: RouteHandler = async (_req, res, _params, context) => {
+  const { projectRoot, config } = context;
+
+  try {
+    const collectionPaths = Object.fromEntries(
+      (await getResolvedCollections(context)).map((collection) => [
+        collection.name,
+        resolve(projectRoot, collection.path),
+      ])
+    );
+    const entries = await listTrash(
+      projectRoot,
+      collectionPaths,
+      getResolvedVersionConfig(config.versionHistory)
+    );
+    sendJson(res, { entries, total: entries.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendError(res, `Failed to list trash: ${message}`, 500);
+  }
+};
+
+/**
+ * POST /api/trash/:collection/:id/restore - Restore a deleted entry
+ *
+ * Writes the newest version back to the entry's file and moves its
+ * colocated images back. The version history is kept.
+ *
+ * Response:
+ * {
+ *   success: true;
+ *   id: string;
+ *   path: string;
+ * }
+ *
+ * Returns 409 CONTENT_ALREADY_EXISTS if an entry with the ID exists.
+ */
+const handleRestoreFromTrash: RouteHandler = async (
+  _req,
+  res,
+  params,
+  context
+) => {
+  const { collection, id } = params;
+  const { projectRoot, config } = context;
+
+  if (!collection || !id) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection and content ID required")
+    );
+  }
+
+  try {
+    const collectionPath = await getCollectionPath(context, collection);
+    if (getContentFilePath(collectionPath, id)) {
+      return sendWritenexError(
+        res,
+        new ContentAlreadyExistsError(collection, id)
+      );
+    }
+
+    const collections = await getResolvedCollections(context);
+    const resolved = collections.find((c) => c.name === collection);
+
+    const result = await restoreFromTrash(
+      id,
+      {
+        projectRoot,
+        collection,
+        collectionPath,
+        versionHistoryConfig: getResolvedVersionConfig(config.versionHistory),
+      },
+      resolved?.filePattern
+    );
+
+    if (!result.success) {
+      return sendError(res, result.error ?? "Failed to restore content", 500);
+    }
+
+    getCache().handleFileChange("add", collection, id);
+
+    sendJson(res, {
+      success: true,
+      id: result.id,
+      path: result.path,
+    });
+  } catch (error) {
+    const wrappedError = isWritenexError(error)
+      ? error
+      : wrapError(error, WritenexErrorCode.API_INTERNAL_ERROR);
+    sendWritenexError(res, wrappedError);
+  }
+};
+
+/**
+ * DELETE /api/trash/:collection/:id - Permanently delete a deleted entry
+ *
+ * Removes the entry's version history and kept images.
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ * }
+ */
+const handleDeleteFromTrash: RouteHandler = async (
+  _req,
+  res,
+  params,
+  context
+) => {
+  const { collection, id } = params;
+  const { projectRoot, config } = context;
+
+  if (!collection || !id) {
+    return sendWritenexError(
+      res,
+      new ApiBadRequestError("Collection and content ID required")
+    );
+  }
+
+  try {
+    const collectionPath = await getCollectionPath(context, collection);
+    if (getContentFilePath(collectionPath, id)) {
+      return sendError(
+        res,
+        `Content '${id}' in '${collection}' is not deleted`,
+        409
+      );
+    }
+
+    const result = await deleteFromTrash(id, {
+      projectRoot,
+      collection,
+      collectionPath,
+      versionHistoryConfig: getResolvedVersionConfig(config.versionHistory),
+    });
+
+    if (!result.success) {
+      return sendError(res, result.error ?? "Failed to delete entry", 500);
+    }
+
+    sendJson(res, { success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendError(res, `Failed to delete entry: ${message}`, 500);
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Scheduled publishing timer for the dev server
+ *
+ * This module runs the scheduled publishing check at a fixed interval
+ * while the dev server is running. Published entries are picked up by the
+ * content watcher like any other file change, so the cache and connected
+ * editors are updated without extra work here.
+ *
+ * @module @writenex/astro/server/scheduler
+ */
+
+import type { ScheduledPublishResult } from "@/filesystem/schedule";
+
+/**
+ * Publish scheduler options
+ */
+export interface PublishSchedulerOptions {
+  /** Publish the due entries */
+  publish: () => Promise<ScheduledPublishResult[]>;
+  /** Time between checks in milliseconds */
+  interval: number;
+  /** Callback with the outcome of a check that found due entries */
+  onPublish?: (results: ScheduledPublishResult[]) => void;
+  /** Callback when a check fails */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Periodic scheduled publishing check
+ *
+ * The first check runs when the scheduler starts. A check never starts
+ * while the previous one is still running.
+ */
+export class PublishScheduler {
+  private options: PublishSchedulerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(options: PublishSchedulerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start checking for due entries
+   */
+  start(): void {
+    if (this.timer) {
+      return; // Already running
+    }
+
+    this.timer = setInterval(() => void this.check(), this.options.interval);
+    void this.check();
+  }
+
+  /**
+   * Stop checking, waiting for a running check to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.running;
+  }
+
+  /**
+   * Run one check unless one is already running
+   */
+  check(): Promise<void> {
+    if (!this.running) {
+      this.running = this.options
+        .publish()
+        .then((results) => {
+          if (results.length > 0) {
+            this.options.onPublish?.(results);
+          }
+        })
+        .catch((error) => {
+          this.options.onError?.(error);
+        })
+        .finally(() => {
+          this.running = null;
+        });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Check if the scheduler is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
@@ -2,7 +2,8 @@
  * @fileoverview API response type definitions for @writenex/astro
  *
  * This file contains all TypeScript type definitions related to API responses,
- * including collections, content list, content item, mutation, and image upload responses.
+ * including collections, content list, content item, mutation, and image upload responses,
+ * as well as the server-sent events pushed to connected editor clients.
  *
  * @module @writenex/astro/types/api
  */
@@ -11,7 +12,13 @@ import type {
   ContentItem,
   ContentSummary,
   DiscoveredCollection,
+  FrontmatterFieldError,
 } from "./content";
+import type { ContentLink } from "./link";
+import type { MediaItem } from "./image";
+import type { AuthUser, WritenexRole } from "./config";
+import type { GitEntryStatus, GitFileStatus } from "./git";
+import type { TimelineEntry, TrashEntry } from "./version";
 
 /**
  * API response for collections endpoint
@@ -50,6 +57,123 @@ export interface MutationResponse {
   error?: string;
 }
 
+/**
+ * Change applied to every entry of a batch request
+ *
+ * - `publish` / `unpublish`: set `draft` to false / true
+ * - `set`: set a frontmatter field (null removes it)
+ * - `addTags` / `removeTags`: add or remove values of a list field
+ *   (default field: `tags`)
+ * - `move`: set `category` and, if the file pattern has a `{category}`
+ *   token, move the files into the new category
+ * - `delete`: delete the entries (rejected if other entries link to
+ *   them, unless `force` is set)
+ */
+export type BatchAction =
+  | { type: "publish" }
+  | { type: "unpublish" }
+  | { type: "set"; field: string; value: unknown }
+  | { type: "addTags"; tags: string[]; field?: string }
+  | { type: "removeTags"; tags: string[]; field?: string }
+  | { type: "move"; category: string }
+  | { type: "delete"; force?: boolean };
+
+/**
+ * API request body for batch operations
+ */
+export interface BatchRequest {
+  /** Content IDs to change */
+  ids: string[];
+  /** Change to apply to each entry */
+  action: BatchAction;
+}
+
+/**
+ * Outcome for a single entry of a batch operation
+ */
+export interface BatchItemResult {
+  /** Content ID before the operation */
+  id: string;
+  /** Content ID after the operation (differs from `id` after a move) */
+  newId?: string;
+  /** Whether the entry was changed (false when already up to date) */
+  changed: boolean;
+  /** Whether the entry was deleted */
+  deleted?: boolean;
+}
+
+/**
+ * API response for batch operations
+ */
+export interface BatchResponse {
+  /** Whether the whole batch was applied */
+  success: boolean;
+  /** Per-entry outcome (only when successful) */
+  results?: BatchItemResult[];
+  /** Error message if the batch was rejected or rolled back */
+  error?: string;
+  /** Error code (e.g. "CONTENT_VALIDATION_ERROR") */
+  code?: string;
+  /** Invalid frontmatter fields of the first entry that failed validation */
+  fieldErrors?: FrontmatterFieldError[];
+  /** Error context (the failing content ID in `contentId`) */
+  context?: Record<string, unknown>;
+  /** Links to the entries being deleted (backlink errors only) */
+  backlinks?: ContentLink[];
+}
+
+/**
+ * API response for the links of one entry
+ */
+export interface ContentLinksResponse {
+  /** Links from other entries to this entry */
+  backlinks: ContentLink[];
+  /** Links found in this entry */
+  outbound: ContentLink[];
+}
+
+/**
+ * API response for the broken-link report
+ */
+export interface BrokenLinksResponse {
+  /** Links whose target does not exist, across all collections */
+  links: ContentLink[];
+  /** Number of broken links */
+  total: number;
+}
+
+/**
+ * API response for the media library
+ */
+export interface MediaResponse {
+  /** Images in the project, newest first */
+  items: MediaItem[];
+  /** Number of images */
+  total: number;
+  /** Number of images no entry references */
+  orphaned: number;
+}
+
+/**
+ * API response for the project-wide version timeline
+ */
+export interface TimelineResponse {
+  /** Recent versions across all entries, newest first */
+  versions: TimelineEntry[];
+  /** Number of versions returned */
+  total: number;
+}
+
+/**
+ * API response for the trash
+ */
+export interface TrashResponse {
+  /** Deleted entries with version history, most recently deleted first */
+  entries: TrashEntry[];
+  /** Number of entries */
+  total: number;
+}
+
 /**
  * API response for image upload
  */
@@ -58,4 +182,145 @@ export interface ImageUploadResponse {
   path: string;
   /** Public URL for the image */
   url: string;
+  /** Width in pixels of the stored image (if known) */
+  width?: number;
+  /** Height in pixels of the stored image (if known) */
+  height?: number;
+  /** Markdown-compatible path of the unprocessed upload (if kept) */
+  originalPath?: string;
+  /** Whether an identical existing image was returned instead of a copy */
+  deduplicated?: boolean;
+}
+
+/**
+ * Server-sent event describing a content file change on disk
+ *
+ * Pushed to connected editor clients over `GET /api/events` whenever the
+ * content watcher detects an add, change, or unlink.
+ */
+export interface ContentChangeEvent {
+  /** Type of file change */
+  type: "add" | "change" | "unlink";
+  /** Collection the file belongs to */
+  collection: string;
+  /** Content item ID (slug) derived from the file path */
+  contentId: string;
+  /** Absolute path to the changed file */
+  path: string;
+  /** File modification time after the change (absent for unlink) */
+  mtime?: number;
+  /** ISO timestamp of when the event was emitted */
+  timestamp: string;
+}
+
+/**
+ * Server-sent event describing a configuration file change
+ *
+ * Pushed to connected editor clients over `GET /api/events` after the
+ * configuration file was reloaded. An invalid file is not applied: the
+ * last working configuration stays in effect and `errors` lists why.
+ */
+export interface ConfigChangeEvent {
+  /** Whether the new configuration was applied */
+  status: "applied" | "invalid";
+  /**
+   * Path to the changed file: the configuration file (null if it was
+   * removed) or the Astro content config
+   */
+  configPath: string | null;
+  /** Load or validation errors (empty when applied) */
+  errors: string[];
+  /** ISO timestamp of when the event was emitted */
+  timestamp: string;
+}
+
+/**
+ * Action that requires a role
+ */
+export type Permission =
+  | "create"
+  | "edit"
+  | "publish"
+  | "delete"
+  | "move"
+  | "batch"
+  | "uploadImages"
+  | "restoreVersions"
+  | "deleteVersions"
+  | "editConfig"
+  | "commit";
+
+/**
+ * A role and the actions it allows
+ */
+export interface RolePermissions {
+  /** Role of the user */
+  role: WritenexRole;
+  /** Actions the role allows */
+  permissions: Permission[];
+}
+
+/**
+ * API response for the current user's session
+ */
+export interface SessionResponse extends RolePermissions {
+  /** Authenticated user (null when authentication is not configured) */
+  user: AuthUser | null;
+  /** Role and permissions per collection */
+  collections: Record<string, RolePermissions>;
+}
+
+/**
+ * API response for the Git status of content entries
+ */
+export interface GitStatusResponse {
+  /** Whether the project is in a Git repository (and Git is enabled) */
+  repository: boolean;
+  /** Current branch (null when detached or not a repository) */
+  branch: string | null;
+  /** Remote commits can be pushed to (null when pushing is not configured) */
+  remote: string | null;
+  /** Entries with uncommitted changes */
+  entries: GitEntryStatus[];
+}
+
+/**
+ * API response for the working-tree diff of a content entry
+ */
+export interface GitDiffResponse {
+  /** Project-relative path of the content file */
+  path: string;
+  /** Status of the content file (null when unchanged) */
+  status: GitFileStatus | null;
+  /** Content in the last commit (empty for new files) */
+  original: string;
+  /** Content on disk (empty for deleted files) */
+  current: string;
+}
+
+/**
+ * API request to commit content entries
+ */
+export interface GitCommitRequest {
+  /** Entries whose changes to commit */
+  entries: { collection: string; id: string }[];
+  /** Commit message */
+  message: string;
+  /** Push to the configured remote after committing */
+  push?: boolean;
+}
+
+/**
+ * API response for a commit
+ */
+export interface GitCommitResponse {
+  success: boolean;
+  /** Hash of the new commit */
+  commit: string;
+  /** Project-relative paths of the committed files */
+  files: string[];
+  /** Whether the commit was pushed */
+  pushed: boolean;
+  /** Why pushing failed (the commit itself succeeded) */
+  pushError?: string;
 }
@@ -7,6 +7,7 @@
  * @module @writenex/astro/types/config
  */
 
+import type { IncomingMessage } from "node:http";
 import type { VersionHistoryConfig } from "./version";
 
 /**
@@ -19,7 +20,9 @@ export type FieldType =
   | "date"
   | "array"
   | "image"
-  | "object";
+  | "object"
+  | "enum"
+  | "reference";
 
 /**
  * Schema field definition for frontmatter
@@ -35,6 +38,12 @@ export interface SchemaField {
   items?: string;
   /** Description shown in the editor */
   description?: string;
+  /** For enum types (and arrays of enums), the allowed values */
+  options?: string[];
+  /** For reference types (and arrays of references), the target collection */
+  collection?: string;
+  /** For object types, the nested field definitions */
+  fields?: CollectionSchema;
 }
 
 /**
@@ -47,6 +56,39 @@ export type CollectionSchema = Record<string, SchemaField>;
  */
 export type ImageStrategy = "colocated" | "public" | "custom";
 
+/**
+ * Output format for optimized images
+ *
+ * - `original`: keep the uploaded format
+ * - `webp` / `avif`: re-encode to WebP / AVIF
+ */
+export type ImageOutputFormat = "original" | "webp" | "avif";
+
+/**
+ * Processing applied to uploaded images before they are written
+ *
+ * Requires `sharp` in the project (Astro installs it for its image
+ * service). SVG and GIF files are stored as uploaded.
+ */
+export interface ImageOptimizeConfig {
+  /** Whether uploads are processed (default: true) */
+  enabled?: boolean;
+  /** Maximum width in pixels; larger images are scaled down */
+  maxWidth?: number;
+  /** Maximum height in pixels; larger images are scaled down */
+  maxHeight?: number;
+  /** Output format (default: "original") */
+  format?: ImageOutputFormat;
+  /** Encoding quality from 1 to 100 (default: 80) */
+  quality?: number;
+  /** Remove EXIF, GPS and other metadata (default: true) */
+  stripMetadata?: boolean;
+  /** Rotate according to the EXIF orientation (default: true) */
+  autoOrient?: boolean;
+  /** Also keep the uploaded file, with an `-original` suffix (default: false) */
+  keepOriginal?: boolean;
+}
+
 /**
  * Image configuration for a collection
  */
@@ -57,6 +99,8 @@ export interface ImageConfig {
   publicPath?: string;
   /** Filesystem path for storing images (for 'public' and 'custom' strategies) */
   storagePath?: string;
+  /** Processing applied to uploads (none if omitted) */
+  optimize?: ImageOptimizeConfig;
 }
 
 /**
@@ -97,6 +141,170 @@ export interface EditorConfig {
   autosaveInterval?: number;
 }
 
+/**
+ * Git integration configuration
+ */
+export interface GitConfig {
+  /** Whether the Git panel is enabled (when the project is a Git repository) */
+  enabled?: boolean;
+  /** Remote to push commits to (name or URL); pushing is off when unset */
+  remote?: string;
+  /** Branch to push to (default: the current branch) */
+  branch?: string;
+}
+
+/**
+ * Scheduled publishing configuration
+ *
+ * Drafts with a `publishAt` date are published once the date has passed,
+ * by the dev server or the `writenex publish` command.
+ */
+export interface ScheduleConfig {
+  /** Whether the dev server publishes scheduled entries (default: true) */
+  enabled?: boolean;
+  /** How often the dev server checks for due entries, in milliseconds */
+  interval?: number;
+}
+
+/**
+ * Type of an MDX component prop
+ *
+ * - `string`: quoted attribute (`title="Note"`)
+ * - `number`: numeric expression (`level={2}`)
+ * - `boolean`: bare attribute when true (`open`), `{false}` otherwise
+ * - `enum`: quoted attribute limited to `options`
+ * - `expression`: JavaScript expression written as is (`items={[1, 2]}`)
+ */
+export type MdxComponentPropType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "enum"
+  | "expression";
+
+/**
+ * Prop of an MDX component
+ */
+export interface MdxComponentProp {
+  /** Prop type */
+  type: MdxComponentPropType;
+  /** Whether the prop must be set */
+  required?: boolean;
+  /** Value of new components, and of the prop when it is not set */
+  default?: string | number | boolean;
+  /** Allowed values (for enum props) */
+  options?: string[];
+  /** Help text shown in the props form */
+  description?: string;
+}
+
+/**
+ * MDX component available in the editor
+ *
+ * Registered components are edited as blocks with a props form and can be
+ * inserted from the toolbar in `.mdx` files. The import statement is added
+ * to the file when a component is used.
+ */
+export interface MdxComponentConfig {
+  /** Component name as used in MDX (e.g. "Callout") */
+  name: string;
+  /** Module to import the component from (e.g. "@/components/Callout.astro") */
+  source: string;
+  /** Whether the component is the default export of the module (default: true) */
+  defaultExport?: boolean;
+  /** Block component (`flow`) or inline component (`text`) (default: "flow") */
+  kind?: "flow" | "text";
+  /** Whether the component has children (default: false) */
+  hasChildren?: boolean;
+  /** Label shown in the insert menu (default: the name) */
+  label?: string;
+  /** Help text shown in the insert menu */
+  description?: string;
+  /** Props by name */
+  props?: Record<string, MdxComponentProp>;
+}
+
+/**
+ * State of the editorial workflow
+ */
+export interface WorkflowState {
+  /** Value stored in the workflow field (e.g. "review") */
+  name: string;
+  /** Label shown in the editor (default: the name) */
+  label?: string;
+  /** Whether entries in this state are published (`draft: false`) */
+  published?: boolean;
+}
+
+/**
+ * Editorial workflow configuration
+ *
+ * Entries move through the states in the frontmatter field `field`. The
+ * `draft` flag follows the state, so sites that filter on `draft` keep
+ * working.
+ */
+export interface WorkflowConfig {
+  /** Whether the workflow is enabled (default: true when configured) */
+  enabled?: boolean;
+  /** Frontmatter field holding the state */
+  field?: string;
+  /** States in board order */
+  states?: WorkflowState[];
+  /** State of new entries and of drafts without a state (default: the first state) */
+  initialState?: string;
+  /** Allowed next states per state; states not listed may move anywhere */
+  transitions?: Record<string, string[]>;
+  /** Collections that use the workflow (default: all) */
+  collections?: string[];
+}
+
+/**
+ * Workflow that applies to a collection
+ */
+export type CollectionWorkflow = Required<
+  Omit<WorkflowConfig, "enabled" | "collections">
+>;
+
+/**
+ * Editor role, from least to most privileged
+ *
+ * - `viewer`: read-only access
+ * - `author`: create and edit drafts, upload images
+ * - `editor`: also publish, delete, move, batch-edit, restore versions and
+ *   commit to Git
+ * - `admin`: also delete version history and edit the configuration
+ */
+export type WritenexRole = "viewer" | "author" | "editor" | "admin";
+
+/**
+ * Role assignments for one collection
+ */
+export interface CollectionPermissionsConfig {
+  /** Role per user ID */
+  users?: Record<string, WritenexRole>;
+  /** Role of users not listed in `users` (if unset, their global role) */
+  defaultRole?: WritenexRole;
+}
+
+/**
+ * Role assignments for authenticated users
+ *
+ * Users are identified by the ID returned from authentication (the user
+ * name for token and basic authentication). Without authentication every
+ * request has the `admin` role.
+ */
+export interface PermissionsConfig {
+  /** Role per user ID */
+  users?: Record<string, WritenexRole>;
+  /**
+   * Role of users not listed in `users`
+   * @default "viewer" ("admin" if no permissions are configured)
+   */
+  defaultRole?: WritenexRole;
+  /** Role overrides per collection name */
+  collections?: Record<string, CollectionPermissionsConfig>;
+}
+
 /**
  * Main Writenex configuration
  */
@@ -111,8 +319,71 @@ export interface WritenexConfig {
   discovery?: DiscoveryConfig;
   /** Version history configuration */
   versionHistory?: VersionHistoryConfig;
+  /** Roles of authenticated users */
+  permissions?: PermissionsConfig;
+  /** Git integration */
+  git?: GitConfig;
+  /** Editorial workflow states */
+  workflow?: WorkflowConfig;
+  /** Scheduled publishing */
+  schedule?: ScheduleConfig;
+  /** MDX components available in the editor */
+  components?: MdxComponentConfig[];
+}
+
+/**
+ * Authenticated editor user
+ */
+export interface AuthUser {
+  /** User identifier (user name for token and basic authentication) */
+  id: string;
+  /** Display name */
+  name?: string;
 }
 
+/**
+ * Custom request verifier
+ *
+ * Returns the authenticated user, `true` for an anonymous but allowed
+ * request, or a falsy value to reject the request.
+ */
+export type AuthVerifier = (
+  req: IncomingMessage
+) =>
+  | AuthUser
+  | boolean
+  | null
+  | undefined
+  | Promise<AuthUser | boolean | null | undefined>;
+
+/**
+ * Authentication for the editor and API routes
+ *
+ * - `token`: bearer tokens per user. Browsers sign in once by opening the
+ *   editor with `?token=...`, which stores the token in a cookie.
+ * - `basic`: HTTP basic authentication with passwords per user.
+ * - `custom`: a function that verifies each request (e.g. a session
+ *   cookie or a header set by an authenticating proxy).
+ */
+export type WritenexAuthOptions =
+  | {
+      type: "token";
+      /** Token per user name */
+      tokens: Record<string, string>;
+    }
+  | {
+      type: "basic";
+      /** Password per user name */
+      users: Record<string, string>;
+      /** Realm shown in the browser's login prompt */
+      realm?: string;
+    }
+  | {
+      type: "custom";
+      /** Verify a request */
+      verify: AuthVerifier;
+    };
+
 /**
  * Options passed to the Writenex integration
  */
@@ -123,6 +394,11 @@ export interface WritenexOptions {
    * @default false
    */
   allowProduction?: boolean;
+  /**
+   * Require authentication for the editor and API routes.
+   * Strongly recommended together with `allowProduction`.
+   */
+  auth?: WritenexAuthOptions;
 }
 
 /**
@@ -7,7 +7,7 @@
  * @module @writenex/astro/types/content
  */
 
-import type { CollectionSchema } from "./config";
+import type { CollectionSchema, CollectionWorkflow } from "./config";
 
 /**
  * Parsed content item with frontmatter and body
@@ -41,6 +41,10 @@ export interface ContentSummary {
   pubDate?: string;
   /** Draft status */
   draft?: boolean;
+  /** Workflow state (when the collection has a workflow) */
+  state?: string;
+  /** Scheduled publication time (ISO string), for scheduled drafts */
+  publishAt?: string;
   /** Content excerpt */
   excerpt?: string;
 }
@@ -55,10 +59,32 @@ export interface DiscoveredCollection {
   path: string;
   /** Detected file pattern */
   filePattern: string;
+  /**
+   * Entry type: Markdown `content`, or JSON/YAML `data` entries that are
+   * edited as frontmatter only (follows the file pattern extension)
+   */
+  type?: "content" | "data";
   /** Number of content files */
   count: number;
   /** Detected/configured schema */
   schema?: CollectionSchema;
+  /**
+   * Where the schema came from: the Writenex config, the Astro content
+   * config, or detection from existing files
+   */
+  schemaSource?: "config" | "content-config" | "detected";
   /** URL pattern for preview links */
   previewUrl?: string;
+  /** Editorial workflow (when enabled for the collection) */
+  workflow?: CollectionWorkflow;
+}
+
+/**
+ * Frontmatter field that failed schema validation
+ */
+export interface FrontmatterFieldError {
+  /** Field path (e.g. "title", "seo.image", "tags[2]") */
+  field: string;
+  /** Human-readable reason */
+  message: string;
 }
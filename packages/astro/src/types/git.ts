@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Git type definitions for @writenex/astro
+ *
+ * This file contains all TypeScript type definitions related to the Git
+ * status of content entries.
+ *
+ * @module @writenex/astro/types/git
+ */
+
+/**
+ * Git status of a file, relative to the last commit
+ *
+ * - `new`: added to the index but not committed yet
+ * - `modified`: changed since the last commit
+ * - `deleted`: removed since the last commit
+ * - `untracked`: not known to Git
+ */
+export type GitFileStatus = "new" | "modified" | "deleted" | "untracked";
+
+/**
+ * Uncommitted changes of a content entry
+ */
+export interface GitEntryStatus {
+  /** Collection name */
+  collection: string;
+  /** Content ID */
+  id: string;
+  /** Status of the content file, or `modified` if only its assets changed */
+  status: GitFileStatus;
+  /** Project-relative paths of the changed files (content file and assets) */
+  files: string[];
+}
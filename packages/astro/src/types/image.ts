@@ -7,6 +7,8 @@
  * @module @writenex/astro/types/image
  */
 
+import type { ContentRef } from "./link";
+
 /**
  * Discovered image metadata
  *
@@ -46,3 +48,43 @@ export interface ImageDiscoveryResult {
   /** Error message if failed */
   error?: string;
 }
+
+/**
+ * Where a media library image is stored
+ *
+ * - `collection`: inside a content collection folder
+ * - `public`: inside the project's `public/` directory
+ */
+export type MediaSource = "collection" | "public";
+
+/**
+ * An image in the project-wide media library
+ */
+export interface MediaItem {
+  /** Project-relative path with forward slashes (e.g., "public/images/hero.jpg") */
+  path: string;
+  /** Filename (e.g., "hero.jpg") */
+  filename: string;
+  /** File extension (lowercase, with dot, e.g., ".jpg") */
+  extension: string;
+  /** File size in bytes */
+  size: number;
+  /** Last modification time in milliseconds */
+  mtime: number;
+  /** Width in pixels (if known) */
+  width?: number;
+  /** Height in pixels (if known) */
+  height?: number;
+  /** Where the image is stored */
+  source: MediaSource;
+  /** Collection containing the image (collection images only) */
+  collection?: string;
+  /** Site URL of the image (public images only, e.g., "/images/hero.jpg") */
+  url?: string;
+  /** Path to use in the requested entry's Markdown (when an entry was given) */
+  reference?: string;
+  /** Entries that reference the image */
+  usedBy: ContentRef[];
+  /** Whether no content entry references the image */
+  orphaned: boolean;
+}
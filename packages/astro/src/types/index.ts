@@ -13,12 +13,28 @@ export type {
   SchemaField,
   CollectionSchema,
   ImageStrategy,
+  ImageOutputFormat,
+  ImageOptimizeConfig,
   ImageConfig,
   CollectionConfig,
   DiscoveryConfig,
   EditorConfig,
+  GitConfig,
+  WorkflowConfig,
+  WorkflowState,
+  CollectionWorkflow,
+  ScheduleConfig,
+  MdxComponentConfig,
+  MdxComponentProp,
+  MdxComponentPropType,
   WritenexConfig,
   WritenexOptions,
+  WritenexAuthOptions,
+  WritenexRole,
+  PermissionsConfig,
+  CollectionPermissionsConfig,
+  AuthUser,
+  AuthVerifier,
   ResolvedConfig,
 } from "./config";
 
@@ -27,6 +43,7 @@ export type {
   ContentItem,
   ContentSummary,
   DiscoveredCollection,
+  FrontmatterFieldError,
 } from "./content";
 
 // API response types
@@ -35,7 +52,25 @@ export type {
   ContentListResponse,
   ContentResponse,
   MutationResponse,
+  BatchAction,
+  BatchRequest,
+  BatchItemResult,
+  BatchResponse,
+  ContentLinksResponse,
+  BrokenLinksResponse,
+  MediaResponse,
+  TimelineResponse,
+  TrashResponse,
   ImageUploadResponse,
+  ContentChangeEvent,
+  ConfigChangeEvent,
+  Permission,
+  RolePermissions,
+  SessionResponse,
+  GitStatusResponse,
+  GitDiffResponse,
+  GitCommitRequest,
+  GitCommitResponse,
 } from "./api";
 
 // Version history types
@@ -44,15 +79,43 @@ export type {
   VersionManifest,
   Version,
   VersionHistoryConfig,
+  VersionRetentionConfig,
   VersionResult,
   SaveVersionOptions,
   RestoreVersionOptions,
   RestoreResult,
+  VersionStorageReport,
+  TimelineEntry,
+  TrashEntry,
 } from "./version";
 
+// Merge types
+export type {
+  MergeSource,
+  FrontmatterConflict,
+  ResolvedMergeSegment,
+  ConflictMergeSegment,
+  MergeSegment,
+  ContentMergeResult,
+} from "./merge";
+
+// Link index types
+export type {
+  ContentRef,
+  LinkKind,
+  BrokenLinkReason,
+  ContentLink,
+  LinkIndex,
+} from "./link";
+
+// Git types
+export type { GitFileStatus, GitEntryStatus } from "./git";
+
 // Image types
 export type {
   DiscoveredImage,
   ImageDiscoveryOptions,
   ImageDiscoveryResult,
+  MediaSource,
+  MediaItem,
 } from "./image";
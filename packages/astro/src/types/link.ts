@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Link index type definitions for @writenex/astro
+ *
+ * This file contains all TypeScript type definitions related to the index
+ * of links between content entries, used for backlinks and broken-link
+ * reports.
+ *
+ * @module @writenex/astro/types/link
+ */
+
+/**
+ * A content entry addressed by collection and ID
+ */
+export interface ContentRef {
+  /** Collection name */
+  collection: string;
+  /** Content ID */
+  id: string;
+}
+
+/**
+ * Where a link was found
+ *
+ * - `link`: Markdown link or `href` in the body
+ * - `image`: image in the body or an `image` frontmatter field
+ * - `reference`: `reference` frontmatter field
+ */
+export type LinkKind = "link" | "image" | "reference";
+
+/**
+ * Why a link is broken
+ *
+ * - `missing-entry`: points at a content entry that does not exist
+ * - `missing-image`: points at an image file that does not exist
+ * - `missing-file`: points at another local file that does not exist
+ */
+export type BrokenLinkReason =
+  | "missing-entry"
+  | "missing-image"
+  | "missing-file";
+
+/**
+ * A link from one content entry to an entry, image or file
+ */
+export interface ContentLink {
+  /** Entry containing the link */
+  source: ContentRef;
+  /** Kind of link */
+  kind: LinkKind;
+  /** URL or reference value as written */
+  url: string;
+  /** Frontmatter field holding the link (frontmatter links only) */
+  field?: string;
+  /** Linked entry, when the link points at content */
+  target?: ContentRef;
+  /** Project-relative path of the linked local file, when it is not an entry */
+  file?: string;
+  /** Whether the link target does not exist */
+  broken: boolean;
+  /** Why the link is broken */
+  reason?: BrokenLinkReason;
+}
+
+/**
+ * Index of all links between content entries
+ */
+export interface LinkIndex {
+  /** Every link found, in collection and entry order */
+  links: ContentLink[];
+  /** ISO timestamp of when the index was built */
+  builtAt: string;
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Three-way merge type definitions for @writenex/astro
+ *
+ * This file contains all TypeScript type definitions related to merging
+ * concurrent edits of a content item, including frontmatter conflicts,
+ * body merge segments, and the combined merge result.
+ *
+ * @module @writenex/astro/types/merge
+ */
+
+/**
+ * One side of a three-way merge (frontmatter and body)
+ */
+export interface MergeSource {
+  /** Frontmatter data */
+  frontmatter: Record<string, unknown>;
+  /** Markdown body content */
+  body: string;
+}
+
+/**
+ * A frontmatter key changed differently on both sides
+ */
+export interface FrontmatterConflict {
+  /** Frontmatter key */
+  key: string;
+  /** Value in the common ancestor (undefined if absent) */
+  base: unknown;
+  /** Value in the editor's copy (undefined if removed) */
+  ours: unknown;
+  /** Value on disk (undefined if removed) */
+  theirs: unknown;
+}
+
+/**
+ * A run of body lines that merged cleanly
+ */
+export interface ResolvedMergeSegment {
+  type: "resolved";
+  /** Merged lines */
+  lines: string[];
+}
+
+/**
+ * A run of body lines changed differently on both sides
+ */
+export interface ConflictMergeSegment {
+  type: "conflict";
+  /** Lines in the common ancestor */
+  base: string[];
+  /** Lines in the editor's copy */
+  ours: string[];
+  /** Lines on disk */
+  theirs: string[];
+}
+
+/**
+ * Segment of a merged body
+ */
+export type MergeSegment = ResolvedMergeSegment | ConflictMergeSegment;
+
+/**
+ * Result of a three-way merge of a content item
+ */
+export interface ContentMergeResult {
+  /** Merged frontmatter (conflicting keys use the editor's value) */
+  frontmatter: Record<string, unknown>;
+  /** Merged body (conflicting hunks use the editor's lines) */
+  body: string;
+  /** Frontmatter keys that could not be merged automatically */
+  frontmatterConflicts: FrontmatterConflict[];
+  /** Body split into resolved and conflicting segments */
+  segments: MergeSegment[];
+  /** Whether any conflicts remain */
+  hasConflicts: boolean;
+}
@@ -21,8 +21,14 @@ export interface VersionEntry {
   preview: string;
   /** File size in bytes */
   size: number;
+  /** Bytes used in storage (the diff for versions stored as one) */
+  storedSize?: number;
+  /** ID of the version this one is stored as a diff against (full copy if absent) */
+  base?: string;
   /** Optional label for manual snapshots */
   label?: string;
+  /** Kept forever: never removed by pruning (set from the history panel) */
+  pinned?: boolean;
 }
 
 /**
@@ -68,6 +74,89 @@ export interface VersionHistoryConfig {
   maxVersions?: number;
   /** Storage path relative to project root (default: ".writenex/versions") */
   storagePath?: string;
+  /**
+   * Store every Nth version as a full copy and the others as diffs against
+   * the previous version; 1 stores full copies only (default: 10)
+   */
+  keyframeInterval?: number;
+  /** Time-based retention rules (replace `maxVersions` when enabled) */
+  retention?: VersionRetentionConfig;
+}
+
+/**
+ * Time-based version retention
+ *
+ * Pruning keeps every recent version, then thins older ones out to one per
+ * hour and one per day. Labeled and pinned versions, and the newest
+ * version, are always kept.
+ */
+export interface VersionRetentionConfig {
+  /** Whether the rules apply (default: true when `retention` is set) */
+  enabled?: boolean;
+  /** Keep every version saved within this many hours (default: 24) */
+  keepAllHours?: number;
+  /** Keep the newest version of each hour within this many days (default: 7) */
+  hourlyDays?: number;
+  /** Keep the newest version of each day within this many days (default: 30) */
+  dailyDays?: number;
+}
+
+/**
+ * Version storage use of a collection
+ */
+export interface VersionStorageReport {
+  /** Collection name */
+  collection: string;
+  /** Content items with version history */
+  entries: number;
+  /** Number of versions */
+  versions: number;
+  /** Versions stored as full copies */
+  keyframes: number;
+  /** Versions stored as diffs */
+  deltas: number;
+  /** Total size of the versions in bytes */
+  size: number;
+  /** Bytes used in storage */
+  storedSize: number;
+}
+
+/**
+ * Version in the project-wide timeline
+ */
+export interface TimelineEntry extends VersionEntry {
+  /** Collection name */
+  collection: string;
+  /** Content item ID (slug) */
+  contentId: string;
+  /** Whether the entry's file is gone (set by the API) */
+  deleted?: boolean;
+}
+
+/**
+ * Deleted entry whose version history remains
+ *
+ * Entries deleted from Writenex keep their file path and colocated
+ * images with the history; files removed by other means only have the
+ * history.
+ */
+export interface TrashEntry {
+  /** Collection name */
+  collection: string;
+  /** Content item ID (slug) */
+  contentId: string;
+  /** Title from the newest version */
+  title?: string;
+  /** When the entry was deleted (only for entries deleted from Writenex) */
+  deletedAt?: string;
+  /** File path relative to the collection (only for entries deleted from Writenex) */
+  path?: string;
+  /** Whether colocated images are kept for restoring */
+  hasImages: boolean;
+  /** Number of versions */
+  versions: number;
+  /** Newest version, restored as the entry's content */
+  latest: VersionEntry;
 }
 
 /**
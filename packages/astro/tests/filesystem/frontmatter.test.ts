@@ -0,0 +1,100 @@
+import matter from "gray-matter";
+import { describe, expect, it } from "vitest";
+import {
+  serializeFrontmatter,
+  stringifyContent,
+  stringifyYaml,
+} from "@/filesystem/frontmatter";
+
+/**
+ * Parse file content the way entries are read from disk
+ */
+function read(raw: string) {
+  const { data, content } = matter(raw, {});
+  return { raw, frontmatter: data, body: content };
+}
+
+describe("serializeFrontmatter", () => {
+  it("quotes strings that YAML would read as another type", () => {
+    const frontmatter = {
+      title: "2024-01-15",
+      updated: "2024-01-15T10:00:00Z",
+      version: "1.0",
+      count: "42",
+      flag: "true",
+      empty: "null",
+    };
+
+    const yaml = serializeFrontmatter(frontmatter);
+
+    expect(yaml).toContain('title: "2024-01-15"');
+    expect(read(`---\n${yaml}\n---\n`).frontmatter).toEqual(frontmatter);
+  });
+
+  it("writes dates as unquoted timestamps", () => {
+    const yaml = serializeFrontmatter({
+      pubDate: new Date("2024-01-15T00:00:00.000Z"),
+    });
+
+    expect(yaml).toBe("pubDate: 2024-01-15");
+    expect(read(`---\n${yaml}\n---\n`).frontmatter.pubDate).toBeInstanceOf(
+      Date
+    );
+  });
+});
+
+describe("stringifyContent", () => {
+  const raw = [
+    "---",
+    "# Post settings",
+    "title: 'Hello'   # shown in lists",
+    "pubDate: 2024-01-15",
+    'tags: [a, "b"]',
+    "---",
+    "",
+    "Body text.",
+    "",
+  ].join("\n");
+
+  it("writes unchanged content back byte for byte", () => {
+    const item = read(raw);
+
+    expect(stringifyContent(item.frontmatter, item.body, item)).toBe(raw);
+  });
+
+  it("keeps a date field a timestamp when the editor sends a string", () => {
+    const item = read(raw);
+
+    const content = stringifyContent(
+      { ...item.frontmatter, pubDate: "2024-01-15", title: "Changed" },
+      item.body,
+      item
+    );
+
+    expect(content).toContain("pubDate: 2024-01-15\n");
+    expect(content).toContain("# Post settings");
+    expect(read(content).frontmatter.pubDate).toBeInstanceOf(Date);
+  });
+
+  it("round-trips a date-like string as a string", () => {
+    const item = read(raw);
+
+    const content = stringifyContent(
+      { ...item.frontmatter, title: "2024-02-01" },
+      item.body,
+      item
+    );
+
+    expect(read(content).frontmatter.title).toBe("2024-02-01");
+    expect(read(content).frontmatter.pubDate).toBeInstanceOf(Date);
+  });
+});
+
+describe("stringifyYaml", () => {
+  it("round-trips a date-like string in a data file", () => {
+    const content = stringifyYaml({ name: "Ann", joined: "2024-01-15" });
+    const data = read(`---\n${content}---\n`).frontmatter;
+
+    expect(data).toEqual({ name: "Ann", joined: "2024-01-15" });
+  });
+});
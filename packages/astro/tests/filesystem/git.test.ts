@@ -0,0 +1,212 @@
+import { execFileSync } from "node:child_process";
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  commitGitChanges,
+  getGitDiff,
+  getGitStatus,
+  isGitRepository,
+} from "@/filesystem/git";
+import type { DiscoveredCollection } from "@/types";
+
+let root: string;
+let project: string;
+let remote: string;
+
+const collections: DiscoveredCollection[] = [
+  {
+    name: "blog",
+    path: "src/content/blog",
+    filePattern: "{slug}.md",
+    count: 0,
+  },
+];
+
+/**
+ * Run git in a directory and return its trimmed output
+ */
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+}
+
+/**
+ * Write a file in the project, creating its directory
+ */
+function write(path: string, content: string): void {
+  mkdirSync(join(project, path, ".."), { recursive: true });
+  writeFileSync(join(project, path), content);
+}
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "writenex-git-"));
+  project = join(root, "project");
+  remote = join(root, "remote.git");
+
+  git(root, "init", "--bare", "--initial-branch=main", remote);
+  git(root, "init", "--initial-branch=main", project);
+  git(project, "config", "user.name", "Writenex Test");
+  git(project, "config", "user.email", "test@example.com");
+  git(project, "remote", "add", "origin", remote);
+
+  write("src/content/blog/kept.md", "# Kept\n");
+  write("src/content/blog/edited.md", "# Edited\n");
+  write("src/content/blog/removed.md", "# Removed\n");
+  write("src/pages/index.astro", "<h1>Home</h1>\n");
+  git(project, "add", "--all");
+  git(project, "commit", "--message", "Initial commit");
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("getGitStatus", () => {
+  it("maps changed files to content entries", async () => {
+    write("src/content/blog/edited.md", "# Edited again\n");
+    unlinkSync(join(project, "src/content/blog/removed.md"));
+    write("src/content/blog/added.md", "# Added\n");
+    git(project, "add", "src/content/blog/added.md");
+    write("src/content/blog/draft/index.md", "# Draft\n");
+    write("src/content/blog/draft/cover.png", "png");
+    write("src/pages/index.astro", "<h1>Changed</h1>\n");
+
+    const status = await getGitStatus({
+      projectRoot: project,
+      collections,
+      config: { remote: "origin" },
+    });
+
+    expect(status).toMatchObject({
+      repository: true,
+      branch: "main",
+      remote: "origin",
+    });
+    expect(status.entries).toEqual([
+      {
+        collection: "blog",
+        id: "added",
+        status: "new",
+        files: ["src/content/blog/added.md"],
+      },
+      {
+        collection: "blog",
+        id: "draft",
+        status: "untracked",
+        files: expect.arrayContaining([
+          "src/content/blog/draft/index.md",
+          "src/content/blog/draft/cover.png",
+        ]),
+      },
+      {
+        collection: "blog",
+        id: "edited",
+        status: "modified",
+        files: ["src/content/blog/edited.md"],
+      },
+      {
+        collection: "blog",
+        id: "removed",
+        status: "deleted",
+        files: ["src/content/blog/removed.md"],
+      },
+    ]);
+  });
+
+  it("reports a directory outside a repository", async () => {
+    const outside = mkdtempSync(join(tmpdir(), "writenex-no-git-"));
+    try {
+      expect(await isGitRepository(outside)).toBe(false);
+      expect(
+        await getGitStatus({ projectRoot: outside, collections, config: {} })
+      ).toEqual({ repository: false, branch: null, remote: null, entries: [] });
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("getGitDiff", () => {
+  it("returns the committed and current content", async () => {
+    write("src/content/blog/edited.md", "# Edited again\n");
+
+    const diff = await getGitDiff(
+      project,
+      join(project, "src/content/blog/edited.md")
+    );
+
+    expect(diff).toEqual({
+      path: "src/content/blog/edited.md",
+      status: "modified",
+      original: "# Edited\n",
+      current: "# Edited again\n",
+    });
+  });
+});
+
+describe("commitGitChanges", () => {
+  it("commits only the selected files", async () => {
+    write("src/content/blog/edited.md", "# Edited again\n");
+    unlinkSync(join(project, "src/content/blog/removed.md"));
+    write("src/content/blog/other.md", "# Other\n");
+    git(project, "add", "src/content/blog/other.md");
+
+    const result = await commitGitChanges({
+      projectRoot: project,
+      files: ["src/content/blog/edited.md", "src/content/blog/removed.md"],
+      message: "Update posts",
+    });
+
+    expect(result).toMatchObject({ success: true, pushed: false });
+    expect(result.commit).toBe(git(project, "rev-parse", "HEAD"));
+    expect(git(project, "show", "--name-status", "--format=%s", "HEAD")).toBe(
+      [
+        "Update posts",
+        "",
+        "M\tsrc/content/blog/edited.md",
+        "D\tsrc/content/blog/removed.md",
+      ].join("\n")
+    );
+    // Changes staged for other files stay staged
+    expect(git(project, "diff", "--cached", "--name-only")).toBe(
+      "src/content/blog/other.md"
+    );
+  });
+
+  it("pushes the commit to the remote", async () => {
+    write("src/content/blog/edited.md", "# Edited again\n");
+
+    const result = await commitGitChanges({
+      projectRoot: project,
+      files: ["src/content/blog/edited.md"],
+      message: "Update post",
+      push: { remote: "origin", branch: "main" },
+    });
+
+    expect(result).toMatchObject({ success: true, pushed: true });
+    expect(git(remote, "rev-parse", "main")).toBe(result.commit);
+  });
+
+  it("keeps the commit when the push fails", async () => {
+    write("src/content/blog/edited.md", "# Edited again\n");
+
+    const result = await commitGitChanges({
+      projectRoot: project,
+      files: ["src/content/blog/edited.md"],
+      message: "Update post",
+      push: { remote: join(root, "missing.git") },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.pushed).toBe(false);
+    expect(result.pushError).toBeTruthy();
+    expect(git(project, "rev-parse", "HEAD")).toBe(result.commit);
+  });
+});
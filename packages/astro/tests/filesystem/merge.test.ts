@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeHunks,
+  MAX_DIFF_CELLS,
+  mergeContent,
+  mergeFrontmatter,
+  mergeText,
+} from "@/filesystem/merge";
+
+describe("mergeFrontmatter", () => {
+  it("merges keys changed on different sides", () => {
+    const { merged, conflicts } = mergeFrontmatter(
+      { title: "A", draft: true, tags: ["x"] },
+      { title: "B", draft: true, tags: ["x"] },
+      { title: "A", draft: false, tags: ["x"], author: "ann" }
+    );
+
+    expect(merged).toEqual({
+      title: "B",
+      draft: false,
+      tags: ["x"],
+      author: "ann",
+    });
+    expect(conflicts).toEqual([]);
+  });
+
+  it("drops a key removed on one side and untouched on the other", () => {
+    const { merged } = mergeFrontmatter(
+      { title: "A", subtitle: "S" },
+      { title: "A" },
+      { title: "A", subtitle: "S" }
+    );
+
+    expect(merged).toEqual({ title: "A" });
+  });
+
+  it("reports a key changed differently on both sides", () => {
+    const { merged, conflicts } = mergeFrontmatter(
+      { title: "A" },
+      { title: "B" },
+      { title: "C" }
+    );
+
+    expect(merged).toEqual({ title: "B" });
+    expect(conflicts).toEqual([
+      { key: "title", base: "A", ours: "B", theirs: "C" },
+    ]);
+  });
+
+  it("treats a date-only string as the date YAML parses it to", () => {
+    const parsed = new Date("2024-01-15T00:00:00.000Z");
+    const { merged, conflicts } = mergeFrontmatter(
+      { pubDate: parsed, title: "A" },
+      { pubDate: "2024-01-15", title: "B" },
+      { pubDate: parsed, title: "A" }
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(merged.title).toBe("B");
+  });
+
+  it("still sees a different date as a change", () => {
+    const parsed = new Date("2024-01-15T00:00:00.000Z");
+    const { merged, conflicts } = mergeFrontmatter(
+      { pubDate: parsed },
+      { pubDate: "2024-01-16" },
+      { pubDate: new Date("2024-02-01T00:00:00.000Z") }
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(merged.pubDate).toBe("2024-01-16");
+  });
+});
+
+describe("mergeText", () => {
+  it("merges edits to different lines", () => {
+    const segments = mergeText("a\nb\nc\nd", "A\nb\nc\nd", "a\nb\nc\nD");
+
+    expect(segments).toEqual([
+      { type: "resolved", lines: ["A", "b", "c", "D"] },
+    ]);
+  });
+
+  it("accepts the same change made on both sides", () => {
+    const segments = mergeText("a\nb\nc", "a\nB\nc", "a\nB\nc");
+
+    expect(segments).toEqual([{ type: "resolved", lines: ["a", "B", "c"] }]);
+  });
+
+  it("reports lines changed differently on both sides", () => {
+    const segments = mergeText(
+      "a\nb\nc\nd",
+      "a\nours\nc\nD",
+      "a\ntheirs\nc\nd"
+    );
+
+    expect(segments).toEqual([
+      { type: "resolved", lines: ["a"] },
+      { type: "conflict", base: ["b"], ours: ["ours"], theirs: ["theirs"] },
+      { type: "resolved", lines: ["c", "D"] },
+    ]);
+  });
+
+  it("reports insertions at the same position", () => {
+    const segments = mergeText("a\nb", "a\nx\nb", "a\ny\nb");
+
+    expect(segments).toContainEqual({
+      type: "conflict",
+      base: [],
+      ours: ["x"],
+      theirs: ["y"],
+    });
+  });
+});
+
+describe("computeHunks", () => {
+  it("returns the changed lines without the shared start and end", () => {
+    const hunks = computeHunks(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"]);
+
+    expect(hunks).toEqual([
+      { baseStart: 1, baseEnd: 2, lines: ["x"] },
+      { baseStart: 4, baseEnd: 4, lines: ["e"] },
+    ]);
+  });
+
+  it("returns no hunks for identical lines", () => {
+    expect(computeHunks(["a", "b"], ["a", "b"])).toEqual([]);
+  });
+
+  it("replaces a region above MAX_DIFF_CELLS with a single hunk", () => {
+    const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1;
+    const base = ["first", ...lines("base", size), "last"];
+    const other = ["first", ...lines("other", size), "last"];
+    // A line in common would otherwise split the region
+    const middle = Math.floor(size / 2);
+    base[middle] = "shared";
+    other[middle] = "shared";
+
+    const hunks = computeHunks(base, other);
+
+    expect(hunks).toEqual([
+      { baseStart: 1, baseEnd: size + 1, lines: other.slice(1, size + 1) },
+    ]);
+  });
+
+  it("makes a large region changed on both sides a conflict", () => {
+    const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1;
+    const base = lines("base", size).join("\n");
+    const ours = lines("ours", size).join("\n");
+    const theirs = lines("theirs", size).join("\n");
+
+    const result = mergeContent(
+      { frontmatter: {}, body: base },
+      { frontmatter: {}, body: ours },
+      { frontmatter: {}, body: theirs }
+    );
+
+    expect(result.hasConflicts).toBe(true);
+    expect(result.body).toBe(ours);
+  });
+});
+
+/**
+ * Numbered lines with a prefix
+ */
+function lines(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix} ${i}`);
+}
@@ -0,0 +1,101 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import matter from "gray-matter";
+import { DEFAULT_VERSION_HISTORY_CONFIG } from "@/config/defaults";
+import { publishScheduledContent } from "@/filesystem/schedule";
+import { getVersion, getVersions } from "@/filesystem/versions";
+import type { DiscoveredCollection } from "@/types";
+
+let projectRoot: string;
+let filePath: string;
+
+const collections: DiscoveredCollection[] = [
+  {
+    name: "blog",
+    path: "src/content/blog",
+    filePattern: "{slug}.md",
+    count: 1,
+  },
+];
+
+const raw = [
+  "---",
+  "# Scheduled post",
+  "title: Launch",
+  "pubDate: 2024-01-15",
+  "draft: true",
+  "publishAt: 2024-03-01T09:00:00Z",
+  "---",
+  "",
+  "Coming soon.",
+  "",
+].join("\n");
+
+beforeEach(() => {
+  projectRoot = mkdtempSync(join(tmpdir(), "writenex-schedule-"));
+  mkdirSync(join(projectRoot, "src/content/blog"), { recursive: true });
+  filePath = join(projectRoot, "src/content/blog/launch.md");
+  writeFileSync(filePath, raw);
+});
+
+afterEach(() => {
+  rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("publishScheduledContent", () => {
+  it("leaves entries that are not due yet", async () => {
+    const results = await publishScheduledContent({
+      projectRoot,
+      collections,
+      now: new Date("2024-02-01T00:00:00.000Z"),
+    });
+
+    expect(results).toEqual([]);
+    expect(readFileSync(filePath, "utf-8")).toBe(raw);
+  });
+
+  it("publishes due entries after a verbatim labelled snapshot", async () => {
+    const results = await publishScheduledContent({
+      projectRoot,
+      collections,
+      versionHistoryConfig: DEFAULT_VERSION_HISTORY_CONFIG,
+      now: new Date("2024-03-02T00:00:00.000Z"),
+    });
+
+    expect(results).toEqual([
+      {
+        collection: "blog",
+        id: "launch",
+        publishAt: "2024-03-01T09:00:00.000Z",
+        published: true,
+      },
+    ]);
+    const { data } = matter(readFileSync(filePath, "utf-8"), {});
+    expect(data.draft).toBe(false);
+    expect(data.publishAt).toBeUndefined();
+
+    const [snapshot] = await getVersions(
+      projectRoot,
+      "blog",
+      "launch",
+      DEFAULT_VERSION_HISTORY_CONFIG
+    );
+    expect(snapshot?.label).toBe("Before scheduled publish");
+    const version = await getVersion(
+      projectRoot,
+      "blog",
+      "launch",
+      snapshot!.id,
+      DEFAULT_VERSION_HISTORY_CONFIG
+    );
+    expect(version?.content).toBe(raw);
+  });
+});
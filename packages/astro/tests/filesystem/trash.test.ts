@@ -0,0 +1,82 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_VERSION_HISTORY_CONFIG } from "@/config/defaults";
+import { listTrash, moveToTrash, restoreFromTrash } from "@/filesystem/trash";
+import { getVersions } from "@/filesystem/versions";
+import type { TrashOptions } from "@/filesystem/trash";
+
+let projectRoot: string;
+let options: TrashOptions;
+
+const raw = [
+  "---",
+  "# Post settings",
+  "title: 'Hello'   # shown in lists",
+  "pubDate: 2024-01-15",
+  'tags: [a, "b"]',
+  "---",
+  "",
+  "Body text.",
+  "",
+].join("\n");
+
+beforeEach(() => {
+  projectRoot = mkdtempSync(join(tmpdir(), "writenex-trash-"));
+  const collectionPath = join(projectRoot, "src/content/blog");
+  mkdirSync(collectionPath, { recursive: true });
+  options = {
+    projectRoot,
+    collection: "blog",
+    collectionPath,
+    versionHistoryConfig: DEFAULT_VERSION_HISTORY_CONFIG,
+  };
+});
+
+afterEach(() => {
+  rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("moveToTrash and restoreFromTrash", () => {
+  it("restores a deleted entry byte for byte", async () => {
+    const filePath = join(options.collectionPath, "post.md");
+    writeFileSync(filePath, raw);
+
+    expect((await moveToTrash(filePath, options)).success).toBe(true);
+    expect(existsSync(filePath)).toBe(false);
+
+    const trash = await listTrash(
+      projectRoot,
+      { blog: options.collectionPath },
+      DEFAULT_VERSION_HISTORY_CONFIG
+    );
+    expect(trash).toMatchObject([{ collection: "blog", contentId: "post" }]);
+
+    expect((await restoreFromTrash("post", options)).success).toBe(true);
+    expect(readFileSync(filePath, "utf-8")).toBe(raw);
+  });
+
+  it("keeps the snapshot label in the manifest only", async () => {
+    const filePath = join(options.collectionPath, "post.md");
+    writeFileSync(filePath, raw);
+
+    await moveToTrash(filePath, options);
+
+    const [snapshot] = await getVersions(
+      projectRoot,
+      "blog",
+      "post",
+      DEFAULT_VERSION_HISTORY_CONFIG
+    );
+    expect(snapshot?.label).toBe("Before delete");
+    expect(snapshot?.size).toBe(Buffer.byteLength(raw));
+  });
+});
@@ -0,0 +1,298 @@
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_VERSION_HISTORY_CONFIG } from "@/config/defaults";
+import {
+  compactVersions,
+  deleteVersion,
+  getVersion,
+  getVersions,
+  getVersionStoragePath,
+  saveVersion,
+  selectVersionsToPrune,
+} from "@/filesystem/versions";
+import type { VersionEntry, VersionHistoryConfig } from "@/types";
+
+let projectRoot: string;
+
+const config: Required<VersionHistoryConfig> = {
+  ...DEFAULT_VERSION_HISTORY_CONFIG,
+  maxVersions: 50,
+  keyframeInterval: 3,
+};
+
+/**
+ * Content of the nth saved version: a long post with one line changed,
+ * so diffs are smaller than full copies
+ */
+function contentOf(n: number): string {
+  const lines = Array.from({ length: 40 }, (_, i) => `Paragraph ${i}.`);
+  lines[20] = `Edited ${n} times.`;
+  return `---\ntitle: Post\npubDate: 2024-01-15 # first published\n---\n\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Save versions of the post, one second apart
+ */
+async function saveVersions(
+  count: number,
+  options: Required<VersionHistoryConfig> = config
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (let n = 0; n < count; n++) {
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 15, 10, 0, n)));
+    const result = await saveVersion(
+      projectRoot,
+      "blog",
+      "post",
+      contentOf(n),
+      options
+    );
+    expect(result.success).toBe(true);
+    ids.push(result.version!.id);
+  }
+  return ids;
+}
+
+/**
+ * Manifest entries by version ID
+ */
+async function getEntries(): Promise<Map<string, VersionEntry>> {
+  const versions = await getVersions(projectRoot, "blog", "post", config);
+  return new Map(versions.map((v) => [v.id, v]));
+}
+
+/**
+ * Check how a version is stored on disk
+ */
+function storedAs(versionId: string): "full" | "delta" | "missing" {
+  const storagePath = getVersionStoragePath(
+    projectRoot,
+    "blog",
+    "post",
+    config
+  );
+  if (existsSync(join(storagePath, `${versionId}.md`))) return "full";
+  if (existsSync(join(storagePath, `${versionId}.delta`))) return "delta";
+  return "missing";
+}
+
+/**
+ * Read a version back as it was saved
+ */
+async function readBack(versionId: string): Promise<string | undefined> {
+  const version = await getVersion(
+    projectRoot,
+    "blog",
+    "post",
+    versionId,
+    config
+  );
+  return version?.content;
+}
+
+beforeEach(() => {
+  projectRoot = mkdtempSync(join(tmpdir(), "writenex-versions-"));
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("saveVersion", () => {
+  it("stores keyframes every keyframeInterval versions and diffs between", async () => {
+    const ids = await saveVersions(5);
+    const entries = await getEntries();
+
+    expect(ids.map(storedAs)).toEqual([
+      "full",
+      "delta",
+      "delta",
+      "full",
+      "delta",
+    ]);
+    expect(ids.map((id) => entries.get(id)?.base)).toEqual([
+      undefined,
+      ids[0],
+      ids[1],
+      undefined,
+      ids[3],
+    ]);
+    expect(entries.get(ids[1]!)!.storedSize).toBeLessThan(
+      entries.get(ids[1]!)!.size
+    );
+  });
+
+  it("reads back every version byte for byte", async () => {
+    const ids = await saveVersions(5);
+
+    for (const [n, id] of ids.entries()) {
+      expect(await readBack(id)).toBe(contentOf(n));
+    }
+  });
+});
+
+describe("deleteVersion", () => {
+  it("rebases a diff onto the base of a deleted diff", async () => {
+    const ids = await saveVersions(3);
+
+    const result = await deleteVersion(
+      projectRoot,
+      "blog",
+      "post",
+      ids[1]!,
+      config
+    );
+    expect(result.success).toBe(true);
+
+    const entries = await getEntries();
+    expect(entries.has(ids[1]!)).toBe(false);
+    expect(entries.get(ids[2]!)?.base).toBe(ids[0]);
+    expect(storedAs(ids[1]!)).toBe("missing");
+    expect(await readBack(ids[0]!)).toBe(contentOf(0));
+    expect(await readBack(ids[2]!)).toBe(contentOf(2));
+  });
+
+  it("turns the diffs of a deleted keyframe into full copies", async () => {
+    const ids = await saveVersions(3);
+
+    await deleteVersion(projectRoot, "blog", "post", ids[0]!, config);
+
+    const entries = await getEntries();
+    expect(entries.get(ids[1]!)?.base).toBeUndefined();
+    expect(storedAs(ids[1]!)).toBe("full");
+    expect(entries.get(ids[2]!)?.base).toBe(ids[1]);
+    expect(await readBack(ids[1]!)).toBe(contentOf(1));
+    expect(await readBack(ids[2]!)).toBe(contentOf(2));
+  });
+});
+
+describe("compactVersions", () => {
+  it("migrates a history of full copies to diffs and back", async () => {
+    // Histories saved before diffs were introduced hold only full copies
+    const ids = await saveVersions(5, { ...config, keyframeInterval: 1 });
+    expect(ids.map(storedAs)).toEqual(Array(5).fill("full"));
+
+    expect(
+      (await compactVersions(projectRoot, "blog", "post", config)).success
+    ).toBe(true);
+    expect(ids.map(storedAs)).toEqual([
+      "full",
+      "delta",
+      "delta",
+      "full",
+      "delta",
+    ]);
+    for (const [n, id] of ids.entries()) {
+      expect(await readBack(id)).toBe(contentOf(n));
+    }
+
+    await compactVersions(projectRoot, "blog", "post", {
+      ...config,
+      keyframeInterval: 1,
+    });
+    const entries = await getEntries();
+    expect(ids.map(storedAs)).toEqual(Array(5).fill("full"));
+    expect(ids.every((id) => entries.get(id)?.base === undefined)).toBe(true);
+    for (const [n, id] of ids.entries()) {
+      expect(await readBack(id)).toBe(contentOf(n));
+    }
+  });
+});
+
+describe("selectVersionsToPrune", () => {
+  /**
+   * Version entry saved at a time
+   */
+  const entry = (
+    timestamp: string,
+    extra: Partial<VersionEntry> = {}
+  ): VersionEntry => ({
+    id: timestamp.replace(/:/g, "-"),
+    timestamp,
+    preview: "",
+    size: 1,
+    ...extra,
+  });
+
+  const ids = (versions: VersionEntry[]) => versions.map((v) => v.timestamp);
+
+  it("keeps all recent versions, then hourly, then daily ones", () => {
+    const now = new Date("2024-03-01T12:00:00.000Z");
+    const versions = [
+      entry("2024-03-01T11:00:00.000Z"),
+      entry("2024-03-01T10:00:00.000Z"),
+      entry("2024-03-01T09:59:00.000Z"),
+      // Same hour, older than keepAllHours
+      entry("2024-02-29T06:40:00.000Z"),
+      entry("2024-02-29T06:10:00.000Z"),
+      // Same day, older than hourlyDays
+      entry("2024-02-20T15:00:00.000Z"),
+      entry("2024-02-20T09:00:00.000Z"),
+      // Older than dailyDays
+      entry("2024-01-21T12:00:00.000Z"),
+      entry("2024-01-20T12:00:00.000Z", { pinned: true }),
+      entry("2024-01-15T12:00:00.000Z", { label: "Before delete" }),
+    ];
+
+    const toDelete = selectVersionsToPrune(
+      versions,
+      {
+        ...config,
+        retention: {
+          enabled: true,
+          keepAllHours: 24,
+          hourlyDays: 7,
+          dailyDays: 30,
+        },
+      },
+      now
+    );
+
+    expect(ids(toDelete)).toEqual([
+      "2024-02-29T06:10:00.000Z",
+      "2024-02-20T09:00:00.000Z",
+      "2024-01-21T12:00:00.000Z",
+    ]);
+  });
+
+  it("always keeps the newest version", () => {
+    const toDelete = selectVersionsToPrune(
+      [entry("2023-01-01T00:00:00.000Z")],
+      { ...config, retention: { enabled: true, dailyDays: 1 } },
+      new Date("2024-03-01T12:00:00.000Z")
+    );
+
+    expect(toDelete).toEqual([]);
+  });
+
+  it("keeps maxVersions without retention rules, not counting pinned or labeled ones", () => {
+    const versions = [
+      entry("2024-03-01T05:00:00.000Z"),
+      entry("2024-03-01T04:00:00.000Z"),
+      entry("2024-03-01T03:00:00.000Z", { pinned: true }),
+      entry("2024-03-01T02:00:00.000Z", { label: "Before restore" }),
+      entry("2024-03-01T01:00:00.000Z"),
+      entry("2024-03-01T00:00:00.000Z"),
+    ];
+    const options = {
+      ...config,
+      maxVersions: 2,
+      retention: { enabled: false },
+    };
+
+    expect(ids(selectVersionsToPrune(versions, options))).toEqual([
+      "2024-03-01T01:00:00.000Z",
+      "2024-03-01T00:00:00.000Z",
+    ]);
+
+    // A labeled newest version does not count towards the limit
+    versions[0]!.label = "Before scheduled publish";
+    expect(ids(selectVersionsToPrune(versions, options))).toEqual([
+      "2024-03-01T00:00:00.000Z",
+    ]);
+  });
+});
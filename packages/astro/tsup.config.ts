@@ -6,6 +6,7 @@
  *
  * ## Output Structure:
  * - dist/index.js - Server-side integration entry
+ * - dist/cli.js - `writenex` command line interface
  * - dist/client/index.js - Client-side React components
  * - dist/client/styles.css - Plain CSS styles
  *
@@ -83,6 +84,7 @@ export default defineConfig([
   {
     entry: {
       index: "src/index.ts",
+      cli: "src/cli.ts",
       "config/index": "src/config/index.ts",
       "discovery/index": "src/discovery/index.ts",
       "filesystem/index": "src/filesystem/index.ts",
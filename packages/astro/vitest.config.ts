@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Vitest configuration for @writenex/astro
+ *
+ * Tests live in `tests/`, mirroring the layout of `src/`. The `@/` path
+ * alias from tsconfig.json is resolved the same way as in the build.
+ *
+ * @module @writenex/astro/vitest.config
+ */
+
+import { resolve } from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": resolve("src"),
+    },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+  },
+});